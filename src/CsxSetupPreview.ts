@@ -0,0 +1,81 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+import { CsxFileChange } from './modules/CsxSupportTypes';
+
+const PREVIEW_SCHEME = 'teapie-csx-setup';
+
+interface ChangeItem extends vscode.QuickPickItem {
+    change: CsxFileChange;
+}
+
+/**
+ * Lets the user choose which planned file changes are applied, the highlighted change is shown as a diff
+ */
+export class CsxSetupPreview {
+    private static readonly contents = new Map<string, string>();
+    private static readonly changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+
+    static register(context: vscode.ExtensionContext): void {
+        context.subscriptions.push(
+            this.changeEmitter,
+            vscode.workspace.registerTextDocumentContentProvider(PREVIEW_SCHEME, {
+                onDidChange: this.changeEmitter.event,
+                provideTextDocumentContent: uri => this.contents.get(uri.toString()) ?? ''
+            })
+        );
+    }
+
+    /**
+     * Returns the changes to apply, or undefined when the user cancelled
+     */
+    static pick(changes: CsxFileChange[], title: string): Promise<CsxFileChange[] | undefined> {
+        const items: ChangeItem[] = changes.map(change => ({
+            label: vscode.workspace.asRelativePath(change.filePath),
+            description: change.before === undefined ? 'create' : change.after === undefined ? 'delete' : 'modify',
+            detail: change.description,
+            buttons: [{ iconPath: new vscode.ThemeIcon('diff'), tooltip: 'Show changes' }],
+            change
+        }));
+
+        const quickPick = vscode.window.createQuickPick<ChangeItem>();
+        quickPick.title = title;
+        quickPick.placeholder = 'Select the changes to apply and press Enter';
+        quickPick.canSelectMany = true;
+        // The diff editor takes the focus away from the picker
+        quickPick.ignoreFocusOut = true;
+        quickPick.items = items;
+        quickPick.selectedItems = items;
+
+        return new Promise(resolve => {
+            quickPick.onDidChangeActive(active => active[0] && this.showDiff(active[0].change));
+            quickPick.onDidTriggerItemButton(event => this.showDiff(event.item.change));
+            quickPick.onDidAccept(() => {
+                resolve(quickPick.selectedItems.map(item => item.change));
+                quickPick.hide();
+            });
+            quickPick.onDidHide(() => {
+                resolve(undefined);
+                quickPick.dispose();
+            });
+            quickPick.show();
+        });
+    }
+
+    private static async showDiff(change: CsxFileChange): Promise<void> {
+        const before = this.createUri(change.filePath, 'before', change.before ?? '');
+        const after = this.createUri(change.filePath, 'after', change.after ?? '');
+        const title = `${path.basename(change.filePath)} (${change.description})`;
+        await vscode.commands.executeCommand('vscode.diff', before, after, title, { preview: true, preserveFocus: true });
+    }
+
+    /**
+     * Returns a read-only document with the content, keeping the file path so the diff editor picks its language
+     */
+    private static createUri(filePath: string, side: string, content: string): vscode.Uri {
+        const uri = vscode.Uri.file(filePath).with({ scheme: PREVIEW_SCHEME, query: side });
+        this.contents.set(uri.toString(), content);
+        this.changeEmitter.fire(uri);
+        return uri;
+    }
+}
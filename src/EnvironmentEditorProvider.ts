@@ -28,6 +28,13 @@ export class EnvironmentEditorProvider {
         return this.onEnvironmentChanged.event;
     }
 
+    /**
+     * Returns the environment selected in the status bar, or undefined if none was selected yet
+     */
+    public static getCurrentEnvironmentName(): string | undefined {
+        return this.context?.workspaceState.get<string>('teapie.currentEnvironment');
+    }
+
     private static setupStatusBar() {
         this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
         this.statusBarItem.command = 'teapie-extensions.selectEnvironment';
@@ -110,7 +117,7 @@ export class EnvironmentEditorProvider {
         }
     }
 
-    private static async getEnvironmentFile(): Promise<string | undefined> {
+    static async getEnvironmentFile(): Promise<string | undefined> {
         const workspaceFolders = vscode.workspace.workspaceFolders;
         if (!workspaceFolders) {
             return undefined;
@@ -0,0 +1,50 @@
+import * as vscode from 'vscode';
+
+import { DIAGNOSTIC_SOURCE, DiagnosticCodes } from './constants/diagnostics';
+import { HttpDiagnosticsProvider } from './HttpDiagnosticsProvider';
+import { toRange } from './utils/rangeUtils';
+
+/**
+ * Offers quick fixes for the problems reported by the HttpDiagnosticsProvider
+ */
+export class HttpCodeActionProvider implements vscode.CodeActionProvider {
+    static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    public async provideCodeActions(
+        document: vscode.TextDocument,
+        _range: vscode.Range,
+        context: vscode.CodeActionContext
+    ): Promise<vscode.CodeAction[]> {
+        const diagnostics = context.diagnostics.filter(diagnostic => diagnostic.source === DIAGNOSTIC_SOURCE);
+        if (!diagnostics.length) {
+            return [];
+        }
+
+        const problems = await HttpDiagnosticsProvider.getProblems(document);
+        const actions: vscode.CodeAction[] = [];
+        for (const diagnostic of diagnostics) {
+            const problem = problems.find(item => item.code === diagnostic.code && toRange(item.range).isEqual(diagnostic.range));
+            if (!problem) {
+                continue;
+            }
+
+            problem.fixes.forEach((fix, index) => {
+                const action = new vscode.CodeAction(fix.title, vscode.CodeActionKind.QuickFix);
+                action.edit = new vscode.WorkspaceEdit();
+                action.edit.replace(document.uri, toRange(fix.range), fix.newText);
+                action.diagnostics = [diagnostic];
+                action.isPreferred = index === 0;
+                actions.push(action);
+            });
+
+            if (problem.code === DiagnosticCodes.undefinedVariable) {
+                const name = document.getText(diagnostic.range);
+                const action = new vscode.CodeAction(`Add ${name} to the environment`, vscode.CodeActionKind.QuickFix);
+                action.command = { title: action.title, command: 'teapie-extensions.addVariableToEnvironment', arguments: [name] };
+                action.diagnostics = [diagnostic];
+                actions.push(action);
+            }
+        }
+        return actions;
+    }
+}
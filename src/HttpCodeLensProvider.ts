@@ -0,0 +1,45 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+import { HttpDocumentParser } from './modules/HttpDocumentParser';
+
+/**
+ * Shows "Send request" and "Run tests" actions above each request in HTTP files
+ */
+export class HttpCodeLensProvider implements vscode.CodeLensProvider {
+    public provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+        const requests = HttpDocumentParser.parseDocument(document).requests;
+        const hasTestScript = this.hasTestScript(document.uri.fsPath);
+        const lenses: vscode.CodeLens[] = [];
+
+        requests.forEach((request, index) => {
+            const range = new vscode.Range(request.range.startLine, 0, request.range.startLine, 0);
+
+            lenses.push(new vscode.CodeLens(range, {
+                title: '▶ Send request',
+                command: 'teapie-extensions.sendRequest',
+                arguments: [document.uri, index]
+            }));
+
+            // Tests can come from directives of this request or from the -test.csx sibling
+            if (request.directives.some(directive => directive.kind === 'test') || hasTestScript) {
+                lenses.push(new vscode.CodeLens(range, {
+                    title: '▶ Run tests',
+                    command: 'teapie-extensions.runRequestTests',
+                    arguments: [document.uri, index]
+                }));
+            }
+        });
+
+        return lenses;
+    }
+
+    private hasTestScript(httpFilePath: string): boolean {
+        if (!httpFilePath.endsWith('-req.http')) {
+            return false;
+        }
+        const testScript = path.join(path.dirname(httpFilePath), path.basename(httpFilePath).replace(/-req\.http$/, '-test.csx'));
+        return fs.existsSync(testScript);
+    }
+}
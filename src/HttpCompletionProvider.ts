@@ -1,40 +1,30 @@
+import * as path from 'path';
 import * as vscode from 'vscode';
 
-import { DirectiveDescriptions } from './constants/directives';
+import { HttpStatusDescriptions } from './constants/httpStatus';
+import { DirectiveRegistry } from './modules/DirectiveRegistry';
+import { HttpDocumentParser } from './modules/HttpDocumentParser';
+import { HttpDirectiveKind, HttpDocument, HttpRequestNode } from './modules/HttpDocumentTypes';
+import { JsonDiff } from './modules/JsonDiff';
+import { RegistrationKind, RegistrationLocator } from './modules/RegistrationLocator';
+import { VariableLocator } from './modules/VariableLocator';
+import { WorkspaceFileCache } from './modules/WorkspaceFileCache';
+import { VariablesProvider } from './VariablesProvider';
+import { isSecret, maskSecret } from './utils/secretUtils';
+import { ENVIRONMENT_GLOB, EXCLUDE_GLOB, SCRIPT_GLOB, getTestCaseFiles, readWorkspaceFile } from './utils/workspaceUtils';
 
-export class HttpCompletionProvider implements vscode.CompletionItemProvider {
-    private directives = [
-        '@host',
-        '@name',
-        '@description',
-        '@auth',
-        '@headers',
-        '@variables'
-    ];
-
-    private testDirectives = [
-        'TEST-EXPECT-STATUS',
-        'TEST-HAS-BODY',
-        'TEST-HAS-HEADER',
-        'TEST-SUCCESSFUL-STATUS'
-    ];
-
-    private retryDirectives = [
-        'RETRY-STRATEGY',
-        'RETRY-MAX-ATTEMPTS',
-        'RETRY-BACKOFF-TYPE',
-        'RETRY-MAX-DELAY',
-        'RETRY-UNTIL-STATUS'
-    ];
-
-    private authDirectives = [
-        'AUTH-PROVIDER'
-    ];
+/** Text typed after {{ so far */
+const VARIABLE_PREFIX_PATTERN = /\{\{\s*([^{}\s]*)$/;
+/** Directive name and the value typed so far */
+const DIRECTIVE_VALUE_PATTERN = /^\s*##\s*([A-Z][A-Z0-9]*(?:-[A-Z0-9]+)+)\s*:\s*(.*)$/;
 
-    private retryBackoffTypes = [
-        'Linear',
-        'Exponential'
-    ];
+export class HttpCompletionProvider implements vscode.CompletionItemProvider, vscode.Disposable {
+    /** Variables set by and names registered in the scripts of the workspace */
+    private readonly scripts = new WorkspaceFileCache(SCRIPT_GLOB, EXCLUDE_GLOB, content => ({
+        variables: VariableLocator.findInScript(content).filter(occurrence => occurrence.isDefinition),
+        registrations: RegistrationLocator.findInScript(content)
+    }));
+    private readonly environments = new WorkspaceFileCache(ENVIRONMENT_GLOB, undefined, content => VariableLocator.findInEnvironmentFile(content));
 
     private httpMethods = [
         'GET',
@@ -91,45 +81,70 @@ export class HttpCompletionProvider implements vscode.CompletionItemProvider {
         'OAuth'
     ];
 
-    public provideCompletionItems(
+    /** Headers worth referencing from a response, e.g. {{Create.response.headers.Location}} */
+    private responseHeaders = [
+        'Content-Type',
+        'Location',
+        'ETag',
+        'Last-Modified',
+        'Set-Cookie',
+        'Retry-After'
+    ];
+
+    dispose(): void {
+        this.scripts.dispose();
+        this.environments.dispose();
+    }
+
+    public async provideCompletionItems(
         document: vscode.TextDocument,
         position: vscode.Position
-    ): vscode.CompletionItem[] {
+    ): Promise<vscode.CompletionItem[]> {
         const linePrefix = document.lineAt(position).text.substr(0, position.character);
         const items: vscode.CompletionItem[] = [];
+        const httpDocument = HttpDocumentParser.parseDocument(document);
 
-        // Suggest directives at the start of a line with #
-        if (linePrefix.trim().startsWith('#')) {
-            // Add test directives
-            this.testDirectives.forEach(directive => {
-                const item = new vscode.CompletionItem(directive, vscode.CompletionItemKind.Keyword);
-                item.documentation = new vscode.MarkdownString(DirectiveDescriptions[directive as keyof typeof DirectiveDescriptions] || 'TeaPie test directive');
-                item.insertText = `## ${directive}: `;
-                items.push(item);
-            });
+        // Variables can be used anywhere, including request bodies
+        const variablePrefix = linePrefix.match(VARIABLE_PREFIX_PATTERN);
+        if (variablePrefix) {
+            const range = new vscode.Range(position.line, position.character - variablePrefix[1].length, position.line, position.character);
+            return this.getRequestReferenceCompletions(httpDocument, variablePrefix[1], position)
+                ?? this.getVariableCompletions(document, httpDocument, range);
+        }
 
-            // Add retry directives
-            this.retryDirectives.forEach(directive => {
-                const item = new vscode.CompletionItem(directive, vscode.CompletionItemKind.Keyword);
-                item.documentation = new vscode.MarkdownString(DirectiveDescriptions[directive as keyof typeof DirectiveDescriptions] || 'TeaPie retry directive');
-                item.insertText = `## ${directive}: `;
-                items.push(item);
-            });
+        // Request bodies hold JSON or text, where directives, methods and headers do not apply
+        const request = HttpDocumentParser.getRequestAt(httpDocument, position.line);
+        if (request?.body && position.line >= request.body.range.startLine && position.line <= request.body.range.endLine) {
+            return items;
+        }
+
+        const directiveValue = linePrefix.match(DIRECTIVE_VALUE_PATTERN);
+        if (directiveValue) {
+            return this.getDirectiveValueCompletions(directiveValue[1], directiveValue[2]);
+        }
 
-            // Add auth directives
-            this.authDirectives.forEach(directive => {
-                const item = new vscode.CompletionItem(directive, vscode.CompletionItemKind.Keyword);
-                item.documentation = new vscode.MarkdownString(DirectiveDescriptions[directive as keyof typeof DirectiveDescriptions] || 'TeaPie authentication directive');
-                item.insertText = `## ${directive}: `;
+        // Suggest directives at the start of a line with #, built-in and custom ones from the registry
+        if (linePrefix.trim().startsWith('#')) {
+            const fallbackDocumentation: { [category in HttpDirectiveKind]: string } = {
+                test: 'TeaPie test directive',
+                retry: 'TeaPie retry directive',
+                auth: 'TeaPie authentication directive',
+                other: 'TeaPie directive'
+            };
+            DirectiveRegistry.getAll().forEach(definition => {
+                const item = new vscode.CompletionItem(definition.name, vscode.CompletionItemKind.Keyword);
+                item.documentation = new vscode.MarkdownString(definition.description || fallbackDocumentation[definition.category]);
+                item.detail = definition.source === 'built-in' ? undefined : `Custom ${definition.category} directive`;
+                item.insertText = definition.parameter ? `## ${definition.name}: ` : `## ${definition.name}`;
                 items.push(item);
             });
         }
 
         // Suggest directives at the start of a line with @
         if (linePrefix.trim() === '' || linePrefix.trim().startsWith('@')) {
-            this.directives.forEach(directive => {
-                const item = new vscode.CompletionItem(directive, vscode.CompletionItemKind.Keyword);
-                item.documentation = new vscode.MarkdownString(DirectiveDescriptions[directive as keyof typeof DirectiveDescriptions] || 'TeaPie directive');
+            DirectiveRegistry.getMetaDirectives().forEach(definition => {
+                const item = new vscode.CompletionItem(`@${definition.name}`, vscode.CompletionItemKind.Keyword);
+                item.documentation = new vscode.MarkdownString(definition.description);
                 items.push(item);
             });
         }
@@ -170,15 +185,174 @@ export class HttpCompletionProvider implements vscode.CompletionItemProvider {
             });
         }
 
-        // Suggest backoff types after RETRY-BACKOFF-TYPE:
-        if (linePrefix.trim().includes('RETRY-BACKOFF-TYPE:')) {
-            this.retryBackoffTypes.forEach(type => {
-                const item = new vscode.CompletionItem(type, vscode.CompletionItemKind.Value);
-                item.documentation = new vscode.MarkdownString(`Retry backoff type: ${type}`);
-                items.push(item);
-            });
+        return items;
+    }
+    private async getVariableCompletions(document: vscode.TextDocument, httpDocument: HttpDocument, range: vscode.Range): Promise<vscode.CompletionItem[]> {
+        const items = new Map<string, vscode.CompletionItem>();
+        const add = (name: string, detail: string, value?: string) => {
+            if (items.has(name)) {
+                return;
+            }
+            const item = new vscode.CompletionItem(name, vscode.CompletionItemKind.Variable);
+            item.detail = detail;
+            if (value !== undefined) {
+                item.documentation = new vscode.MarkdownString().appendCodeblock(isSecret(name, value) ? maskSecret(value) : value, 'text');
+            }
+            item.range = range;
+            items.set(name, item);
+        };
+
+        // Variables defined in the file itself come first
+        httpDocument.variableDefinitions.forEach(definition => add(definition.name, 'Defined in this file', definition.value));
+
+        // The -init.csx script of the test case runs right before these requests, so its variables are the most relevant
+        const variablesProvider = VariablesProvider.getInstance();
+        const testCaseFiles = document.uri.scheme === 'file' ? getTestCaseFiles(document.uri.fsPath) : undefined;
+        if (testCaseFiles) {
+            const content = await readWorkspaceFile(vscode.Uri.file(testCaseFiles.initScript));
+            VariableLocator.findInScript(content ?? '')
+                .filter(occurrence => occurrence.isDefinition)
+                .forEach(occurrence => add(
+                    occurrence.name,
+                    `Set in ${path.basename(testCaseFiles.initScript)} of this test case`,
+                    variablesProvider.getVariableDetails(occurrence.name).value
+                ));
         }
 
-        return items;
+        // Loaded variables come next, they know the value for the selected environment and the last run
+        for (const section of Object.values(variablesProvider.getVariables())) {
+            for (const name of Object.keys(section ?? {})) {
+                const details = variablesProvider.getVariableDetails(name);
+                add(name, `${details.scope} variable`, details.value);
+            }
+        }
+
+        for (const { value } of await this.environments.getAll()) {
+            value.forEach(occurrence => add(occurrence.name, `Environment variable (${occurrence.environment})`));
+        }
+
+        for (const { uri, value } of await this.scripts.getAll()) {
+            value.variables.forEach(occurrence => add(occurrence.name, `Set in ${path.basename(uri.fsPath)}`));
+        }
+
+        // Named requests start request variables such as {{Login.response.body.$.token}}
+        for (const request of httpDocument.requests) {
+            if (!request.name || items.has(request.name)) {
+                continue;
+            }
+            const item = new vscode.CompletionItem(request.name, vscode.CompletionItemKind.Reference);
+            item.detail = `${request.requestLine.method} ${request.requestLine.url}`;
+            item.insertText = `${request.name}.`;
+            item.range = range;
+            item.command = { title: 'Suggest', command: 'editor.action.triggerSuggest' };
+            items.set(request.name, item);
+        }
+
+        return [...items.values()];
+    }
+
+    /**
+     * Completes the parts of a request variable, {{name.(request|response).(body|headers).(*|path|header)}},
+     * or returns undefined when the prefix does not start with a request name
+     */
+    private getRequestReferenceCompletions(
+        httpDocument: HttpDocument,
+        prefix: string,
+        position: vscode.Position
+    ): vscode.CompletionItem[] | undefined {
+        const segments = prefix.split('.');
+        const request = httpDocument.requests.find(item => item.name?.toLowerCase() === segments[0].toLowerCase());
+        if (!request || segments.length < 2) {
+            return undefined;
+        }
+
+        // Everything after the part, so JSON paths with dots are replaced as a whole
+        const partIndex = Math.min(segments.length - 1, 3);
+        const typed = segments.slice(partIndex).join('.');
+        const range = new vscode.Range(position.line, position.character - typed.length, position.line, position.character);
+        const create = (label: string, kind: vscode.CompletionItemKind, detail: string, triggerNext = false) => {
+            const item = new vscode.CompletionItem(label, kind);
+            item.detail = detail;
+            item.range = range;
+            if (triggerNext) {
+                item.insertText = `${label}.`;
+                item.command = { title: 'Suggest', command: 'editor.action.triggerSuggest' };
+            }
+            return item;
+        };
+
+        const [, source, part] = segments;
+        switch (partIndex) {
+            case 1:
+                return [
+                    create('request', vscode.CompletionItemKind.Property, `Request sent by ${request.name}`, true),
+                    create('response', vscode.CompletionItemKind.Property, `Response received by ${request.name}`, true)
+                ];
+            case 2:
+                return [
+                    create('body', vscode.CompletionItemKind.Property, `Body of the ${source}`, true),
+                    create('headers', vscode.CompletionItemKind.Property, `Headers of the ${source}`, true)
+                ];
+            default:
+                if (part === 'headers') {
+                    const headers = source === 'request' ? request.headers.map(header => header.name) : this.responseHeaders;
+                    return [...new Set(headers)].map(header => create(header, vscode.CompletionItemKind.Field, `${source} header`));
+                }
+                return [
+                    create('*', vscode.CompletionItemKind.Value, `Whole ${source} body`),
+                    create('$', vscode.CompletionItemKind.Value, 'Root of a JSONPath expression'),
+                    ...this.getBodyPaths(source === 'request' ? request : undefined)
+                        .map(jsonPath => create(jsonPath, vscode.CompletionItemKind.Field, 'JSONPath'))
+                ];
+        }
+    }
+
+    /** JSON paths of a request body, placeholders are replaced so the body parses */
+    private getBodyPaths(request: HttpRequestNode | undefined): string[] {
+        const body = request?.body?.text.replace(/\{\{[^{}]*\}\}/g, '0');
+        const parsed = JsonDiff.tryParse(body);
+        return parsed.parsed ? JsonDiff.getPaths(parsed.value).slice(0, 100) : [];
+    }
+
+    private async getDirectiveValueCompletions(directive: string, value: string): Promise<vscode.CompletionItem[]> {
+        const create = (label: string, detail: string, insertText = label) => {
+            const item = new vscode.CompletionItem(label, vscode.CompletionItemKind.Value);
+            item.detail = detail;
+            item.insertText = insertText;
+            return item;
+        };
+
+        const parameter = DirectiveRegistry.get(directive)?.parameter;
+        switch (parameter?.type) {
+            case 'statusCodes':
+                // Codes are wrapped in a list unless one was started already
+                return Object.entries(HttpStatusDescriptions).map(([code, description]) =>
+                    create(code, description, value.includes('[') ? code : `[${code}]`));
+            case 'boolean':
+                return ['true', 'false'].map(flag => create(flag, 'Boolean'));
+            case 'enum':
+                return (parameter.values ?? []).map(item => create(item, `${directive} value`));
+            case 'retryStrategy':
+                return (await this.findRegistrations('retry-strategy'))
+                    .map(([name, file]) => create(name, `Registered in ${file}`));
+            case 'authProvider':
+                return [
+                    ...(await this.findRegistrations('auth-provider')).map(([name, file]) => create(name, `Registered in ${file}`)),
+                    create('None', 'Sends the request without authentication')
+                ];
+            default:
+                return [];
+        }
+    }
+
+    /** Names registered by the scripts of the workspace, with the file name of their first registration */
+    private async findRegistrations(kind: RegistrationKind): Promise<[string, string][]> {
+        const registrations = new Map<string, string>();
+        for (const { uri, value } of await this.scripts.getAll()) {
+            value.registrations
+                .filter(registration => registration.kind === kind && !registrations.has(registration.name))
+                .forEach(registration => registrations.set(registration.name, path.basename(uri.fsPath)));
+        }
+        return [...registrations.entries()];
     }
-} 
\ No newline at end of file
+}
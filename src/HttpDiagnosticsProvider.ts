@@ -0,0 +1,139 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+import { DIAGNOSTIC_SOURCE } from './constants/diagnostics';
+import { HttpDocumentParser } from './modules/HttpDocumentParser';
+import { HttpDocumentProblem, HttpProblemSeverity } from './modules/HttpDocumentTypes';
+import { HttpDocumentValidator } from './modules/HttpDocumentValidator';
+import { RequestReferenceLocator } from './modules/RequestReferenceLocator';
+import { ScriptValidator } from './modules/ScriptValidator';
+import { VariableLocator } from './modules/VariableLocator';
+import { VariablesProvider } from './VariablesProvider';
+import { toRange } from './utils/rangeUtils';
+import { getTestCaseFiles, readWorkspaceFile } from './utils/workspaceUtils';
+
+const SEVERITIES: { [severity in HttpProblemSeverity]: vscode.DiagnosticSeverity } = {
+    error: vscode.DiagnosticSeverity.Error,
+    warning: vscode.DiagnosticSeverity.Warning,
+    information: vscode.DiagnosticSeverity.Information
+};
+
+/** Delay after the last edit before a document is checked again */
+const VALIDATION_DELAY_MS = 300;
+
+/**
+ * Reports problems in HTTP files, such as invalid directive values or undefined variables, while they are edited.
+ * The -init.csx and -test.csx scripts of a test case are checked against the requests of its -req.http file.
+ */
+export class HttpDiagnosticsProvider implements vscode.Disposable {
+    private readonly collection = vscode.languages.createDiagnosticCollection('teapie-http');
+    private readonly disposables: vscode.Disposable[] = [this.collection];
+    private readonly pending = new Map<string, NodeJS.Timeout>();
+
+    constructor() {
+        this.disposables.push(
+            vscode.workspace.onDidOpenTextDocument(document => this.refresh(document)),
+            vscode.workspace.onDidChangeTextDocument(event => this.schedule(event.document)),
+            vscode.workspace.onDidCloseTextDocument(document => this.collection.delete(document.uri))
+        );
+        this.refreshAll();
+    }
+
+    /**
+     * Returns the problems of a document, the code actions use them to find their fixes
+     */
+    static async getProblems(document: vscode.TextDocument): Promise<HttpDocumentProblem[]> {
+        const files = getTestCaseFiles(document.uri.fsPath);
+        if (document.languageId !== 'http') {
+            const requestContent = files && await readWorkspaceFile(vscode.Uri.file(files.requestFile));
+            if (requestContent === undefined) {
+                return [];
+            }
+            return ScriptValidator.validate(document.getText(), {
+                requestFileName: path.basename(files!.requestFile),
+                requestNames: HttpDocumentParser.parse(requestContent).requests
+                    .map(request => request.name)
+                    .filter((name): name is string => !!name)
+            });
+        }
+
+        const scripts = files ? [files.initScript, files.testScript] : [];
+        const scriptContents = await Promise.all(scripts.map(script => readWorkspaceFile(vscode.Uri.file(script))));
+        // Variables the -init.csx script sets exist when the requests run
+        const initVariables = new Set(VariableLocator.findInScript(scriptContents[0] ?? '')
+            .filter(occurrence => occurrence.isDefinition)
+            .map(occurrence => occurrence.name));
+
+        const variables = VariablesProvider.getInstance().getVariables();
+        const sections = Object.values(variables).filter(section => section);
+        return HttpDocumentValidator.validate(HttpDocumentParser.parseDocument(document), {
+            // Without loaded variables every reference would be reported
+            isVariableDefined: sections.length ? name => initVariables.has(name) || sections.some(section => name in section) : undefined,
+            scriptReferences: scripts.map((script, index) => ({
+                fileName: path.basename(script),
+                references: RequestReferenceLocator.findInScript(scriptContents[index] ?? '')
+            }))
+        });
+    }
+
+    async refresh(document: vscode.TextDocument): Promise<void> {
+        if (document.languageId !== 'http' && !(document.uri.scheme === 'file' && getTestCaseFiles(document.uri.fsPath))) {
+            return;
+        }
+        const version = document.version;
+        const problems = await HttpDiagnosticsProvider.getProblems(document);
+        // A newer check of the same document is already scheduled or running
+        if (document.version !== version || document.isClosed) {
+            return;
+        }
+        const diagnostics = problems.map(problem => {
+            const diagnostic = new vscode.Diagnostic(toRange(problem.range), problem.message, SEVERITIES[problem.severity]);
+            diagnostic.source = DIAGNOSTIC_SOURCE;
+            diagnostic.code = problem.code;
+            if (problem.related) {
+                diagnostic.relatedInformation = [new vscode.DiagnosticRelatedInformation(
+                    new vscode.Location(document.uri, toRange(problem.related.range)),
+                    problem.related.message
+                )];
+            }
+            return diagnostic;
+        });
+        this.collection.set(document.uri, diagnostics);
+    }
+
+    /**
+     * Checks all open HTTP files and test case scripts again, e.g. after variables were reloaded
+     */
+    refreshAll(): void {
+        vscode.workspace.textDocuments.forEach(document => this.refresh(document));
+    }
+
+    dispose(): void {
+        this.pending.forEach(timer => clearTimeout(timer));
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+
+    private schedule(document: vscode.TextDocument): void {
+        const key = document.uri.toString();
+        clearTimeout(this.pending.get(key));
+        this.pending.set(key, setTimeout(() => {
+            this.pending.delete(key);
+            this.refresh(document);
+            this.refreshSiblings(document);
+        }, VALIDATION_DELAY_MS));
+    }
+
+    /**
+     * Checks the other open files of the test case, their problems depend on the edited one
+     */
+    private refreshSiblings(document: vscode.TextDocument): void {
+        const files = document.uri.scheme === 'file' ? getTestCaseFiles(document.uri.fsPath) : undefined;
+        if (!files) {
+            return;
+        }
+        const siblings = [files.requestFile, files.initScript, files.testScript].filter(file => file !== document.uri.fsPath);
+        vscode.workspace.textDocuments
+            .filter(sibling => siblings.includes(sibling.uri.fsPath))
+            .forEach(sibling => this.refresh(sibling));
+    }
+}
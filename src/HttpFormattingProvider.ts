@@ -0,0 +1,35 @@
+import * as vscode from 'vscode';
+
+import { HttpFormatOptions, HttpFormatter } from './modules/HttpFormatter';
+
+/**
+ * Formats HTTP files and selections with the HttpFormatter, also on save when editor.formatOnSave is enabled
+ */
+export class HttpFormattingProvider implements vscode.DocumentFormattingEditProvider, vscode.DocumentRangeFormattingEditProvider {
+    public provideDocumentFormattingEdits(document: vscode.TextDocument, options: vscode.FormattingOptions): vscode.TextEdit[] {
+        const content = document.getText();
+        const formatted = HttpFormatter.format(content, this.toFormatOptions(options));
+        if (formatted === content.replace(/\r\n/g, '\n')) {
+            return [];
+        }
+        const lastLine = document.lineAt(document.lineCount - 1);
+        return [vscode.TextEdit.replace(new vscode.Range(0, 0, lastLine.lineNumber, lastLine.text.length), formatted)];
+    }
+
+    public provideDocumentRangeFormattingEdits(
+        document: vscode.TextDocument,
+        range: vscode.Range,
+        options: vscode.FormattingOptions
+    ): vscode.TextEdit[] {
+        const result = HttpFormatter.formatRange(document.getText(), range.start.line, range.end.line, this.toFormatOptions(options));
+        if (!result) {
+            return [];
+        }
+        const replaced = new vscode.Range(result.startLine, 0, result.endLine, document.lineAt(result.endLine).text.length);
+        return document.getText(replaced).replace(/\r\n/g, '\n') === result.text ? [] : [vscode.TextEdit.replace(replaced, result.text)];
+    }
+
+    private toFormatOptions(options: vscode.FormattingOptions): HttpFormatOptions {
+        return { indent: options.insertSpaces ? ' '.repeat(options.tabSize) : '\t' };
+    }
+}
@@ -1,44 +1,76 @@
 import * as vscode from 'vscode';
 
-import { DirectiveDescriptions } from './constants/directives';
+import { DirectiveRegistry } from './modules/DirectiveRegistry';
+import { HttpDocumentParser } from './modules/HttpDocumentParser';
 import { VariablesProvider } from './VariablesProvider';
+import { containsPosition, toRange } from './utils/rangeUtils';
+import { isSecret, maskSecret } from './utils/secretUtils';
 
 export class HttpHoverProvider implements vscode.HoverProvider {
     public provideHover(
         document: vscode.TextDocument,
         position: vscode.Position
     ): vscode.Hover | undefined {
-        const line = document.lineAt(position).text;
-        const range = document.getWordRangeAtPosition(position, /(@\w+|(?:TEST|RETRY|AUTH)-[A-Z-]+|\{\{[^}]+\}\})/);
-        if (!range) {
-            return undefined;
-        }
+        const httpDocument = HttpDocumentParser.parseDocument(document);
 
-        const word = document.getText(range);
+        // Handle variables
+        const variable = httpDocument.variables.find(item => containsPosition(item.range, position));
+        if (variable) {
+            return new vscode.Hover(this.getVariableMarkdown(variable.name), toRange(variable.range));
+        }
 
         // Handle directives
-        if (word.startsWith('@') || word.startsWith('TEST-') || word.startsWith('RETRY-') || word.startsWith('AUTH-')) {
-            const description = DirectiveDescriptions[word as keyof typeof DirectiveDescriptions];
+        const directives = [
+            ...httpDocument.requests.flatMap(request => [...request.directives, ...request.metaDirectives]),
+            ...httpDocument.danglingDirectives
+        ];
+        const directive = directives.find(item => containsPosition(item.nameRange, position));
+        if (directive) {
+            const description = 'kind' in directive
+                ? DirectiveRegistry.get(directive.name)?.description
+                : DirectiveRegistry.getMetaDirective(directive.name)?.description;
             if (description) {
-                return new vscode.Hover(new vscode.MarkdownString(description));
+                return new vscode.Hover(new vscode.MarkdownString(description), toRange(directive.nameRange));
             }
         }
 
-        // Handle variables
-        if (word.startsWith('{{') && word.endsWith('}}')) {
-            const variableName = word.slice(2, -2).trim();
-            const variablesProvider = VariablesProvider.getInstance();
-            const value = variablesProvider.getVariableValue(variableName);
-
-            if (value !== undefined) {
-                const markdown = new vscode.MarkdownString();
-                markdown.appendCodeblock(value, 'text');
-                return new vscode.Hover(markdown);
-            } else {
-                return new vscode.Hover(new vscode.MarkdownString('*(variable not found)*'));
-            }
+        return undefined;
+    }
+
+    private getVariableMarkdown(name: string): vscode.MarkdownString {
+        const details = VariablesProvider.getInstance().getVariableDetails(name);
+        if (details.value === undefined && details.lastRunValue === undefined) {
+            return new vscode.MarkdownString('*(variable not found)*');
         }
 
-        return undefined;
+        // Secrets stay hidden when any of their values looks like one
+        const values = [details.value, details.sharedValue, details.environmentValue, details.lastRunValue];
+        const secret = values.some(value => value !== undefined && isSecret(name, value));
+        const display = (value: string) => secret ? maskSecret(value) : value;
+        const inlineCode = (value: string) => {
+            const text = display(value);
+            return text.includes('`') ? `\`\` ${text} \`\`` : `\`${text}\``;
+        };
+
+        const markdown = new vscode.MarkdownString();
+        if (details.value !== undefined) {
+            markdown.appendMarkdown(`**${name}** from the ${details.scope} scope${secret ? ' (masked)' : ''}\n\n`);
+            markdown.appendCodeblock(display(details.value), 'text');
+        } else {
+            markdown.appendMarkdown(`**${name}** is only known from the last run${secret ? ' (masked)' : ''}\n\n`);
+        }
+
+        const sources: string[] = [];
+        if (details.sharedValue !== undefined) {
+            sources.push(`- \`$shared\`: ${inlineCode(details.sharedValue)}`);
+        }
+        if (details.environmentValue !== undefined) {
+            sources.push(`- \`${details.environment}\`: ${inlineCode(details.environmentValue)}`);
+        }
+        if (details.lastRunValue !== undefined) {
+            sources.push(`- Last run (${details.lastRunScope}): ${inlineCode(details.lastRunValue)}`);
+        }
+        markdown.appendMarkdown(sources.join('\n'));
+        return markdown;
     }
-} 
\ No newline at end of file
+}
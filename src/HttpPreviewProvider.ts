@@ -4,6 +4,10 @@ import * as vscode from 'vscode';
 
 import { EnvironmentEditorProvider } from './EnvironmentEditorProvider';
 import { VariablesProvider } from './VariablesProvider';
+import { DirectiveRegistry } from './modules/DirectiveRegistry';
+import { HttpDirective } from './modules/HttpDocumentTypes';
+import { HttpDocumentParser } from './modules/HttpDocumentParser';
+import { RequestExporter } from './modules/RequestExporter';
 
 export class HttpPreviewProvider {
     private static currentPanel: vscode.WebviewPanel | undefined;
@@ -58,6 +62,17 @@ export class HttpPreviewProvider {
                             HttpPreviewProvider.currentPanel.webview.html = await HttpPreviewProvider.getWebviewContent(HttpPreviewProvider.currentFile);
                         }
                         return;
+                    case 'copyCurl':
+                        await vscode.env.clipboard.writeText(RequestExporter.toCurl({
+                            method: message.method,
+                            url: message.url,
+                            headers: (message.headers as string[]).map(header => {
+                                const [name, ...values] = header.split(':');
+                                return { name: name.trim(), value: values.join(':').trim() };
+                            }),
+                            body: message.body || undefined
+                        }));
+                        return;
                 }
             },
             undefined,
@@ -177,157 +192,80 @@ export class HttpPreviewProvider {
         const content = fs.readFileSync(uri.fsPath, 'utf8');
         const variablesProvider = VariablesProvider.getInstance();
 
-        // Parse HTTP content and convert to HTML
-        const lines = content.split('\n');
+        // Convert each request of the document model to HTML
+        const document = HttpDocumentParser.parse(content);
+        const replaceVariables = (text: string) => variablesProvider.replaceVariables(text, HttpPreviewProvider.showVariableValues);
         let html = '';
-        let inBody = false;
-        let bodyContent = '';
-        let currentRequest = '';
-        let currentHeaders = '';
-        let currentMetadata = '';
-        let requestLine = '';
-        let directives: string[] = [];
-
-        const finishCurrentRequest = () => {
-            if (currentRequest || currentHeaders || requestLine) {
-                // Add directives with title if any
-                if (currentMetadata) {
-                    html += `<div class="section-title">Directives</div>\n`;
-                    html += `<div class="metadata">${currentMetadata}</div>\n`;
-                    currentMetadata = '';
-                }
-
-                // Add request line if any
-                if (requestLine) {
-                    html += `<div class="section-title">Request</div>\n`;
-                    const processedRequestLine = variablesProvider.replaceVariables(requestLine, HttpPreviewProvider.showVariableValues);
-                    const [method, ...urlParts] = processedRequestLine.split(' ');
-                    const url = urlParts.join(' ');
-                    const escapedHeaders = currentHeaders.split('\n')
-                        .filter(h => h.includes(':'))
-                        .map(h => variablesProvider.replaceVariables(h, HttpPreviewProvider.showVariableValues))
-                        .map(h => h.replace(/"/g, '\\"'));
-
-                    // Format body if it exists
-                    let formattedBody = bodyContent.trim();
-                    if (formattedBody) {
-                        formattedBody = variablesProvider.replaceVariables(formattedBody, HttpPreviewProvider.showVariableValues);
-                        try {
-                            // Try to parse as JSON first
-                            const jsonBody = JSON.parse(formattedBody);
-                            formattedBody = JSON.stringify(jsonBody);
-                        } catch {
-                            // If not JSON, use as is but remove trailing newlines
-                            formattedBody = formattedBody.replace(/\n+$/, '');
-                        }
-                    }
-
-                    html += `<div class="http-request">
-                        ${this.syntaxHighlight(processedRequestLine)}
-                        <button class="copy-curl-btn" onclick="copyCurlCommand(this)" 
-                            data-method="${method}"
-                            data-url="${url}"
-                            data-headers="${JSON.stringify(escapedHeaders).replace(/"/g, '&quot;')}"
-                            data-body="${formattedBody.replace(/"/g, '&quot;')}"
-                            title="Copy as cURL">
-                            <svg width="16" height="16" viewBox="0 0 16 16" xmlns="http://www.w3.org/2000/svg" fill="currentColor">
-                                <path fill-rule="evenodd" clip-rule="evenodd" d="M4 4h8v1H4V4zm0 3h8v1H4V7zm0 3h8v1H4v-1z"/>
-                                <path fill-rule="evenodd" clip-rule="evenodd" d="M3 3L2 2V14L3 15H13L14 14V2L13 1H3L2 2V14L3 15V3Z"/>
-                            </svg>
-                        </button>
-                    </div>\n`;
-                }
-
-                // Add headers with title if any
-                if (currentHeaders) {
-                    html += `<div class="section-title">Headers</div>\n`;
-                    const processedHeaders = variablesProvider.replaceVariables(currentHeaders, HttpPreviewProvider.showVariableValues);
-                    html += `<pre class="http-headers">${this.syntaxHighlight(processedHeaders)}</pre>\n`;
-                }
 
-                // Add body with title if any
-                if (bodyContent.trim()) {
-                    html += `<div class="section-title">Body</div>\n`;
-                    const processedBody = variablesProvider.replaceVariables(bodyContent, HttpPreviewProvider.showVariableValues);
-                    const formattedBody = this.formatBody(processedBody);
-                    html += `<pre class="http-body"><code>${formattedBody}</code></pre>\n`;
-                }
-
-                currentRequest = '';
-                currentHeaders = '';
-                requestLine = '';
-                bodyContent = '';
-                inBody = false;
+        for (const request of document.requests) {
+            if (request.title) {
+                html += `<h3 class="request-name">${request.title}</h3>\n`;
             }
-        };
-
-        for (const line of lines) {
-            // Skip empty lines at the start
-            if (!html && !line.trim()) {
-                continue;
+            if (request.name) {
+                html += `<h3 class="request-name">${request.name}</h3>\n`;
             }
-
-            // Handle request separator
-            if (line.startsWith('###')) {
-                finishCurrentRequest();
-                const title = line.replace(/^###\s*/, '').trim();
-                if (title) {
-                    html += `<h3 class="request-name">${title}</h3>\n`;
-                }
-                continue;
+            request.comments
+                .filter(comment => comment.range.startLine < request.requestLine.range.startLine)
+                .forEach(comment => html += `<div class="comment">${comment.text}</div>\n`);
+
+            // Add directives with title if any
+            if (request.directives.length) {
+                html += `<div class="section-title">Directives</div>\n`;
+                const metadata = request.directives.map(directive => this.formatDirective(directive)).join('');
+                html += `<div class="metadata">${metadata}</div>\n`;
             }
 
-            // Handle comments
-            if (line.startsWith('# ') || line.startsWith('// ')) {
-                const comment = line.replace(/^[#/]+\s*/, '');
-                if (comment.startsWith('@name')) {
-                    currentRequest = comment.replace('@name', '').trim();
-                    html += `<h3 class="request-name">${currentRequest}</h3>\n`;
-                } else if (comment.startsWith('##')) {
-                    // Handle directives
-                    const directive = comment.replace('##', '').trim();
-                    directives.push(directive);
-                    currentMetadata += this.formatDirective(directive);
-                } else {
-                    html += `<div class="comment">${comment}</div>\n`;
+            // Add request line
+            html += `<div class="section-title">Request</div>\n`;
+            const requestLine = `${request.requestLine.method} ${request.requestLine.url}`;
+            const processedRequestLine = replaceVariables(requestLine);
+            const [method, ...urlParts] = processedRequestLine.split(' ');
+            const url = urlParts.join(' ');
+            const headerLines = request.headers.map(header => `${header.name}: ${header.value}`);
+            const escapedHeaders = headerLines.map(replaceVariables);
+
+            // Format body if it exists
+            let formattedBody = request.body?.text ?? '';
+            if (formattedBody) {
+                formattedBody = replaceVariables(formattedBody);
+                try {
+                    // Try to parse as JSON first
+                    const jsonBody = JSON.parse(formattedBody);
+                    formattedBody = JSON.stringify(jsonBody);
+                } catch {
+                    // If not JSON, use as is but remove trailing newlines
+                    formattedBody = formattedBody.replace(/\n+$/, '');
                 }
-                continue;
             }
 
-            // Handle HTTP method and URL
-            if (line.match(/^(GET|POST|PUT|DELETE|PATCH)\s+/)) {
-                requestLine = line;
-                inBody = false;
-                continue;
-            }
-
-            // Handle headers
-            if (line.includes(':') && !inBody) {
-                // Check if this is a directive (starts with ##)
-                if (line.trim().startsWith('##')) {
-                    const directive = line.trim().substring(2).trim();
-                    directives.push(directive);
-                    currentMetadata += this.formatDirective(directive);
-                } else {
-                    currentHeaders += (currentHeaders ? '\n' : '') + line;
-                }
-                continue;
-            }
+            html += `<div class="http-request">
+                ${this.syntaxHighlight(processedRequestLine)}
+                <button class="copy-curl-btn" onclick="copyCurlCommand(this)" 
+                    data-method="${method}"
+                    data-url="${url}"
+                    data-headers="${JSON.stringify(escapedHeaders).replace(/"/g, '&quot;')}"
+                    data-body="${formattedBody.replace(/"/g, '&quot;')}"
+                    title="Copy as cURL">
+                    <svg width="16" height="16" viewBox="0 0 16 16" xmlns="http://www.w3.org/2000/svg" fill="currentColor">
+                        <path fill-rule="evenodd" clip-rule="evenodd" d="M4 4h8v1H4V4zm0 3h8v1H4V7zm0 3h8v1H4v-1z"/>
+                        <path fill-rule="evenodd" clip-rule="evenodd" d="M3 3L2 2V14L3 15H13L14 14V2L13 1H3L2 2V14L3 15V3Z"/>
+                    </svg>
+                </button>
+            </div>\n`;
 
-            // Handle body
-            if (!inBody && line.trim() === '') {
-                inBody = true;
-                continue;
+            // Add headers with title if any
+            if (headerLines.length) {
+                html += `<div class="section-title">Headers</div>\n`;
+                html += `<pre class="http-headers">${this.syntaxHighlight(escapedHeaders.join('\n'))}</pre>\n`;
             }
 
-            if (inBody) {
-                bodyContent += line + '\n';
+            // Add body with title if any
+            if (request.body) {
+                html += `<div class="section-title">Body</div>\n`;
+                html += `<pre class="http-body"><code>${this.formatBody(replaceVariables(request.body.text))}</code></pre>\n`;
             }
         }
 
-        // Finish the last request
-        finishCurrentRequest();
-
         // Add toggle button to the top of the page
         const toggleButton = `
             <div class="toolbar">
@@ -557,87 +495,18 @@ export class HttpPreviewProvider {
                     }
                     
                     function copyCurlCommand(button) {
-                        const method = button.getAttribute('data-method') || '';
-                        const url = button.getAttribute('data-url') || '';
-                        const headers = JSON.parse(button.getAttribute('data-headers') || '[]');
-                        const body = button.getAttribute('data-body') || '';
-
-                        let curlCmd = ['curl'];
-                        
-                        // Add method if not GET
-                        if (method !== 'GET') {
-                            curlCmd.push(\`-X \${method}\`);
-                        }
-
-                        // Add URL
-                        curlCmd.push(\`"\${url}"\`);
-
-                        // Add headers
-                        headers.forEach(header => {
-                            const [name, ...values] = header.split(':');
-                            if (name && values.length) {
-                                curlCmd.push(\`-H "\${name.trim()}: \${values.join(':').trim()}"\`);
-                            }
+                        // The command is built and copied by the extension
+                        vscode.postMessage({
+                            command: 'copyCurl',
+                            method: button.getAttribute('data-method') || '',
+                            url: button.getAttribute('data-url') || '',
+                            headers: JSON.parse(button.getAttribute('data-headers') || '[]'),
+                            body: button.getAttribute('data-body') || ''
                         });
-
-                        // Add Content-Type header if body exists and it's not already set
-                        if (body && !headers.some(h => h.toLowerCase().startsWith('content-type:'))) {
-                            try {
-                                JSON.parse(body);
-                                curlCmd.push('-H "Content-Type: application/json"');
-                            } catch {
-                                curlCmd.push('-H "Content-Type: text/plain"');
-                            }
-                        }
-
-                        // Add body if exists and method is not GET
-                        if (body && method !== 'GET') {
-                            try {
-                                // Try to parse as JSON first to validate
-                                JSON.parse(body);
-                                // Use the original body string to preserve formatting
-                                curlCmd.push(\`-d '\${body}'\`);
-                            } catch {
-                                // If not valid JSON, send as plain text
-                                curlCmd.push(\`-d '\${body}'\`);
-                            }
-                        }
-
-                        // Copy to clipboard
-                        const curlCommand = curlCmd.join(' ');
-                        
-                        try {
-                            navigator.clipboard.writeText(curlCommand).then(() => {
-                                button.classList.add('copied');
-                                setTimeout(() => {
-                                    button.classList.remove('copied');
-                                }, 2000);
-                            }).catch(() => {
-                                // Fallback for clipboard write failure
-                                const textarea = document.createElement('textarea');
-                                textarea.value = curlCommand;
-                                document.body.appendChild(textarea);
-                                textarea.select();
-                                document.execCommand('copy');
-                                document.body.removeChild(textarea);
-                                button.classList.add('copied');
-                                setTimeout(() => {
-                                    button.classList.remove('copied');
-                                }, 2000);
-                            });
-                        } catch (error) {
-                            // Fallback for old browsers
-                            const textarea = document.createElement('textarea');
-                            textarea.value = curlCommand;
-                            document.body.appendChild(textarea);
-                            textarea.select();
-                            document.execCommand('copy');
-                            document.body.removeChild(textarea);
-                            button.classList.add('copied');
-                            setTimeout(() => {
-                                button.classList.remove('copied');
-                            }, 2000);
-                        }
+                        button.classList.add('copied');
+                        setTimeout(() => {
+                            button.classList.remove('copied');
+                        }, 2000);
                     }
                 </script>
             </head>
@@ -742,50 +611,25 @@ export class HttpPreviewProvider {
         }
     }
 
-    private static getDirectiveType(directive: string): string {
-        if (directive.startsWith('RETRY-')) {
-            return 'retry';
-        }
-        if (directive.startsWith('AUTH-')) {
-            return 'auth';
-        }
-        if (directive.startsWith('TEST-')) {
-            return 'test';
-        }
-        return 'other';
-    }
-
     private static getDirectiveTooltip(name: string): string {
-        const tooltips: { [key: string]: string } = {
-            'AUTH-PROVIDER': 'Specifies the authentication provider to use for this request. Must be registered beforehand.',
-            'TEST-EXPECT-STATUS': 'Expected HTTP status code(s) for the response.',
-            'TEST-HAS-BODY': 'Verifies that the response has a body.',
-            'TEST-HAS-HEADER': 'Verifies that the response contains the specified header.',
-            'TEST-SUCCESSFUL-STATUS': 'Verifies that the response has a successful status code (2xx).',
-            'RETRY-STRATEGY': 'Defines the retry strategy for failed requests.',
-            'RETRY-MAX-ATTEMPTS': 'Maximum number of retry attempts.',
-            'RETRY-BACKOFF-TYPE': 'Type of delay between retries (Linear, Exponential).',
-            'RETRY-MAX-DELAY': 'Maximum delay between retries.',
-            'RETRY-UNTIL-STATUS': 'Retry until response matches specified status code(s).'
-        };
-
-        return tooltips[name] || 'Configuration directive for the request';
+        // Custom directives come from workspace files, so their summary is escaped for the title attribute
+        const summary = DirectiveRegistry.get(name)?.summary || 'Configuration directive for the request';
+        return summary.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
     }
 
-    private static formatDirective(directive: string): string {
-        const type = this.getDirectiveType(directive);
-        const [name, ...valueParts] = directive.split(':');
-        const value = valueParts.join(':').trim();
+    private static formatDirective(directive: HttpDirective): string {
+        const { name, kind } = directive;
+        const value = directive.value?.trim();
         const tooltip = this.getDirectiveTooltip(name);
 
         if (value) {
-            return `<div class="directive ${type}" title="${tooltip}">
+            return `<div class="directive ${kind}" title="${tooltip}">
                 <span class="directive-name">${name}</span>
                 <span class="directive-separator">:</span>
                 <span class="directive-value">${value}</span>
             </div>`;
         } else {
-            return `<div class="directive ${type}" title="${tooltip}">
+            return `<div class="directive ${kind}" title="${tooltip}">
                 <span class="directive-name">${name}</span>
             </div>`;
         }
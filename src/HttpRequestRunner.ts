@@ -3,25 +3,41 @@ import * as vscode from 'vscode';
 import { 
     STATUS_PASSED,
     STATUS_FAILED,
+    STATUS_CANCELLED,
+    ERROR_CANCELLED,
     ERROR_HTTP_FAILED,
     ERROR_UNKNOWN
 } from './constants/httpResults';
 import { 
     HttpRequestResults, 
     HttpRequestResult, 
-    HttpTestResult 
+    HttpTestResult,
+    JsonChange,
+    SingleRequestSelection
 } from './modules/HttpRequestTypes';
-import { TeaPieExecutor } from './modules/TeaPieExecutor';
+import { TeaPieExecutor, TeaPieExecutionOptions } from './modules/TeaPieExecutor';
+import { SnapshotTester } from './modules/SnapshotTester';
+import { EnvironmentEditorProvider } from './EnvironmentEditorProvider';
 import { 
     CONTENT_PATTERNS
 } from './constants/cliPatterns';
 
+interface HttpRunOptions {
+    /** Runs only this request of the file, the results panel scrolls to it */
+    request?: SingleRequestSelection;
+    /** Environment file passed to TeaPie, used when running outside the collection folder */
+    environmentFile?: string;
+}
+
 export class HttpRequestRunner {
     private static currentPanel: vscode.WebviewPanel | undefined;
     private static outputChannel: vscode.OutputChannel;
     private static lastRequestId = 0;
     private static panelColumn: vscode.ViewColumn | undefined;
     private static lastHttpUri: vscode.Uri | undefined;
+    private static lastRunOptions: HttpRunOptions = {};
+    /** Results in the panel, whose snapshots the Accept new snapshot buttons refer to */
+    private static shownResults: HttpRequestResults | undefined;
     private static readonly disposables: vscode.Disposable[] = [];
 
     public static setOutputChannel(channel: vscode.OutputChannel) {
@@ -53,19 +69,32 @@ export class HttpRequestRunner {
     }
 
     private static currentExecution: Promise<void> | null = null;
+    private static currentCancellation: vscode.CancellationTokenSource | undefined;
+
+    /**
+     * Cancels the running execution, if any. Partial results are still shown.
+     */
+    public static cancel(): boolean {
+        if (!this.currentCancellation || this.currentCancellation.token.isCancellationRequested) {
+            return false;
+        }
+        this.outputChannel?.appendLine('Cancelling TeaPie execution...');
+        this.currentCancellation.cancel();
+        return true;
+    }
 
     /**
      * Runs HTTP requests from the specified file and displays results in a webview panel.
      * @param uri - The URI of the .http file to execute
      * @param forceColumn - Optional column to force the webview to appear in
      */
-    public static async runHttpFile(uri: vscode.Uri, forceColumn?: vscode.ViewColumn): Promise<void> {
+    public static async runHttpFile(uri: vscode.Uri, forceColumn?: vscode.ViewColumn, runOptions: HttpRunOptions = {}): Promise<void> {
         // Prevent concurrent executions by chaining promises
         if (this.currentExecution) {
             await this.currentExecution;
         }
 
-        this.currentExecution = this._runHttpFileInternal(uri, forceColumn);
+        this.currentExecution = this._runHttpFileInternal(uri, forceColumn, runOptions);
         try {
             await this.currentExecution;
         } finally {
@@ -73,7 +102,97 @@ export class HttpRequestRunner {
         }
     }
 
-    private static async _runHttpFileInternal(uri: vscode.Uri, forceColumn?: vscode.ViewColumn): Promise<void> {
+    /**
+     * Runs a single request of an HTTP file through a temporary collection and scrolls the results to it.
+     * @param uri - The URI of the .http file containing the request
+     * @param requestIndex - Zero-based index of the request in the file
+     * @param includeTests - Whether TEST-* directives and the -test.csx script are run as well
+     */
+    public static async runSingleRequest(uri: vscode.Uri, requestIndex: number, includeTests: boolean): Promise<void> {
+        try {
+            await this.runHttpFile(uri, undefined, {
+                request: { index: requestIndex, includeTests },
+                environmentFile: await EnvironmentEditorProvider.getEnvironmentFile()
+            });
+        } catch (error) {
+            const errorMessage = `Failed to run HTTP request: ${error}`;
+            this.outputChannel?.appendLine(errorMessage);
+            vscode.window.showErrorMessage(errorMessage);
+        }
+    }
+
+    private static async _runHttpFileInternal(uri: vscode.Uri, forceColumn: vscode.ViewColumn | undefined, runOptions: HttpRunOptions): Promise<void> {
+        this.lastRunOptions = runOptions;
+        const panel = this.preparePanel(uri, forceColumn);
+        panel.title = 'HTTP Request Results';
+
+        // Generate a unique request ID for this execution
+        const requestId = ++this.lastRequestId;
+        panel.webview.html = this.getLoadingContent(uri).replace('<button class="retry-btn" id="retry-btn">Retry</button>', '<button class="retry-btn" id="retry-btn" disabled>Retry</button>');
+
+        const cancellation = new vscode.CancellationTokenSource();
+        this.currentCancellation = cancellation;
+        const cancelDisposable = panel.webview.onDidReceiveMessage(message => {
+            if (message?.command === 'cancel') {
+                cancellation.cancel();
+            }
+        });
+
+        try {
+            const results = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Running ${path.basename(uri.fsPath)}`,
+                cancellable: true
+            }, (progress, token) => {
+                token.onCancellationRequested(() => cancellation.cancel());
+                return this.executeTeaPie(uri.fsPath, {
+                    onProgress: event => {
+                        if (event.type === 'request') {
+                            progress.report({ message: `${event.name} (${event.index + 1}/${event.total})` });
+                        }
+                        // Ignore events from executions that were superseded by a newer one
+                        if (this.currentPanel && requestId === this.lastRequestId) {
+                            this.currentPanel.webview.postMessage({ command: 'progress', event });
+                        }
+                    },
+                    token: cancellation.token,
+                    environment: EnvironmentEditorProvider.getCurrentEnvironmentName(),
+                    environmentFile: runOptions.environmentFile,
+                    request: runOptions.request
+                });
+            });
+            // Only update the panel if this is the latest request
+            if (this.currentPanel && requestId === this.lastRequestId) {
+                // The collection of a single-request run holds only the selected request
+                const focusRequest = runOptions.request ? results.RequestGroups?.RequestGroup?.[0]?.Requests[0]?.Name : undefined;
+                this.currentPanel.webview.html = this.getResultsContent(results, uri, focusRequest);
+                this.setupRetryHandler(uri);
+                this.shownResults = results;
+            }
+        } catch (error) {
+            const errorMessage = `Failed to execute HTTP requests: ${error}`;
+            this.outputChannel?.appendLine(errorMessage);
+            this.outputChannel?.appendLine(`Error details: ${error instanceof Error ? error.stack : String(error)}`);
+            
+            if (this.currentPanel && requestId === this.lastRequestId) {
+                this.shownResults = undefined;
+                this.currentPanel.webview.html = this.getErrorContent(uri, errorMessage);
+                this.setupRetryHandler(uri);
+            }
+            vscode.window.showErrorMessage(errorMessage);
+        } finally {
+            cancelDisposable.dispose();
+            cancellation.dispose();
+            if (this.currentCancellation === cancellation) {
+                this.currentCancellation = undefined;
+            }
+        }
+    }
+
+    /**
+     * Reuses the results panel for the same file or opens a new one next to the editor
+     */
+    private static preparePanel(uri: vscode.Uri, forceColumn?: vscode.ViewColumn): vscode.WebviewPanel {
         // If running from a different file, dispose the old panel to force a new split
         if (this.currentPanel && this.lastHttpUri && this.lastHttpUri.toString() !== uri.toString()) {
             this.currentPanel.dispose();
@@ -104,8 +223,16 @@ export class HttpRequestRunner {
                 }
             );
             this.panelColumn = this.currentPanel.viewColumn;
+
+            // One listener for the lifetime of the panel, it accepts snapshots of the results shown at the time of the click
+            const panel = this.currentPanel;
+            const snapshotDisposable = panel.webview.onDidReceiveMessage(message => this.acceptSnapshot(panel, message));
             
             const disposable = this.currentPanel.onDidDispose(() => {
+                // Nobody would see the results, so stop the run
+                this.cancel();
+                snapshotDisposable.dispose();
+                this.shownResults = undefined;
                 this.currentPanel = undefined;
                 this.panelColumn = undefined;
                 this.lastHttpUri = undefined;
@@ -117,35 +244,42 @@ export class HttpRequestRunner {
             });
             this.disposables.push(disposable);
         }
+        return this.currentPanel;
+    }
 
-        // Generate a unique request ID for this execution
-        const requestId = ++this.lastRequestId;
-        this.currentPanel.webview.html = this.getLoadingContent(uri).replace('<button class="retry-btn" id="retry-btn">Retry</button>', '<button class="retry-btn" id="retry-btn" disabled>Retry</button>');
+    /**
+     * Shows the results of an earlier run in the results panel, e.g. when reopened from the run history.
+     * @param uri - The URI of the file the run was started for
+     * @param logPath - Log file of the run
+     * @param reportPath - Report file of the run, missing when the run did not finish
+     * @param title - Panel title identifying the run
+     * @param request - Set when only one request of the file was run
+     */
+    public static async showRunResults(uri: vscode.Uri, logPath: string, reportPath: string | undefined, title: string, request?: SingleRequestSelection): Promise<void> {
+        if (this.currentExecution) {
+            await this.currentExecution;
+        }
 
         try {
-            const results = await this.executeTeaPie(uri.fsPath);
-            // Only update the panel if this is the latest request
-            if (this.currentPanel && requestId === this.lastRequestId) {
-                this.currentPanel.webview.html = this.getResultsContent(results, uri);
-                this.setupRetryHandler(uri);
-            }
+            const results = await TeaPieExecutor.loadRunResults(uri.fsPath, logPath, reportPath, request);
+            this.lastRunOptions = { request };
+            const panel = this.preparePanel(uri);
+
+            // Results of a live run must not overwrite the reopened run
+            ++this.lastRequestId;
+            panel.title = title;
+            this.shownResults = results;
+            panel.webview.html = this.getResultsContent(results, uri);
+            this.setupRetryHandler(uri);
         } catch (error) {
-            const errorMessage = `Failed to execute HTTP requests: ${error}`;
+            const errorMessage = `Failed to show run results: ${error}`;
             this.outputChannel?.appendLine(errorMessage);
-            this.outputChannel?.appendLine(`Error details: ${error instanceof Error ? error.stack : String(error)}`);
-            
-            if (this.currentPanel && requestId === this.lastRequestId) {
-                this.currentPanel.webview.html = this.getErrorContent(uri, errorMessage);
-                this.setupRetryHandler(uri);
-            }
             vscode.window.showErrorMessage(errorMessage);
-        } finally {
-            // Execution completed
         }
     }
 
-    private static executeTeaPie(filePath: string): Promise<HttpRequestResults> {
-        return TeaPieExecutor.executeTeaPie(filePath);
+    private static executeTeaPie(filePath: string, options: TeaPieExecutionOptions): Promise<HttpRequestResults> {
+        return TeaPieExecutor.executeTeaPie(filePath, options);
     }
 
     private static setupRetryHandler(uri: vscode.Uri) {
@@ -154,13 +288,32 @@ export class HttpRequestRunner {
         const messageDisposable = this.currentPanel.webview.onDidReceiveMessage(message => {
             if (message?.command === 'retry' && this.lastHttpUri) {
                             // Always use the stored split column for retry
-                this.runHttpFile(this.lastHttpUri, this.panelColumn);
+                this.runHttpFile(this.lastHttpUri, this.panelColumn, this.lastRunOptions);
             }
         });
         
         this.disposables.push(messageDisposable);
     }
 
+    private static async acceptSnapshot(panel: vscode.WebviewPanel, message: { command?: string; file?: string; key?: string } | undefined): Promise<void> {
+        if (message?.command !== 'acceptSnapshot') {
+            return;
+        }
+        const snapshot = this.shownResults?.RequestGroups?.RequestGroup
+            ?.flatMap(group => group.Requests)
+            .map(request => request.Snapshot)
+            .find(candidate => candidate?.file === message.file && candidate?.key === message.key);
+        if (!snapshot) {
+            return;
+        }
+        try {
+            await SnapshotTester.accept(snapshot);
+            panel.webview.postMessage({ command: 'snapshotAccepted', file: snapshot.file, key: snapshot.key });
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to accept snapshot: ${error}`);
+        }
+    }
+
     private static getLoadingContent(fileUri: vscode.Uri): string {
         const fileName = path.basename(fileUri.fsPath);
         return `<!DOCTYPE html>
@@ -173,15 +326,103 @@ export class HttpRequestRunner {
 <body>
     <div class="header">
         <h1>HTTP Request Results: <span class="filename">${fileName}</span></h1>
+        <button class="retry-btn cancel-btn" id="cancel-btn">Cancel</button>
     </div>
     <div class="loading-container">
-        <div class="spinner"></div>
-        <div class="loading-text">Executing HTTP requests...</div>
+        <div class="progress-bar indeterminate" id="progress-bar">
+            <div class="progress-fill" id="progress-fill"></div>
+        </div>
+        <div class="loading-text" id="progress-text">Executing HTTP requests...</div>
     </div>
+    <div id="live-requests"></div>
+    <script>${this.getLoadingScript()}</script>
 </body>
 </html>`;
     }
 
+    /**
+     * Script for the loading page that fills in request cards and the progress bar as TeaPie reports them
+     */
+    private static getLoadingScript(): string {
+        return `
+            const vscode = acquireVsCodeApi();
+            const cancelBtn = document.getElementById('cancel-btn');
+            cancelBtn?.addEventListener('click', () => {
+                cancelBtn.disabled = true;
+                cancelBtn.textContent = 'Cancelling...';
+                document.getElementById('progress-text').textContent = 'Cancelling execution...';
+                vscode.postMessage({ command: 'cancel' });
+            });
+
+            const liveRequests = document.getElementById('live-requests');
+            const progressBar = document.getElementById('progress-bar');
+            const progressFill = document.getElementById('progress-fill');
+            const progressText = document.getElementById('progress-text');
+            const completed = new Set();
+
+            function element(tag, className, text) {
+                const el = document.createElement(tag);
+                if (className) el.className = className;
+                if (text !== undefined) el.textContent = text;
+                return el;
+            }
+
+            function getCard(event) {
+                let card = document.getElementById('live-request-' + event.index);
+                if (card) return card;
+
+                card = element('div', 'request-item live-request');
+                card.id = 'live-request-' + event.index;
+                const header = element('div', 'request-header');
+                header.appendChild(element('h3', '', event.name));
+                header.appendChild(element('span', 'status running', 'Running'));
+                const content = element('div', 'request-content');
+                const section = element('div', 'section');
+                const methodUrl = element('div', 'method-url');
+                methodUrl.appendChild(element('span', 'method method-' + event.method.toLowerCase(), event.method));
+                methodUrl.appendChild(element('span', 'url', event.url));
+                section.appendChild(methodUrl);
+                content.appendChild(section);
+                card.appendChild(header);
+                card.appendChild(content);
+                liveRequests.appendChild(card);
+                return card;
+            }
+
+            function updateProgress(total) {
+                if (!total) return;
+                const percent = Math.min(100, Math.round(completed.size / total * 100));
+                progressBar.classList.remove('indeterminate');
+                progressFill.style.width = percent + '%';
+                progressText.textContent = 'Executing HTTP requests... (' + completed.size + '/' + total + ')';
+            }
+
+            window.addEventListener('message', ({ data }) => {
+                if (data?.command !== 'progress') return;
+                const event = data.event;
+                const card = getCard(event);
+
+                if (event.type === 'response') {
+                    completed.add(event.index);
+                    const success = event.statusCode >= 200 && event.statusCode < 400;
+                    const status = card.querySelector('.request-header .status');
+                    status.className = 'status ' + (success ? 'passed' : 'failed');
+                    status.textContent = success ? 'Success' : 'Fail';
+
+                    card.querySelector('.status-line')?.remove();
+                    const statusLine = element('div', 'status-line');
+                    const codeClass = event.statusCode >= 200 && event.statusCode < 300 ? 'success' : 'error';
+                    statusLine.appendChild(element('span', 'status-code status-' + codeClass, String(event.statusCode)));
+                    statusLine.appendChild(element('span', 'status-text', event.statusText || ''));
+                    statusLine.appendChild(element('span', 'duration', event.duration || ''));
+                    card.querySelector('.section').appendChild(statusLine);
+                }
+
+                updateProgress(event.total);
+            });
+        `;
+    }
+
     private static getErrorContent(fileUri: vscode.Uri, errorMessage: string): string {
         const fileName = path.basename(fileUri.fsPath);
         return `<!DOCTYPE html>
@@ -220,8 +461,14 @@ export class HttpRequestRunner {
             .join('\n');
     }
 
+    private static getStatusText(status: string): string {
+        if (status === STATUS_PASSED) return 'Success';
+        if (status === STATUS_CANCELLED) return 'Cancelled';
+        return 'Fail';
+    }
+
     private static renderRequestHeader(request: HttpRequestResult): string {
-        const statusText = request.Status === STATUS_PASSED ? 'Success' : 'Fail';
+        const statusText = this.getStatusText(request.Status);
         const hasTitle = request.Name && !request.Name.match(CONTENT_PATTERNS.HTTP_METHOD_URL);
         if (hasTitle) {
             return `<div class="request-header">
@@ -457,6 +704,51 @@ export class HttpRequestRunner {
             </div>`;
     }
 
+    private static renderSnapshotSection(request: HttpRequestResult): string {
+        const snapshot = request.Snapshot;
+        if (!snapshot || snapshot.status !== 'mismatched') {
+            return '';
+        }
+
+        const formatValue = (value: unknown) => value === undefined ? '' : this.escapeHtml(JSON.stringify(value));
+        const kindLabels: { [kind in JsonChange['kind']]: string } = { added: 'Added', removed: 'Removed', changed: 'Changed' };
+        const diffHtml = snapshot.changes.length ? `
+            <table class="snapshot-diff">
+                <thead><tr><th>Path</th><th>Change</th><th>Snapshot</th><th>Response</th></tr></thead>
+                <tbody>
+                    ${snapshot.changes.map(change => `
+                        <tr class="snapshot-${change.kind}">
+                            <td class="snapshot-path">${this.escapeHtml(change.path)}</td>
+                            <td>${kindLabels[change.kind]}</td>
+                            <td><code>${formatValue(change.before)}</code></td>
+                            <td><code>${formatValue(change.after)}</code></td>
+                        </tr>`).join('')}
+                </tbody>
+            </table>` : `
+            <div class="snapshot-columns">
+                <div>
+                    <div class="snapshot-column-title">Snapshot</div>
+                    <pre class="body">${this.escapeHtml(snapshot.expected)}</pre>
+                </div>
+                <div>
+                    <div class="snapshot-column-title">Response</div>
+                    <pre class="body">${this.escapeHtml(snapshot.actual)}</pre>
+                </div>
+            </div>`;
+        const ignoredHtml = snapshot.ignorePaths.length
+            ? `<div class="snapshot-ignored">Ignored: ${snapshot.ignorePaths.map(ignorePath => `<code>${this.escapeHtml(ignorePath)}</code>`).join(', ')}</div>`
+            : '';
+
+        return `
+            <div class="section snapshot-section">
+                <h4>Snapshot Mismatch</h4>
+                <div class="snapshot-file">${this.escapeHtml(path.basename(snapshot.file))} › ${this.escapeHtml(snapshot.key)}</div>
+                ${ignoredHtml}
+                ${diffHtml}
+                <button class="retry-btn accept-snapshot-btn" data-file="${this.escapeHtml(snapshot.file)}" data-key="${this.escapeHtml(snapshot.key)}">Accept new snapshot</button>
+            </div>`;
+    }
+
     private static renderErrorSection(request: HttpRequestResult): string {
         if (!request.ErrorMessage) return '';
         return `
@@ -475,7 +767,7 @@ export class HttpRequestRunner {
             </div>`;
     }
 
-    private static getResultsContent(results: HttpRequestResults, fileUri: vscode.Uri): string {
+    private static getResultsContent(results: HttpRequestResults, fileUri: vscode.Uri, focusRequest?: string): string {
         const fileName = path.basename(fileUri.fsPath);
         let requestsHtml = '';
         let renderedRequests = 0;
@@ -488,7 +780,7 @@ export class HttpRequestRunner {
                         const allPassed = request.Tests?.every(t => t.Passed) ?? true;
                         const summaryClass = allPassed ? 'test-passed-summary' : 'test-failed-summary';
                         const summaryText = allPassed ? '👍 All tests passed' : '👎 Some tests failed';
-                        const statusText = request.Status === 'Passed' ? 'Success' : 'Fail';
+                        const statusText = this.getStatusText(request.Status);
                         
                         requestsHtml += `
                             <div class="request-item">
@@ -517,14 +809,17 @@ export class HttpRequestRunner {
                     const headerHtml = this.renderRequestHeader(request);
                     const requestHtml = this.renderRequestSection(request, idx);
                     const responseHtml = this.renderResponseSection(request, idx);
+                    const snapshotHtml = this.renderSnapshotSection(request);
                     const errorHtml = this.renderErrorSection(request);
                     
+                    const focusAttributes = focusRequest && request.Name === focusRequest ? ' id="focused-request"' : '';
                     requestsHtml += `
-                        <div class="request-item">
+                        <div class="request-item${focusAttributes ? ' focused' : ''}"${focusAttributes}>
                             ${headerHtml}
                             <div class="request-content">
                                 ${requestHtml}
                                 ${responseHtml}
+                                ${snapshotHtml}
                                 ${errorHtml}
                             </div>
                         </div>`;
@@ -547,6 +842,9 @@ export class HttpRequestRunner {
             }
         }
 
+        const cancelled = results.RequestGroups?.RequestGroup?.some(group => group.Cancelled);
+        const cancelledBanner = cancelled ? `<div class="cancelled-banner">⏹️ ${ERROR_CANCELLED}</div>` : '';
+
         return `<!DOCTYPE html>
 <html>
 <head>
@@ -559,6 +857,7 @@ export class HttpRequestRunner {
         <h1>HTTP Request Results: <span class="filename">${this.escapeHtml(fileName)}</span></h1>
         <button class="retry-btn" id="retry-btn">Retry</button>
     </div>
+    ${cancelledBanner}
     ${requestsHtml || fallbackContent}
     <script>${this.getScript()}</script>
 </body>
@@ -649,22 +948,46 @@ export class HttpRequestRunner {
             .retry-btn:hover { 
                 background: var(--vscode-button-hoverBackground); 
             }
+            .cancel-btn { 
+                background: var(--vscode-button-secondaryBackground); 
+                color: var(--vscode-button-secondaryForeground); 
+            }
+            .cancel-btn:hover { 
+                background: var(--vscode-button-secondaryHoverBackground); 
+            }
+            .cancel-btn:disabled { 
+                opacity: 0.6; 
+                cursor: default; 
+            }
             .loading-container { 
                 text-align: center; 
                 padding: 3em 1em; 
             }
-            .spinner { 
-                width: 2.5em; 
-                height: 2.5em; 
-                border: 0.25em solid var(--vscode-panel-border); 
-                border-top: 0.25em solid var(--vscode-button-background); 
-                border-radius: 50%; 
-                animation: spin 1s linear infinite; 
+            .progress-bar { 
+                height: 0.375em; 
+                max-width: 30em; 
                 margin: 0 auto 1em; 
+                background: var(--vscode-panel-border); 
+                border-radius: 0.1875em; 
+                overflow: hidden; 
             }
-            @keyframes spin { 
-                0% { transform: rotate(0deg); } 
-                100% { transform: rotate(360deg); } 
+            .progress-fill { 
+                height: 100%; 
+                width: 0; 
+                background: var(--vscode-progressBar-background, var(--vscode-button-background)); 
+                transition: width 0.3s ease; 
+            }
+            .progress-bar.indeterminate .progress-fill { 
+                width: 30%; 
+                animation: indeterminate 1.2s ease-in-out infinite; 
+            }
+            @keyframes indeterminate { 
+                0% { transform: translateX(-100%); } 
+                100% { transform: translateX(333%); } 
+            }
+            .status.running { 
+                background: var(--vscode-badge-background); 
+                color: var(--vscode-badge-foreground); 
             }
             .loading-text { 
                 font-size: 1em; 
@@ -699,6 +1022,9 @@ export class HttpRequestRunner {
                 border-radius: 0.5em; 
                 overflow: hidden; 
             }
+            .request-item.focused { 
+                border-color: var(--vscode-focusBorder); 
+            }
             .request-header { 
                 display: flex; 
                 justify-content: space-between; 
@@ -727,6 +1053,17 @@ export class HttpRequestRunner {
                 background: var(--vscode-testing-iconFailed); 
                 color: var(--vscode-button-foreground); 
             }
+            .status.cancelled { 
+                background: var(--vscode-testing-iconSkipped, var(--vscode-descriptionForeground)); 
+                color: var(--vscode-button-foreground); 
+            }
+            .cancelled-banner { 
+                margin-bottom: 1.5em; 
+                padding: 0.75em 1em; 
+                border-radius: 0.375em; 
+                border-left: 0.25em solid var(--vscode-editorWarning-foreground); 
+                background: var(--vscode-textCodeBlock-background); 
+            }
             .status-badge { 
                 padding: 0.25em 0.5em; 
                 border-radius: 0.25em; 
@@ -986,6 +1323,47 @@ export class HttpRequestRunner {
                 display: none; 
             }
             
+            /* Snapshot mismatch styles */
+            .snapshot-file, .snapshot-ignored {
+                color: var(--vscode-descriptionForeground);
+                margin-bottom: 0.5em;
+            }
+            .snapshot-diff {
+                width: 100%;
+                border-collapse: collapse;
+                margin-bottom: 0.75em;
+                font-family: var(--vscode-editor-font-family);
+            }
+            .snapshot-diff th, .snapshot-diff td {
+                text-align: left;
+                padding: 0.25em 0.5em;
+                border-bottom: 1px solid var(--vscode-panel-border);
+                vertical-align: top;
+                word-break: break-all;
+            }
+            .snapshot-path {
+                white-space: nowrap;
+            }
+            .snapshot-added td:nth-child(2) {
+                color: var(--vscode-gitDecoration-addedResourceForeground);
+            }
+            .snapshot-removed td:nth-child(2) {
+                color: var(--vscode-gitDecoration-deletedResourceForeground);
+            }
+            .snapshot-changed td:nth-child(2) {
+                color: var(--vscode-gitDecoration-modifiedResourceForeground);
+            }
+            .snapshot-columns {
+                display: grid;
+                grid-template-columns: 1fr 1fr;
+                gap: 0.75em;
+                margin-bottom: 0.75em;
+            }
+            .snapshot-column-title {
+                font-weight: bold;
+                margin-bottom: 0.25em;
+            }
+
             /* Retry section styles */
             .retry-container { 
                 margin-top: 0.625em; 
@@ -1102,8 +1480,27 @@ export class HttpRequestRunner {
 
     private static getScript(): string {
         return `
+            // The API can only be acquired once per webview
+            const vscodeApi = window.acquireVsCodeApi?.();
             const retryBtn = document.getElementById('retry-btn');
-            retryBtn?.addEventListener('click', () => window.acquireVsCodeApi?.().postMessage({ command: 'retry' }));
+            retryBtn?.addEventListener('click', () => vscodeApi?.postMessage({ command: 'retry' }));
+
+            document.querySelectorAll('.accept-snapshot-btn').forEach(btn => {
+                btn.addEventListener('click', () => {
+                    btn.disabled = true;
+                    vscodeApi?.postMessage({ command: 'acceptSnapshot', file: btn.dataset.file, key: btn.dataset.key });
+                });
+            });
+
+            window.addEventListener('message', event => {
+                const message = event.data;
+                if (message?.command !== 'snapshotAccepted') return;
+                document.querySelectorAll('.accept-snapshot-btn').forEach(btn => {
+                    if (btn.dataset.file === message.file && btn.dataset.key === message.key) {
+                        btn.textContent = '✅ Snapshot accepted';
+                    }
+                });
+            });
 
             window.copyToClipboard = (btn, id) => {
                 const el = document.getElementById(id);
@@ -1124,6 +1521,8 @@ export class HttpRequestRunner {
                 }, 1500);
             }
 
+            document.getElementById('focused-request')?.scrollIntoView({ block: 'start' });
+
             // Toggle URL logic
             document.querySelectorAll('.toggle-url-btn').forEach(btn => {
                 btn.addEventListener('click', function() {
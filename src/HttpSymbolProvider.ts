@@ -0,0 +1,123 @@
+import * as fs from 'fs/promises';
+import * as vscode from 'vscode';
+
+import { HttpDocumentParser } from './modules/HttpDocumentParser';
+import { HttpDocument } from './modules/HttpDocumentTypes';
+import { toRange } from './utils/rangeUtils';
+import { EXCLUDE_GLOB } from './utils/workspaceUtils';
+
+/**
+ * Outline, breadcrumbs and folding of requests in HTTP files, and Go to Symbol in Workspace for named requests
+ */
+export class HttpSymbolProvider implements vscode.DocumentSymbolProvider, vscode.FoldingRangeProvider, vscode.WorkspaceSymbolProvider {
+    /** Parsed files that are not open, reused while their modification time is unchanged */
+    private readonly fileCache = new Map<string, { mtime: number; document: HttpDocument }>();
+
+    public provideDocumentSymbols(document: vscode.TextDocument): vscode.DocumentSymbol[] {
+        return HttpDocumentParser.parseDocument(document).requests.map(request => {
+            const { method, url } = request.requestLine;
+            const symbol = new vscode.DocumentSymbol(
+                HttpDocumentParser.getRequestLabel(request),
+                `${method} ${url}`,
+                vscode.SymbolKind.Method,
+                toRange(request.range),
+                toRange(request.requestLine.range)
+            );
+
+            symbol.children = [
+                ...request.directives.map(directive => new vscode.DocumentSymbol(
+                    directive.name,
+                    directive.value?.trim() ?? '',
+                    vscode.SymbolKind.Property,
+                    toRange(directive.range),
+                    toRange(directive.nameRange)
+                )),
+                ...request.headers.map(header => new vscode.DocumentSymbol(
+                    header.name,
+                    header.value.trim(),
+                    vscode.SymbolKind.Field,
+                    toRange(header.range),
+                    toRange(header.nameRange)
+                ))
+            ];
+            if (request.body) {
+                const bodyRange = toRange(request.body.range);
+                symbol.children.push(new vscode.DocumentSymbol('Body', '', vscode.SymbolKind.Object, bodyRange, bodyRange));
+            }
+            return symbol;
+        });
+    }
+
+    public provideFoldingRanges(document: vscode.TextDocument): vscode.FoldingRange[] {
+        const ranges: vscode.FoldingRange[] = [];
+        for (const request of HttpDocumentParser.parseDocument(document).requests) {
+            // Blank lines before the next request stay visible when the request is folded
+            let endLine = Math.min(request.range.endLine, document.lineCount - 1);
+            while (endLine > request.range.startLine && document.lineAt(endLine).isEmptyOrWhitespace) {
+                endLine--;
+            }
+            if (endLine > request.range.startLine) {
+                ranges.push(new vscode.FoldingRange(request.range.startLine, endLine, vscode.FoldingRangeKind.Region));
+            }
+            if (request.body && request.body.range.endLine > request.body.range.startLine) {
+                ranges.push(new vscode.FoldingRange(request.body.range.startLine, request.body.range.endLine));
+            }
+        }
+        return ranges;
+    }
+
+    public async provideWorkspaceSymbols(query: string): Promise<vscode.SymbolInformation[]> {
+        const symbols: vscode.SymbolInformation[] = [];
+        for (const uri of await vscode.workspace.findFiles('**/*.http', EXCLUDE_GLOB)) {
+            const httpDocument = await this.parse(uri);
+            const container = vscode.workspace.asRelativePath(uri, false);
+
+            for (const request of httpDocument?.requests ?? []) {
+                const name = request.name || request.title;
+                if (name && this.matches(name, query)) {
+                    symbols.push(new vscode.SymbolInformation(
+                        name,
+                        vscode.SymbolKind.Method,
+                        container,
+                        new vscode.Location(uri, toRange(request.requestLine.range))
+                    ));
+                }
+            }
+        }
+        return symbols;
+    }
+
+    private async parse(uri: vscode.Uri): Promise<HttpDocument | undefined> {
+        const openDocument = vscode.workspace.textDocuments.find(document => document.uri.toString() === uri.toString());
+        if (openDocument) {
+            return HttpDocumentParser.parseDocument(openDocument);
+        }
+
+        try {
+            const { mtimeMs } = await fs.stat(uri.fsPath);
+            const cached = this.fileCache.get(uri.fsPath);
+            if (cached?.mtime === mtimeMs) {
+                return cached.document;
+            }
+            const document = await HttpDocumentParser.parseFile(uri.fsPath);
+            this.fileCache.set(uri.fsPath, { mtime: mtimeMs, document });
+            return document;
+        } catch {
+            this.fileCache.delete(uri.fsPath);
+            return undefined;
+        }
+    }
+
+    /** Whether the characters of the query appear in the name in order, ignoring case, like the symbol picker filters */
+    private matches(name: string, query: string): boolean {
+        const lowerName = name.toLowerCase();
+        let index = 0;
+        for (const char of query.toLowerCase().replace(/\s/g, '')) {
+            index = lowerName.indexOf(char, index) + 1;
+            if (index === 0) {
+                return false;
+            }
+        }
+        return true;
+    }
+}
@@ -0,0 +1,410 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+import { HttpRequestResult } from './modules/HttpRequestTypes';
+import { RunComparer } from './modules/RunComparer';
+import { RequestComparison, RunComparison } from './modules/RunComparisonTypes';
+import { RunHistoryEntry } from './modules/RunHistoryTypes';
+import { TeaPieExecutor } from './modules/TeaPieExecutor';
+
+const MAX_BODY_LENGTH = 20000;
+
+/**
+ * Shows the differences between two runs of the same HTTP file side by side
+ */
+export class RunComparisonView {
+    private static currentPanel: vscode.WebviewPanel | undefined;
+    private static outputChannel: vscode.OutputChannel;
+
+    public static setOutputChannel(channel: vscode.OutputChannel) {
+        this.outputChannel = channel;
+    }
+
+    /**
+     * Loads both runs from their log and report files and shows how the current one differs from the previous one
+     */
+    public static async show(previous: RunHistoryEntry, current: RunHistoryEntry): Promise<void> {
+        const target = current.target;
+        if (!target || !target.endsWith('.http') || !fs.existsSync(target)) {
+            vscode.window.showErrorMessage('Runs can only be compared while their HTTP file exists');
+            return;
+        }
+        if (!previous.logPath || !current.logPath) {
+            vscode.window.showErrorMessage('Runs can only be compared when both of them have a log file');
+            return;
+        }
+
+        try {
+            const [previousResults, currentResults] = await Promise.all([
+                TeaPieExecutor.loadRunResults(target, previous.logPath, previous.reportPath, previous.request),
+                TeaPieExecutor.loadRunResults(target, current.logPath, current.reportPath, current.request)
+            ]);
+            const comparison = RunComparer.compare(previousResults, currentResults);
+
+            if (this.currentPanel) {
+                this.currentPanel.reveal();
+            } else {
+                this.currentPanel = vscode.window.createWebviewPanel(
+                    'teapieRunComparison',
+                    'Run Comparison',
+                    vscode.ViewColumn.Active,
+                    { enableScripts: true }
+                );
+                this.currentPanel.onDidDispose(() => {
+                    this.currentPanel = undefined;
+                });
+            }
+            this.currentPanel.title = `Compare: ${path.basename(target)}`;
+            this.currentPanel.webview.html = this.getContent(comparison, target, previous, current);
+        } catch (error) {
+            const errorMessage = `Failed to compare runs: ${error}`;
+            this.outputChannel?.appendLine(errorMessage);
+            vscode.window.showErrorMessage(errorMessage);
+        }
+    }
+
+    private static getContent(comparison: RunComparison, target: string, previous: RunHistoryEntry, current: RunHistoryEntry): string {
+        const previousLabel = new Date(previous.timestamp).toLocaleString();
+        const currentLabel = new Date(current.timestamp).toLocaleString();
+
+        return `<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="UTF-8">
+    <title>Run Comparison</title>
+    <style>${this.getStyles()}</style>
+</head>
+<body>
+    <div class="header">
+        <h1>Run Comparison: <span class="filename">${this.escapeHtml(path.basename(target))}</span></h1>
+        <label><input type="checkbox" id="show-unchanged"> Show unchanged requests</label>
+    </div>
+    <div class="summary">
+        <div><span class="label">Previous</span> ${this.escapeHtml(previousLabel)}${this.formatRunInfo(previous)}</div>
+        <div><span class="label">Current</span> ${this.escapeHtml(currentLabel)}${this.formatRunInfo(current)}</div>
+        <div>${comparison.changedRequests} of ${comparison.requests.length} requests changed, ${comparison.flippedTests} assertions flipped</div>
+    </div>
+    ${comparison.requests.map(request => this.renderRequest(request)).join('')}
+    ${comparison.changedRequests === 0 ? '<div class="no-changes">Both runs produced the same results.</div>' : ''}
+    <script>
+        const checkbox = document.getElementById('show-unchanged');
+        checkbox.addEventListener('change', () => {
+            document.body.classList.toggle('show-unchanged', checkbox.checked);
+        });
+    </script>
+</body>
+</html>`;
+    }
+
+    private static formatRunInfo(entry: RunHistoryEntry): string {
+        const environment = entry.environment ? ` · ${this.escapeHtml(entry.environment)}` : '';
+        const results = entry.reportPath ? ` · ✓ ${entry.passed} ✗ ${entry.failed}` : '';
+        return `<span class="meta">${environment}${results}</span>`;
+    }
+
+    private static renderRequest(comparison: RequestComparison): string {
+        const changed = RunComparer.hasChanges(comparison);
+        let badge = changed ? 'changed' : 'unchanged';
+        if (!comparison.previous) {
+            badge = 'added';
+        } else if (!comparison.current) {
+            badge = 'removed';
+        }
+
+        return `
+    <div class="request ${changed ? 'changed' : 'unchanged'}">
+        <div class="request-header">
+            <h3>${this.escapeHtml(comparison.name)}</h3>
+            <span class="badge ${badge}">${badge}</span>
+        </div>
+        <div class="columns">
+            ${this.renderSide(comparison.previous)}
+            ${this.renderSide(comparison.current, comparison.durationDelta)}
+        </div>
+        ${this.renderFlippedTests(comparison)}
+        ${this.renderHeaderChanges(comparison)}
+        ${this.renderBodyChanges(comparison)}
+    </div>`;
+    }
+
+    private static renderSide(result: HttpRequestResult | undefined, durationDelta?: number): string {
+        if (!result) {
+            return '<div class="side missing">Not part of this run</div>';
+        }
+        const response = result.Response;
+        const status = response
+            ? `<span class="status-code ${response.StatusCode >= 200 && response.StatusCode < 300 ? 'success' : 'error'}">${response.StatusCode}</span> ${this.escapeHtml(response.StatusText)}`
+            : `<span class="status-code error">${this.escapeHtml(result.Status)}</span>`;
+        const delta = durationDelta ? ` <span class="delta ${durationDelta > 0 ? 'slower' : 'faster'}">(${durationDelta > 0 ? '+' : ''}${durationDelta}ms)</span>` : '';
+
+        return `
+            <div class="side">
+                <div class="method">${this.escapeHtml(result.Request?.Method)} ${this.escapeHtml(result.Request?.Url)}</div>
+                <div>${status}</div>
+                <div class="duration">${this.escapeHtml(result.Duration)}${delta}</div>
+            </div>`;
+    }
+
+    private static renderFlippedTests(comparison: RequestComparison): string {
+        if (!comparison.flippedTests.length) {
+            return '';
+        }
+        return `
+        <div class="section">
+            <h4>Flipped assertions</h4>
+            ${comparison.flippedTests.map(test => `
+                <div class="test-change">
+                    <span class="outcome ${test.before}">${test.before}</span> → <span class="outcome ${test.after}">${test.after}</span>
+                    ${this.escapeHtml(test.name)}
+                </div>`).join('')}
+        </div>`;
+    }
+
+    private static renderHeaderChanges(comparison: RequestComparison): string {
+        if (!comparison.headerChanges.length) {
+            return '';
+        }
+        return `
+        <div class="section">
+            <h4>Response headers</h4>
+            <table>
+                ${comparison.headerChanges.map(change => `
+                <tr class="${change.kind}">
+                    <td class="name">${this.escapeHtml(change.name)}</td>
+                    <td>${this.escapeHtml(change.before)}</td>
+                    <td>${this.escapeHtml(change.after)}</td>
+                </tr>`).join('')}
+            </table>
+        </div>`;
+    }
+
+    private static renderBodyChanges(comparison: RequestComparison): string {
+        const body = comparison.body;
+        if (!body.changed) {
+            return '';
+        }
+
+        if (body.structural) {
+            return `
+        <div class="section">
+            <h4>Response body</h4>
+            <table>
+                ${body.changes.map(change => `
+                <tr class="${change.kind}">
+                    <td class="name">${this.escapeHtml(change.path)}</td>
+                    <td>${this.formatJsonValue(change.before, change.kind === 'added')}</td>
+                    <td>${this.formatJsonValue(change.after, change.kind === 'removed')}</td>
+                </tr>`).join('')}
+            </table>
+            ${body.truncated ? `<div class="meta">Only the first ${body.changes.length} changes are shown</div>` : ''}
+        </div>`;
+        }
+
+        // Bodies that are not JSON are shown in full next to each other
+        return `
+        <div class="section">
+            <h4>Response body</h4>
+            <div class="columns">
+                <pre>${this.escapeHtml(this.truncate(comparison.previous?.Response?.Body))}</pre>
+                <pre>${this.escapeHtml(this.truncate(comparison.current?.Response?.Body))}</pre>
+            </div>
+        </div>`;
+    }
+
+    private static formatJsonValue(value: unknown, missing: boolean): string {
+        if (missing) {
+            return '';
+        }
+        return `<code>${this.escapeHtml(this.truncate(JSON.stringify(value)))}</code>`;
+    }
+
+    private static truncate(text: string | undefined): string {
+        if (!text || text.length <= MAX_BODY_LENGTH) {
+            return text || '';
+        }
+        return `${text.substring(0, MAX_BODY_LENGTH)}\n…`;
+    }
+
+    private static escapeHtml(str: string | undefined): string {
+        if (!str) return '';
+        return str.replace(/[&<>'"`]/g, c => ({
+            '&': '&amp;', '<': '&lt;', '>': '&gt;', "'": '&#39;', '"': '&quot;', '`': '&#96;'
+        }[c] || c));
+    }
+
+    private static getStyles(): string {
+        return `
+            body {
+                font-family: var(--vscode-font-family);
+                margin: 0;
+                padding: var(--vscode-editor-font-size);
+                color: var(--vscode-foreground);
+                background: var(--vscode-editor-background);
+                font-size: var(--vscode-editor-font-size);
+            }
+            .header {
+                margin-bottom: 1em;
+                padding-bottom: 1em;
+                border-bottom: 1px solid var(--vscode-panel-border);
+                display: flex;
+                justify-content: space-between;
+                align-items: center;
+            }
+            .header h1 {
+                margin: 0;
+                font-size: 1.5em;
+                font-weight: var(--vscode-font-weight);
+            }
+            .filename {
+                font-style: italic;
+                color: var(--vscode-textLink-foreground);
+                font-family: var(--vscode-editor-font-family);
+                font-weight: bold;
+            }
+            .summary {
+                margin-bottom: 2em;
+                line-height: 1.8;
+            }
+            .label {
+                display: inline-block;
+                width: 5em;
+                color: var(--vscode-descriptionForeground);
+            }
+            .meta {
+                color: var(--vscode-descriptionForeground);
+            }
+            .request {
+                margin-bottom: 1.5em;
+                border: 1px solid var(--vscode-panel-border);
+                border-radius: 0.375em;
+                padding: 1em;
+            }
+            .request.unchanged {
+                display: none;
+            }
+            body.show-unchanged .request.unchanged {
+                display: block;
+            }
+            .request-header {
+                display: flex;
+                justify-content: space-between;
+                align-items: center;
+            }
+            .request-header h3 {
+                margin: 0 0 0.75em 0;
+            }
+            .badge {
+                padding: 0.125em 0.5em;
+                border-radius: 0.75em;
+                font-size: 0.85em;
+                background: var(--vscode-badge-background);
+                color: var(--vscode-badge-foreground);
+            }
+            .badge.changed, .badge.removed {
+                background: var(--vscode-inputValidation-warningBackground);
+            }
+            .badge.added {
+                background: var(--vscode-inputValidation-infoBackground);
+            }
+            .columns {
+                display: grid;
+                grid-template-columns: 1fr 1fr;
+                gap: 1em;
+            }
+            .side {
+                padding: 0.75em;
+                background: var(--vscode-textCodeBlock-background);
+                border-radius: 0.25em;
+                line-height: 1.6;
+            }
+            .side.missing {
+                color: var(--vscode-descriptionForeground);
+                font-style: italic;
+            }
+            .method {
+                font-family: var(--vscode-editor-font-family);
+                word-break: break-all;
+            }
+            .status-code {
+                font-weight: bold;
+            }
+            .status-code.success {
+                color: var(--vscode-testing-iconPassed);
+            }
+            .status-code.error {
+                color: var(--vscode-testing-iconFailed);
+            }
+            .duration {
+                color: var(--vscode-descriptionForeground);
+            }
+            .delta.slower {
+                color: var(--vscode-testing-iconFailed);
+            }
+            .delta.faster {
+                color: var(--vscode-testing-iconPassed);
+            }
+            .section {
+                margin-top: 1em;
+            }
+            .section h4 {
+                margin: 0 0 0.5em 0;
+            }
+            table {
+                width: 100%;
+                border-collapse: collapse;
+                font-family: var(--vscode-editor-font-family);
+                table-layout: fixed;
+            }
+            td {
+                padding: 0.25em 0.5em;
+                border-bottom: 1px solid var(--vscode-panel-border);
+                vertical-align: top;
+                word-break: break-all;
+            }
+            td.name {
+                width: 30%;
+            }
+            tr.added td:last-child {
+                background: var(--vscode-diffEditor-insertedTextBackground);
+            }
+            tr.removed td:nth-child(2) {
+                background: var(--vscode-diffEditor-removedTextBackground);
+            }
+            tr.changed td:nth-child(2) {
+                background: var(--vscode-diffEditor-removedTextBackground);
+            }
+            tr.changed td:last-child {
+                background: var(--vscode-diffEditor-insertedTextBackground);
+            }
+            .outcome {
+                font-weight: bold;
+                text-transform: uppercase;
+                font-size: 0.85em;
+            }
+            .outcome.passed {
+                color: var(--vscode-testing-iconPassed);
+            }
+            .outcome.failed {
+                color: var(--vscode-testing-iconFailed);
+            }
+            .outcome.skipped {
+                color: var(--vscode-testing-iconSkipped);
+            }
+            pre {
+                margin: 0;
+                padding: 0.75em;
+                background: var(--vscode-textCodeBlock-background);
+                border-radius: 0.25em;
+                white-space: pre-wrap;
+                word-break: break-all;
+                font-family: var(--vscode-editor-font-family);
+            }
+            .no-changes {
+                text-align: center;
+                padding: 2em;
+                color: var(--vscode-descriptionForeground);
+            }
+        `;
+    }
+}
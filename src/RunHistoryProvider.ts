@@ -0,0 +1,148 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+import { RunHistoryService } from './modules/RunHistoryService';
+import { RunHistoryEntry } from './modules/RunHistoryTypes';
+
+export class RunHistoryItem extends vscode.TreeItem {
+    constructor(public readonly entry: RunHistoryEntry, workspacePath: string) {
+        super(new Date(entry.timestamp).toLocaleString(), vscode.TreeItemCollapsibleState.None);
+        this.description = this.getDescription();
+        this.tooltip = this.getTooltip(workspacePath);
+        this.iconPath = this.getIconPath();
+        this.contextValue = this.getContextValue();
+
+        // Prefer the report summary, fall back to the raw log
+        if (entry.reportPath) {
+            this.command = {
+                command: 'teapie-extensions.openRunSummary',
+                title: 'Open Run Summary',
+                arguments: [this]
+            };
+        } else if (entry.logPath) {
+            this.command = {
+                command: 'teapie-extensions.openRunLog',
+                title: 'Open Run Log',
+                arguments: [this]
+            };
+        }
+    }
+
+    private getDescription(): string {
+        const parts: string[] = [];
+        if (this.entry.target) {
+            parts.push(path.basename(this.entry.target));
+        }
+        if (this.entry.environment) {
+            parts.push(this.entry.environment);
+        }
+        if (this.entry.reportPath) {
+            parts.push(`✓ ${this.entry.passed}  ✗ ${this.entry.failed}`);
+        } else if (this.entry.cancelled) {
+            parts.push('cancelled');
+        }
+        if (this.entry.duration !== undefined) {
+            parts.push(`${(this.entry.duration / 1000).toFixed(2)}s`);
+        }
+        return parts.join(' · ');
+    }
+
+    private getTooltip(workspacePath: string): vscode.MarkdownString {
+        const lines = [`**Run ${new Date(this.entry.timestamp).toLocaleString()}**`, ''];
+        lines.push(`- Target: ${this.entry.target ? path.relative(workspacePath, this.entry.target) || '.' : 'unknown'}`);
+        lines.push(`- Environment: ${this.entry.environment || 'default'}`);
+        if (this.entry.reportPath) {
+            lines.push(`- Tests: ${this.entry.tests} (${this.entry.passed} passed, ${this.entry.failed} failed, ${this.entry.skipped} skipped)`);
+        } else {
+            lines.push(`- No report${this.entry.cancelled ? ' - the run was cancelled' : ''}`);
+        }
+        if (this.entry.duration !== undefined) {
+            lines.push(`- Duration: ${(this.entry.duration / 1000).toFixed(2)}s`);
+        }
+        return new vscode.MarkdownString(lines.join('\n'));
+    }
+
+    private getIconPath(): vscode.ThemeIcon {
+        if (this.entry.cancelled) {
+            return new vscode.ThemeIcon('circle-slash');
+        }
+        if (!this.entry.reportPath) {
+            return new vscode.ThemeIcon('question');
+        }
+        if (this.entry.failed > 0) {
+            return new vscode.ThemeIcon('error', new vscode.ThemeColor('testing.iconFailed'));
+        }
+        return new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed'));
+    }
+
+    /**
+     * Lists the available artifacts, so menus can show only the actions that work for this run
+     */
+    private getContextValue(): string {
+        const flags = ['runHistoryEntry'];
+        if (this.entry.reportPath) {
+            flags.push('report');
+        }
+        if (this.entry.logPath) {
+            flags.push('log');
+        }
+        if (this.entry.logPath && this.entry.target?.endsWith('.http')) {
+            flags.push('requests');
+        }
+        return flags.join(' ');
+    }
+}
+
+export class RunHistoryProvider implements vscode.TreeDataProvider<RunHistoryItem>, vscode.Disposable {
+    private _onDidChangeTreeData: vscode.EventEmitter<RunHistoryItem | undefined | null | void> = new vscode.EventEmitter<RunHistoryItem | undefined | null | void>();
+    readonly onDidChangeTreeData: vscode.Event<RunHistoryItem | undefined | null | void> = this._onDidChangeTreeData.event;
+
+    private readonly watchers: vscode.FileSystemWatcher[] = [];
+    private refreshTimer: NodeJS.Timeout | undefined;
+
+    constructor(private readonly workspacePath: string | undefined) {
+        if (!workspacePath) {
+            return;
+        }
+
+        // Runs write their report and log incrementally, so coalesce bursts of file events
+        const scheduleRefresh = () => {
+            if (this.refreshTimer) {
+                clearTimeout(this.refreshTimer);
+            }
+            this.refreshTimer = setTimeout(() => this.refresh(), 500);
+        };
+        for (const pattern of ['.teapie/reports/run-*', '.teapie/logs/run-*']) {
+            const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(workspacePath, pattern));
+            watcher.onDidCreate(scheduleRefresh);
+            watcher.onDidChange(scheduleRefresh);
+            watcher.onDidDelete(scheduleRefresh);
+            this.watchers.push(watcher);
+        }
+    }
+
+    refresh(): void {
+        this._onDidChangeTreeData.fire();
+    }
+
+    getTreeItem(element: RunHistoryItem): vscode.TreeItem {
+        return element;
+    }
+
+    async getChildren(element?: RunHistoryItem): Promise<RunHistoryItem[]> {
+        if (element || !this.workspacePath) {
+            return [];
+        }
+        const workspacePath = this.workspacePath;
+        const runs = await RunHistoryService.getRuns(workspacePath);
+        return runs.map(entry => new RunHistoryItem(entry, workspacePath));
+    }
+
+    dispose(): void {
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+        }
+        this.watchers.forEach(watcher => watcher.dispose());
+        this._onDidChangeTreeData.dispose();
+    }
+}
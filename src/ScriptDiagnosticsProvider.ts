@@ -0,0 +1,195 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+import { DIAGNOSTIC_SOURCE } from './constants/diagnostics';
+import { CompilerMessage, CompilerMessageSeverity, ScriptCompileResult } from './modules/ScriptCompileTypes';
+import { ScriptCompiler } from './modules/ScriptCompiler';
+import { EXCLUDE_GLOB, TEST_CASE_SCRIPT_GLOB, getTestCaseFiles, readWorkspaceFile } from './utils/workspaceUtils';
+
+const SEVERITIES: { [severity in CompilerMessageSeverity]: vscode.DiagnosticSeverity } = {
+    error: vscode.DiagnosticSeverity.Error,
+    warning: vscode.DiagnosticSeverity.Warning,
+    info: vscode.DiagnosticSeverity.Information
+};
+
+/** Summary of compiling several scripts */
+export interface CompileSummary {
+    compiled: number;
+    /** Scripts with at least one compiler error or a failed compilation */
+    failed: string[];
+    cancelled: boolean;
+    /** Why no script was compiled when the TeaPie CLI is missing */
+    cliNotFound?: string;
+}
+
+/**
+ * Compiles -init.csx and -test.csx scripts with teapie compile in the background, on save and on demand,
+ * and reports the compiler messages on the lines of the scripts they belong to.
+ */
+export class ScriptDiagnosticsProvider implements vscode.Disposable {
+    private readonly collection = vscode.languages.createDiagnosticCollection('teapie-compile');
+    private readonly disposables: vscode.Disposable[] = [this.collection];
+    /** Latest result of each compiled script, a script reports messages of the scripts it loads too */
+    private readonly results = new Map<string, ScriptCompileResult>();
+    /** Compilations run one after another, dotnet is too heavy to start for several scripts at once */
+    private queue: Promise<unknown> = Promise.resolve();
+    /** Compilations that have not started yet, by script path */
+    private readonly waiting = new Map<string, Promise<ScriptCompileResult>>();
+    private cliNotFoundReported = false;
+
+    constructor(private readonly outputChannel: vscode.OutputChannel) {
+        ScriptCompiler.setOutputChannel(outputChannel);
+        this.disposables.push(
+            vscode.workspace.onDidSaveTextDocument(document => {
+                if (this.isCompiledOnSave() && this.isTestCaseScript(document.uri)) {
+                    this.compile(document.uri);
+                }
+            }),
+            vscode.workspace.onDidDeleteFiles(event => event.files.forEach(uri => this.forget(uri.fsPath)))
+        );
+    }
+
+    /**
+     * Compiles a script and updates its diagnostics. Saving the same script again while it waits in the queue
+     * does not compile it twice.
+     */
+    compile(uri: vscode.Uri, token?: vscode.CancellationToken): Promise<ScriptCompileResult> {
+        const waiting = this.waiting.get(uri.fsPath);
+        if (waiting) {
+            return waiting;
+        }
+        const run = this.queue.then(async () => {
+            this.waiting.delete(uri.fsPath);
+            const result = await ScriptCompiler.compile(uri.fsPath, this.getWorkspacePath(uri), token);
+            this.apply(result);
+            return result;
+        });
+        this.waiting.set(uri.fsPath, run);
+        this.queue = run.catch(() => undefined);
+        return run;
+    }
+
+    /**
+     * Compiles every test case script of the workspace and reports all broken ones at once
+     */
+    async compileAll(progress: vscode.Progress<{ message?: string; increment?: number }>, token: vscode.CancellationToken): Promise<CompileSummary> {
+        const uris = (await vscode.workspace.findFiles(TEST_CASE_SCRIPT_GLOB, EXCLUDE_GLOB))
+            .sort((a, b) => a.fsPath.localeCompare(b.fsPath));
+        const summary: CompileSummary = { compiled: 0, failed: [], cancelled: false };
+
+        for (const uri of uris) {
+            if (token.isCancellationRequested) {
+                summary.cancelled = true;
+                break;
+            }
+            progress.report({ message: vscode.workspace.asRelativePath(uri), increment: 100 / uris.length });
+            const result = await this.compile(uri, token);
+            if (result.cliNotFound) {
+                summary.cliNotFound = result.error;
+                break;
+            }
+            summary.compiled++;
+            if (this.hasErrors(result)) {
+                summary.failed.push(uri.fsPath);
+            }
+        }
+        return summary;
+    }
+
+    hasErrors(result: ScriptCompileResult): boolean {
+        return !!result.error || result.messages.some(message => message.severity === 'error');
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+
+    private apply(result: ScriptCompileResult): void {
+        if (result.cliNotFound) {
+            if (!this.cliNotFoundReported) {
+                this.cliNotFoundReported = true;
+                this.outputChannel.appendLine(`[ScriptDiagnosticsProvider] ${result.error}, scripts are not compiled until it is installed`);
+            }
+            return;
+        }
+        this.cliNotFoundReported = false;
+
+        const affected = new Set([result.scriptPath, ...this.getFiles(this.results.get(result.scriptPath))]);
+        this.results.set(result.scriptPath, result);
+        this.getFiles(result).forEach(file => affected.add(file));
+        affected.forEach(file => this.update(file));
+    }
+
+    private forget(filePath: string): void {
+        const result = this.results.get(filePath);
+        this.results.delete(filePath);
+        this.collection.delete(vscode.Uri.file(filePath));
+        this.getFiles(result).forEach(file => this.update(file));
+    }
+
+    /**
+     * Collects the messages of all compiled scripts about a file, a script loaded by several others reports each message once
+     */
+    private async update(filePath: string): Promise<void> {
+        const messages: CompilerMessage[] = [];
+        const seen = new Set<string>();
+        let failure: string | undefined;
+        for (const result of this.results.values()) {
+            for (const message of result.messages.filter(item => item.filePath === filePath)) {
+                const key = `${message.line}:${message.character}:${message.code}:${message.message}`;
+                if (!seen.has(key)) {
+                    seen.add(key);
+                    messages.push(message);
+                }
+            }
+            if (result.scriptPath === filePath && result.error) {
+                failure = result.error;
+            }
+        }
+
+        const uri = vscode.Uri.file(filePath);
+        const lines = (await readWorkspaceFile(uri))?.split(/\r?\n/) ?? [];
+        const diagnostics = messages.map(message => {
+            const diagnostic = new vscode.Diagnostic(
+                this.getRange(lines, message.line, message.character),
+                message.message,
+                SEVERITIES[message.severity]
+            );
+            diagnostic.source = DIAGNOSTIC_SOURCE;
+            diagnostic.code = message.code;
+            return diagnostic;
+        });
+        if (failure) {
+            const diagnostic = new vscode.Diagnostic(this.getRange(lines, 0, 0), `teapie compile failed: ${failure}`, vscode.DiagnosticSeverity.Error);
+            diagnostic.source = DIAGNOSTIC_SOURCE;
+            diagnostics.push(diagnostic);
+        }
+        this.collection.set(uri, diagnostics);
+    }
+
+    /**
+     * Returns the range of the word the compiler points at, or of the single character when there is none
+     */
+    private getRange(lines: string[], line: number, character: number): vscode.Range {
+        const text = lines[line] ?? '';
+        const word = text.slice(character).match(/^\w+/);
+        const length = word ? word[0].length : Math.min(1, Math.max(text.length - character, 0));
+        return new vscode.Range(line, character, line, character + length);
+    }
+
+    private getFiles(result: ScriptCompileResult | undefined): string[] {
+        return [...new Set(result?.messages.map(message => message.filePath) ?? [])];
+    }
+
+    private isTestCaseScript(uri: vscode.Uri): boolean {
+        return uri.scheme === 'file' && path.extname(uri.fsPath) === '.csx' && !!getTestCaseFiles(uri.fsPath);
+    }
+
+    private isCompiledOnSave(): boolean {
+        return vscode.workspace.getConfiguration('teapie.compile').get<boolean>('onSave', true);
+    }
+
+    private getWorkspacePath(uri: vscode.Uri): string | undefined {
+        return vscode.workspace.getWorkspaceFolder(uri)?.uri.fsPath ?? vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    }
+}
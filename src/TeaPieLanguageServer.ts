@@ -1,9 +1,21 @@
-import * as fs from 'fs';
 import * as path from 'path';
 import * as vscode from 'vscode';
 
+import { TEAPIE_TYPE } from './constants/csxTypes';
+import { CsxTypeGraph } from './modules/CsxTypeGraph';
+import { CsxMember } from './modules/CsxTypes';
+import { HttpDocumentParser } from './modules/HttpDocumentParser';
+import { TeaPieInstallation } from './modules/TeaPieInstallationTypes';
+import { TeaPieLocator } from './modules/TeaPieLocator';
+import { findOpenCall, parseMemberChain } from './utils/csxExpressionUtils';
+import { getTestCaseFiles, readWorkspaceFile } from './utils/workspaceUtils';
 import { XmlDocMember, XmlDocParser } from './XmlDocParser';
 
+/** Lines above the cursor searched for member access chains and open calls */
+const CONTEXT_LINES = 20;
+/** An unfinished key of tp.Requests or tp.Responses, e.g. tp.Responses["Lo or tp.Requests.ContainsKey(" */
+const REQUEST_KEY_PATTERN = /\btp\s*\.\s*(Requests|Responses)\s*(?:\[\s*|\.\s*(?:ContainsKey|TryGetValue)\s*\(\s*)(?:"([^"\\]*)|(\w*))$/;
+
 // Create output channel for logging
 let outputChannel: vscode.OutputChannel;
 
@@ -12,22 +24,7 @@ export class TeaPieLanguageServer {
     private context: vscode.ExtensionContext;
     private disposables: vscode.Disposable[] = [];
     private xmlDocs: XmlDocMember[] = [];
-
-    // Add this map to explicitly handle TeaPie method names
-    private teaPieMethodMap: {[key: string]: string} = {
-        'M:TeaPie.TeaPie.GetVariable``1(System.String,``0)': 'GetVariable',
-        'M:TeaPie.TeaPie.SetVariable``1(System.String,``0,System.String[])': 'SetVariable',
-        'M:TeaPie.TeaPie.SetEnvironment(System.String)': 'SetEnvironment',
-        'P:TeaPie.TeaPie.Request': 'Request',
-        'P:TeaPie.TeaPie.Requests': 'Requests',
-        'P:TeaPie.TeaPie.Response': 'Response',
-        'P:TeaPie.TeaPie.Responses': 'Responses',
-        'M:TeaPie.TeaPie.Test(System.String,System.Action,System.Boolean)': 'Test',
-        'M:TeaPie.TeaPie.Test(System.String,System.Func{System.Threading.Tasks.Task},System.Boolean)': 'Test',
-        'M:TeaPie.TeaPie.Log(System.String)': 'Log',
-        'M:TeaPie.TeaPie.Assert(System.Boolean,System.String)': 'Assert',
-        'M:TeaPie.TeaPie.Equal(System.Object,System.Object)': 'Equal'
-    };
+    private typeGraph = new CsxTypeGraph([]);
 
     private constructor(context: vscode.ExtensionContext) {
         this.context = context;
@@ -54,67 +51,22 @@ export class TeaPieLanguageServer {
                 outputChannel.appendLine('[TeaPie] Failed to load XML documentation');
             }
 
-            // Register completion provider for TeaPie-specific features
+            // Register completion, signature help and hover for tp.* members
+            const selector: vscode.DocumentSelector = { scheme: 'file', pattern: '**/*.csx' };
             this.disposables.push(
                 vscode.languages.registerCompletionItemProvider(
-                    { scheme: 'file', pattern: '**/*.csx' },
-                    {
-                        provideCompletionItems: async (
-                            document: vscode.TextDocument,
-                            position: vscode.Position
-                        ): Promise<vscode.CompletionList | undefined> => {
-                            const line = document.lineAt(position.line);
-                            const linePrefix = line.text.substring(0, position.character);
-                            
-                            outputChannel.appendLine(`[TeaPie] Getting completions for line: "${linePrefix}"`);
-
-                            // Handle empty completions
-                            if (this.xmlDocs.length === 0) {
-                                outputChannel.appendLine('[TeaPie] No XML documentation available, attempting to load...');
-                                await this.loadXmlDocumentation();
-                                
-                                if (this.xmlDocs.length === 0) {
-                                    outputChannel.appendLine('[TeaPie] Still no documentation available, returning default completions');
-                                    return this.getDefaultCompletions();
-                                }
-                            }
-
-                            // Get completion items based on context
-                            let completionItems: vscode.CompletionItem[] = [];
-
-                            // If we're after 'tp.', show TeaPie instance methods and properties
-                            if (linePrefix.endsWith('tp.')) {
-                                outputChannel.appendLine('[TeaPie] Providing completions for tp.');
-                                completionItems = await this.getTeaPieMembers();
-                                
-                                if (completionItems.length === 0) {
-                                    outputChannel.appendLine('[TeaPie] No TeaPie members found, returning default completions');
-                                    return this.getDefaultCompletions();
-                                }
-                            }
-                            // If we're after 'tp' (without dot), also provide completions
-                            else if (linePrefix.trim() === 'tp') {
-                                outputChannel.appendLine('[TeaPie] Providing completions for just "tp"');
-                                completionItems = await this.getTeaPieMembers();
-                            }
-                            // If we're after a dot, try to provide context-aware completions
-                            else if (linePrefix.endsWith('.')) {
-                                const beforeDot = linePrefix.slice(0, -1).trim();
-                                outputChannel.appendLine(`[TeaPie] Providing completions for context: "${beforeDot}"`);
-                                const filteredMembers = XmlDocParser.getCompletionItems(this.xmlDocs, beforeDot);
-                                completionItems = filteredMembers.map((member: XmlDocMember) => this.createCompletionItem(member));
-                            }
-
-                            if (completionItems.length === 0) {
-                                outputChannel.appendLine('[TeaPie] No specific completions found, letting OmniSharp handle it');
-                                return undefined;
-                            }
-
-                            outputChannel.appendLine(`[TeaPie] Returning ${completionItems.length} completion items`);
-                            return new vscode.CompletionList(completionItems, true);
-                        }
-                    },
-                    '.' // Trigger completion on dot
+                    selector,
+                    { provideCompletionItems: (document, position) => this.provideCompletionItems(document, position) },
+                    '.', '[', '"' // Trigger completion on member access and on request names in tp.Responses["...
+                ),
+                vscode.languages.registerSignatureHelpProvider(
+                    selector,
+                    { provideSignatureHelp: (document, position) => this.provideSignatureHelp(document, position) },
+                    '(', ','
+                ),
+                vscode.languages.registerHoverProvider(
+                    selector,
+                    { provideHover: (document, position) => this.provideHover(document, position) }
                 )
             );
 
@@ -125,83 +77,39 @@ export class TeaPieLanguageServer {
         }
     }
 
-    public async loadXmlDocumentation(): Promise<void> {
+    /**
+     * Loads the XML documentation of the TeaPie version the CLI runs, pass refresh to search the installations again
+     */
+    public async loadXmlDocumentation(refresh: boolean = false): Promise<TeaPieInstallation | undefined> {
         try {
-            // Try to find TeaPie.dll in common locations
-            const possibleLocations = [
-                // .NET tools location (most likely)
-                path.join(process.env.USERPROFILE || '', '.dotnet', 'tools', '.store', 'teapie.tool'),
-                path.join(process.env.USERPROFILE || '', '.dotnet', 'tools'),
-                // NuGet packages location (fallback)
-                path.join(process.env.USERPROFILE || '', '.nuget', 'packages', 'teapie.tool'),
-                path.join(process.env.USERPROFILE || '', '.nuget', 'packages', 'teapie'),
-            ];
-
-            outputChannel.appendLine('[TeaPie] Searching for TeaPie XML documentation in locations: ' + JSON.stringify(possibleLocations));
+            if (refresh) {
+                TeaPieLocator.clearCache();
+            }
+            const installation = await TeaPieLocator.locate(vscode.workspace.workspaceFolders?.[0].uri.fsPath);
+            outputChannel.appendLine(`[TeaPie] Loading documentation of ${TeaPieLocator.describe(installation)}`);
+            outputChannel.appendLine(`[TeaPie] Found ${installation.xmlDocPaths.length} XML documentation files: ${JSON.stringify(installation.xmlDocPaths)}`);
 
             let allDocs: XmlDocMember[] = [];
-
-            for (const baseLocation of possibleLocations) {
-                outputChannel.appendLine(`[TeaPie] Checking location: ${baseLocation}`);
-                
-                if (fs.existsSync(baseLocation)) {
-                    outputChannel.appendLine(`[TeaPie] Location exists: ${baseLocation}`);
-                    
-                    // Use recursive directory search
-                    const searchDir = async (dir: string): Promise<string[]> => {
-                        try {
-                            const entries = await fs.promises.readdir(dir, { withFileTypes: true });
-                            const filesPromises = entries.map(async entry => {
-                                const res = path.resolve(dir, entry.name);
-                                return entry.isDirectory() ? searchDir(res) : [res];
-                            });
-                            
-                            const files = await Promise.all(filesPromises);
-                            return files.flat();
-                        } catch (err) {
-                            outputChannel.appendLine(`[TeaPie] Error reading directory ${dir}: ${err}`);
-                            return [];
-                        }
-                    };
-
-                    const files = await searchDir(baseLocation);
-                    outputChannel.appendLine(`[TeaPie] Found ${files.length} files in directory`);
-                    
-                    // Look for all TeaPie XML files
-                    const xmlFiles = files.filter(f => {
-                        const lowerName = f.toLowerCase();
-                        return lowerName.includes('teapie') && lowerName.endsWith('.xml');
-                    });
-                    outputChannel.appendLine(`[TeaPie] Found ${xmlFiles.length} potential XML documentation files: ${JSON.stringify(xmlFiles)}`);
-                    
-                    // Try to load documentation from each file
-                    for (const xmlFile of xmlFiles) {
-                        outputChannel.appendLine(`[TeaPie] Loading documentation from: ${xmlFile}`);
-                        try {
-                            const docs = await XmlDocParser.loadXmlDocs(xmlFile);
-                            if (docs.length > 0) {
-                                outputChannel.appendLine(`[TeaPie] Successfully loaded ${docs.length} documentation members from ${xmlFile}`);
-                                allDocs = [...allDocs, ...docs];
-                            } else {
-                                outputChannel.appendLine(`[TeaPie] No documentation members found in ${xmlFile}`);
-                            }
-                        } catch (error) {
-                            outputChannel.appendLine(`[TeaPie] Failed to load documentation from ${xmlFile}: ${error}`);
-                        }
+            for (const xmlFile of installation.xmlDocPaths) {
+                outputChannel.appendLine(`[TeaPie] Loading documentation from: ${xmlFile}`);
+                try {
+                    const docs = await XmlDocParser.loadXmlDocs(xmlFile);
+                    if (docs.length > 0) {
+                        outputChannel.appendLine(`[TeaPie] Successfully loaded ${docs.length} documentation members from ${xmlFile}`);
+                        allDocs = [...allDocs, ...docs];
+                    } else {
+                        outputChannel.appendLine(`[TeaPie] No documentation members found in ${xmlFile}`);
                     }
-
-                    if (allDocs.length > 0) {
-                        break; // Stop searching if we found documentation
-                    }
-                } else {
-                    outputChannel.appendLine(`[TeaPie] Location does not exist: ${baseLocation}`);
+                } catch (error) {
+                    outputChannel.appendLine(`[TeaPie] Failed to load documentation from ${xmlFile}: ${error}`);
                 }
             }
 
             this.xmlDocs = allDocs;
+            this.typeGraph = new CsxTypeGraph(allDocs);
 
             if (this.xmlDocs.length === 0) {
-                outputChannel.appendLine('[TeaPie] No XML documentation found in any of the searched locations');
+                outputChannel.appendLine('[TeaPie] No XML documentation found for the TeaPie installation');
             } else {
                 outputChannel.appendLine(`[TeaPie] Successfully loaded ${this.xmlDocs.length} total documentation members`);
                 // Log first few members to verify content
@@ -214,140 +122,211 @@ export class TeaPieLanguageServer {
                     outputChannel.appendLine('[TeaPie] Sample TeaPie members: ' + JSON.stringify(teaPieMembers.slice(0, 3).map((m: XmlDocMember) => m.name)));
                 }
             }
+            return installation;
         } catch (error) {
             outputChannel.appendLine(`[TeaPie] Failed to load XML documentation: ${error}`);
             this.xmlDocs = [];
+            this.typeGraph = new CsxTypeGraph([]);
+            return undefined;
         }
     }
 
-    private createCompletionItem(member: XmlDocMember): vscode.CompletionItem {
-        // Use our explicit map for TeaPie methods to get the correct display name
-        let displayName = '';
-        
-        // Check if we have an explicit mapping for this member
-        if (this.teaPieMethodMap[member.name]) {
-            displayName = this.teaPieMethodMap[member.name];
-            outputChannel.appendLine(`[TeaPie] Using explicit name mapping for ${member.name} -> ${displayName}`);
+    private async provideCompletionItems(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.CompletionList | undefined> {
+        const textBefore = this.getTextBefore(document, position);
+
+        // Keys of tp.Requests and tp.Responses are the names of the requests in the -req.http file of the test case
+        const requestKey = textBefore.match(REQUEST_KEY_PATTERN);
+        if (requestKey) {
+            const isQuoted = requestKey[2] !== undefined;
+            return this.getRequestNameCompletions(document, position, isQuoted, isQuoted ? requestKey[2] : requestKey[3]);
         }
-        // Handle different member types if not in our map
-        else if (member.name.startsWith('M:')) {
-            // For extension methods, we need to handle them specially
-            if (member.name.includes('(TeaPie.TeaPie,') || member.name.includes('(TeaPie.TeaPie)')) {
-                // Extract the method name from the extension method
-                const methodNameMatch = /\.([^.]+)\(TeaPie\.TeaPie/.exec(member.name);
-                if (methodNameMatch && methodNameMatch[1]) {
-                    displayName = methodNameMatch[1];
-                    outputChannel.appendLine(`[TeaPie] Extracted extension method name "${displayName}" from ${member.name}`);
-                } else {
-                    // Fallback for extension methods
-                    const parts = member.name.split('.');
-                    const methodPart = parts[parts.length - 1];
-                    displayName = methodPart.split('(')[0].replace(/^M:/, '');
-                    outputChannel.appendLine(`[TeaPie] Fallback extension method name "${displayName}" from ${member.name}`);
-                }
-            } 
-            // Regular methods
-            else {
-                const nameParts = member.name.split('.');
-                const methodName = nameParts[nameParts.length - 1];
-                
-                // Extract the name up to any backtick or parenthesis
-                const methodMatch = methodName.match(/M:([^`(]+)/);
-                if (methodMatch && methodMatch[1]) {
-                    displayName = methodMatch[1];
-                } else {
-                    // Fallback
-                    displayName = methodName.replace(/M:/, '').split('(')[0].split('`')[0];
-                }
-                
-                outputChannel.appendLine(`[TeaPie] Extracted method name "${displayName}" from ${member.name}`);
-            }
-        } else if (member.name.startsWith('P:')) {
-            // For properties, just get the name after the last dot
-            const propertyParts = member.name.split('.');
-            displayName = propertyParts[propertyParts.length - 1].replace(/P:/, '');
-            
-            outputChannel.appendLine(`[TeaPie] Extracted property name "${displayName}" from ${member.name}`);
-        } else {
-            // For other types, use the last part of the name
-            const parts = member.name.split('.');
-            displayName = parts[parts.length - 1]
-                .replace(/^[TMP]:/, '')
-                .replace(/\(.+\)$/, '')
-                .split('`')[0]; // Remove generic backticks
-                
-            outputChannel.appendLine(`[TeaPie] Extracted other name "${displayName}" from ${member.name}`);
+
+        // Member access such as tp.Response.Hea, the chain is everything before the last dot
+        const access = textBefore.match(/\??\.\s*\w*$/);
+        const segments = access ? parseMemberChain(textBefore.slice(0, access.index)) : undefined;
+        if (!segments || segments[0].name !== 'tp') {
+            return undefined;
         }
-        
-        outputChannel.appendLine(`[TeaPie] Final display name for ${member.name} is "${displayName}"`);
 
-        // Create the completion item with the correct kind
-        const kind = member.name.startsWith('M:') 
-            ? vscode.CompletionItemKind.Method 
-            : member.name.startsWith('P:') 
-                ? vscode.CompletionItemKind.Property
-                : vscode.CompletionItemKind.Class;
+        // Handle empty completions
+        if (this.xmlDocs.length === 0) {
+            outputChannel.appendLine('[TeaPie] No XML documentation available, attempting to load...');
+            await this.loadXmlDocumentation();
 
-        const item = new vscode.CompletionItem(displayName, kind);
-        
-        // Make our completions have highest priority by setting sortText
-        item.sortText = '!!' + displayName; // '!!' sorts before '0' or anything else
-        
-        // Add detailed information
-        if (member.name.startsWith('M:')) {
-            // For methods, add signature info
-            const paramInfo = this.extractParameterInfo(member.name);
-            item.detail = `${displayName}(${paramInfo})`;
-            
-            if (member.summary) {
-                item.detail += ` - ${member.summary}`;
+            if (this.xmlDocs.length === 0 && segments.length === 1) {
+                outputChannel.appendLine('[TeaPie] Still no documentation available, returning default completions');
+                return this.getDefaultCompletions();
             }
-        } else {
-            // For non-methods
-            item.detail = member.summary;
         }
-        
-        // Add full documentation
-        item.documentation = new vscode.MarkdownString(this.formatDocumentation(member));
-        
-        return item;
+
+        const type = this.typeGraph.resolveChain(segments);
+        if (!type) {
+            outputChannel.appendLine(`[TeaPie] Type of ${segments.map(segment => segment.name).join('.')} is unknown, letting OmniSharp handle it`);
+            return undefined;
+        }
+
+        // One item per name, overloads are listed by signature help
+        const overloadsByName = new Map<string, CsxMember[]>();
+        for (const member of this.typeGraph.getMembers(type).filter(item => !item.isIndexer)) {
+            const key = `${member.kind}:${member.name}`;
+            overloadsByName.set(key, [...overloadsByName.get(key) ?? [], member]);
+        }
+        const completionItems = [...overloadsByName.values()].map(overloads => this.createCompletionItem(overloads, type));
+
+        outputChannel.appendLine(`[TeaPie] Returning ${completionItems.length} completion items for ${this.typeGraph.formatType(type)}`);
+        return new vscode.CompletionList(completionItems);
     }
-    
-    private extractParameterInfo(methodName: string): string {
-        // Extract parameter types from method signature
-        const match = methodName.match(/\(([^)]*)\)/);
-        if (!match || !match[1]) {
-            return '';
+
+    private async getRequestNameCompletions(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        isQuoted: boolean,
+        prefix: string
+    ): Promise<vscode.CompletionList | undefined> {
+        const files = getTestCaseFiles(document.uri.fsPath);
+        const content = files && await readWorkspaceFile(vscode.Uri.file(files.requestFile));
+        if (content === undefined) {
+            return undefined;
         }
-        
-        // For extension methods, skip the first parameter (TeaPie.TeaPie)
-        let params = match[1].split(',');
-        if (params[0].trim() === 'TeaPie.TeaPie') {
-            params = params.slice(1);
+
+        const range = new vscode.Range(position.line, position.character - prefix.length, position.line, position.character);
+        const items = HttpDocumentParser.parse(content).requests
+            .filter(request => request.name)
+            .map(request => {
+                const item = new vscode.CompletionItem(request.name!, vscode.CompletionItemKind.Reference);
+                item.detail = `${request.requestLine.method} ${request.requestLine.url}`;
+                item.documentation = new vscode.MarkdownString(`Request in \`${path.basename(files!.requestFile)}\``);
+                item.insertText = isQuoted ? request.name : `"${request.name}"`;
+                item.range = range;
+                return item;
+            });
+        return new vscode.CompletionList(items);
+    }
+
+    private provideSignatureHelp(document: vscode.TextDocument, position: vscode.Position): vscode.SignatureHelp | undefined {
+        const textBefore = this.getTextBefore(document, position);
+        const call = findOpenCall(textBefore);
+        const segments = call ? parseMemberChain(textBefore.slice(0, call.offset)) : undefined;
+        if (!call || !segments || segments.length < 2) {
+            return undefined;
         }
-        
-        return params
-            .map(param => {
-                // Clean up parameter type names
-                let type = param.trim().split(' ').pop() || '';
-                type = type.replace('System.', '');
-                type = type.replace('``0', 'T');
-                type = type.replace('``1', 'U');
-                return type;
-            })
-            .join(', ');
+
+        const method = segments[segments.length - 1];
+        const receiverType = this.typeGraph.resolveChain(segments.slice(0, -1));
+        const overloads = receiverType
+            ? this.typeGraph.getMembers(receiverType).filter(member => member.kind === 'method' && member.name === method.name)
+            : [];
+        if (!receiverType || !overloads.length) {
+            return undefined;
+        }
+
+        const help = new vscode.SignatureHelp();
+        help.signatures = overloads.map(member => this.createSignature(member, receiverType));
+        help.activeSignature = Math.max(0, overloads.findIndex(member => member.parameters.length > call.argumentIndex));
+        help.activeParameter = call.argumentIndex;
+        return help;
     }
 
-    private formatDocumentation(member: XmlDocMember): string {
+    private provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+        const range = document.getWordRangeAtPosition(position, /[A-Za-z_]\w*/);
+        const segments = range ? parseMemberChain(this.getTextBefore(document, range.end)) : undefined;
+        if (!range || !segments || segments[0].name !== 'tp') {
+            return undefined;
+        }
+
+        const markdown = new vscode.MarkdownString();
+        if (segments.length === 1) {
+            markdown.appendCodeblock('TeaPie tp', 'csharp');
+            markdown.appendMarkdown(this.formatDocumentation(this.typeGraph.getTypeDoc(TEAPIE_TYPE)));
+            return new vscode.Hover(markdown, range);
+        }
+
+        const receiverType = this.typeGraph.resolveChain(segments.slice(0, -1));
+        if (!receiverType) {
+            return undefined;
+        }
+        // A property and an extension method may share the name, e.g. tp.Response.StatusCode and tp.Response.StatusCode()
+        const name = segments[segments.length - 1].name;
+        const isCall = /^\s*(<[^()]*>)?\s*\(/.test(document.lineAt(range.end.line).text.slice(range.end.character));
+        const members = this.typeGraph.getMembers(receiverType).filter(member => member.name === name && !member.isIndexer);
+        const matching = members.filter(member => (member.kind === 'method') === isCall);
+        const shown = matching.length ? matching : members;
+        if (!shown.length) {
+            return undefined;
+        }
+
+        markdown.appendCodeblock(shown.map(member => this.typeGraph.formatSignature(member, receiverType)).join('\n'), 'csharp');
+        markdown.appendMarkdown(this.formatMemberDocumentation(shown[0]));
+        return new vscode.Hover(markdown, range);
+    }
+
+    private createCompletionItem(overloads: CsxMember[], receiverType: string): vscode.CompletionItem {
+        const member = overloads[0];
+        const kind = member.kind === 'method'
+            ? vscode.CompletionItemKind.Method
+            : member.kind === 'property'
+                ? vscode.CompletionItemKind.Property
+                : vscode.CompletionItemKind.Field;
+
+        const item = new vscode.CompletionItem(member.name, kind);
+
+        // Make our completions have highest priority by setting sortText
+        item.sortText = '!!' + member.name; // '!!' sorts before '0' or anything else
+        item.detail = this.typeGraph.formatSignature(member, receiverType)
+            + (overloads.length > 1 ? ` (+${overloads.length - 1} overloads)` : '');
+        item.documentation = new vscode.MarkdownString(this.formatMemberDocumentation(member));
+        return item;
+    }
+
+    private createSignature(member: CsxMember, receiverType: string): vscode.SignatureInformation {
+        const label = this.typeGraph.formatSignature(member, receiverType);
+        const signature = new vscode.SignatureInformation(label, new vscode.MarkdownString(this.formatMemberDocumentation(member)));
+
+        // Parameters are highlighted by their offsets in the label, they are separated by ", "
+        const parameterLabels = this.typeGraph.formatParameters(member, receiverType);
+        let offset = label.indexOf('(') + 1;
+        signature.parameters = member.parameters.map((parameter, index) => {
+            const start = offset;
+            offset += parameterLabels[index].length + 2;
+            return new vscode.ParameterInformation(
+                [start, start + parameterLabels[index].length],
+                parameter.description ? new vscode.MarkdownString(parameter.description) : undefined
+            );
+        });
+        return signature;
+    }
+
+    /**
+     * Returns the text from a few lines above up to the position, enough for chains and calls that span lines
+     */
+    private getTextBefore(document: vscode.TextDocument, position: vscode.Position): string {
+        return document.getText(new vscode.Range(Math.max(0, position.line - CONTEXT_LINES), 0, position.line, position.character));
+    }
+
+    private formatMemberDocumentation(member: CsxMember): string {
+        return this.formatDocumentation(member.doc, member.parameters.map(parameter => parameter.name));
+    }
+
+    private formatDocumentation(member: XmlDocMember | undefined, parameterNames?: string[]): string {
         const parts: string[] = [];
+        if (!member) {
+            return '';
+        }
 
         if (member.summary) {
             parts.push(member.summary);
         }
 
-        if (member.params && member.params.length > 0) {
+        if (member.value) {
+            parts.push(`\n\n**Value:** ${member.value}`);
+        }
+
+        // Members described by the extension have parameter names without descriptions,
+        // extension methods document the extended instance as their first parameter
+        const params = member.params?.filter(param => param.description && (!parameterNames || parameterNames.includes(param.name))) ?? [];
+        if (params.length > 0) {
             parts.push('\n\n**Parameters:**');
-            for (const param of member.params) {
+            for (const param of params) {
                 parts.push(`- \`${param.name}\`: ${param.description}`);
             }
         }
@@ -415,48 +394,6 @@ export class TeaPieLanguageServer {
         return new vscode.CompletionList(completions, true);
     }
 
-    // Add this method to handle special case filtering for TeaPie members
-    private async getTeaPieMembers(): Promise<vscode.CompletionItem[]> {
-        outputChannel.appendLine('[TeaPie] Getting TeaPie members for completion');
-        
-        if (this.xmlDocs.length === 0) {
-            return this.getDefaultCompletions().items;
-        }
-        
-        // Get only top-level TeaPie members without internal implementation details
-        const teaPieMembers = this.xmlDocs.filter(m => {
-            // Direct TeaPie.TeaPie members
-            const isDirectTeaPieMember = m.name.includes('TeaPie.TeaPie.') && 
-                !m.name.includes('.Internal.') && 
-                !m.name.includes('Implementation') && 
-                !m.name.includes('<>') && 
-                !m.name.includes('__');
-            
-            // Also include extension methods for TeaPie
-            // These have format like: M:TeaPie.Extensions.TeaPieExtensionClass.Method(TeaPie.TeaPie,...)
-            const isExtensionMethod = m.name.startsWith('M:') && 
-                m.name.includes('.TeaPie') && 
-                // Check if first parameter is TeaPie.TeaPie
-                (m.name.includes('(TeaPie.TeaPie,') || m.name.includes('(TeaPie.TeaPie)'));
-            
-            return isDirectTeaPieMember || isExtensionMethod;
-        });
-        
-        outputChannel.appendLine(`[TeaPie] Found ${teaPieMembers.length} TeaPie members after filtering`);
-        teaPieMembers.forEach(m => outputChannel.appendLine(`[TeaPie] Included member: ${m.name}`));
-        
-        // Transform to completion items
-        const completionItems = teaPieMembers.map(member => this.createCompletionItem(member));
-        
-        // If we found some items from XML, return them
-        if (completionItems.length > 0) {
-            return completionItems;
-        }
-        
-        // Fallback to default completions
-        return this.getDefaultCompletions().items;
-    }
-
     public dispose(): void {
         this.disposables.forEach(d => d.dispose());
         this.disposables = [];
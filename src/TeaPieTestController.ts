@@ -0,0 +1,445 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+import { HttpRequestResult, HttpTestResult } from './modules/HttpRequestTypes';
+import { STATUS_CANCELLED, STATUS_PASSED } from './constants/httpResults';
+import { SNAPSHOT_DIRECTIVE } from './constants/directives';
+import { HttpFileParser } from './modules/HttpFileParser';
+import { TeaPieExecutor } from './modules/TeaPieExecutor';
+
+type TestItemKind = 'directory' | 'testCase' | 'request' | 'directive' | 'script' | 'scriptTest';
+
+interface TestItemData {
+    kind: TestItemKind;
+    files?: {
+        init?: string;
+        request?: string;
+        test?: string;
+    };
+}
+
+/**
+ * Exposes TeaPie test cases in the native VS Code Testing view
+ */
+export class TeaPieTestController implements vscode.Disposable {
+    private readonly controller: vscode.TestController;
+    private readonly itemData = new WeakMap<vscode.TestItem, TestItemData>();
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly outputChannel?: vscode.OutputChannel) {
+        this.controller = vscode.tests.createTestController('teapieTests', 'TeaPie');
+        this.controller.resolveHandler = item => this.resolve(item);
+        this.controller.refreshHandler = () => this.discoverAll();
+        this.controller.createRunProfile(
+            'Run',
+            vscode.TestRunProfileKind.Run,
+            (request, token) => this.runHandler(request, token),
+            true
+        );
+
+        const watcher = vscode.workspace.createFileSystemWatcher('**/*-{req.http,init.csx,test.csx}');
+        watcher.onDidCreate(() => this.discoverAll());
+        watcher.onDidDelete(() => this.discoverAll());
+        watcher.onDidChange(uri => this.onFileChanged(uri));
+        this.disposables.push(watcher, this.controller);
+    }
+
+    dispose() {
+        this.disposables.forEach(d => d.dispose());
+    }
+
+    private async resolve(item: vscode.TestItem | undefined): Promise<void> {
+        if (!item) {
+            await this.discoverAll();
+            return;
+        }
+
+        if (this.itemData.get(item)?.kind === 'testCase') {
+            await this.loadRequests(item);
+        }
+    }
+
+    /**
+     * Rebuilds the whole test tree from the workspace folder
+     */
+    private async discoverAll(): Promise<void> {
+        const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        if (!workspaceRoot) {
+            return;
+        }
+
+        try {
+            const items = await this.getDirectoryItems(workspaceRoot);
+            this.controller.items.replace(items);
+            this.outputChannel?.appendLine(`[TeaPieTestController] Discovered ${items.length} top-level test item(s)`);
+        } catch (error) {
+            this.outputChannel?.appendLine(`[TeaPieTestController] Failed to discover tests: ${error}`);
+        }
+    }
+
+    /**
+     * Collects directories with test files and test cases grouped by their -init/-req/-test files
+     */
+    private async getDirectoryItems(dirPath: string): Promise<vscode.TestItem[]> {
+        const entries = await fs.promises.readdir(dirPath, { withFileTypes: true });
+        const items: vscode.TestItem[] = [];
+        const testCases = new Map<string, NonNullable<TestItemData['files']>>();
+
+        for (const entry of entries) {
+            // Skip hidden files and directories
+            if (entry.name.startsWith('.')) {
+                continue;
+            }
+
+            const fullPath = path.join(dirPath, entry.name);
+
+            if (entry.isDirectory()) {
+                const children = await this.getDirectoryItems(fullPath);
+                if (children.length) {
+                    const directoryItem = this.controller.createTestItem(fullPath, entry.name, vscode.Uri.file(fullPath));
+                    this.itemData.set(directoryItem, { kind: 'directory' });
+                    directoryItem.children.replace(children);
+                    items.push(directoryItem);
+                }
+                continue;
+            }
+
+            const match = entry.name.match(/^(.+?)-(init|req|test)\.(csx|http)$/);
+            if (!match) {
+                continue;
+            }
+
+            const [, name, type] = match;
+            const files = testCases.get(name) || {};
+            switch (type) {
+                case 'init':
+                    files.init = fullPath;
+                    break;
+                case 'req':
+                    files.request = fullPath;
+                    break;
+                case 'test':
+                    files.test = fullPath;
+                    break;
+            }
+            testCases.set(name, files);
+        }
+
+        for (const [name, files] of testCases) {
+            // A test case cannot be run without its request file
+            if (!files.request) {
+                continue;
+            }
+
+            const testCaseItem = this.controller.createTestItem(files.request, this.formatPascalCase(name), vscode.Uri.file(files.request));
+            testCaseItem.canResolveChildren = true;
+            this.itemData.set(testCaseItem, { kind: 'testCase', files });
+            items.push(testCaseItem);
+        }
+
+        return items;
+    }
+
+    private async onFileChanged(uri: vscode.Uri): Promise<void> {
+        if (!uri.fsPath.endsWith('-req.http')) {
+            return;
+        }
+
+        const item = this.findTestCaseItem(uri.fsPath);
+        if (item) {
+            await this.loadRequests(item);
+        }
+    }
+
+    private findTestCaseItem(requestPath: string, collection: vscode.TestItemCollection = this.controller.items): vscode.TestItem | undefined {
+        let found: vscode.TestItem | undefined;
+        collection.forEach(item => {
+            if (found) {
+                return;
+            }
+            if (item.id === requestPath && this.itemData.get(item)?.kind === 'testCase') {
+                found = item;
+            } else if (this.itemData.get(item)?.kind === 'directory') {
+                found = this.findTestCaseItem(requestPath, item.children);
+            }
+        });
+        return found;
+    }
+
+    /**
+     * Creates child items for each request and its TEST-* directives
+     */
+    private async loadRequests(testCaseItem: vscode.TestItem): Promise<void> {
+        const files = this.itemData.get(testCaseItem)?.files;
+        if (!files?.request) {
+            return;
+        }
+
+        try {
+            const content = await fs.promises.readFile(files.request, 'utf8');
+            const lines = content.split(/\r?\n/);
+            const uri = vscode.Uri.file(files.request);
+            const children: vscode.TestItem[] = [];
+
+            HttpFileParser.parseHttpContentForNames(content).forEach((request, index) => {
+                const requestId = `${testCaseItem.id}::request-${index}`;
+                const requestItem = this.controller.createTestItem(requestId, HttpFileParser.getRequestLabel(request), uri);
+                const methodLine = request.methodLine ?? 0;
+                requestItem.range = new vscode.Range(request.startLine ?? methodLine, 0, methodLine, lines[methodLine]?.trimEnd().length ?? 0);
+                this.itemData.set(requestItem, { kind: 'request' });
+
+                (request.testDirectives ?? []).forEach((directive, directiveIndex) => {
+                    const text = directive.value !== undefined ? `${directive.name}: ${directive.value}` : directive.name;
+                    const directiveItem = this.controller.createTestItem(`${requestId}::test-${directiveIndex}`, text, uri);
+                    directiveItem.range = new vscode.Range(directive.line, 0, directive.line, lines[directive.line]?.trimEnd().length ?? 0);
+                    this.itemData.set(directiveItem, { kind: 'directive' });
+                    requestItem.children.add(directiveItem);
+                });
+
+                children.push(requestItem);
+            });
+
+            if (files.test) {
+                const scriptItem = this.controller.createTestItem(`${testCaseItem.id}::script`, 'Custom CSX Tests', vscode.Uri.file(files.test));
+                this.itemData.set(scriptItem, { kind: 'script' });
+                children.push(scriptItem);
+            }
+
+            testCaseItem.children.replace(children);
+            testCaseItem.canResolveChildren = false;
+        } catch (error) {
+            testCaseItem.error = `Failed to parse HTTP file: ${error}`;
+        }
+    }
+
+    private async runHandler(request: vscode.TestRunRequest, token: vscode.CancellationToken): Promise<void> {
+        const run = this.controller.createTestRun(request);
+        const testCases = this.collectTestCases(request);
+
+        try {
+            for (const testCaseItem of testCases) {
+                if (token.isCancellationRequested) {
+                    break;
+                }
+                await this.runTestCase(testCaseItem, run, token);
+            }
+        } finally {
+            run.end();
+        }
+    }
+
+    /**
+     * Resolves the requested items to the test cases that have to be executed
+     */
+    private collectTestCases(request: vscode.TestRunRequest): vscode.TestItem[] {
+        const testCases = new Map<string, vscode.TestItem>();
+        const excluded = new Set((request.exclude || []).map(item => item.id));
+
+        const visit = (item: vscode.TestItem) => {
+            if (excluded.has(item.id)) {
+                return;
+            }
+
+            const kind = this.itemData.get(item)?.kind;
+            if (kind === 'directory') {
+                item.children.forEach(visit);
+                return;
+            }
+
+            // Walk up from requests, directives and scripts to the owning test case
+            let testCaseItem: vscode.TestItem | undefined = item;
+            while (testCaseItem && this.itemData.get(testCaseItem)?.kind !== 'testCase') {
+                testCaseItem = testCaseItem.parent;
+            }
+            if (testCaseItem && !excluded.has(testCaseItem.id)) {
+                testCases.set(testCaseItem.id, testCaseItem);
+            }
+        };
+
+        if (request.include) {
+            request.include.forEach(visit);
+        } else {
+            this.controller.items.forEach(visit);
+        }
+
+        return Array.from(testCases.values());
+    }
+
+    private async runTestCase(testCaseItem: vscode.TestItem, run: vscode.TestRun, token: vscode.CancellationToken): Promise<void> {
+        if (testCaseItem.canResolveChildren) {
+            await this.loadRequests(testCaseItem);
+        }
+
+        const requestItems: vscode.TestItem[] = [];
+        let scriptItem: vscode.TestItem | undefined;
+        testCaseItem.children.forEach(child => {
+            if (this.itemData.get(child)?.kind === 'script') {
+                scriptItem = child;
+            } else {
+                requestItems.push(child);
+            }
+        });
+
+        run.started(testCaseItem);
+        requestItems.forEach(item => {
+            run.enqueued(item);
+            item.children.forEach(child => run.enqueued(child));
+        });
+
+        try {
+            const results = await TeaPieExecutor.executeTeaPie(testCaseItem.id, { token });
+            const group = results.RequestGroups?.RequestGroup?.[0];
+            const requestResults = (group?.Requests || []).filter(r => r.Name !== 'Custom CSX Tests');
+            const customTests = group?.Requests.find(r => r.Name === 'Custom CSX Tests')?.Tests || [];
+            let totalDuration = 0;
+
+            requestItems.forEach((requestItem, index) => {
+                const result = requestResults.find(r => r.Name === requestItem.label) || requestResults[index];
+                totalDuration += this.applyRequestResult(requestItem, result, run);
+            });
+
+            if (scriptItem) {
+                this.applyScriptResults(scriptItem, customTests, run);
+            }
+
+            // Errors not tied to a single request (e.g. connection failures) are reported on the test case
+            const unmatchedError = requestResults.length === 1 && !requestResults[0].Response ? requestResults[0].ErrorMessage : undefined;
+            if (group?.Cancelled) {
+                run.skipped(testCaseItem);
+            } else if (group?.Status === STATUS_PASSED) {
+                run.passed(testCaseItem, totalDuration);
+            } else {
+                run.failed(testCaseItem, new vscode.TestMessage(unmatchedError || `${group?.Name || testCaseItem.label} failed`), totalDuration);
+            }
+        } catch (error) {
+            this.outputChannel?.appendLine(`[TeaPieTestController] Failed to run ${testCaseItem.id}: ${error}`);
+            run.errored(testCaseItem, new vscode.TestMessage(error instanceof Error ? error.message : String(error)));
+            requestItems.forEach(item => {
+                run.skipped(item);
+                item.children.forEach(child => run.skipped(child));
+            });
+        }
+    }
+
+    /**
+     * Maps a single request result and its inline tests onto the test run, returning its duration
+     */
+    private applyRequestResult(requestItem: vscode.TestItem, result: HttpRequestResult | undefined, run: vscode.TestRun): number {
+        if (!result || result.Status === STATUS_CANCELLED) {
+            run.skipped(requestItem);
+            requestItem.children.forEach(child => run.skipped(child));
+            return 0;
+        }
+
+        const duration = this.parseDuration(result.Duration);
+        const tests = result.Tests || [];
+        const directiveItems: vscode.TestItem[] = [];
+        requestItem.children.forEach(directiveItem => directiveItems.push(directiveItem));
+
+        // Results are matched by the test name TeaPie reports, the position only decides for names that match no directive
+        const used = new Set<HttpTestResult>();
+        const take = (test: HttpTestResult | undefined) => {
+            if (test) {
+                used.add(test);
+            }
+            return test;
+        };
+        const matched = directiveItems.map(item => take(tests.find(test => !used.has(test) && this.isDirectiveResult(item.label, test.Name))));
+        directiveItems.forEach((directiveItem, index) => {
+            const test = matched[index] ?? take([tests[index], ...tests].find(candidate => candidate && !used.has(candidate)));
+            this.applyTestResult(directiveItem, test, run);
+        });
+
+        if (result.Status === STATUS_PASSED) {
+            run.passed(requestItem, duration);
+            return duration;
+        }
+
+        const failedTests = tests.filter(test => !test.Passed && !test.Skipped);
+        let message = result.ErrorMessage;
+        if (!message && failedTests.length) {
+            message = failedTests.map(test => `${test.Name}: ${test.Message || 'Failed'}`).join('\n');
+        }
+        if (!message && result.Response) {
+            message = `Unexpected response status ${result.Response.StatusCode} ${result.Response.StatusText}`;
+        }
+
+        const testMessage = new vscode.TestMessage(message || 'Request failed');
+        testMessage.location = requestItem.uri && requestItem.range ? new vscode.Location(requestItem.uri, requestItem.range) : undefined;
+        run.failed(requestItem, testMessage, duration);
+        return duration;
+    }
+
+    /**
+     * Whether a reported test belongs to a directive, it is named after the directive or mentions its value,
+     * e.g. the [200] of TEST-EXPECT-STATUS: [200]. Snapshot results are named after the directive alone.
+     */
+    private isDirectiveResult(directiveText: string, testName: string): boolean {
+        const normalize = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase();
+        const name = normalize(testName);
+        const separator = directiveText.indexOf(':');
+        const directiveName = normalize(separator < 0 ? directiveText : directiveText.slice(0, separator));
+        if (name === normalize(directiveText) || (directiveName === normalize(SNAPSHOT_DIRECTIVE) && name === directiveName)) {
+            return true;
+        }
+        const value = separator < 0 ? '' : normalize(directiveText.slice(separator + 1));
+        // A boolean value would match almost any name
+        return !!value && value !== 'true' && value !== 'false' && name.includes(value);
+    }
+
+    private applyTestResult(item: vscode.TestItem, test: HttpTestResult | undefined, run: vscode.TestRun): void {
+        if (!test || test.Skipped) {
+            run.skipped(item);
+        } else if (test.Passed) {
+            run.passed(item, test.Duration);
+        } else {
+            const message = new vscode.TestMessage(test.Message || `${test.Name} failed`);
+            message.location = item.uri && item.range ? new vscode.Location(item.uri, item.range) : undefined;
+            run.failed(item, message, test.Duration);
+        }
+    }
+
+    /**
+     * Creates items for tests defined in the -test.csx script as they are reported
+     */
+    private applyScriptResults(scriptItem: vscode.TestItem, tests: HttpTestResult[], run: vscode.TestRun): void {
+        const children = tests.map((test, index) => {
+            const item = this.controller.createTestItem(`${scriptItem.id}::${index}`, test.Name, scriptItem.uri);
+            this.itemData.set(item, { kind: 'scriptTest' });
+            return item;
+        });
+        scriptItem.children.replace(children);
+
+        if (!tests.length) {
+            run.skipped(scriptItem);
+            return;
+        }
+
+        children.forEach((item, index) => this.applyTestResult(item, tests[index], run));
+        const duration = tests.reduce((sum, test) => sum + (test.Duration || 0), 0);
+        const failedTests = tests.filter(test => !test.Passed && !test.Skipped);
+        if (failedTests.length) {
+            run.failed(scriptItem, new vscode.TestMessage(failedTests.map(test => `${test.Name}: ${test.Message || 'Failed'}`).join('\n')), duration);
+        } else {
+            run.passed(scriptItem, duration);
+        }
+    }
+
+    /**
+     * Converts durations like "120ms" or "1.5s" to milliseconds
+     */
+    private parseDuration(value: string | undefined): number {
+        const match = value?.match(/^([\d.]+)\s*(ms|s)?$/);
+        if (!match) {
+            return 0;
+        }
+        const amount = parseFloat(match[1]);
+        return match[2] === 's' ? Math.round(amount * 1000) : Math.round(amount);
+    }
+
+    private formatPascalCase(text: string): string {
+        // Replace PascalCase with spaces, but keep acronyms together
+        return text.replace(/([A-Z])([A-Z])([a-z])|([a-z])([A-Z])/g, '$1$4 $2$3$5');
+    }
+}
@@ -1,45 +1,16 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as vscode from 'vscode';
-import * as xml2js from 'xml2js';
 
-export interface TestCase {
-    name: string;
-    time: string;
-    classname: string;
-    failure?: {
-        _: string;
-        message: string;
-        type: string;
-    };
-    skipped?: string;
-}
-
-export interface TestSuite {
-    name: string;
-    tests: string;
-    skipped: string;
-    failures: string;
-    time: string;
-    testcase: TestCase | TestCase[];
-}
-
-export interface TestSuites {
-    name: string;
-    tests: string;
-    skipped: string;
-    failures: string;
-    time: string;
-    timestamp: string;
-    testsuite: TestSuite | TestSuite[];
-}
+import { JUnitReportParser } from './modules/JUnitReportParser';
+import { JUnitReport, JUnitTestCase, JUnitTestSuite } from './modules/JUnitReportTypes';
 
 export class TestResultItem extends vscode.TreeItem {
     constructor(
         public readonly label: string,
         public readonly collapsibleState: vscode.TreeItemCollapsibleState,
-        public readonly testCase?: TestCase,
-        public readonly testSuite?: TestSuite,
+        public readonly testCase?: JUnitTestCase,
+        public readonly testSuite?: JUnitTestSuite,
         public readonly isSummary: boolean = false,
         public readonly command?: vscode.Command
     ) {
@@ -75,15 +46,18 @@ export class TestResultItem extends vscode.TreeItem {
             return 'Test Run Summary';
         }
         if (this.testCase) {
-            if (this.testCase.failure) {
-                return `Failed: ${this.testCase.failure.message}`;
-            } else if (this.testCase.skipped !== undefined) {
-                return 'Skipped';
+            switch (this.testCase.status) {
+                case 'failed':
+                    return `Failed: ${this.testCase.failure?.message}`;
+                case 'error':
+                    return `Error: ${this.testCase.error?.message}`;
+                case 'skipped':
+                    return 'Skipped';
             }
             return `Passed (${this.testCase.time}s)`;
         }
         if (this.testSuite) {
-            return `${this.testSuite.tests} tests, ${this.testSuite.failures} failures, ${this.testSuite.skipped} skipped`;
+            return `${this.testSuite.tests} tests, ${this.testSuite.failures} failures, ${this.testSuite.errors} errors, ${this.testSuite.skipped} skipped`;
         }
         return this.label;
     }
@@ -93,9 +67,9 @@ export class TestResultItem extends vscode.TreeItem {
             return new vscode.ThemeIcon('graph');
         }
         if (this.testCase) {
-            if (this.testCase.failure) {
+            if (this.testCase.status === 'failed' || this.testCase.status === 'error') {
                 return new vscode.ThemeIcon('error');
-            } else if (this.testCase.skipped !== undefined) {
+            } else if (this.testCase.status === 'skipped') {
                 return new vscode.ThemeIcon('symbol-misc');
             }
             return new vscode.ThemeIcon('pass');
@@ -121,7 +95,7 @@ export class TestResultsProvider implements vscode.TreeDataProvider<TestResultIt
     private _onDidChangeTreeData: vscode.EventEmitter<TestResultItem | undefined | null | void> = new vscode.EventEmitter<TestResultItem | undefined | null | void>();
     readonly onDidChangeTreeData: vscode.Event<TestResultItem | undefined | null | void> = this._onDidChangeTreeData.event;
 
-    private testResults?: TestSuites;
+    private testResults?: JUnitReport;
     private outputChannel: vscode.OutputChannel;
 
     constructor(private context?: vscode.ExtensionContext) {
@@ -129,7 +103,7 @@ export class TestResultsProvider implements vscode.TreeDataProvider<TestResultIt
         this.loadTestResults();
     }
 
-    public getTestResults(): TestSuites | undefined {
+    public getTestResults(): JUnitReport | undefined {
         return this.testResults;
     }
 
@@ -155,106 +129,8 @@ export class TestResultsProvider implements vscode.TreeDataProvider<TestResultIt
         }
 
         try {
-            const xmlContent = fs.readFileSync(reportPath, 'utf8');
-            this.outputChannel.appendLine('XML content loaded, parsing...');
-            this.outputChannel.appendLine('XML content:');
-            this.outputChannel.appendLine(xmlContent);
-
-            const parser = new xml2js.Parser({
-                explicitArray: false,
-                mergeAttrs: false,
-                attrkey: '$'
-            });
-            
-            const result = await parser.parseStringPromise(xmlContent);
-            this.outputChannel.appendLine('XML parsed successfully');
-            this.outputChannel.appendLine(`Raw parsed result: ${JSON.stringify(result, null, 2)}`);
-
-            // Ensure we have a valid testsuites object
-            if (result && result.testsuites) {
-                const testsuites = result.testsuites;
-                this.outputChannel.appendLine(`Testsuites object: ${JSON.stringify(testsuites, null, 2)}`);
-
-                this.testResults = {
-                    name: testsuites.$.name,
-                    tests: testsuites.$.tests,
-                    skipped: testsuites.$.skipped,
-                    failures: testsuites.$.failures,
-                    time: testsuites.$.time,
-                    timestamp: testsuites.$.timestamp,
-                    testsuite: Array.isArray(testsuites.testsuite) 
-                        ? testsuites.testsuite.map((suite: any) => ({
-                            name: suite.$.name,
-                            tests: suite.$.tests,
-                            skipped: suite.$.skipped || '0',
-                            failures: suite.$.failures || '0',
-                            time: suite.$.time,
-                            testcase: Array.isArray(suite.testcase) 
-                                ? suite.testcase.map((tc: any) => ({
-                                    name: tc.$.name,
-                                    time: tc.$.time,
-                                    classname: tc.$.classname,
-                                    failure: tc.failure ? {
-                                        _: tc.failure._,
-                                        message: tc.failure.$.message,
-                                        type: tc.failure.$.type
-                                    } : undefined,
-                                    skipped: tc.skipped !== undefined ? '' : undefined
-                                }))
-                                : suite.testcase 
-                                    ? [{
-                                        name: suite.testcase.$.name,
-                                        time: suite.testcase.$.time,
-                                        classname: suite.testcase.$.classname,
-                                        failure: suite.testcase.failure ? {
-                                            _: suite.testcase.failure._,
-                                            message: suite.testcase.failure.$.message,
-                                            type: suite.testcase.failure.$.type
-                                        } : undefined,
-                                        skipped: suite.testcase.skipped !== undefined ? '' : undefined
-                                    }]
-                                    : []
-                        }))
-                        : testsuites.testsuite
-                            ? [{
-                                name: testsuites.testsuite.$.name,
-                                tests: testsuites.testsuite.$.tests,
-                                skipped: testsuites.testsuite.$.skipped || '0',
-                                failures: testsuites.testsuite.$.failures || '0',
-                                time: testsuites.testsuite.$.time,
-                                testcase: Array.isArray(testsuites.testsuite.testcase)
-                                    ? testsuites.testsuite.testcase.map((tc: any) => ({
-                                        name: tc.$.name,
-                                        time: tc.$.time,
-                                        classname: tc.$.classname,
-                                        failure: tc.failure ? {
-                                            _: tc.failure._,
-                                            message: tc.failure.$.message,
-                                            type: tc.failure.$.type
-                                        } : undefined,
-                                        skipped: tc.skipped !== undefined ? '' : undefined
-                                    }))
-                                    : testsuites.testsuite.testcase
-                                        ? [{
-                                            name: testsuites.testsuite.testcase.$.name,
-                                            time: testsuites.testsuite.testcase.$.time,
-                                            classname: testsuites.testsuite.testcase.$.classname,
-                                            failure: testsuites.testsuite.testcase.failure ? {
-                                                _: testsuites.testsuite.testcase.failure._,
-                                                message: testsuites.testsuite.testcase.failure.$.message,
-                                                type: testsuites.testsuite.testcase.failure.$.type
-                                            } : undefined,
-                                            skipped: testsuites.testsuite.testcase.skipped !== undefined ? '' : undefined
-                                        }]
-                                        : []
-                            }]
-                            : []
-                };
-            } else {
-                throw new Error('Invalid test results format');
-            }
-            
-            this.outputChannel.appendLine(`Final test results structure: ${JSON.stringify(this.testResults, null, 2)}`);
+            this.testResults = await JUnitReportParser.parseFile(reportPath);
+            this.outputChannel.appendLine(`Loaded ${this.testResults.tests} tests from ${this.testResults.suites.length} test suites`);
             this.refresh();
         } catch (error) {
             this.outputChannel.appendLine(`Error parsing test results: ${error}`);
@@ -293,28 +169,9 @@ export class TestResultsProvider implements vscode.TreeDataProvider<TestResultIt
             ));
 
             // Add test suites
-            const suites = Array.isArray(this.testResults.testsuite) 
-                ? this.testResults.testsuite 
-                : [this.testResults.testsuite];
-            
+            const suites = this.testResults.suites;
             this.outputChannel.appendLine(`Found ${suites.length} test suites`);
-            
-            items.push(...suites.map(suite => {
-                const name = suite.name || 'Unknown Suite';
-                this.outputChannel.appendLine(`Creating tree item for suite: ${name}`);
-                
-                const item = new TestResultItem(
-                    name,
-                    vscode.TreeItemCollapsibleState.Expanded,
-                    undefined,
-                    suite
-                );
-                
-                // Add description showing test counts
-                item.description = `(${suite.tests} tests, ${suite.failures || 0} failed, ${suite.skipped || 0} skipped)`;
-                
-                return item;
-            }));
+            items.push(...suites.map(suite => this.createSuiteItem(suite)));
 
             return items;
         }
@@ -324,14 +181,13 @@ export class TestResultsProvider implements vscode.TreeDataProvider<TestResultIt
             const suiteName = element.testSuite.name || 'Unknown Suite';
             this.outputChannel.appendLine(`Getting test cases for suite: ${suiteName}`);
             
-            // Handle both single testcase and array of testcases
-            const cases = Array.isArray(element.testSuite.testcase) 
-                ? element.testSuite.testcase 
-                : element.testSuite.testcase ? [element.testSuite.testcase] : [];
-            
+            const cases = element.testSuite.testCases;
             this.outputChannel.appendLine(`Found ${cases.length} test cases`);
             
-            return cases.map(testCase => {
+            // Nested suites come first, followed by the suite's own test cases
+            const nestedSuites = element.testSuite.suites.map(suite => this.createSuiteItem(suite));
+            
+            return [...nestedSuites, ...cases.map(testCase => {
                 const name = testCase.name || 'Unknown Test';
                 this.outputChannel.appendLine(`Creating tree item for test case: ${name}`);
                 
@@ -349,13 +205,43 @@ export class TestResultsProvider implements vscode.TreeDataProvider<TestResultIt
                 );
 
                 // Add execution time and status to description
-                const status = testCase.failure ? 'Failed' : testCase.skipped !== undefined ? 'Skipped' : 'Passed';
-                item.description = `${status} (${Number(testCase.time).toFixed(2)}s)`;
+                item.description = `${this.getStatusLabel(testCase)} (${testCase.time.toFixed(2)}s)`;
                 
                 return item;
-            });
+            })];
         }
 
         return [];
     }
+
+    private createSuiteItem(suite: JUnitTestSuite): TestResultItem {
+        const name = suite.name || 'Unknown Suite';
+        this.outputChannel.appendLine(`Creating tree item for suite: ${name}`);
+
+        const item = new TestResultItem(
+            name,
+            vscode.TreeItemCollapsibleState.Expanded,
+            undefined,
+            suite
+        );
+
+        // Add description showing test counts
+        const errors = suite.errors ? `, ${suite.errors} errors` : '';
+        item.description = `(${suite.tests} tests, ${suite.failures} failed${errors}, ${suite.skipped} skipped)`;
+
+        return item;
+    }
+
+    private getStatusLabel(testCase: JUnitTestCase): string {
+        switch (testCase.status) {
+            case 'failed':
+                return 'Failed';
+            case 'error':
+                return 'Error';
+            case 'skipped':
+                return 'Skipped';
+            default:
+                return 'Passed';
+        }
+    }
 } 
\ No newline at end of file
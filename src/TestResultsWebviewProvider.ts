@@ -1,20 +1,21 @@
 import * as path from 'path';
 import * as vscode from 'vscode';
 
-import { TestCase, TestSuite, TestSuites } from './TestResultsProvider';
+import { JUnitReportParser } from './modules/JUnitReportParser';
+import { JUnitTestCase, JUnitTestSuite, JUnitReport } from './modules/JUnitReportTypes';
 
 export class TestResultsWebviewProvider {
     public static readonly viewType = 'teapie-extensions.testResults';
 
     private _view?: vscode.WebviewPanel;
-    private _testResults: TestSuites | null = null;
+    private _testResults: JUnitReport | null = null;
 
     constructor(
         private readonly _extensionUri: vscode.Uri,
         private readonly _context: vscode.ExtensionContext
     ) {}
 
-    public show(testResults: TestSuites) {
+    public show(testResults: JUnitReport) {
         this._testResults = testResults;
 
         if (this._view) {
@@ -60,7 +61,7 @@ export class TestResultsWebviewProvider {
         }
     }
 
-    private _showTestDetails(testCase: TestCase) {
+    private _showTestDetails(testCase: JUnitTestCase) {
         if (this._view) {
             this._view.webview.postMessage({
                 type: 'showTestDetails',
@@ -155,8 +156,8 @@ export class TestResultsWebviewProvider {
 
                 function updateOverview(testResults) {
                     document.getElementById('totalTests').textContent = testResults.tests;
-                    document.getElementById('passedTests').textContent = testResults.tests - testResults.failures - testResults.skipped;
-                    document.getElementById('failedTests').textContent = testResults.failures;
+                    document.getElementById('passedTests').textContent = testResults.tests - testResults.failures - testResults.errors - testResults.skipped;
+                    document.getElementById('failedTests').textContent = testResults.failures + testResults.errors;
                     document.getElementById('skippedTests').textContent = testResults.skipped;
                 }
 
@@ -167,8 +168,9 @@ export class TestResultsWebviewProvider {
                     const failureMessage = document.getElementById('failureMessage');
 
                     name.textContent = testCase.name;
-                    status.textContent = testCase.failure ? 'Failed' : testCase.skipped ? 'Skipped' : 'Passed';
-                    failureMessage.textContent = testCase.failure ? testCase.failure.message : '';
+                    status.textContent = testCase.status.charAt(0).toUpperCase() + testCase.status.slice(1);
+                    const problem = testCase.error || testCase.failure;
+                    failureMessage.textContent = problem ? problem.message || '' : '';
                     
                     details.classList.add('visible');
                 }
@@ -177,7 +179,7 @@ export class TestResultsWebviewProvider {
         </html>`;
     }
 
-    public showTestDetails(item: { testCase?: TestCase; testSuite?: TestSuite }) {
+    public showTestDetails(item: { testCase?: JUnitTestCase; testSuite?: JUnitTestSuite }) {
         if (item.testCase) {
             this.showWebview('Test Case Details', this._getTestDetailsHtml(item.testCase));
         } else if (item.testSuite) {
@@ -185,7 +187,7 @@ export class TestResultsWebviewProvider {
         }
     }
 
-    public showSummary(testResults: TestSuites) {
+    public showSummary(testResults: JUnitReport) {
         this.showWebview('Test Run Summary', this._getSummaryHtml(testResults));
     }
 
@@ -213,9 +215,10 @@ export class TestResultsWebviewProvider {
         }
     }
 
-    private _getTestDetailsHtml(testCase: TestCase): string {
-        const status = testCase.failure ? 'Failed' : testCase.skipped !== undefined ? 'Skipped' : 'Passed';
-        const statusClass = status.toLowerCase();
+    private _getTestDetailsHtml(testCase: JUnitTestCase): string {
+        const status = testCase.status.charAt(0).toUpperCase() + testCase.status.slice(1);
+        // Errors share the failure styling
+        const statusClass = testCase.status === 'error' ? 'failed' : testCase.status;
 
         return `<!DOCTYPE html>
         <html>
@@ -306,6 +309,22 @@ export class TestResultsWebviewProvider {
                     font-size: 18px;
                     color: var(--vscode-testing-iconFailed);
                 }
+                .details + .details {
+                    margin-top: 20px;
+                }
+                .details h3.neutral {
+                    color: var(--vscode-editor-foreground);
+                }
+                .output {
+                    white-space: pre-wrap;
+                    font-family: var(--vscode-editor-font-family);
+                    font-size: 13px;
+                    margin: 0;
+                }
+                .properties td {
+                    padding: 4px 12px 4px 0;
+                    font-family: var(--vscode-editor-font-family);
+                }
                 .failure-message {
                     color: var(--vscode-testing-message-error-decorationForeground);
                     white-space: pre-wrap;
@@ -324,7 +343,7 @@ export class TestResultsWebviewProvider {
                 <div class="status-container">
                     <div class="status ${statusClass}">${status}</div>
                     <div class="duration-badge">
-                        Duration: ${Number(testCase.time).toFixed(3)}s
+                        Duration: ${testCase.time.toFixed(3)}s
                     </div>
                 </div>
             </div>
@@ -332,7 +351,7 @@ export class TestResultsWebviewProvider {
             <div class="info-grid">
                 <div class="info-item">
                     <div class="info-label">Class</div>
-                    <div class="info-value">${testCase.classname}</div>
+                    <div class="info-value">${testCase.classname || ''}</div>
                 </div>
                 <div class="info-item">
                     <div class="info-label">Test Name</div>
@@ -340,23 +359,61 @@ export class TestResultsWebviewProvider {
                 </div>
             </div>
 
+            ${testCase.error ? `
+                <div class="details">
+                    <h3>Error Details</h3>
+                    <div class="failure-message">${testCase.error.message || ''}
+${testCase.error.details || ''}</div>
+                </div>
+            ` : ''}
+
             ${testCase.failure ? `
                 <div class="details">
                     <h3>Failure Details</h3>
                     <div class="failure-message">${testCase.failure.message || ''}
-${testCase.failure._ || ''}</div>
+${testCase.failure.details || ''}</div>
+                </div>
+            ` : ''}
+
+            ${testCase.skipped?.message ? `
+                <div class="details">
+                    <h3 class="neutral">Skipped</h3>
+                    <div>${testCase.skipped.message}</div>
+                </div>
+            ` : ''}
+
+            ${testCase.properties.length ? `
+                <div class="details">
+                    <h3 class="neutral">Properties</h3>
+                    <table class="properties">
+                        ${testCase.properties.map(property => `<tr><td>${property.name}</td><td>${property.value}</td></tr>`).join('')}
+                    </table>
+                </div>
+            ` : ''}
+
+            ${testCase.systemOut ? `
+                <div class="details">
+                    <h3 class="neutral">Standard Output</h3>
+                    <pre class="output">${testCase.systemOut}</pre>
+                </div>
+            ` : ''}
+
+            ${testCase.systemErr ? `
+                <div class="details">
+                    <h3>Standard Error</h3>
+                    <pre class="output">${testCase.systemErr}</pre>
                 </div>
             ` : ''}
         </body>
         </html>`;
     }
 
-    private _getTestSuiteHtml(testSuite: TestSuite): string {
-        const totalTests = Number(testSuite.tests);
-        const failedTests = Number(testSuite.failures);
-        const skippedTests = Number(testSuite.skipped);
+    private _getTestSuiteHtml(testSuite: JUnitTestSuite): string {
+        const totalTests = testSuite.tests;
+        const failedTests = testSuite.failures + testSuite.errors;
+        const skippedTests = testSuite.skipped;
         const passedTests = totalTests - failedTests - skippedTests;
-        const duration = Number(testSuite.time).toFixed(2);
+        const duration = testSuite.time.toFixed(2);
 
         return `<!DOCTYPE html>
         <html>
@@ -504,30 +561,27 @@ ${testCase.failure._ || ''}</div>
                 </div>
             </div>
             <div class="test-list">
-                ${Array.isArray(testSuite.testcase) ? testSuite.testcase.map(testCase => {
-                    const isSkipped = testCase.skipped !== undefined || testCase.time === '0.00' || testCase.time === '0';
-                    const status = testCase.failure ? 'failed' : isSkipped ? 'skipped' : 'passed';
+                ${JUnitReportParser.getAllTestCases(testSuite).map(testCase => {
+                    const status = testCase.status === 'error' ? 'failed' : testCase.status;
                     return `
                     <div class="test-item ${status}">
                         <div class="test-name">${testCase.name}</div>
-                        <div class="duration-badge">Duration: ${Number(testCase.time).toFixed(3)}s</div>
+                        <div class="duration-badge">Duration: ${testCase.time.toFixed(3)}s</div>
                     </div>
-                `}).join('') : ''}
+                `}).join('')}
             </div>
         </body>
         </html>`;
     }
 
-    private _getSummaryHtml(testResults: TestSuites): string {
-        const totalTests = Number(testResults.tests);
-        const failedTests = Number(testResults.failures);
-        const skippedTests = Number(testResults.skipped);
+    private _getSummaryHtml(testResults: JUnitReport): string {
+        const totalTests = testResults.tests;
+        const failedTests = testResults.failures + testResults.errors;
+        const skippedTests = testResults.skipped;
         const passedTests = totalTests - failedTests - skippedTests;
-        const duration = Number(testResults.time).toFixed(2);
+        const duration = testResults.time.toFixed(2);
 
-        const suites = Array.isArray(testResults.testsuite) 
-            ? testResults.testsuite 
-            : [testResults.testsuite];
+        const suites = testResults.suites;
 
         return `<!DOCTYPE html>
         <html>
@@ -654,7 +708,7 @@ ${testCase.failure._ || ''}</div>
                 </div>
             </div>
             <div class="metadata">
-                <div>Run at: ${testResults.timestamp}</div>
+                <div>Run at: ${testResults.timestamp || 'Unknown'}</div>
             </div>
             <div class="summary">
                 <div class="stat-box total">
@@ -683,9 +737,9 @@ ${testCase.failure._ || ''}</div>
                     <div class="suite-header">
                         <h4>${suite.name}</h4>
                         <div class="suite-metadata">
-                            ${suite.tests} tests, ${suite.failures} failed, ${suite.skipped} skipped
+                            ${suite.tests} tests, ${suite.failures + suite.errors} failed, ${suite.skipped} skipped
                             <span class="duration-badge" style="margin-left: 10px">
-                                Duration: ${Number(suite.time).toFixed(2)}s
+                                Duration: ${suite.time.toFixed(2)}s
                             </span>
                         </div>
                     </div>
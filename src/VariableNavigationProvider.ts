@@ -0,0 +1,110 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+import { VariableLocator } from './modules/VariableLocator';
+import { VariableOccurrence } from './modules/VariableTypes';
+import { containsPosition, toRange } from './utils/rangeUtils';
+import { ENVIRONMENT_GLOB, EXCLUDE_GLOB, SOURCE_GLOB, readWorkspaceFile } from './utils/workspaceUtils';
+
+interface LocatedOccurrence extends VariableOccurrence {
+    uri: vscode.Uri;
+}
+
+/**
+ * Go-to-definition, find-references and rename for variables across .http files, scripts and env.json
+ */
+export class VariableNavigationProvider implements vscode.DefinitionProvider, vscode.ReferenceProvider, vscode.RenameProvider {
+    static readonly selector: vscode.DocumentSelector = [
+        { language: 'http' },
+        { scheme: 'file', pattern: '**/*.csx' },
+        { scheme: 'file', pattern: ENVIRONMENT_GLOB }
+    ];
+
+    public async provideDefinition(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Location[] | undefined> {
+        const occurrence = this.getOccurrenceAt(document, position);
+        if (!occurrence) {
+            return undefined;
+        }
+        const definitions = (await this.findOccurrences(occurrence.name)).filter(item => item.isDefinition);
+        return definitions.map(item => new vscode.Location(item.uri, toRange(item.range)));
+    }
+
+    public async provideReferences(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        context: vscode.ReferenceContext
+    ): Promise<vscode.Location[] | undefined> {
+        const occurrence = this.getOccurrenceAt(document, position);
+        if (!occurrence) {
+            return undefined;
+        }
+        const occurrences = await this.findOccurrences(occurrence.name);
+        return occurrences
+            .filter(item => context.includeDeclaration || !item.isDefinition)
+            .map(item => new vscode.Location(item.uri, toRange(item.range)));
+    }
+
+    public prepareRename(document: vscode.TextDocument, position: vscode.Position): vscode.Range {
+        const occurrence = this.getOccurrenceAt(document, position);
+        if (!occurrence) {
+            throw new Error('Only TeaPie variables can be renamed here');
+        }
+        return toRange(occurrence.range);
+    }
+
+    public async provideRenameEdits(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        newName: string
+    ): Promise<vscode.WorkspaceEdit | undefined> {
+        const occurrence = this.getOccurrenceAt(document, position);
+        if (!occurrence) {
+            return undefined;
+        }
+        if (!VariableLocator.isValidName(newName)) {
+            throw new Error(`'${newName}' is not a valid variable name`);
+        }
+
+        // Renaming onto an existing key would leave an environment with a duplicate key
+        const existing = (await this.findOccurrences(newName)).find(item => item.kind === 'environment');
+        if (existing && newName !== occurrence.name) {
+            throw new Error(`Variable ${newName} already exists in the ${existing.environment} environment`);
+        }
+
+        const edit = new vscode.WorkspaceEdit();
+        for (const item of await this.findOccurrences(occurrence.name)) {
+            edit.replace(item.uri, toRange(item.range), newName);
+        }
+        return edit;
+    }
+
+    private getOccurrenceAt(document: vscode.TextDocument, position: vscode.Position): VariableOccurrence | undefined {
+        return this.locate(document.uri, document.getText()).find(item => containsPosition(item.range, position));
+    }
+
+    private async findOccurrences(name: string): Promise<LocatedOccurrence[]> {
+        const uris = [
+            ...await vscode.workspace.findFiles(ENVIRONMENT_GLOB),
+            ...await vscode.workspace.findFiles(SOURCE_GLOB, EXCLUDE_GLOB)
+        ];
+        const occurrences: LocatedOccurrence[] = [];
+        for (const uri of uris) {
+            const content = await readWorkspaceFile(uri);
+            if (content === undefined || !content.includes(name)) {
+                continue;
+            }
+            occurrences.push(...this.locate(uri, content)
+                .filter(item => item.name === name)
+                .map(item => ({ ...item, uri })));
+        }
+        return occurrences;
+    }
+
+    private locate(uri: vscode.Uri, content: string): VariableOccurrence[] {
+        const fileName = path.basename(uri.fsPath);
+        if (fileName === 'env.json') {
+            return VariableLocator.findInEnvironmentFile(content);
+        }
+        return fileName.endsWith('.csx') ? VariableLocator.findInScript(content) : VariableLocator.findInHttpFile(content);
+    }
+}
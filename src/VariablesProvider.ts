@@ -9,9 +9,38 @@ export interface Variables {
     GlobalVariables?: { [key: string]: any };
 }
 
+export type VariableScope = 'TestCase' | 'Collection' | 'Environment' | 'Global';
+
+/**
+ * Where the value of a variable comes from, shown when hovering the variable
+ */
+export interface VariableDetails {
+    /** Resolved value, undefined when the variable is not defined */
+    value?: string;
+    /** Scope of the resolved value, following the precedence of getVariableValue */
+    scope?: VariableScope;
+    /** Name of the selected environment */
+    environment: string;
+    /** Value in the $shared section of env.json */
+    sharedValue?: string;
+    /** Value in the section of the selected environment in env.json */
+    environmentValue?: string;
+    /** Value after the last run, from cache/variables/variables.json */
+    lastRunValue?: string;
+    lastRunScope?: VariableScope;
+}
+
+const SCOPES: VariableScope[] = ['TestCase', 'Collection', 'Environment', 'Global'];
+
 export class VariablesProvider {
     private static instance: VariablesProvider;
     private variables: Variables = {};
+    private lastRunVariables: Variables = {};
+    private environmentFile: { environment: string; shared: { [key: string]: any }; selected: { [key: string]: any } } = {
+        environment: 'local',
+        shared: {},
+        selected: {}
+    };
     private outputChannel: vscode.OutputChannel;
     private lastLoadedPath: string | undefined;
     private lastLoadTime: number = 0;
@@ -45,6 +74,8 @@ export class VariablesProvider {
     }
 
     private async loadEnvironmentVariables(teapiePath: string): Promise<Variables> {
+        // Values of the previous env.json must not show up when it was removed
+        this.environmentFile = { ...this.environmentFile, shared: {}, selected: {} };
         try {
             const envPath = path.join(teapiePath, 'env.json');
             this.outputChannel.appendLine(`[TeaPie] Looking for environment variables at: ${envPath}`);
@@ -65,6 +96,7 @@ export class VariablesProvider {
             // Get shared and environment-specific variables
             const sharedVars = envConfig.$shared || {};
             const envVars = envConfig[currentEnv] || {};
+            this.environmentFile = { environment: currentEnv, shared: sharedVars, selected: envVars };
 
             // Convert to Variables format
             const variables: Variables = {
@@ -184,6 +216,8 @@ export class VariablesProvider {
             this.outputChannel.appendLine('Last run variables before merge:');
             this.outputChannel.appendLine(JSON.stringify(lastRunVariables, null, 2));
 
+            this.lastRunVariables = lastRunVariables;
+
             // Merge variables with environment variables taking precedence
             this.variables = {
                 GlobalVariables: { ...lastRunVariables.GlobalVariables, ...envVariables.GlobalVariables },
@@ -248,6 +282,28 @@ export class VariablesProvider {
         return undefined;
     }
 
+    public getVariableDetails(variableName: string): VariableDetails {
+        const findIn = (variables: Variables) => SCOPES.find(scope => {
+            const sectionVars = variables[`${scope}Variables` as keyof Variables];
+            return sectionVars && variableName in sectionVars;
+        });
+        const valueIn = (variables: Variables, scope?: VariableScope) =>
+            scope ? String(variables[`${scope}Variables` as keyof Variables]![variableName]) : undefined;
+        const { environment, shared, selected } = this.environmentFile;
+
+        const scope = findIn(this.variables);
+        const lastRunScope = findIn(this.lastRunVariables);
+        return {
+            value: valueIn(this.variables, scope),
+            scope,
+            environment,
+            sharedValue: variableName in shared ? String(shared[variableName]) : undefined,
+            environmentValue: variableName in selected ? String(selected[variableName]) : undefined,
+            lastRunValue: valueIn(this.lastRunVariables, lastRunScope),
+            lastRunScope
+        };
+    }
+
     public replaceVariables(text: string, showValues: boolean = true): string {
         this.outputChannel.appendLine(`\n[TeaPie] Replacing variables in text (showValues=${showValues}):`);
         this.outputChannel.appendLine(`[TeaPie] Original text: ${text}`);
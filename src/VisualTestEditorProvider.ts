@@ -1,6 +1,9 @@
 import * as fs from 'fs';
 import * as vscode from 'vscode';
 
+import { DirectiveRegistry } from './modules/DirectiveRegistry';
+import { HttpDocumentParser } from './modules/HttpDocumentParser';
+
 interface HttpRequest {
     name: string;
     method: string;
@@ -70,101 +73,15 @@ export class VisualTestEditorProvider {
     }
 
     private static parseHttpFile(content: string): HttpRequest[] {
-        const requests: HttpRequest[] = [];
-        const lines = content.split('\n');
-        let currentRequest: HttpRequest | null = null;
-        let currentComments: string[] = [];
-        let inBody = false;
-        let bodyContent = '';
-
-        for (const line of lines) {
-            // Skip empty lines at the start
-            if (!currentRequest && !line.trim()) {
-                continue;
-            }
-
-            // Handle request separator
-            if (line.startsWith('###')) {
-                if (currentRequest) {
-                    currentRequest.body = bodyContent.trim();
-                    requests.push(currentRequest);
-                    bodyContent = '';
-                    inBody = false;
-                }
-                currentRequest = {
-                    name: line.replace('###', '').trim(),
-                    method: '',
-                    url: '',
-                    headers: [],
-                    directives: [],
-                    body: '',
-                    comments: []
-                };
-                currentComments = [];
-                continue;
-            }
-
-            if (!currentRequest) {
-                continue;
-            }
-
-            // Handle comments and directives
-            if (line.startsWith('# ') || line.startsWith('// ')) {
-                const comment = line.replace(/^[#/]+\s*/, '');
-                if (comment.startsWith('@name')) {
-                    currentRequest.name = comment.replace('@name', '').trim();
-                } else {
-                    currentComments.push(line.trim());
-                }
-                continue;
-            }
-
-            // Handle directives
-            if (line.startsWith('##')) {
-                const [name, ...valueParts] = line.replace('##', '').trim().split(':');
-                const value = valueParts.join(':').trim();
-                currentRequest.directives.push({ name: name.trim(), value });
-                continue;
-            }
-
-            // Handle HTTP method and URL
-            if (line.match(/^(GET|POST|PUT|DELETE|PATCH)\s+/)) {
-                const [method, ...urlParts] = line.trim().split(' ');
-                currentRequest.method = method;
-                currentRequest.url = urlParts.join(' ');
-                currentRequest.comments = currentComments;
-                currentComments = [];
-                continue;
-            }
-
-            // Handle headers
-            if (line.includes(':') && !inBody) {
-                const [name, ...valueParts] = line.split(':');
-                const value = valueParts.join(':').trim();
-                if (!line.trim().startsWith('##')) {
-                    currentRequest.headers.push({ name: name.trim(), value });
-                }
-                continue;
-            }
-
-            // Handle body
-            if (line.trim() === '') {
-                inBody = true;
-                continue;
-            }
-
-            if (inBody) {
-                bodyContent += line + '\n';
-            }
-        }
-
-        // Add the last request if any
-        if (currentRequest) {
-            currentRequest.body = bodyContent.trim();
-            requests.push(currentRequest);
-        }
-
-        return requests;
+        return HttpDocumentParser.parse(content).requests.map(request => ({
+            name: request.name ?? request.title ?? '',
+            method: request.requestLine.method,
+            url: request.requestLine.url,
+            headers: request.headers.map(header => ({ name: header.name, value: header.value })),
+            directives: request.directives.map(directive => ({ name: directive.name, value: directive.value ?? '' })),
+            body: request.body?.text ?? '',
+            comments: request.comments.map(comment => `${comment.prefix} ${comment.text}`)
+        }));
     }
 
     private static async saveRequest(uri: vscode.Uri, request: HttpRequest) {
@@ -292,18 +209,11 @@ export class VisualTestEditorProvider {
         const requests = this.parseHttpFile(content);
 
         // Predefined lists
-        const commonDirectives = [
-            { name: 'AUTH-PROVIDER', description: 'Authentication provider to use' },
-            { name: 'TEST-EXPECT-STATUS', description: 'Expected HTTP status code(s)' },
-            { name: 'TEST-HAS-BODY', description: 'Verify response has body' },
-            { name: 'TEST-HAS-HEADER', description: 'Verify response has header' },
-            { name: 'TEST-SUCCESSFUL-STATUS', description: 'Verify successful status (2xx)' },
-            { name: 'RETRY-STRATEGY', description: 'Retry strategy for failed requests' },
-            { name: 'RETRY-MAX-ATTEMPTS', description: 'Maximum retry attempts' },
-            { name: 'RETRY-BACKOFF-TYPE', description: 'Type of retry delay (Linear/Exponential)' },
-            { name: 'RETRY-MAX-DELAY', description: 'Maximum delay between retries' },
-            { name: 'RETRY-UNTIL-STATUS', description: 'Retry until status code matches' }
-        ];
+        // Custom directives come from workspace files, so their summaries are escaped for the page
+        const commonDirectives = DirectiveRegistry.getAll().map(definition => ({
+            name: definition.name,
+            description: definition.summary.replace(/&/g, '&amp;').replace(/</g, '&lt;')
+        }));
 
         const commonHeaders = [
             { name: 'Content-Type', values: ['application/json', 'application/xml', 'text/plain', 'multipart/form-data'] },
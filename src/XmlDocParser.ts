@@ -17,7 +17,9 @@ interface XmlDocMemberData {
     summary?: string[];
     remarks?: string[];
     returns?: string[];
+    value?: string[];
     param?: XmlDocParam[];
+    typeparam?: XmlDocParam[];
     example?: string[];
 }
 
@@ -37,13 +39,26 @@ export interface XmlDocMember {
     summary?: string;
     remarks?: string;
     returns?: string;
+    /** Description of a property value */
+    value?: string;
     params?: Array<{
         name: string;
         description: string;
     }>;
+    typeParams?: Array<{
+        name: string;
+        description: string;
+    }>;
     example?: string;
+    /** Type referenced by the first <see cref="T:..."/> of <returns> or <value>, e.g. System.Net.Http.HttpResponseMessage */
+    returnType?: string;
 }
 
+// Inline references are replaced by markers before parsing, xml2js would otherwise drop them from the text
+const CREF_START = '\u27e8';
+const CREF_END = '\u27e9';
+const CREF_MARKER_PATTERN = new RegExp(`${CREF_START}([^${CREF_END}]+)${CREF_END}`, 'g');
+
 export class XmlDocParser {
     private static cache: Map<string, XmlDocMember[]> = new Map();
     private static outputChannel: vscode.OutputChannel;
@@ -67,10 +82,43 @@ export class XmlDocParser {
             return String(text || '');
         }
         return text
+            .replace(CREF_MARKER_PATTERN, (_, cref: string) => `\`${this.getCrefDisplayName(cref)}\``)
             .replace(/\s+/g, ' ')
             .trim();
     }
 
+    /**
+     * Replaces <see>, <paramref>, <typeparamref> and <c> with text, keeping cref targets as markers
+     */
+    private static inlineReferences(xmlContent: string): string {
+        return xmlContent
+            .replace(/<see\s+cref="([^"]+)"\s*\/>/g, `${CREF_START}$1${CREF_END}`)
+            .replace(/<see\s+cref="[^"]+"\s*>([\s\S]*?)<\/see>/g, '$1')
+            .replace(/<see\s+langword="([^"]+)"\s*\/>/g, '`$1`')
+            .replace(/<(?:paramref|typeparamref)\s+name="([^"]+)"\s*\/>/g, '`$1`')
+            .replace(/<c>([\s\S]*?)<\/c>/g, '`$1`');
+    }
+
+    /**
+     * Returns the name shown for a cref such as T:System.Collections.Generic.List`1 or M:TeaPie.TeaPie.Log(System.String)
+     */
+    private static getCrefDisplayName(cref: string): string {
+        const name = cref.replace(/^[A-Z]:/, '').replace(/\(.*\)$/, '').replace(/\{.*\}/g, '');
+        return name.split('.').pop()!.replace(/`+\d+$/, '');
+    }
+
+    private static getCrefType(value: unknown): string | undefined {
+        if (typeof value !== 'string') {
+            return undefined;
+        }
+        for (const match of value.matchAll(CREF_MARKER_PATTERN)) {
+            if (match[1].startsWith('T:')) {
+                return match[1].slice(2);
+            }
+        }
+        return undefined;
+    }
+
     private static processXmlValue(value: any): string {
         if (!value) {
             return '';
@@ -101,7 +149,7 @@ export class XmlDocParser {
                 return [];
             }
 
-            const result = await parseXmlString(xmlContent) as XmlDocResult;
+            const result = await parseXmlString(this.inlineReferences(xmlContent)) as XmlDocResult;
 
             const members: XmlDocMember[] = [];
 
@@ -136,6 +184,16 @@ export class XmlDocParser {
                         docMember.returns = this.processXmlValue(member.returns[0]);
                     }
 
+                    // Process property values
+                    if (member.value?.[0]) {
+                        docMember.value = this.processXmlValue(member.value[0]);
+                    }
+
+                    const returnType = this.getCrefType(member.returns?.[0]) ?? this.getCrefType(member.value?.[0]);
+                    if (returnType) {
+                        docMember.returnType = returnType;
+                    }
+
                     // Process parameters
                     if (member.param) {
                         docMember.params = member.param.map(p => ({
@@ -144,6 +202,14 @@ export class XmlDocParser {
                         }));
                     }
 
+                    // Process type parameters
+                    if (member.typeparam) {
+                        docMember.typeParams = member.typeparam.map(p => ({
+                            name: p.$.name,
+                            description: this.processXmlValue(p._)
+                        }));
+                    }
+
                     // Process example
                     if (member.example?.[0]) {
                         docMember.example = this.processXmlValue(member.example[0]);
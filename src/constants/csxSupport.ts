@@ -0,0 +1,65 @@
+/**
+ * Files and settings that TeaPie: Setup C# Script Support writes for each C# extension
+ */
+
+import { CSharpExtensionKind } from '../modules/CsxSupportTypes';
+
+export const CSHARP_EXTENSION_ID = 'ms-dotnettools.csharp';
+export const DEV_KIT_EXTENSION_ID = 'ms-dotnettools.csdevkit';
+
+/** Paths relative to the workspace */
+export const CSX_SETUP_MANIFEST = '.teapie/csx-setup.json';
+/** Response file with the TeaPie assemblies that OmniSharp references in every script */
+export const CSX_REFERENCES_FILE = '.teapie/references.rsp';
+export const SETTINGS_FILE = '.vscode/settings.json';
+export const LAUNCH_FILE = '.vscode/launch.json';
+export const OMNISHARP_FILE = 'omnisharp.json';
+export const GITIGNORE_FILE = '.gitignore';
+export const SAMPLE_SCRIPT_FILE = 'sample.csx';
+
+/** Launch configuration that runs the open script with dotnet script */
+export const CSX_DEBUG_CONFIGURATION = {
+    name: 'Debug C# Script',
+    type: 'coreclr',
+    request: 'launch',
+    program: 'dotnet',
+    args: ['script', '${file}'],
+    cwd: '${workspaceFolder}',
+    stopAtEntry: false,
+    console: 'internalConsole'
+};
+
+export const SAMPLE_SCRIPT = `// Sample C# script, TeaPie runs scripts like this one as the -init.csx and -test.csx of a test case
+using System;
+
+// tp is the TeaPie instance every script gets
+tp.SetVariable("example", "Hello TeaPie!");
+Console.WriteLine(tp.GetVariable<string>("example"));
+`;
+
+const OMNISHARP_SETTINGS = {
+    'omnisharp.enableRoslynAnalyzers': true,
+    'omnisharp.enableEditorConfigSupport': true,
+    'omnisharp.enableImportCompletion': true,
+    'omnisharp.enableAsyncCompletion': true,
+    'omnisharp.useModernNet': true
+};
+
+/** Workspace settings by C# extension */
+export const CSharpSettings: { [kind in CSharpExtensionKind]: { [key: string]: unknown } } = {
+    omnisharp: OMNISHARP_SETTINGS,
+    // The Roslyn language server does not load .csx scripts, the C# extension can run OmniSharp instead
+    roslyn: { 'dotnet.server.useOmnisharp': true, ...OMNISHARP_SETTINGS },
+    devkit: { 'dotnet.completion.showCompletionItemsFromUnimportedNamespaces': true },
+    none: {}
+};
+
+/** C# extensions that run OmniSharp with the setup, only OmniSharp understands #r and #load in .csx scripts */
+export const OMNISHARP_EXTENSIONS: CSharpExtensionKind[] = ['omnisharp', 'roslyn'];
+
+export const CSharpExtensionNames: { [kind in CSharpExtensionKind]: string } = {
+    omnisharp: 'C# extension with OmniSharp',
+    roslyn: 'C# extension with the Roslyn language server',
+    devkit: 'C# Dev Kit',
+    none: 'no C# extension'
+};
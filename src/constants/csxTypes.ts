@@ -0,0 +1,126 @@
+/**
+ * Type information for tp.* IntelliSense in .csx scripts that the TeaPie XML documentation does not contain.
+ * XML documentation names the parameter types of members but not their return types,
+ * and .NET types such as HttpResponseMessage are documented outside of TeaPie.
+ */
+
+export interface KnownMember {
+    /** Type in documentation ID form, see CsxMember */
+    returnType?: string;
+    summary?: string;
+    parameterNames?: string[];
+}
+
+export const TEAPIE_TYPE = 'TeaPie.TeaPie';
+
+const REQUEST = 'System.Net.Http.HttpRequestMessage';
+const RESPONSE = 'System.Net.Http.HttpResponseMessage';
+const CONTENT = 'System.Net.Http.HttpContent';
+const HEADERS = 'System.Net.Http.Headers.HttpHeaders';
+const DICTIONARY = 'System.Collections.Generic.IReadOnlyDictionary';
+
+/**
+ * Members by documentation ID. They are added to the type graph when the XML documentation does not describe them,
+ * otherwise only their return type is used.
+ */
+export const KnownMembers: { [docId: string]: KnownMember } = {
+    [`P:${TEAPIE_TYPE}.Request`]: { returnType: REQUEST, summary: 'The request of the currently executed .http request.' },
+    [`P:${TEAPIE_TYPE}.Response`]: { returnType: RESPONSE, summary: 'The response to the currently executed .http request.' },
+    [`P:${TEAPIE_TYPE}.Requests`]: {
+        returnType: `${DICTIONARY}{System.String,${REQUEST}}`,
+        summary: 'Requests of the test case executed so far, by the name from their @name directive.'
+    },
+    [`P:${TEAPIE_TYPE}.Responses`]: {
+        returnType: `${DICTIONARY}{System.String,${RESPONSE}}`,
+        summary: 'Responses of the test case received so far, by the name of their request.'
+    },
+
+    [`P:${REQUEST}.Content`]: { returnType: CONTENT, summary: 'Gets or sets the contents of the HTTP message.' },
+    [`P:${REQUEST}.Headers`]: { returnType: 'System.Net.Http.Headers.HttpRequestHeaders', summary: 'Gets the collection of HTTP request headers.' },
+    [`P:${REQUEST}.Method`]: { returnType: 'System.Net.Http.HttpMethod', summary: 'Gets or sets the HTTP method used by the HTTP request message.' },
+    [`P:${REQUEST}.RequestUri`]: { returnType: 'System.Uri', summary: 'Gets or sets the Uri used for the HTTP request.' },
+    [`P:${REQUEST}.Version`]: { returnType: 'System.Version', summary: 'Gets or sets the HTTP message version.' },
+
+    [`P:${RESPONSE}.Content`]: { returnType: CONTENT, summary: 'Gets or sets the content of a HTTP response message.' },
+    [`P:${RESPONSE}.Headers`]: { returnType: 'System.Net.Http.Headers.HttpResponseHeaders', summary: 'Gets the collection of HTTP response headers.' },
+    [`P:${RESPONSE}.StatusCode`]: { returnType: 'System.Net.HttpStatusCode', summary: 'Gets or sets the status code of the HTTP response.' },
+    [`P:${RESPONSE}.ReasonPhrase`]: { returnType: 'System.String', summary: 'Gets or sets the reason phrase which typically is sent by servers together with the status code.' },
+    [`P:${RESPONSE}.IsSuccessStatusCode`]: { returnType: 'System.Boolean', summary: 'Gets a value that indicates if the HTTP response was successful.' },
+    [`P:${RESPONSE}.RequestMessage`]: { returnType: REQUEST, summary: 'Gets or sets the request message which led to this response message.' },
+    [`P:${RESPONSE}.Version`]: { returnType: 'System.Version', summary: 'Gets or sets the HTTP message version.' },
+    [`M:${RESPONSE}.EnsureSuccessStatusCode`]: { returnType: RESPONSE, summary: 'Throws an exception if the IsSuccessStatusCode property for the HTTP response is false.' },
+
+    [`P:${CONTENT}.Headers`]: { returnType: 'System.Net.Http.Headers.HttpContentHeaders', summary: 'Gets the HTTP content headers as defined in RFC 2616.' },
+    [`M:${CONTENT}.ReadAsStringAsync`]: { returnType: 'System.Threading.Tasks.Task{System.String}', summary: 'Serialize the HTTP content to a string as an asynchronous operation.' },
+    [`M:${CONTENT}.ReadAsByteArrayAsync`]: { returnType: 'System.Threading.Tasks.Task{System.Byte[]}', summary: 'Serialize the HTTP content to a byte array as an asynchronous operation.' },
+    [`M:${CONTENT}.ReadAsStreamAsync`]: { returnType: 'System.Threading.Tasks.Task{System.IO.Stream}', summary: 'Serialize the HTTP content and return a stream that represents the content.' },
+
+    [`M:${HEADERS}.Contains(System.String)`]: { returnType: 'System.Boolean', parameterNames: ['name'], summary: 'Returns if a specific header exists in the collection.' },
+    [`M:${HEADERS}.GetValues(System.String)`]: {
+        returnType: 'System.Collections.Generic.IEnumerable{System.String}',
+        summary: 'Returns all header values for a specified header. Throws when the header is missing.',
+        parameterNames: ['name']
+    },
+    [`M:${HEADERS}.TryGetValues(System.String,System.Collections.Generic.IEnumerable{System.String}@)`]: {
+        returnType: 'System.Boolean',
+        summary: 'Returns whether a specified header and specified values are stored in the collection.',
+        parameterNames: ['name', 'values']
+    },
+    [`M:${HEADERS}.Add(System.String,System.String)`]: { parameterNames: ['name', 'value'], summary: 'Adds the specified header and its value into the collection.' },
+    [`M:${HEADERS}.Remove(System.String)`]: { returnType: 'System.Boolean', parameterNames: ['name'], summary: 'Removes the specified header from the collection.' },
+    'P:System.Net.Http.Headers.HttpRequestHeaders.Authorization': {
+        returnType: 'System.Net.Http.Headers.AuthenticationHeaderValue',
+        summary: 'Gets or sets the value of the Authorization header for an HTTP request.'
+    },
+    'P:System.Net.Http.Headers.HttpRequestHeaders.Host': { returnType: 'System.String', summary: 'Gets or sets the value of the Host header for an HTTP request.' },
+    'P:System.Net.Http.Headers.HttpResponseHeaders.Location': { returnType: 'System.Uri', summary: 'Gets or sets the value of the Location header for an HTTP response.' },
+    'P:System.Net.Http.Headers.HttpContentHeaders.ContentType': {
+        returnType: 'System.Net.Http.Headers.MediaTypeHeaderValue',
+        summary: 'Gets or sets the value of the Content-Type content header on an HTTP response.'
+    },
+    'P:System.Net.Http.Headers.HttpContentHeaders.ContentLength': {
+        returnType: 'System.Nullable{System.Int64}',
+        summary: 'Gets or sets the value of the Content-Length content header on an HTTP response.'
+    },
+    'P:System.Net.Http.Headers.MediaTypeHeaderValue.MediaType': { returnType: 'System.String', summary: 'Gets or sets the media-type header value.' },
+    'P:System.Net.Http.Headers.MediaTypeHeaderValue.CharSet': { returnType: 'System.String', summary: 'Gets or sets the character set.' },
+    'P:System.Net.Http.Headers.AuthenticationHeaderValue.Scheme': { returnType: 'System.String', summary: 'Gets the scheme to use for authorization.' },
+    'P:System.Net.Http.Headers.AuthenticationHeaderValue.Parameter': { returnType: 'System.String', summary: 'Gets the credentials containing the authentication information.' },
+    'P:System.Net.Http.HttpMethod.Method': { returnType: 'System.String', summary: 'An HTTP method such as GET or POST.' },
+
+    'P:System.Uri.AbsoluteUri': { returnType: 'System.String', summary: 'Gets the absolute URI.' },
+    'P:System.Uri.AbsolutePath': { returnType: 'System.String', summary: 'Gets the absolute path of the URI.' },
+    'P:System.Uri.Host': { returnType: 'System.String', summary: 'Gets the host component of this instance.' },
+    'P:System.Uri.PathAndQuery': { returnType: 'System.String', summary: 'Gets the AbsolutePath and Query properties separated by a question mark.' },
+    'P:System.Uri.Query': { returnType: 'System.String', summary: 'Gets any query information included in the specified URI.' },
+
+    [`P:${DICTIONARY}\`2.Item(\`0)`]: { returnType: '`1', parameterNames: ['key'], summary: 'Gets the element that has the specified key.' },
+    [`P:${DICTIONARY}\`2.Keys`]: { returnType: 'System.Collections.Generic.IEnumerable{`0}', summary: 'Gets an enumerable collection that contains the keys.' },
+    [`P:${DICTIONARY}\`2.Values`]: { returnType: 'System.Collections.Generic.IEnumerable{`1}', summary: 'Gets an enumerable collection that contains the values.' },
+    [`P:${DICTIONARY}\`2.Count`]: { returnType: 'System.Int32', summary: 'Gets the number of elements in the collection.' },
+    [`M:${DICTIONARY}\`2.ContainsKey(\`0)`]: { returnType: 'System.Boolean', parameterNames: ['key'], summary: 'Determines whether the dictionary contains an element that has the specified key.' },
+    [`M:${DICTIONARY}\`2.TryGetValue(\`0,\`1@)`]: { returnType: 'System.Boolean', parameterNames: ['key', 'value'], summary: 'Gets the value that is associated with the specified key.' },
+    'P:System.Threading.Tasks.Task`1.Result': { returnType: '`0', summary: 'Gets the result value of this task, blocking until it completes.' }
+};
+
+/** Base types of the .NET types above, so their members include the inherited ones */
+export const KnownBaseTypes: { [type: string]: string[] } = {
+    'System.Net.Http.Headers.HttpRequestHeaders': [HEADERS],
+    'System.Net.Http.Headers.HttpResponseHeaders': [HEADERS],
+    'System.Net.Http.Headers.HttpContentHeaders': [HEADERS]
+};
+
+/**
+ * Return types of TeaPie methods by name and generic arity. They apply to members of TeaPie.TeaPie and
+ * to extension methods of TeaPie namespaces, whose declaring classes differ between TeaPie versions.
+ */
+export const TeaPieMethodReturnTypes: { [name: string]: string } = {
+    'GetVariable``1': '``0',
+    'ContainsVariable': 'System.Boolean',
+    'RemoveVariable': 'System.Boolean',
+    'GetBody': 'System.String',
+    'GetBody``1': '``0',
+    'GetBodyAsync': 'System.Threading.Tasks.Task{System.String}',
+    'GetBodyAsync``1': 'System.Threading.Tasks.Task{``0}',
+    'StatusCode': 'System.Int32'
+};
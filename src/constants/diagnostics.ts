@@ -0,0 +1,18 @@
+/** Source shown next to diagnostics of .http files and test case scripts */
+export const DIAGNOSTIC_SOURCE = 'TeaPie';
+
+/** Codes of .http and script diagnostics, used by quick fixes to find the problem they fix */
+export const DiagnosticCodes = {
+    unknownDirective: 'unknown-directive',
+    missingDirectiveValue: 'missing-directive-value',
+    invalidDirectiveValue: 'invalid-directive-value',
+    danglingDirective: 'dangling-directive',
+    malformedHeader: 'malformed-header',
+    missingBodySeparator: 'missing-body-separator',
+    undefinedVariable: 'undefined-variable',
+    unknownRequestVariable: 'unknown-request-variable',
+    duplicateName: 'duplicate-name',
+    bodyNotAllowed: 'body-not-allowed',
+    misspelledRequestName: 'misspelled-request-name',
+    unknownRequestReference: 'unknown-request-reference'
+} as const;
@@ -1,3 +1,5 @@
+import { DirectiveDefinition, MetaDirectiveDefinition } from '../modules/DirectiveTypes';
+
 export const DirectiveDescriptions = {
     '@host': 'Define the host URL for the request\n\n```\n@host https://api.example.com\n```',
     '@name': 'Set a name for the test case\n\n```\n@name Get User Profile\n```',
@@ -9,10 +11,45 @@ export const DirectiveDescriptions = {
     'TEST-HAS-BODY': 'Verifies that the response has a body\n\n```\n## TEST-HAS-BODY: true\n```',
     'TEST-HAS-HEADER': 'Verifies that the response contains the specified header\n\n```\n## TEST-HAS-HEADER: ["Content-Type"]\n## TEST-HAS-HEADER: ["Content-Type", "ETag"]\n```',
     'TEST-SUCCESSFUL-STATUS': 'Verifies that the response has a successful status code (2xx)\n\n```\n## TEST-SUCCESSFUL-STATUS: true\n```',
+    'TEST-MATCH-SNAPSHOT': 'Compares the response body with the snapshot stored in the `-snapshot.json` file next to the request file. The first run stores the snapshot. Optionally lists paths that are not compared.\n\n```\n## TEST-MATCH-SNAPSHOT\n## TEST-MATCH-SNAPSHOT: ["$.id", "$.items[*].createdAt", "$..timestamp"]\n```',
     'RETRY-STRATEGY': 'Defines the retry strategy for failed requests\n\n```\n## RETRY-STRATEGY: DefaultRetry\n## RETRY-STRATEGY: CustomRetry\n```',
     'RETRY-MAX-ATTEMPTS': 'Maximum number of retry attempts\n\n```\n## RETRY-MAX-ATTEMPTS: 3\n```',
     'RETRY-BACKOFF-TYPE': 'Type of delay between retries (Linear, Exponential)\n\n```\n## RETRY-BACKOFF-TYPE: Linear\n## RETRY-BACKOFF-TYPE: Exponential\n```',
     'RETRY-MAX-DELAY': 'Maximum delay between retries\n\n```\n## RETRY-MAX-DELAY: 5000\n```',
     'RETRY-UNTIL-STATUS': 'Retry until response matches specified status code(s)\n\n```\n## RETRY-UNTIL-STATUS: 200\n## RETRY-UNTIL-STATUS: [200, 201]\n```',
     'AUTH-PROVIDER': 'Specifies the authentication provider to use for this request\n\n```\n## AUTH-PROVIDER: OAuth2\n## AUTH-PROVIDER: CustomAuth\n```'
-} as const; 
\ No newline at end of file
+} as const;
+
+/** Snapshot directive, evaluated by the extension after TeaPie finishes */
+export const SNAPSHOT_DIRECTIVE = 'TEST-MATCH-SNAPSHOT';
+
+type BuiltInName = Exclude<keyof typeof DirectiveDescriptions, `@${string}`>;
+type MetaDirectiveName = Extract<keyof typeof DirectiveDescriptions, `@${string}`>;
+
+const builtIn = (name: BuiltInName, summary: string, parameter?: DirectiveDefinition['parameter']): DirectiveDefinition => ({
+    name,
+    category: name.startsWith('TEST-') ? 'test' : name.startsWith('RETRY-') ? 'retry' : 'auth',
+    description: DirectiveDescriptions[name],
+    summary,
+    parameter,
+    source: 'built-in'
+});
+
+/** Directives TeaPie supports out of the box, custom ones are added by the DirectiveRegistry */
+export const BUILT_IN_DIRECTIVES: DirectiveDefinition[] = [
+    builtIn('TEST-EXPECT-STATUS', 'Expected HTTP status code(s) for the response.', { type: 'statusCodes', required: true }),
+    builtIn('TEST-HAS-BODY', 'Verifies that the response has a body.', { type: 'boolean', required: false }),
+    builtIn('TEST-HAS-HEADER', 'Verifies that the response contains the specified header.', { type: 'stringList', required: true }),
+    builtIn('TEST-SUCCESSFUL-STATUS', 'Verifies that the response has a successful status code (2xx).', { type: 'boolean', required: false }),
+    builtIn('TEST-MATCH-SNAPSHOT', 'Compares the response body with the stored snapshot.', { type: 'stringList', required: false }),
+    builtIn('RETRY-STRATEGY', 'Defines the retry strategy for failed requests.', { type: 'retryStrategy', required: true }),
+    builtIn('RETRY-MAX-ATTEMPTS', 'Maximum number of retry attempts.', { type: 'positiveInteger', required: true }),
+    builtIn('RETRY-BACKOFF-TYPE', 'Type of delay between retries (Linear, Exponential).', { type: 'enum', required: true, values: ['Linear', 'Exponential'] }),
+    builtIn('RETRY-MAX-DELAY', 'Maximum delay between retries.', { type: 'delay', required: true }),
+    builtIn('RETRY-UNTIL-STATUS', 'Retry until response matches specified status code(s).', { type: 'statusCodes', required: true }),
+    builtIn('AUTH-PROVIDER', 'Specifies the authentication provider to use for this request. Must be registered beforehand.', { type: 'authProvider', required: true })
+];
+
+/** @-directives, served by the DirectiveRegistry together with the ## directives */
+export const BUILT_IN_META_DIRECTIVES: MetaDirectiveDefinition[] = (['@host', '@name', '@description', '@auth', '@headers', '@variables'] as MetaDirectiveName[])
+    .map(name => ({ name: name.slice(1), description: DirectiveDescriptions[name] }));
@@ -1,5 +1,6 @@
 export const STATUS_PASSED = 'Passed';
 export const STATUS_FAILED = 'Failed';
+export const STATUS_CANCELLED = 'Cancelled';
 
 export const ERROR_CONNECTION_REFUSED = 'Connection refused - please ensure the server is running and accessible';
 export const ERROR_HOST_NOT_FOUND = 'Host not found - please check the URL in your HTTP request';
@@ -9,3 +10,4 @@ export const ERROR_NO_REQUESTS = 'No HTTP requests were processed - check if the
 export const ERROR_NO_HTTP_FOUND = 'No HTTP requests were found in this file.';
 export const ERROR_HTTP_FAILED = 'HTTP Request Failed';
 export const ERROR_UNKNOWN = 'Unknown error occurred';
+export const ERROR_CANCELLED = 'Execution was cancelled - showing partial results';
@@ -6,17 +6,44 @@ import { TeaPieTreeItem, TeaPieTreeViewProvider } from './TeaPieTreeViewProvider
 import { TestResultItem, TestResultsProvider } from './TestResultsProvider';
 
 import { EnvironmentEditorProvider } from './EnvironmentEditorProvider';
+import { HttpCodeLensProvider } from './HttpCodeLensProvider';
+import { HttpCodeActionProvider } from './HttpCodeActionProvider';
 import { HttpCompletionProvider } from './HttpCompletionProvider';
+import { HttpDiagnosticsProvider } from './HttpDiagnosticsProvider';
+import { HttpFormattingProvider } from './HttpFormattingProvider';
 import { HttpHoverProvider } from './HttpHoverProvider';
 import { HttpPreviewProvider } from './HttpPreviewProvider';
 import { HttpRequestRunner } from './HttpRequestRunner';
+import { HttpSymbolProvider } from './HttpSymbolProvider';
+import { RunComparisonView } from './RunComparisonView';
+import { RunHistoryItem, RunHistoryProvider } from './RunHistoryProvider';
+import { ScriptDiagnosticsProvider } from './ScriptDiagnosticsProvider';
+import { CsxSetupPreview } from './CsxSetupPreview';
 import { TeaPieInitializer } from './utils/TeaPieInitializer';
 import { TeaPieLanguageServer } from './TeaPieLanguageServer';
+import { TeaPieTestController } from './TeaPieTestController';
 import { TestRenameProvider } from './TestRenameProvider';
 import { TestResultsWebviewProvider } from './TestResultsWebviewProvider';
 import { VariablesEditorProvider } from './VariablesEditorProvider';
+import { VariableNavigationProvider } from './VariableNavigationProvider';
 import { VariablesProvider } from './VariablesProvider';
 import { VisualTestEditorProvider } from './VisualTestEditorProvider';
+import { DirectiveRegistry } from './modules/DirectiveRegistry';
+import { HttpDocumentParser } from './modules/HttpDocumentParser';
+import { EnvironmentFileWriter } from './modules/EnvironmentFileWriter';
+import { OpenApiGenerator } from './modules/OpenApiGenerator';
+import { PostmanImporter } from './modules/PostmanImporter';
+import { RequestExporter } from './modules/RequestExporter';
+import { ExportFormat } from './modules/ExportTypes';
+import { CurlParser } from './modules/CurlParser';
+import { HarImporter } from './modules/HarImporter';
+import { HttpFileWriter } from './modules/HttpFileWriter';
+import { RunHistoryService } from './modules/RunHistoryService';
+import { TeaPieLocator } from './modules/TeaPieLocator';
+import { CsxEnvironmentDetector } from './modules/CsxEnvironmentDetector';
+import { CsxSupportPlanner } from './modules/CsxSupportPlanner';
+import { CsxSetupPlan } from './modules/CsxSupportTypes';
+import { toRequestName } from './utils/namingUtils';
 import { exec } from 'child_process';
 import { promisify } from 'util';
 
@@ -25,6 +52,8 @@ const execAsync = promisify(exec);
 // Create output channel for logging
 let outputChannel: vscode.OutputChannel;
 let extensionContext: vscode.ExtensionContext;
+// The run runTeaPieTest sent to the TeaPie Test terminal, until it writes its report or is interrupted
+let terminalRun: { terminal: vscode.Terminal; reportWatcher: vscode.FileSystemWatcher } | undefined;
 
 export async function activate(context: vscode.ExtensionContext) {
     extensionContext = context;
@@ -66,6 +95,27 @@ export async function activate(context: vscode.ExtensionContext) {
     // Initialize Test Results Webview
     const testResultsWebviewProvider = new TestResultsWebviewProvider(context.extensionUri, context);
 
+    // Initialize Run History View
+    registerRunHistory(context, testResultsWebviewProvider);
+
+    // Register Postman import and OpenAPI generation
+    EnvironmentFileWriter.setOutputChannel(outputChannel);
+    registerPostmanImport(context);
+    registerOpenApiGeneration(context);
+
+    // Register export to Postman, HAR and curl
+    registerExport(context);
+
+    // Register curl paste and HAR import
+    registerCurlAndHarImport(context);
+
+    // Register diagnostics and quick fixes for HTTP files
+    const diagnosticsProvider = registerDiagnostics(context);
+
+    // Load custom directives, used by diagnostics, completion, hovers and previews
+    DirectiveRegistry.setOutputChannel(outputChannel);
+    registerCustomDirectives(context, diagnosticsProvider);
+
     // Load variables for HTTP files
     const loadVariablesForFile = async (document: vscode.TextDocument, forceReload: boolean = false) => {
         if (document.languageId === 'http') {
@@ -75,6 +125,7 @@ export async function activate(context: vscode.ExtensionContext) {
             const dirPath = path.dirname(document.uri.fsPath);
             if (await initializer.hasTeaPieDirectory(dirPath)) {
                 await variablesProvider.loadVariables(dirPath, forceReload);
+                diagnosticsProvider.refreshAll();
             }
         }
     };
@@ -106,17 +157,30 @@ export async function activate(context: vscode.ExtensionContext) {
     // Register a command to reload XML documentation
     context.subscriptions.push(
         vscode.commands.registerCommand('teapie.reloadDocs', async () => {
-            await server.loadXmlDocumentation();
-            vscode.window.showInformationMessage('TeaPie documentation reloaded');
+            const installation = await server.loadXmlDocumentation(true);
+            vscode.window.showInformationMessage(installation?.version
+                ? `TeaPie documentation reloaded from ${TeaPieLocator.describe(installation)}`
+                : 'TeaPie documentation reloaded, no TeaPie installation was found');
         })
     );
 
-    // Register command to set up OmniSharp for CSX files
+    // Installing or updating a local tool changes the TeaPie version runs and completions use
+    const toolManifestWatcher = vscode.workspace.createFileSystemWatcher('**/{.config/dotnet-tools.json,dotnet-tools.json}');
+    const reloadToolManifest = () => server.loadXmlDocumentation(true);
     context.subscriptions.push(
-        vscode.commands.registerCommand('teapie.setupCsxSupport', async () => {
-            await setupCsxSupport();
-            vscode.window.showInformationMessage('CSX support configured successfully');
-        })
+        toolManifestWatcher,
+        toolManifestWatcher.onDidCreate(reloadToolManifest),
+        toolManifestWatcher.onDidChange(reloadToolManifest),
+        toolManifestWatcher.onDidDelete(reloadToolManifest)
+    );
+
+    // Register commands to set up and remove C# language support for CSX files
+    CsxEnvironmentDetector.setOutputChannel(outputChannel);
+    CsxSupportPlanner.setOutputChannel(outputChannel);
+    CsxSetupPreview.register(context);
+    context.subscriptions.push(
+        vscode.commands.registerCommand('teapie.setupCsxSupport', () => setupCsxSupport()),
+        vscode.commands.registerCommand('teapie.removeCsxSupport', () => removeCsxSupport())
     );
 
     // Register Tree View Provider
@@ -126,6 +190,10 @@ export async function activate(context: vscode.ExtensionContext) {
         showCollapseAll: true
     });
 
+    // Expose test cases in the native Testing view
+    const testController = new TeaPieTestController(outputChannel);
+    context.subscriptions.push(testController);
+
     // Handle tree view selection
     treeView.onDidChangeSelection(async event => {
         outputChannel.appendLine('Selection changed: ' + JSON.stringify(event.selection));
@@ -620,10 +688,11 @@ export async function activate(context: vscode.ExtensionContext) {
     // Register HTTP completion provider
     const httpCompletionProvider = new HttpCompletionProvider();
     context.subscriptions.push(
+        httpCompletionProvider,
         vscode.languages.registerCompletionItemProvider(
             'http',
-            new HttpCompletionProvider(),
-            '@', '#', ':'
+            httpCompletionProvider,
+            '@', '#', ':', '{', '.', '['
         )
     );
 
@@ -635,6 +704,68 @@ export async function activate(context: vscode.ExtensionContext) {
         )
     );
 
+    // Register go-to-definition, find-references and rename for variables
+    const variableNavigationProvider = new VariableNavigationProvider();
+    context.subscriptions.push(
+        vscode.languages.registerDefinitionProvider(VariableNavigationProvider.selector, variableNavigationProvider),
+        vscode.languages.registerReferenceProvider(VariableNavigationProvider.selector, variableNavigationProvider),
+        vscode.languages.registerRenameProvider(VariableNavigationProvider.selector, variableNavigationProvider)
+    );
+
+    // Register CodeLenses for running single requests
+    context.subscriptions.push(
+        vscode.languages.registerCodeLensProvider('http', new HttpCodeLensProvider())
+    );
+
+    // Register the outline, breadcrumbs, folding and workspace symbols of requests
+    const httpSymbolProvider = new HttpSymbolProvider();
+    context.subscriptions.push(
+        vscode.languages.registerDocumentSymbolProvider('http', httpSymbolProvider),
+        vscode.languages.registerFoldingRangeProvider('http', httpSymbolProvider),
+        vscode.languages.registerWorkspaceSymbolProvider(httpSymbolProvider)
+    );
+
+    // Register the formatter of HTTP files and selections
+    const httpFormattingProvider = new HttpFormattingProvider();
+    context.subscriptions.push(
+        vscode.languages.registerDocumentFormattingEditProvider('http', httpFormattingProvider),
+        vscode.languages.registerDocumentRangeFormattingEditProvider('http', httpFormattingProvider)
+    );
+
+    // Drop the parsed model of closed HTTP files
+    context.subscriptions.push(
+        vscode.workspace.onDidCloseTextDocument(doc => HttpDocumentParser.forget(doc))
+    );
+
+    // Register the commands to run a single request, with or without its tests
+    const runSingleRequest = async (includeTests: boolean, uri?: vscode.Uri, requestIndex?: number) => {
+        const editor = vscode.window.activeTextEditor;
+        const targetUri = uri || editor?.document.uri;
+        if (!targetUri) {
+            vscode.window.showErrorMessage('No HTTP file is open');
+            return;
+        }
+
+        // When invoked from the command palette, run the request under the cursor
+        let index = requestIndex;
+        if (index === undefined && editor && editor.document.uri.toString() === targetUri.toString()) {
+            const request = HttpDocumentParser.getRequestAt(HttpDocumentParser.parseDocument(editor.document), editor.selection.active.line);
+            index = request?.index ?? -1;
+        }
+        if (index === undefined || index < 0) {
+            vscode.window.showErrorMessage('Place the cursor inside a request to run it');
+            return;
+        }
+
+        await HttpRequestRunner.runSingleRequest(targetUri, index, includeTests);
+    };
+    context.subscriptions.push(
+        vscode.commands.registerCommand('teapie-extensions.sendRequest', (uri?: vscode.Uri, requestIndex?: number) =>
+            runSingleRequest(false, uri, requestIndex)),
+        vscode.commands.registerCommand('teapie-extensions.runRequestTests', (uri?: vscode.Uri, requestIndex?: number) =>
+            runSingleRequest(true, uri, requestIndex))
+    );
+
     // Register the command to run HTTP tests
     let runHttpTestDisposable = vscode.commands.registerCommand('teapie-extensions.runHttpTest', async () => {
         const editor = vscode.window.activeTextEditor;
@@ -701,6 +832,10 @@ export async function activate(context: vscode.ExtensionContext) {
         })
     );
 
+    // Compile scripts in the background and report compiler errors in the Problems view
+    const scriptDiagnosticsProvider = new ScriptDiagnosticsProvider(outputChannel);
+    context.subscriptions.push(scriptDiagnosticsProvider);
+
     // Register compileScript command
     context.subscriptions.push(
         vscode.commands.registerCommand('teapie-extensions.compileScript', async (item?: TeaPieTreeItem | vscode.Uri) => {
@@ -734,27 +869,91 @@ export async function activate(context: vscode.ExtensionContext) {
                     return;
                 }
 
-                const command = `teapie compile "${targetPath}"`;
-                outputChannel.appendLine(`Running TeaPie compile command: ${command}`);
+                // Compile the saved content, the same as TeaPie runs it
+                const document = vscode.workspace.textDocuments.find(doc => doc.uri.fsPath === targetPath);
+                if (document?.isDirty) {
+                    await document.save();
+                }
 
-                // Find or create terminal
-                let terminal = vscode.window.terminals.find(t => t.name === 'TeaPie Compile');
-                if (!terminal) {
-                    terminal = vscode.window.createTerminal('TeaPie Compile');
-                    outputChannel.appendLine('Created new TeaPie Compile terminal');
+                const fileName = path.basename(targetPath);
+                const result = await vscode.window.withProgress({
+                    location: vscode.ProgressLocation.Window,
+                    title: `Compiling ${fileName}`
+                }, () => scriptDiagnosticsProvider.compile(vscode.Uri.file(targetPath)));
+
+                if (result.cliNotFound) {
+                    vscode.window.showErrorMessage(`Failed to compile TeaPie script: ${result.error}`);
+                } else if (scriptDiagnosticsProvider.hasErrors(result)) {
+                    const answer = await vscode.window.showWarningMessage(`${fileName} does not compile`, 'Show Problems');
+                    if (answer) {
+                        vscode.commands.executeCommand('workbench.actions.view.problems');
+                    }
                 } else {
-                    outputChannel.appendLine('Reusing existing TeaPie Compile terminal');
+                    vscode.window.showInformationMessage(`${fileName} compiled successfully`);
                 }
-                terminal.show();
-                terminal.sendText('clear', true);
-                await new Promise(resolve => setTimeout(resolve, 100));
-                terminal.sendText(command, true);
-                outputChannel.appendLine('Compile command sent to terminal');
             } catch (error) {
                 const errorMessage = `Failed to compile TeaPie script: ${error}`;
                 outputChannel.appendLine(errorMessage);
                 vscode.window.showErrorMessage(errorMessage);
             }
+        }),
+        vscode.commands.registerCommand('teapie-extensions.compileAllScripts', async () => {
+            if (!vscode.workspace.workspaceFolders?.length) {
+                vscode.window.showErrorMessage('No workspace folder is open');
+                return;
+            }
+            const initialized = await initializer.ensureInitialized();
+            if (!initialized) {
+                outputChannel.appendLine('TeaPie initialization was declined by user');
+                return;
+            }
+            await vscode.workspace.saveAll(false);
+
+            const summary = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: 'Compiling TeaPie scripts',
+                cancellable: true
+            }, (progress, token) => scriptDiagnosticsProvider.compileAll(progress, token));
+
+            if (summary.cliNotFound) {
+                vscode.window.showErrorMessage(`Failed to compile TeaPie scripts: ${summary.cliNotFound}`);
+                return;
+            }
+            const prefix = summary.cancelled ? `Compilation cancelled after ${summary.compiled} script(s): ` : '';
+            if (!summary.failed.length) {
+                vscode.window.showInformationMessage(`${prefix}${summary.compiled} script(s) compiled successfully`);
+                return;
+            }
+            const broken = summary.failed.map(file => vscode.workspace.asRelativePath(file));
+            outputChannel.appendLine(`Scripts that do not compile:\n${broken.map(file => `  ${file}`).join('\n')}`);
+            const answer = await vscode.window.showWarningMessage(
+                `${prefix}${summary.failed.length} of ${summary.compiled} script(s) do not compile`,
+                'Show Problems'
+            );
+            if (answer) {
+                vscode.commands.executeCommand('workbench.actions.view.problems');
+            }
+        })
+    );
+
+    // Register command to cancel running TeaPie executions
+    context.subscriptions.push(
+        vscode.commands.registerCommand('teapie-extensions.cancelRun', () => {
+            const cancelled = HttpRequestRunner.cancel();
+
+            // Runs started in the terminal are interrupted the same way as pressing Ctrl+C
+            if (terminalRun) {
+                terminalRun.terminal.sendText('\u0003', false);
+                outputChannel.appendLine('Sent interrupt to TeaPie Test terminal');
+                endTerminalRun();
+            } else if (!cancelled) {
+                vscode.window.showInformationMessage('No TeaPie run in progress');
+            }
+        }),
+        vscode.window.onDidCloseTerminal(terminal => {
+            if (terminal === terminalRun?.terminal) {
+                endTerminalRun();
+            }
         })
     );
 
@@ -838,6 +1037,361 @@ export async function activate(context: vscode.ExtensionContext) {
     await testResultsProvider.loadTestResults();
 }
 
+function registerRunHistory(context: vscode.ExtensionContext, testResultsWebviewProvider: TestResultsWebviewProvider) {
+    const workspacePath = vscode.workspace.workspaceFolders?.[0].uri.fsPath;
+    const runHistoryProvider = new RunHistoryProvider(workspacePath);
+    const runHistoryTreeView = vscode.window.createTreeView('teapie-extensions.runHistory', {
+        treeDataProvider: runHistoryProvider
+    });
+    RunComparisonView.setOutputChannel(outputChannel);
+
+    // Apply the retention policy to runs left over from earlier sessions
+    if (workspacePath) {
+        RunHistoryService.pruneRuns(workspacePath).catch(error => {
+            outputChannel.appendLine(`Failed to prune run history: ${error}`);
+        });
+    }
+
+    context.subscriptions.push(
+        runHistoryProvider,
+        runHistoryTreeView,
+        vscode.commands.registerCommand('teapie-extensions.refreshRunHistory', () => {
+            runHistoryProvider.refresh();
+        }),
+        vscode.commands.registerCommand('teapie-extensions.pruneRunHistory', async () => {
+            if (!workspacePath) {
+                return;
+            }
+            try {
+                const removed = await RunHistoryService.pruneRuns(workspacePath);
+                runHistoryProvider.refresh();
+                vscode.window.showInformationMessage(removed
+                    ? `Removed ${removed} run(s) from the run history`
+                    : 'No runs exceed the retention policy');
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to prune run history: ${error}`);
+            }
+        }),
+        vscode.commands.registerCommand('teapie-extensions.openRunSummary', async (item: RunHistoryItem) => {
+            const report = await RunHistoryService.loadReport(item.entry);
+            if (!report) {
+                vscode.window.showErrorMessage('The report of this run is not available');
+                return;
+            }
+            testResultsWebviewProvider.showSummary(report);
+        }),
+        vscode.commands.registerCommand('teapie-extensions.openRunResults', async (item: RunHistoryItem) => {
+            const { target, request, logPath, reportPath, timestamp } = item.entry;
+            if (!target || !logPath || !fs.existsSync(target)) {
+                vscode.window.showErrorMessage('The requests of this run cannot be shown because its file no longer exists');
+                return;
+            }
+            const title = `HTTP Request Results (${new Date(timestamp).toLocaleString()})`;
+            await HttpRequestRunner.showRunResults(vscode.Uri.file(target), logPath, reportPath, title, request);
+        }),
+        vscode.commands.registerCommand('teapie-extensions.openRunLog', async (item: RunHistoryItem) => {
+            if (!item.entry.logPath) {
+                return;
+            }
+            try {
+                const document = await vscode.workspace.openTextDocument(item.entry.logPath);
+                await vscode.window.showTextDocument(document, { preview: true });
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to open run log: ${error}`);
+            }
+        }),
+        vscode.commands.registerCommand('teapie-extensions.compareWithPreviousRun', async (target?: RunHistoryItem | vscode.Uri) => {
+            if (!workspacePath) {
+                return;
+            }
+            const runs = await RunHistoryService.getRuns(workspacePath);
+
+            // From the editor, compare the latest run of the HTTP file
+            let current = target instanceof RunHistoryItem ? target.entry : undefined;
+            if (!current) {
+                const filePath = (target instanceof vscode.Uri ? target : vscode.window.activeTextEditor?.document.uri)?.fsPath;
+                current = runs.find(run => run.target === filePath && run.logPath);
+            }
+            if (!current) {
+                vscode.window.showInformationMessage('There is no run of this file in the run history');
+                return;
+            }
+
+            const previous = RunHistoryService.findPreviousRun(runs, current);
+            if (!previous) {
+                vscode.window.showInformationMessage('There is no earlier run of the same file to compare with');
+                return;
+            }
+            await RunComparisonView.show(previous, current);
+        }),
+        vscode.commands.registerCommand('teapie-extensions.deleteRun', async (item: RunHistoryItem) => {
+            const answer = await vscode.window.showWarningMessage(
+                `Delete the report and log of the run from ${new Date(item.entry.timestamp).toLocaleString()}?`,
+                { modal: true },
+                'Delete'
+            );
+            if (answer !== 'Delete') {
+                return;
+            }
+            try {
+                await RunHistoryService.deleteRun(item.entry);
+                runHistoryProvider.refresh();
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to delete run: ${error}`);
+            }
+        })
+    );
+}
+
+function registerPostmanImport(context: vscode.ExtensionContext) {
+    PostmanImporter.setOutputChannel(outputChannel);
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('teapie-extensions.importPostmanCollection', async (uri?: vscode.Uri) => {
+            const workspacePath = vscode.workspace.workspaceFolders?.[0].uri.fsPath;
+            if (!workspacePath) {
+                vscode.window.showErrorMessage('No workspace folder is open');
+                return;
+            }
+
+            const files = await vscode.window.showOpenDialog({
+                canSelectMany: true,
+                filters: { 'Postman collections and environments': ['json'] },
+                openLabel: 'Import'
+            });
+            if (!files?.length) {
+                return;
+            }
+
+            const targetDir = uri?.fsPath ?? workspacePath;
+            const envFilePath = EnvironmentFileWriter.getEnvironmentFilePath(workspacePath);
+            const imported: string[] = [];
+            let requests = 0;
+            let environments = 0;
+            let untranslatedTests = 0;
+            let warnings = 0;
+
+            for (const file of files) {
+                const fileName = path.basename(file.fsPath);
+                try {
+                    const content = JSON.parse(await fs.promises.readFile(file.fsPath, 'utf8'));
+
+                    if (PostmanImporter.isCollection(content)) {
+                        const collectionDir = PostmanImporter.getCollectionDirectory(content, targetDir);
+                        if (fs.existsSync(collectionDir)) {
+                            const answer = await vscode.window.showWarningMessage(
+                                `${path.basename(collectionDir)} already exists in ${path.basename(targetDir)}. Overwrite its files?`,
+                                { modal: true },
+                                'Overwrite'
+                            );
+                            if (answer !== 'Overwrite') {
+                                continue;
+                            }
+                        }
+
+                        const result = await PostmanImporter.importCollection(content, targetDir);
+                        if (content.variable?.length) {
+                            const variables = PostmanImporter.toEnvironmentVariables(content.variable);
+                            const conflicts = await EnvironmentFileWriter.findConflicts(envFilePath, '$shared', variables);
+                            let overwrite = false;
+                            if (conflicts.length) {
+                                const answer = await vscode.window.showWarningMessage(
+                                    `${conflicts.length} collection variable(s) of ${fileName} already have a different value in $shared: ${conflicts.join(', ')}. Replace them?`,
+                                    { modal: true },
+                                    'Replace',
+                                    'Keep Existing'
+                                );
+                                overwrite = answer === 'Replace';
+                            }
+                            await EnvironmentFileWriter.merge(envFilePath, '$shared', variables, overwrite);
+                        }
+                        result.warnings.forEach(warning => outputChannel.appendLine(`[PostmanImporter] ${fileName}: ${warning}`));
+                        imported.push(...result.files);
+                        requests += result.requests;
+                        untranslatedTests += result.untranslatedTests;
+                        warnings += result.warnings.length;
+                    } else if (PostmanImporter.isEnvironment(content)) {
+                        await EnvironmentFileWriter.merge(envFilePath, content.name, PostmanImporter.toEnvironmentVariables(content.values), true);
+                        environments++;
+                    } else {
+                        vscode.window.showWarningMessage(`${fileName} is neither a Postman collection nor a Postman environment`);
+                    }
+                } catch (error) {
+                    vscode.window.showErrorMessage(`Failed to import ${fileName}: ${error}`);
+                }
+            }
+
+            if (!requests && !environments) {
+                return;
+            }
+            vscode.commands.executeCommand('teapie-extensions.refreshExplorer');
+
+            const summary = [`Imported ${requests} request(s) and ${environments} environment(s) from Postman.`];
+            if (untranslatedTests) {
+                summary.push(`${untranslatedTests} test(s) could not be translated and were left as comments in the -test.csx files.`);
+            }
+            if (warnings) {
+                summary.push('See the TeaPie Extensions output for details.');
+            }
+            vscode.window.showInformationMessage(summary.join(' '));
+
+            const firstRequest = imported.find(file => file.endsWith('-req.http'));
+            if (firstRequest) {
+                const document = await vscode.workspace.openTextDocument(firstRequest);
+                await vscode.window.showTextDocument(document, { preview: false });
+            }
+        })
+    );
+}
+
+function registerOpenApiGeneration(context: vscode.ExtensionContext) {
+    OpenApiGenerator.setOutputChannel(outputChannel);
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('teapie-extensions.generateFromOpenApi', async (uri?: vscode.Uri) => {
+            const workspacePath = vscode.workspace.workspaceFolders?.[0].uri.fsPath;
+            if (!workspacePath) {
+                vscode.window.showErrorMessage('No workspace folder is open');
+                return;
+            }
+
+            // Invoked on a document, test cases are generated next to it; invoked on a folder, into it
+            let documentPath: string | undefined;
+            let targetDir = workspacePath;
+            if (uri && /\.(json|ya?ml)$/i.test(uri.fsPath)) {
+                documentPath = uri.fsPath;
+                targetDir = path.dirname(uri.fsPath);
+            } else {
+                targetDir = uri?.fsPath ?? workspacePath;
+                const files = await vscode.window.showOpenDialog({
+                    canSelectMany: false,
+                    filters: { 'OpenAPI documents': ['json', 'yaml', 'yml'] },
+                    openLabel: 'Generate'
+                });
+                documentPath = files?.[0].fsPath;
+            }
+            if (!documentPath) {
+                return;
+            }
+
+            try {
+                const document = await OpenApiGenerator.loadDocument(documentPath);
+                const outputDir = OpenApiGenerator.getOutputDirectory(document, targetDir);
+                if (fs.existsSync(outputDir)) {
+                    const answer = await vscode.window.showWarningMessage(
+                        `${path.basename(outputDir)} already exists in ${path.basename(targetDir)}. Overwrite its files?`,
+                        { modal: true },
+                        'Overwrite'
+                    );
+                    if (answer !== 'Overwrite') {
+                        return;
+                    }
+                }
+
+                const result = await OpenApiGenerator.generate(document, targetDir);
+                // Values the user already set, e.g. the baseUrl of a test server, are kept
+                const environment = EnvironmentEditorProvider.getCurrentEnvironmentName() ?? 'local';
+                const added = await EnvironmentFileWriter.merge(
+                    EnvironmentFileWriter.getEnvironmentFilePath(workspacePath),
+                    environment,
+                    result.variables,
+                    false
+                );
+
+                vscode.commands.executeCommand('teapie-extensions.refreshExplorer');
+                vscode.window.showInformationMessage(
+                    `Generated ${result.operations} test case(s) from ${document.info.title} and added ${added} variable(s) to the ${environment} environment.`
+                );
+                if (result.files.length) {
+                    const firstRequest = await vscode.workspace.openTextDocument(result.files[0]);
+                    await vscode.window.showTextDocument(firstRequest, { preview: false });
+                }
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to generate test cases from ${path.basename(documentPath)}: ${error}`);
+            }
+        })
+    );
+}
+
+function registerExport(context: vscode.ExtensionContext) {
+    RequestExporter.setOutputChannel(outputChannel);
+
+    const formats: (vscode.QuickPickItem & { format: ExportFormat; filters: { [name: string]: string[] } })[] = [
+        { label: 'Postman Collection v2.1', format: 'postman', filters: { 'Postman collection': ['json'] } },
+        { label: 'HAR', description: 'HTTP Archive 1.2', format: 'har', filters: { 'HTTP Archive': ['har'] } },
+        { label: 'curl script', description: 'Shell script running the requests with curl', format: 'curl', filters: { 'Shell script': ['sh'] } }
+    ];
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('teapie-extensions.exportRequests', async (item?: TeaPieTreeItem | vscode.Uri) => {
+            const workspacePath = vscode.workspace.workspaceFolders?.[0].uri.fsPath;
+            if (!workspacePath) {
+                vscode.window.showErrorMessage('No workspace folder is open');
+                return;
+            }
+
+            let target: string | undefined;
+            if (item instanceof vscode.Uri) {
+                target = item.fsPath;
+            } else if (item) {
+                target = item.testCase?.files.request ?? item.resourceUri?.fsPath;
+            } else {
+                // From the command palette, export the open .http file or the whole collection
+                const activeFile = vscode.window.activeTextEditor?.document.uri.fsPath;
+                const choices = [
+                    ...(activeFile?.endsWith('.http') ? [{ label: path.basename(activeFile), description: 'Current file', target: activeFile }] : []),
+                    { label: 'Whole collection', description: path.basename(workspacePath), target: workspacePath }
+                ];
+                target = choices.length === 1
+                    ? choices[0].target
+                    : (await vscode.window.showQuickPick(choices, { placeHolder: 'What to export' }))?.target;
+            }
+            if (!target) {
+                return;
+            }
+
+            const format = await vscode.window.showQuickPick(formats, { placeHolder: 'Export format' });
+            if (!format) {
+                return;
+            }
+
+            const environment = EnvironmentEditorProvider.getCurrentEnvironmentName() ?? 'local';
+            const variables = await vscode.window.showQuickPick([
+                { label: 'Resolve variables', description: `Values of the ${environment} environment`, resolve: true },
+                { label: 'Keep placeholders', description: 'Variables stay as {{name}}', resolve: false }
+            ], { placeHolder: 'Variables' });
+            if (!variables) {
+                return;
+            }
+
+            const outputUri = await vscode.window.showSaveDialog({
+                defaultUri: vscode.Uri.file(path.join(workspacePath, RequestExporter.getDefaultFileName(target, format.format))),
+                filters: format.filters
+            });
+            if (!outputUri) {
+                return;
+            }
+
+            try {
+                const count = await RequestExporter.export(target, outputUri.fsPath, {
+                    format: format.format,
+                    resolveVariables: variables.resolve
+                });
+                const answer = await vscode.window.showInformationMessage(
+                    `Exported ${count} request(s) to ${path.basename(outputUri.fsPath)}`,
+                    'Open'
+                );
+                if (answer === 'Open') {
+                    const document = await vscode.workspace.openTextDocument(outputUri);
+                    await vscode.window.showTextDocument(document, { preview: false });
+                }
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to export requests: ${error}`);
+            }
+        })
+    );
+}
+
 function findHttpFile(filePath: string): string | null {
     const dir = path.dirname(filePath);
     const baseName = path.basename(filePath, path.extname(filePath));
@@ -974,6 +1528,7 @@ async function runTeaPieTest(testPath: string) {
         // Execute the command with explicit Enter
         terminal.sendText(command, true);
         outputChannel.appendLine('Command sent to terminal');
+        startTerminalRun(terminal, reportPath);
     } catch (error) {
         const errorMessage = `Failed to run TeaPie test: ${error}`;
         outputChannel.appendLine(errorMessage);
@@ -981,6 +1536,25 @@ async function runTeaPieTest(testPath: string) {
     }
 }
 
+/**
+ * Tracks a run sent to the terminal so that cancelRun only interrupts the terminal while TeaPie is running.
+ * The terminal does not report when a command ends, so the run ends once TeaPie writes its report.
+ */
+function startTerminalRun(terminal: vscode.Terminal, reportPath: string) {
+    endTerminalRun();
+    const reportWatcher = vscode.workspace.createFileSystemWatcher(
+        new vscode.RelativePattern(path.dirname(reportPath), path.basename(reportPath))
+    );
+    reportWatcher.onDidCreate(endTerminalRun);
+    reportWatcher.onDidChange(endTerminalRun);
+    terminalRun = { terminal, reportWatcher };
+}
+
+function endTerminalRun() {
+    terminalRun?.reportWatcher.dispose();
+    terminalRun = undefined;
+}
+
 async function setupCsxSupport(): Promise<void> {
     const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
     if (!workspaceFolder) {
@@ -991,144 +1565,256 @@ async function setupCsxSupport(): Promise<void> {
     const workspacePath = workspaceFolder.uri.fsPath;
 
     try {
-        // Create omnisharp.json
-        const omnisharpConfig = {
-            script: {
-                enabled: true,
-                defaultTargetFramework: "net7.0",
-                enableScriptNuGetReferences: true
-            }
-        };
+        const plan = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Window,
+            title: 'Detecting .NET SDKs and the C# extension'
+        }, async () => CsxSupportPlanner.planSetup(workspacePath, await CsxEnvironmentDetector.detect(workspacePath)));
 
-        await writeJsonFile(path.join(workspacePath, 'omnisharp.json'), omnisharpConfig);
+        await applyCsxSupportPlan(workspacePath, plan, 'TeaPie: Setup C# Script Support', 'C# script support is already set up.');
+    } catch (error) {
+        outputChannel.appendLine(`Failed to set up CSX support: ${error}`);
+        vscode.window.showErrorMessage(`Failed to set up CSX support: ${error}`);
+    }
+}
 
-        // Create global.json
-        const globalConfig = {
-            sdk: {
-                version: "8.0.100",
-                rollForward: "latestMinor"
-            }
-        };
+async function removeCsxSupport(): Promise<void> {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    if (!workspaceFolder) {
+        vscode.window.showErrorMessage('No workspace folder is open');
+        return;
+    }
 
-        await writeJsonFile(path.join(workspacePath, 'global.json'), globalConfig);
+    const workspacePath = workspaceFolder.uri.fsPath;
 
-        // Ensure .vscode directory exists
-        const vscodeDir = path.join(workspacePath, '.vscode');
-        if (!fs.existsSync(vscodeDir)) {
-            fs.mkdirSync(vscodeDir);
-        }
+    try {
+        const plan = await CsxSupportPlanner.planRemoval(workspacePath);
+        await applyCsxSupportPlan(workspacePath, plan, 'TeaPie: Remove C# Script Support', 'Nothing of the C# script support setup is left to remove.');
+    } catch (error) {
+        outputChannel.appendLine(`Failed to remove CSX support: ${error}`);
+        vscode.window.showErrorMessage(`Failed to remove CSX support: ${error}`);
+    }
+}
 
-        // Create/update settings.json
-        const settingsPath = path.join(vscodeDir, 'settings.json');
-        let settingsConfig: any = {};
+/**
+ * Lets the user review the planned changes as diffs and applies the selected ones
+ */
+async function applyCsxSupportPlan(workspacePath: string, plan: CsxSetupPlan, title: string, upToDateMessage: string): Promise<void> {
+    plan.notes.forEach(note => outputChannel.appendLine(`[CsxSupport] ${note}`));
+    if (!plan.changes.length) {
+        vscode.window.showInformationMessage([upToDateMessage, ...plan.notes].join(' '));
+        return;
+    }
 
-        if (fs.existsSync(settingsPath)) {
-            try {
-                const content = await fs.promises.readFile(settingsPath, 'utf8');
-                settingsConfig = JSON.parse(content);
-            } catch (error) {
-                console.error('Error reading settings.json:', error);
+    const selected = await CsxSetupPreview.pick(plan.changes, title);
+    if (!selected?.length) {
+        return;
+    }
+    await CsxSupportPlanner.apply(workspacePath, plan, selected);
+    vscode.window.showInformationMessage([`Applied ${selected.length} of ${plan.changes.length} change(s).`, ...plan.notes].join(' '));
+}
+
+export function deactivate() {
+    console.log('TeaPie extension deactivated');
+    
+    // Dispose of HttpRequestRunner resources
+    HttpRequestRunner.dispose();
+    endTerminalRun();
+    
+    // Dispose of output channel
+    if (outputChannel) {
+        outputChannel.dispose();
+    }
+} 
+
+function registerCurlAndHarImport(context: vscode.ExtensionContext) {
+    HarImporter.setOutputChannel(outputChannel);
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('teapie-extensions.pasteCurlAsRequest', async () => {
+            const editor = vscode.window.activeTextEditor;
+            if (!editor || !editor.document.fileName.endsWith('.http')) {
+                vscode.window.showErrorMessage('Open an .http file to paste a curl command into');
+                return;
+            }
+
+            // Without a curl command on the clipboard, ask for one
+            let command = await vscode.env.clipboard.readText();
+            if (!CurlParser.isCurlCommand(command)) {
+                command = await vscode.window.showInputBox({
+                    prompt: 'Paste a curl command',
+                    placeHolder: 'curl https://example.com/api',
+                    validateInput: value => CurlParser.isCurlCommand(value) ? undefined : 'The command must start with curl'
+                }) ?? '';
+                if (!command) {
+                    return;
+                }
             }
-        }
 
-        // Update settings
-        const csxSettings = {
-            "omnisharp.enableRoslynAnalyzers": true,
-            "omnisharp.enableEditorConfigSupport": true,
-            "omnisharp.enableImportCompletion": true,
-            "omnisharp.useModernNet": true,
-            "csharp.referencesCodeLens.enabled": true,
-            "omnisharp.enableAsyncCompletion": true,
-            "omnisharp.organizeImportsOnFormat": true,
-            "dotnet.completion.showCompletionItemsFromUnimportedNamespaces": true
-        };
-
-        // Merge settings
-        settingsConfig = { ...settingsConfig, ...csxSettings };
-
-        await writeJsonFile(settingsPath, settingsConfig);
-
-        // Create/update launch.json
-        const launchPath = path.join(vscodeDir, 'launch.json');
-        let launchConfig: any = {
-            version: "0.2.0",
-            configurations: []
-        };
-
-        if (fs.existsSync(launchPath)) {
             try {
-                const content = await fs.promises.readFile(launchPath, 'utf8');
-                launchConfig = JSON.parse(content);
+                const document = editor.document;
+                const httpDocument = HttpDocumentParser.parseDocument(document);
+                const existing = httpDocument.requests;
+                const request = CurlParser.parse(command);
+                request.name = HttpFileWriter.getUniqueName(
+                    toRequestName(HttpFileWriter.getDefaultName(request.method, request.url)),
+                    existing.map(item => item.name)
+                );
+
+                // Inside a request the new one goes after it, so requests are never split
+                const cursorLine = editor.selection.active.line;
+                const current = HttpDocumentParser.getRequestAt(httpDocument, cursorLine);
+                const insertLine = current ? current.range.endLine + 1 : cursorLine;
+                const next = existing.find(item => item.range.startLine >= insertLine);
+
+                const position = insertLine < document.lineCount
+                    ? new vscode.Position(insertLine, 0)
+                    : document.lineAt(document.lineCount - 1).range.end;
+                let text = HttpFileWriter.formatRequest(request);
+                if (existing.some(item => item.requestLine.range.startLine < insertLine)) {
+                    text = `###\n${text}`;
+                }
+                // Keep a blank line between the preceding text and the inserted request
+                const precedingText = document.getText(new vscode.Range(new vscode.Position(0, 0), position));
+                if (precedingText.trim()) {
+                    text = (/\n\s*\n$/.test(precedingText) ? '' : precedingText.endsWith('\n') ? '\n' : '\n\n') + text;
+                }
+                if (next) {
+                    text += document.lineAt(next.range.startLine).text.trim().startsWith('###') ? '\n' : '\n###\n';
+                }
+
+                await editor.edit(builder => builder.insert(position, text));
             } catch (error) {
-                console.error('Error reading launch.json:', error);
+                vscode.window.showErrorMessage(`Failed to paste curl command: ${error}`);
             }
-        }
+        }),
 
-        // Add CSX debug configuration if it doesn't exist
-        const csxDebugConfig = {
-            name: "Debug C# Script",
-            type: "coreclr",
-            request: "launch",
-            program: "dotnet",
-            args: [
-                "script",
-                "${file}"
-            ],
-            cwd: "${workspaceFolder}",
-            stopAtEntry: false,
-            console: "internalConsole"
-        };
-
-        // Check if config already exists
-        const configExists = launchConfig.configurations.some((config: any) =>
-            config.name === "Debug C# Script" && config.type === "coreclr");
-
-        if (!configExists) {
-            launchConfig.configurations.push(csxDebugConfig);
-        }
+        vscode.commands.registerCommand('teapie-extensions.importHar', async (uri?: vscode.Uri) => {
+            const workspacePath = vscode.workspace.workspaceFolders?.[0].uri.fsPath;
+            if (!workspacePath) {
+                vscode.window.showErrorMessage('No workspace folder is open');
+                return;
+            }
 
-        await writeJsonFile(launchPath, launchConfig);
+            // Invoked on a capture, test cases are created next to it; invoked on a folder, into it
+            let harPath: string | undefined;
+            let targetDir = workspacePath;
+            if (uri && /\.har$/i.test(uri.fsPath)) {
+                harPath = uri.fsPath;
+                targetDir = path.dirname(uri.fsPath);
+            } else {
+                targetDir = uri?.fsPath ?? workspacePath;
+                const files = await vscode.window.showOpenDialog({
+                    canSelectMany: false,
+                    filters: { 'HTTP Archive': ['har'] },
+                    openLabel: 'Import'
+                });
+                harPath = files?.[0].fsPath;
+            }
+            if (!harPath) {
+                return;
+            }
 
-        // Create a sample.csx file with common imports if it doesn't exist
-        const sampleCsxPath = path.join(workspacePath, 'sample.csx');
-        if (!fs.existsSync(sampleCsxPath)) {
-            const sampleContent = `// Sample C# Script file
-#r "nuget: TeaPie.Tool, 1.0.0"
-#r "System.Net.Http"
+            try {
+                const content = JSON.parse(await fs.promises.readFile(harPath, 'utf8'));
+                if (!HarImporter.isHar(content)) {
+                    vscode.window.showErrorMessage(`${path.basename(harPath)} is not a HAR file`);
+                    return;
+                }
 
-using System;
-using System.Threading.Tasks;
-using TeaPie;
+                const outputDir = HarImporter.getOutputDirectory(harPath, targetDir);
+                if (fs.existsSync(outputDir)) {
+                    const answer = await vscode.window.showWarningMessage(
+                        `${path.basename(outputDir)} already exists in ${path.basename(targetDir)}. Overwrite its files?`,
+                        { modal: true },
+                        'Overwrite'
+                    );
+                    if (answer !== 'Overwrite') {
+                        return;
+                    }
+                }
 
-// Your TeaPie script goes here
-var tp = new TeaPie.TeaPie();
+                const result = await HarImporter.importHar(content, outputDir);
+                vscode.commands.executeCommand('teapie-extensions.refreshExplorer');
+                vscode.window.showInformationMessage(
+                    `Imported ${result.requests} request(s) from ${path.basename(harPath)}` +
+                    (result.skipped ? `, skipped ${result.skipped} static resource(s).` : '.')
+                );
+                if (result.files.length) {
+                    const firstRequest = await vscode.workspace.openTextDocument(result.files[0]);
+                    await vscode.window.showTextDocument(firstRequest, { preview: false });
+                }
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to import ${path.basename(harPath)}: ${error}`);
+            }
+        })
+    );
+}
 
-// Example usage
-tp.SetVariable("example", "Hello TeaPie!");
-Console.WriteLine(tp.GetVariable<string>("example"));
-`;
-            await fs.promises.writeFile(sampleCsxPath, sampleContent, 'utf8');
-        }
+function registerDiagnostics(context: vscode.ExtensionContext): HttpDiagnosticsProvider {
+    const diagnosticsProvider = new HttpDiagnosticsProvider();
+    context.subscriptions.push(
+        diagnosticsProvider,
+        vscode.languages.registerCodeActionsProvider(['http', { scheme: 'file', pattern: '**/*-{init,test}.csx' }], new HttpCodeActionProvider(), {
+            providedCodeActionKinds: HttpCodeActionProvider.providedCodeActionKinds
+        }),
+        // Invoked by the quick fix of undefined variables, adds the variable with an empty value
+        vscode.commands.registerCommand('teapie-extensions.addVariableToEnvironment', async (name: string) => {
+            const workspacePath = vscode.workspace.workspaceFolders?.[0].uri.fsPath;
+            if (!workspacePath) {
+                vscode.window.showErrorMessage('No workspace folder is open');
+                return;
+            }
 
-    } catch (error) {
-        console.error('Error setting up CSX support:', error);
-        vscode.window.showErrorMessage(`Failed to set up CSX support: ${error}`);
-    }
-}
+            const environment = EnvironmentEditorProvider.getCurrentEnvironmentName() ?? 'local';
+            try {
+                await EnvironmentFileWriter.merge(EnvironmentFileWriter.getEnvironmentFilePath(workspacePath), environment, { [name]: '' }, false);
+                await VariablesProvider.getInstance().loadVariables(workspacePath, true);
+                diagnosticsProvider.refreshAll();
 
-async function writeJsonFile(filePath: string, content: any): Promise<void> {
-    const jsonContent = JSON.stringify(content, null, 2);
-    await fs.promises.writeFile(filePath, jsonContent, 'utf8');
+                const answer = await vscode.window.showInformationMessage(
+                    `Added ${name} to the ${environment} environment, set its value in the Environment Editor.`,
+                    'Open Environment Editor'
+                );
+                if (answer) {
+                    vscode.commands.executeCommand('teapie-extensions.openEnvironmentEditor');
+                }
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to add ${name} to the ${environment} environment: ${error}`);
+            }
+        })
+    );
+    return diagnosticsProvider;
 }
 
-export function deactivate() {
-    console.log('TeaPie extension deactivated');
-    
-    // Dispose of HttpRequestRunner resources
-    HttpRequestRunner.dispose();
-    
-    // Dispose of output channel
-    if (outputChannel) {
-        outputChannel.dispose();
+function registerCustomDirectives(context: vscode.ExtensionContext, diagnosticsProvider: HttpDiagnosticsProvider) {
+    const workspacePath = vscode.workspace.workspaceFolders?.[0].uri.fsPath;
+    if (!workspacePath) {
+        return;
     }
-} 
\ No newline at end of file
+
+    const reload = async (showResult: boolean) => {
+        const result = await DirectiveRegistry.load(workspacePath);
+        // Parsed documents keep the directive kinds they were parsed with
+        HttpDocumentParser.clear();
+        diagnosticsProvider.refreshAll();
+
+        if (result.errors.length) {
+            vscode.window.showWarningMessage(`Some custom directives were not loaded: ${result.errors.join('; ')}`);
+        } else if (showResult) {
+            vscode.window.showInformationMessage(`Loaded ${result.loaded} custom directive(s)`);
+        }
+    };
+
+    const watcher = vscode.workspace.createFileSystemWatcher(
+        new vscode.RelativePattern(workspacePath, path.relative(workspacePath, DirectiveRegistry.getConfigFilePath(workspacePath)))
+    );
+    context.subscriptions.push(
+        watcher,
+        watcher.onDidCreate(() => reload(false)),
+        watcher.onDidChange(() => reload(false)),
+        watcher.onDidDelete(() => reload(false)),
+        // XML documentation changes when the directive assembly is rebuilt, which is not watched
+        vscode.commands.registerCommand('teapie-extensions.reloadDirectives', () => reload(true))
+    );
+    reload(false);
+}
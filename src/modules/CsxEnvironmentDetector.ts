@@ -0,0 +1,76 @@
+import { execFile } from 'child_process';
+import * as fs from 'fs/promises';
+import { promisify } from 'util';
+import * as vscode from 'vscode';
+
+import { CSHARP_EXTENSION_ID, DEV_KIT_EXTENSION_ID } from '../constants/csxSupport';
+import { CSharpExtensionKind, CsxEnvironment, DotnetSdk } from './CsxSupportTypes';
+import { TeaPieLocator } from './TeaPieLocator';
+import { compareVersions } from '../utils/versionUtils';
+
+const execFileAsync = promisify(execFile);
+const LIST_SDKS_TIMEOUT_MS = 15000;
+
+/**
+ * Finds the installed .NET SDKs, the C# extension and the TeaPie assemblies that C# script support is set up for
+ */
+export class CsxEnvironmentDetector {
+    private static outputChannel: vscode.OutputChannel;
+
+    static setOutputChannel(channel: vscode.OutputChannel) {
+        this.outputChannel = channel;
+    }
+
+    static async detect(workspacePath: string): Promise<CsxEnvironment> {
+        const [sdks, installation] = await Promise.all([this.detectSdks(), TeaPieLocator.locate(workspacePath)]);
+        const assemblyPaths: string[] = [];
+        // NuGet packages keep the XML documentation next to the assembly it documents
+        for (const xmlDocPath of installation.xmlDocPaths) {
+            const assemblyPath = xmlDocPath.replace(/\.xml$/i, '.dll');
+            if (await fs.stat(assemblyPath).then(stats => stats.isFile()).catch(() => false)) {
+                assemblyPaths.push(assemblyPath);
+            }
+        }
+
+        const environment: CsxEnvironment = { sdks, cSharpExtension: this.detectCSharpExtension(), installation, assemblyPaths };
+        this.outputChannel?.appendLine(
+            `[CsxEnvironmentDetector] SDKs: ${sdks.map(sdk => sdk.version).join(', ') || 'none'}, ` +
+            `C# extension: ${environment.cSharpExtension}, TeaPie assemblies: ${assemblyPaths.length}`
+        );
+        return environment;
+    }
+
+    /**
+     * Returns the SDKs listed by dotnet --list-sdks, newest first
+     */
+    static async detectSdks(): Promise<DotnetSdk[]> {
+        try {
+            const { stdout } = await execFileAsync('dotnet', ['--list-sdks'], { timeout: LIST_SDKS_TIMEOUT_MS });
+            const sdks: DotnetSdk[] = [];
+            for (const line of stdout.split(/\r?\n/)) {
+                // e.g. 8.0.100 [/usr/share/dotnet/sdk]
+                const match = line.trim().match(/^(\d+\.\d+\.\d+\S*)\s+\[(.+)\]$/);
+                if (match) {
+                    sdks.push({ version: match[1], path: match[2] });
+                }
+            }
+            return sdks.sort((a, b) => compareVersions(b.version, a.version));
+        } catch (error) {
+            this.outputChannel?.appendLine(`[CsxEnvironmentDetector] Failed to list .NET SDKs: ${error}`);
+            return [];
+        }
+    }
+
+    static detectCSharpExtension(): CSharpExtensionKind {
+        if (vscode.extensions.getExtension(DEV_KIT_EXTENSION_ID)) {
+            return 'devkit';
+        }
+        const cSharp = vscode.extensions.getExtension(CSHARP_EXTENSION_ID);
+        if (!cSharp) {
+            return 'none';
+        }
+        // Version 2.0 replaced OmniSharp with the Roslyn language server, dotnet.server.useOmnisharp switches back
+        const major = parseInt(String(cSharp.packageJSON?.version ?? '0'), 10);
+        return major >= 2 ? 'roslyn' : 'omnisharp';
+    }
+}
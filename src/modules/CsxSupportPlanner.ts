@@ -0,0 +1,367 @@
+import * as fs from 'fs/promises';
+import { FormattingOptions, ParseError, applyEdits, modify, parse } from 'jsonc-parser';
+import * as path from 'path';
+import { isDeepStrictEqual } from 'util';
+import * as vscode from 'vscode';
+
+import {
+    CSX_REFERENCES_FILE,
+    CSX_SETUP_MANIFEST,
+    CSharpExtensionNames,
+    CSharpSettings,
+    CSX_DEBUG_CONFIGURATION,
+    GITIGNORE_FILE,
+    LAUNCH_FILE,
+    OMNISHARP_EXTENSIONS,
+    OMNISHARP_FILE,
+    SAMPLE_SCRIPT,
+    SAMPLE_SCRIPT_FILE,
+    SETTINGS_FILE
+} from '../constants/csxSupport';
+import { CsxEnvironment, CsxFileChange, CsxManagedFile, CsxSetupManifest, CsxSetupPlan } from './CsxSupportTypes';
+import { TeaPieLocator } from './TeaPieLocator';
+
+type JsonObject = { [key: string]: unknown };
+
+/**
+ * Plans the files that give .csx scripts C# language support for the installed C# extension and applies the chosen ones.
+ * Scripts are never changed, OmniSharp gets the TeaPie assemblies from a response file instead.
+ * Changes are recorded in a manifest, so running the setup again changes nothing when the environment is the same,
+ * replaces what no longer fits after it changed, and everything can be removed again.
+ */
+export class CsxSupportPlanner {
+    private static outputChannel: vscode.OutputChannel;
+
+    static setOutputChannel(channel: vscode.OutputChannel) {
+        this.outputChannel = channel;
+    }
+
+    static async planSetup(workspacePath: string, environment: CsxEnvironment): Promise<CsxSetupPlan> {
+        const manifest = await this.readManifest(workspacePath);
+        const kind = environment.cSharpExtension;
+        const usesOmniSharp = OMNISHARP_EXTENSIONS.includes(kind);
+        const sdk = environment.sdks.find(item => !item.version.includes('-')) ?? environment.sdks[0];
+        const targetFramework = sdk ? `net${sdk.version.split('.')[0]}.0` : undefined;
+        const notes = this.getNotes(environment);
+        const references = usesOmniSharp && environment.assemblyPaths.length ? this.getReferences(environment) : undefined;
+
+        const desired: { [relativePath: string]: { content: JsonObject; description: string } } = {
+            [SETTINGS_FILE]: { content: CSharpSettings[kind], description: `Settings for the ${CSharpExtensionNames[kind]}` }
+        };
+        if (usesOmniSharp) {
+            const script = {
+                enabled: true,
+                enableScriptNuGetReferences: true,
+                ...targetFramework ? { defaultTargetFramework: targetFramework } : {},
+                // OmniSharp resolves the path from the workspace folder
+                ...references ? { rspFilePath: CSX_REFERENCES_FILE } : {}
+            };
+            desired[OMNISHARP_FILE] = {
+                content: { script },
+                description: `Script options for OmniSharp${targetFramework ? `, targeting ${targetFramework}` : ''}` +
+                    (references ? `, with the TeaPie assemblies of ${CSX_REFERENCES_FILE}, which is not committed` : '')
+            };
+        }
+        desired[LAUNCH_FILE] = { content: await this.getLaunchConfiguration(workspacePath), description: 'Debug configuration for C# scripts' };
+
+        const changes: (CsxFileChange | undefined)[] = [];
+        for (const [relativePath, file] of Object.entries(desired)) {
+            changes.push(await this.planJsonFile(workspacePath, relativePath, file.content, manifest, file.description));
+        }
+        // Files of an earlier setup that the current environment does not need
+        for (const relativePath of Object.keys(manifest.files).filter(item => item.endsWith('.json') && !desired[item])) {
+            changes.push(await this.planJsonFile(workspacePath, relativePath, {}, manifest, 'Remove what an earlier setup added'));
+        }
+
+        changes.push(await this.planReferencesFile(workspacePath, references, manifest));
+        changes.push(await this.planGitignore(workspacePath, !!references, manifest));
+        changes.push(await this.planSampleScript(workspacePath, true, manifest));
+
+        return { changes: changes.filter((change): change is CsxFileChange => !!change), manifest, notes };
+    }
+
+    /**
+     * Plans undoing everything the setup recorded in its manifest
+     */
+    static async planRemoval(workspacePath: string): Promise<CsxSetupPlan> {
+        const manifest = await this.readManifest(workspacePath);
+        const changes: (CsxFileChange | undefined)[] = [];
+        for (const relativePath of Object.keys(manifest.files).filter(item => item.endsWith('.json'))) {
+            changes.push(await this.planJsonFile(workspacePath, relativePath, {}, manifest, 'Remove what the setup added'));
+        }
+        changes.push(await this.planReferencesFile(workspacePath, undefined, manifest));
+        changes.push(await this.planGitignore(workspacePath, false, manifest));
+        changes.push(await this.planSampleScript(workspacePath, false, manifest));
+        return { changes: changes.filter((change): change is CsxFileChange => !!change), manifest, notes: [] };
+    }
+
+    /**
+     * Writes the selected changes and records them in the manifest, changes that were not selected keep their old record
+     */
+    static async apply(workspacePath: string, plan: CsxSetupPlan, selected: CsxFileChange[]): Promise<void> {
+        for (const change of selected) {
+            if (change.after === undefined) {
+                await fs.rm(change.filePath, { force: true });
+            } else {
+                await fs.mkdir(path.dirname(change.filePath), { recursive: true });
+                await fs.writeFile(change.filePath, change.after, 'utf8');
+            }
+            this.outputChannel?.appendLine(`[CsxSupportPlanner] ${change.after === undefined ? 'Deleted' : 'Wrote'} ${change.filePath}`);
+        }
+
+        const manifest = await this.readManifest(workspacePath);
+        const relativePaths = new Set([...Object.keys(manifest.files), ...Object.keys(plan.manifest.files)]);
+        for (const relativePath of relativePaths) {
+            const change = plan.changes.find(item => this.isSameFile(item.filePath, workspacePath, relativePath));
+            if (change && !selected.includes(change)) {
+                continue;
+            }
+            if (plan.manifest.files[relativePath]) {
+                manifest.files[relativePath] = plan.manifest.files[relativePath];
+            } else {
+                delete manifest.files[relativePath];
+            }
+        }
+
+        const manifestPath = path.join(workspacePath, CSX_SETUP_MANIFEST);
+        if (Object.keys(manifest.files).length) {
+            await fs.mkdir(path.dirname(manifestPath), { recursive: true });
+            await fs.writeFile(manifestPath, JSON.stringify(manifest, null, 2) + '\n', 'utf8');
+        } else {
+            await fs.rm(manifestPath, { force: true });
+        }
+    }
+
+    /**
+     * Sets the desired top-level keys of a JSON file and restores the keys an earlier setup set that are no longer desired.
+     * Only the changed keys are edited in the text, so comments and the formatting of the rest of the file are kept.
+     * The manifest is updated to the state after the change.
+     */
+    private static async planJsonFile(
+        workspacePath: string,
+        relativePath: string,
+        desired: JsonObject,
+        manifest: CsxSetupManifest,
+        description: string
+    ): Promise<CsxFileChange | undefined> {
+        const filePath = path.join(workspacePath, relativePath);
+        const before = await this.readFile(filePath);
+        const data = before?.trim() ? this.parseJson(before) : {};
+        if (!data) {
+            this.outputChannel?.appendLine(`[CsxSupportPlanner] ${filePath} is not valid JSON, it is left unchanged`);
+            return undefined;
+        }
+
+        const changed = new Set<string>();
+        const entry: CsxManagedFile = {
+            created: manifest.files[relativePath]?.created ?? before === undefined,
+            keys: { ...manifest.files[relativePath]?.keys }
+        };
+        const keys = entry.keys!;
+
+        for (const [key, value] of Object.entries(desired)) {
+            if (!isDeepStrictEqual(data[key], value)) {
+                keys[key] = key in keys ? { ...keys[key], value } : key in data ? { value, previous: data[key] } : { value };
+                data[key] = value;
+                changed.add(key);
+            }
+        }
+        for (const [key, record] of Object.entries(keys)) {
+            if (key in desired) {
+                continue;
+            }
+            // A value changed after the setup is kept
+            if (isDeepStrictEqual(data[key], record.value)) {
+                if ('previous' in record) {
+                    data[key] = record.previous;
+                } else {
+                    delete data[key];
+                }
+                changed.add(key);
+            }
+            delete keys[key];
+        }
+
+        if (Object.keys(keys).length) {
+            manifest.files[relativePath] = entry;
+        } else {
+            delete manifest.files[relativePath];
+        }
+
+        let after: string | undefined;
+        if (entry.created && !Object.keys(data).length) {
+            after = undefined;
+        } else {
+            after = before?.trim() ? this.editJson(before, data, changed) : JSON.stringify(data, null, 4) + '\n';
+        }
+        if (after === before) {
+            return undefined;
+        }
+        return { filePath, before, after, description: after === undefined ? 'Delete, the setup created it' : description };
+    }
+
+    private static async planReferencesFile(
+        workspacePath: string,
+        content: string | undefined,
+        manifest: CsxSetupManifest
+    ): Promise<CsxFileChange | undefined> {
+        const filePath = path.join(workspacePath, CSX_REFERENCES_FILE);
+        const before = await this.readFile(filePath);
+        const entry = manifest.files[CSX_REFERENCES_FILE];
+
+        if (content === undefined) {
+            delete manifest.files[CSX_REFERENCES_FILE];
+            return entry?.created && before !== undefined
+                ? { filePath, before, after: undefined, description: 'Delete the references to the TeaPie assemblies' }
+                : undefined;
+        }
+        manifest.files[CSX_REFERENCES_FILE] = { created: entry?.created ?? before === undefined };
+        return before === content ? undefined : { filePath, before, after: content, description: 'References to the TeaPie assemblies' };
+    }
+
+    /**
+     * Adds the references file to .gitignore while it exists, its paths belong to this machine
+     */
+    private static async planGitignore(workspacePath: string, ignored: boolean, manifest: CsxSetupManifest): Promise<CsxFileChange | undefined> {
+        const filePath = path.join(workspacePath, GITIGNORE_FILE);
+        const before = await this.readFile(filePath);
+        const entry = manifest.files[GITIGNORE_FILE];
+        const lines = before?.split(/\r?\n/) ?? [];
+        const eol = before?.includes('\r\n') ? '\r\n' : '\n';
+
+        if (ignored) {
+            if (lines.some(line => line.trim().replace(/^\//, '') === CSX_REFERENCES_FILE)) {
+                return undefined;
+            }
+            manifest.files[GITIGNORE_FILE] = { created: entry?.created ?? before === undefined, lines: [CSX_REFERENCES_FILE] };
+            const separator = before && !before.endsWith('\n') ? eol : '';
+            return {
+                filePath,
+                before,
+                after: `${before ?? ''}${separator}${CSX_REFERENCES_FILE}${eol}`,
+                description: `Keep ${CSX_REFERENCES_FILE} out of git, it only works on this machine`
+            };
+        }
+
+        delete manifest.files[GITIGNORE_FILE];
+        if (!entry || before === undefined) {
+            return undefined;
+        }
+        const remaining = lines.filter(line => !entry.lines?.includes(line.trim())).join(eol);
+        const after = entry.created && !remaining.trim() ? undefined : remaining;
+        return after === before
+            ? undefined
+            : { filePath, before, after, description: after === undefined ? 'Delete, the setup created it' : `Remove ${CSX_REFERENCES_FILE}` };
+    }
+
+    /**
+     * Returns the launch.json keys with the debug configuration added to the existing configurations
+     */
+    private static async getLaunchConfiguration(workspacePath: string): Promise<JsonObject> {
+        const content = await this.readFile(path.join(workspacePath, LAUNCH_FILE));
+        const launch = content?.trim() ? this.parseJson(content) ?? {} : {};
+        const configurations = Array.isArray(launch.configurations) ? launch.configurations as JsonObject[] : [];
+        const exists = configurations.some(configuration =>
+            configuration?.name === CSX_DEBUG_CONFIGURATION.name && configuration?.type === CSX_DEBUG_CONFIGURATION.type);
+        return {
+            version: launch.version ?? '0.2.0',
+            configurations: exists ? configurations : [...configurations, CSX_DEBUG_CONFIGURATION]
+        };
+    }
+
+    /**
+     * Creates sample.csx when it does not exist, it is only deleted again while it still has the sample content
+     */
+    private static async planSampleScript(workspacePath: string, wanted: boolean, manifest: CsxSetupManifest): Promise<CsxFileChange | undefined> {
+        const filePath = path.join(workspacePath, SAMPLE_SCRIPT_FILE);
+        const before = await this.readFile(filePath);
+        const entry = manifest.files[SAMPLE_SCRIPT_FILE];
+
+        if (wanted) {
+            if (before !== undefined) {
+                return undefined;
+            }
+            manifest.files[SAMPLE_SCRIPT_FILE] = { created: true };
+            return { filePath, before, after: SAMPLE_SCRIPT, description: 'Sample script' };
+        }
+
+        delete manifest.files[SAMPLE_SCRIPT_FILE];
+        return entry?.created && before === SAMPLE_SCRIPT
+            ? { filePath, before, after: undefined, description: 'Delete, the setup created it' }
+            : undefined;
+    }
+
+    private static getReferences(environment: CsxEnvironment): string {
+        return [
+            `# Generated by TeaPie: Setup C# Script Support for ${TeaPieLocator.describe(environment.installation)}.`,
+            '# The paths belong to this machine, run the setup again after updating TeaPie or on another machine.',
+            ...environment.assemblyPaths.map(assemblyPath => `/r:"${assemblyPath}"`),
+            ''
+        ].join('\n');
+    }
+
+    private static getNotes(environment: CsxEnvironment): string[] {
+        const notes: string[] = [];
+        switch (environment.cSharpExtension) {
+            case 'none':
+                notes.push('No C# extension is installed, install the C# extension for C# language support in scripts.');
+                break;
+            case 'devkit':
+                notes.push('C# Dev Kit runs the Roslyn language server, which does not support .csx scripts. TeaPie still completes tp.* members.');
+                break;
+            case 'roslyn':
+                notes.push('The C# extension runs OmniSharp in this workspace, reload the window for it to start.');
+                break;
+        }
+        if (!environment.sdks.length) {
+            notes.push('No .NET SDK was found, OmniSharp needs one to load scripts.');
+        }
+        if (OMNISHARP_EXTENSIONS.includes(environment.cSharpExtension) && !environment.assemblyPaths.length) {
+            notes.push(`No TeaPie assemblies were found for ${TeaPieLocator.describe(environment.installation)}, OmniSharp gets no references to them.`);
+        }
+        return notes;
+    }
+
+    private static async readManifest(workspacePath: string): Promise<CsxSetupManifest> {
+        const content = await this.readFile(path.join(workspacePath, CSX_SETUP_MANIFEST));
+        const manifest = content ? this.parseJson(content) as CsxSetupManifest | undefined : undefined;
+        return { files: { ...manifest?.files } };
+    }
+
+    private static async readFile(filePath: string): Promise<string | undefined> {
+        try {
+            return await fs.readFile(filePath, 'utf8');
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * Parses JSON with comments and trailing commas as VS Code allows them in settings
+     */
+    private static parseJson(content: string): JsonObject | undefined {
+        const errors: ParseError[] = [];
+        const parsed = parse(content, errors, { allowTrailingComma: true });
+        return !errors.length && parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : undefined;
+    }
+
+    /**
+     * Sets or removes the keys in the text, keeping the indentation and line endings of the file
+     */
+    private static editJson(content: string, data: JsonObject, keys: Set<string>): string {
+        const indent = content.match(/^([ \t]+)"/m)?.[1] ?? '    ';
+        const formattingOptions: FormattingOptions = {
+            insertSpaces: !indent.startsWith('\t'),
+            tabSize: indent.startsWith('\t') ? 4 : indent.length,
+            eol: content.includes('\r\n') ? '\r\n' : '\n'
+        };
+        for (const key of keys) {
+            content = applyEdits(content, modify(content, [key], data[key], { formattingOptions }));
+        }
+        return content;
+    }
+
+    private static isSameFile(filePath: string, workspacePath: string, relativePath: string): boolean {
+        return path.resolve(filePath) === path.resolve(workspacePath, relativePath);
+    }
+}
@@ -0,0 +1,66 @@
+/**
+ * Type definitions for setting up C# language support of .csx scripts in the workspace
+ */
+
+import { TeaPieInstallation } from './TeaPieInstallationTypes';
+
+/**
+ * The C# extension that provides language support:
+ * - omnisharp: C# extension 1.x, which always runs OmniSharp
+ * - roslyn: C# extension 2.x or newer with the Roslyn language server, which does not support .csx scripts
+ * - devkit: C# Dev Kit, which requires the Roslyn language server
+ * - none: no C# extension is installed
+ */
+export type CSharpExtensionKind = 'omnisharp' | 'roslyn' | 'devkit' | 'none';
+
+export interface DotnetSdk {
+    version: string;
+    /** Directory that contains the SDK version folder */
+    path: string;
+}
+
+export interface CsxEnvironment {
+    sdks: DotnetSdk[];
+    cSharpExtension: CSharpExtensionKind;
+    installation: TeaPieInstallation;
+    /** TeaPie assemblies next to the XML documentation of the installation */
+    assemblyPaths: string[];
+}
+
+/** A file the setup creates, changes or deletes */
+export interface CsxFileChange {
+    filePath: string;
+    /** Current content, undefined when the file does not exist */
+    before?: string;
+    /** New content, undefined when the file is deleted */
+    after?: string;
+    description: string;
+}
+
+export interface CsxSetupPlan {
+    changes: CsxFileChange[];
+    /** The manifest once all changes are applied */
+    manifest: CsxSetupManifest;
+    /** Remarks about the environment, e.g. why scripts get no C# language support */
+    notes: string[];
+}
+
+/**
+ * What the setup changed, stored in the workspace so running it again updates only its own changes and they can be removed
+ */
+export interface CsxSetupManifest {
+    /** By path relative to the workspace, with forward slashes */
+    files: { [relativePath: string]: CsxManagedFile };
+}
+
+export interface CsxManagedFile {
+    /** Whether the setup created the file, it is deleted again once none of its content is left */
+    created: boolean;
+    /**
+     * Top-level keys the setup set in a JSON file, with the value it set and the value before the setup when there was one.
+     * Keys whose value was changed since are left as they are.
+     */
+    keys?: { [key: string]: { value: unknown; previous?: unknown } };
+    /** Lines the setup added to a text file such as .gitignore */
+    lines?: string[];
+}
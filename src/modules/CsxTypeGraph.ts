@@ -0,0 +1,296 @@
+import { KnownBaseTypes, KnownMembers, TEAPIE_TYPE, TeaPieMethodReturnTypes } from '../constants/csxTypes';
+import { splitTopLevel } from '../utils/csxExpressionUtils';
+import { XmlDocMember } from '../XmlDocParser';
+import { CsxChainSegment, CsxMember, CsxType } from './CsxTypes';
+
+/** C# keywords of types, used both ways between documentation IDs and script text */
+const TYPE_KEYWORDS: { [type: string]: string } = {
+    'System.String': 'string',
+    'System.Boolean': 'bool',
+    'System.Object': 'object',
+    'System.Int16': 'short',
+    'System.Int32': 'int',
+    'System.Int64': 'long',
+    'System.Byte': 'byte',
+    'System.Char': 'char',
+    'System.Single': 'float',
+    'System.Double': 'double',
+    'System.Decimal': 'decimal',
+    'System.Void': 'void'
+};
+const KEYWORD_TYPES = Object.fromEntries(Object.entries(TYPE_KEYWORDS).map(([type, keyword]) => [keyword, type]));
+
+/** Parts of a documentation ID such as M:TeaPie.TeaPie.GetVariable``1(System.String,``0) */
+interface ParsedDocId {
+    prefix: string;
+    typeName: string;
+    /** Member name including the generic arity, e.g. GetVariable``1 */
+    memberName: string;
+    parameterTypes: string[];
+}
+
+/**
+ * Types and members from XML documentation, resolved through their return types so that member access chains
+ * starting at tp can be followed, e.g. tp.Responses["Login"].Headers.
+ */
+export class CsxTypeGraph {
+    private readonly types = new Map<string, CsxType>();
+    /** Extension methods by the type they extend */
+    private readonly extensions = new Map<string, CsxMember[]>();
+
+    constructor(docs: XmlDocMember[]) {
+        const known = new Set<string>();
+        for (const doc of docs) {
+            known.add(doc.name);
+            this.add(doc);
+        }
+        for (const [docId, member] of Object.entries(KnownMembers)) {
+            if (!known.has(docId)) {
+                this.add({
+                    name: docId,
+                    summary: member.summary,
+                    params: member.parameterNames?.map(name => ({ name, description: '' }))
+                });
+            }
+        }
+    }
+
+    getTypeDoc(type: string): XmlDocMember | undefined {
+        return this.types.get(this.getTypeKey(type))?.doc;
+    }
+
+    /**
+     * Returns the members of a type, including inherited ones and extension methods. The type may be constructed,
+     * e.g. System.Collections.Generic.IReadOnlyDictionary{System.String,System.Net.Http.HttpResponseMessage}.
+     */
+    getMembers(type: string): CsxMember[] {
+        const members: CsxMember[] = [];
+        const visited = new Set<string>();
+        const visit = (key: string) => {
+            if (visited.has(key)) {
+                return;
+            }
+            visited.add(key);
+            const csxType = this.types.get(key);
+            members.push(...csxType?.members ?? [], ...this.extensions.get(key) ?? []);
+            (csxType?.baseTypes ?? KnownBaseTypes[key] ?? []).forEach(visit);
+        };
+        visit(this.getTypeKey(type));
+        return members;
+    }
+
+    /**
+     * Returns the type a member evaluates to on the given receiver, with type parameters replaced by known type arguments
+     */
+    getMemberType(member: CsxMember, receiverType: string, typeArguments: string[] = []): string | undefined {
+        if (!member.returnType) {
+            return undefined;
+        }
+        const receiverArguments = member.isExtension ? [] : this.getTypeArguments(receiverType);
+        return this.substitute(member.returnType, receiverArguments, typeArguments.map(item => this.toDocIdType(item)));
+    }
+
+    /**
+     * Returns the type of a chain that starts at tp, or undefined when a member or its return type is unknown
+     */
+    resolveChain(segments: CsxChainSegment[]): string | undefined {
+        const [root, ...rest] = segments;
+        if (!root || root.name !== 'tp' || root.isCall || root.typeArguments.length) {
+            return undefined;
+        }
+
+        let type: string | undefined = this.applyIndexers(TEAPIE_TYPE, root.indexCount);
+        for (const segment of rest) {
+            if (!type) {
+                return undefined;
+            }
+            const candidates = this.getMembers(type).filter(member =>
+                member.name === segment.name && !member.isIndexer && (member.kind === 'method') === segment.isCall);
+            const member = candidates.find(item => item.returnType && item.typeParameters.length === segment.typeArguments.length)
+                ?? candidates.find(item => item.returnType);
+            if (!member) {
+                return undefined;
+            }
+            type = this.applyIndexers(this.getMemberType(member, type, segment.typeArguments), segment.indexCount);
+        }
+        return type;
+    }
+
+    /**
+     * Returns a C# signature such as T TeaPie.GetVariable<T>(string name, T defaultValue)
+     */
+    formatSignature(member: CsxMember, receiverType?: string): string {
+        const returnType = receiverType ? this.getMemberType(member, receiverType) : member.returnType;
+        const prefix = returnType ? `${this.formatType(returnType, member)} ` : '';
+        const name = `${this.formatType(member.declaringType)}.${member.name}`;
+        if (member.kind !== 'method') {
+            return `${prefix}${name}`;
+        }
+        const typeParameters = member.typeParameters.length ? `<${member.typeParameters.join(', ')}>` : '';
+        return `${prefix}${name}${typeParameters}(${this.formatParameters(member, receiverType).join(', ')})`;
+    }
+
+    /**
+     * Returns the parameters as they appear in the signature, e.g. string name
+     */
+    formatParameters(member: CsxMember, receiverType?: string): string[] {
+        const receiverArguments = receiverType && !member.isExtension ? this.getTypeArguments(receiverType) : [];
+        return member.parameters.map(parameter =>
+            `${this.formatType(this.substitute(parameter.type, receiverArguments, []), member)} ${parameter.name}`);
+    }
+
+    /**
+     * Turns a documentation ID type into C#, e.g. System.Collections.Generic.IEnumerable{System.String} into IEnumerable<string>
+     */
+    formatType(type: string, member?: CsxMember): string {
+        return type
+            .replace(/``(\d+)/g, (_, index: string) => member?.typeParameters[Number(index)] ?? `T${index}`)
+            .replace(/(^|[{,])`(\d+)/g, (_, before: string, index: string) => `${before}T${index}`)
+            .replace(/`\d+/g, '')
+            .replace(/System\.Nullable\{([^{}]+)\}/g, '$1?')
+            .replace(/[A-Za-z_][\w.]*/g, name => TYPE_KEYWORDS[name] ?? name.split('.').pop()!)
+            .replace(/@$/, '')
+            .replace(/\{/g, '<')
+            .replace(/\}/g, '>')
+            .replace(/,/g, ', ');
+    }
+
+    private add(doc: XmlDocMember): void {
+        const parsed = this.parseDocId(doc.name);
+        if (!parsed) {
+            return;
+        }
+        if (parsed.prefix === 'T') {
+            this.getOrCreateType(doc.name.slice(2)).doc = doc;
+            return;
+        }
+        if (!'MPF'.includes(parsed.prefix) || /^(#|op_)|#/.test(parsed.memberName)) {
+            return;
+        }
+
+        const [, name, arity] = parsed.memberName.match(/^(.+?)(?:``(\d+))?$/)!;
+        const typeParameterCount = Number(arity ?? 0);
+        const typeParameters = doc.typeParams?.map(item => item.name).slice(0, typeParameterCount) ?? [];
+        for (let i = typeParameters.length; i < typeParameterCount; i++) {
+            typeParameters.push(typeParameterCount === 1 ? 'T' : `T${i + 1}`);
+        }
+
+        // By convention extension methods are declared in classes named ...Extensions, the first parameter is the extended instance
+        const isExtension = parsed.prefix === 'M' && /Extensions(`\d+)?$/.test(parsed.typeName) && parsed.parameterTypes.length > 0;
+        const parameters = parsed.parameterTypes.map((type, index) => {
+            const parameterDoc = doc.params?.[index];
+            return { name: parameterDoc?.name ?? `arg${index}`, type, description: parameterDoc?.description };
+        });
+
+        const member: CsxMember = {
+            name,
+            kind: parsed.prefix === 'M' ? 'method' : parsed.prefix === 'P' ? 'property' : 'field',
+            declaringType: isExtension ? parameters[0].type.replace(/@$/, '') : parsed.typeName,
+            parameters: isExtension ? parameters.slice(1) : parameters,
+            typeParameters,
+            returnType: this.getReturnType(doc.name, parsed, doc),
+            isIndexer: parsed.prefix === 'P' && name === 'Item' && parameters.length > 0,
+            isExtension,
+            doc
+        };
+
+        if (isExtension) {
+            const key = this.getTypeKey(member.declaringType);
+            this.extensions.set(key, [...this.extensions.get(key) ?? [], member]);
+        } else {
+            this.getOrCreateType(parsed.typeName).members.push(member);
+        }
+    }
+
+    private getReturnType(docId: string, parsed: ParsedDocId, doc: XmlDocMember): string | undefined {
+        const known = KnownMembers[docId]?.returnType;
+        if (known) {
+            return known;
+        }
+        if (parsed.prefix === 'M' && parsed.typeName.startsWith('TeaPie')) {
+            const teaPie = TeaPieMethodReturnTypes[parsed.memberName];
+            if (teaPie) {
+                return teaPie;
+            }
+        }
+        return doc.returnType;
+    }
+
+    private getOrCreateType(fullName: string): CsxType {
+        let type = this.types.get(fullName);
+        if (!type) {
+            type = { fullName, baseTypes: KnownBaseTypes[fullName] ?? [], members: [] };
+            this.types.set(fullName, type);
+        }
+        return type;
+    }
+
+    private parseDocId(docId: string): ParsedDocId | undefined {
+        const match = docId.match(/^([A-Z]):([^(~]+)(?:\((.*)\))?/);
+        if (!match) {
+            return undefined;
+        }
+        const fullName = match[2];
+        const lastDot = fullName.lastIndexOf('.');
+        return {
+            prefix: match[1],
+            typeName: fullName.slice(0, lastDot),
+            memberName: fullName.slice(lastDot + 1),
+            parameterTypes: match[3] ? splitTopLevel(match[3]) : []
+        };
+    }
+
+    private applyIndexers(type: string | undefined, count: number): string | undefined {
+        for (let i = 0; i < count && type; i++) {
+            const receiver: string = type;
+            const indexer = this.getMembers(receiver).find(member => member.isIndexer);
+            type = indexer ? this.getMemberType(indexer, receiver) : undefined;
+        }
+        return type;
+    }
+
+    /**
+     * Returns the key of the generic type definition, e.g. Ns.Dictionary`2 for Ns.Dictionary{System.String,System.Int32}
+     */
+    private getTypeKey(type: string): string {
+        const open = type.indexOf('{');
+        return open < 0 ? type : `${type.slice(0, open)}\`${this.getTypeArguments(type).length}`;
+    }
+
+    private getTypeArguments(type: string): string[] {
+        const open = type.indexOf('{');
+        return open < 0 || !type.endsWith('}') ? [] : splitTopLevel(type.slice(open + 1, -1));
+    }
+
+    /**
+     * Replaces `n with type arguments of the declaring type and ``n with type arguments of the method, when known
+     */
+    private substitute(type: string, typeArguments: string[], methodTypeArguments: string[]): string {
+        return type.replace(/(^|[{,])(``?)(\d+)/g, (match, before: string, ticks: string, index: string) => {
+            const argument = ticks.length === 2 ? methodTypeArguments[Number(index)] : typeArguments[Number(index)];
+            return argument ? `${before}${argument}` : match;
+        });
+    }
+
+    /**
+     * Turns a C# type argument from a script into a documentation ID type, e.g. List<string> into ...List{System.String}
+     */
+    private toDocIdType(type: string): string {
+        const generic = type.match(/^([\w.]+)\s*<(.*)>$/);
+        if (generic) {
+            const typeArguments = splitTopLevel(generic[2]).map(item => this.toDocIdType(item));
+            const name = this.findTypeName(generic[1], typeArguments.length) ?? generic[1];
+            return `${name.replace(/`\d+$/, '')}{${typeArguments.join(',')}}`;
+        }
+        const nullable = type.match(/^(.+)\?$/);
+        if (nullable) {
+            return `System.Nullable{${this.toDocIdType(nullable[1])}}`;
+        }
+        return KEYWORD_TYPES[type] ?? this.findTypeName(type, 0) ?? type;
+    }
+
+    private findTypeName(name: string, arity: number): string | undefined {
+        const suffix = arity ? `${name}\`${arity}` : name;
+        return [...this.types.keys()].find(key => key === suffix || key.endsWith(`.${suffix}`));
+    }
+}
@@ -0,0 +1,58 @@
+/**
+ * Type definitions for the type graph behind IntelliSense of tp.* in .csx scripts
+ */
+
+import { XmlDocMember } from '../XmlDocParser';
+
+export type CsxMemberKind = 'method' | 'property' | 'field';
+
+export interface CsxParameter {
+    name: string;
+    /** Type in documentation ID form, e.g. System.String or ``0 */
+    type: string;
+    description?: string;
+}
+
+/**
+ * A member of a type. Type names use the documentation ID form of XML docs: System.Collections.Generic.List{System.String},
+ * `0 for a type parameter of the declaring type and ``0 for a type parameter of the method.
+ */
+export interface CsxMember {
+    name: string;
+    kind: CsxMemberKind;
+    /** Full name of the declaring type, for extension methods the type they extend */
+    declaringType: string;
+    /** Parameters without the extended instance of extension methods */
+    parameters: CsxParameter[];
+    typeParameters: string[];
+    returnType?: string;
+    /** Properties named Item with parameters, accessed as obj[key] */
+    isIndexer: boolean;
+    isExtension: boolean;
+    doc?: XmlDocMember;
+}
+
+export interface CsxType {
+    /** Full name, generic types end with their arity such as `2 */
+    fullName: string;
+    baseTypes: string[];
+    members: CsxMember[];
+    doc?: XmlDocMember;
+}
+
+/** One step of a member access chain such as GetVariable<string>("id") or Responses["Login"] */
+export interface CsxChainSegment {
+    name: string;
+    typeArguments: string[];
+    isCall: boolean;
+    /** Number of [...] accesses after the name and call */
+    indexCount: number;
+}
+
+/** A call whose argument list contains the cursor */
+export interface CsxOpenCall {
+    /** Offset of the opening parenthesis */
+    offset: number;
+    /** Zero-based index of the argument at the cursor */
+    argumentIndex: number;
+}
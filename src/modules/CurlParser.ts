@@ -0,0 +1,311 @@
+import { HttpFileRequest } from './HttpRequestTypes';
+
+/**
+ * Options that take a value which has no equivalent in a request block, their value is skipped so it is not taken for the URL
+ */
+const IGNORED_VALUE_OPTIONS = new Set([
+    // Output and progress
+    '-o', '--output', '--output-dir', '-w', '--write-out', '-D', '--dump-header', '--stderr', '--trace', '--trace-ascii',
+    '-c', '--cookie-jar', '--etag-save', '--etag-compare', '--create-file-mode', '--hsts', '--alt-svc',
+    // Timeouts, retries and limits
+    '-m', '--max-time', '--connect-timeout', '--expect100-timeout', '--keepalive-time', '--happy-eyeballs-timeout-ms',
+    '--retry', '--retry-delay', '--retry-max-time', '--max-redirs', '--max-filesize', '--limit-rate',
+    '-y', '--speed-time', '-Y', '--speed-limit', '--parallel-max', '-z', '--time-cond', '-r', '--range', '-C', '--continue-at',
+    // Connection and proxy
+    '-x', '--proxy', '-U', '--proxy-user', '--proxy-header', '--noproxy', '--preproxy', '--socks4', '--socks4a', '--socks5',
+    '--socks5-hostname', '--resolve', '--connect-to', '--interface', '--local-port', '--dns-servers', '--dns-interface',
+    '--unix-socket', '--abstract-unix-socket', '--proto', '--proto-redir', '--proto-default',
+    // TLS
+    '--cacert', '--capath', '--cert', '-E', '--cert-type', '--key', '--key-type', '--pass', '--ciphers', '--tls13-ciphers',
+    '--crlfile', '--pinnedpubkey', '--tls-max', '--tlsuser', '--tlspassword', '--curves',
+    // Other protocols and configuration
+    '-K', '--config', '--netrc-file', '-Q', '--quote', '-P', '--ftp-port', '-t', '--telnet-option', '--mail-from', '--mail-rcpt',
+    '--mail-auth', '--login-options', '--sasl-authzid', '--service-name', '--delegation', '--aws-sigv4', '--variable'
+]);
+
+/** Options that send a body curl builds itself, which cannot be written as a request block */
+const UNSUPPORTED_BODY_OPTIONS = new Set(['-F', '--form', '--form-string', '-T', '--upload-file']);
+
+/** Short options that take a value, which may be attached, e.g. -XPOST */
+const SHORT_VALUE_OPTIONS = [
+    '-X', '-H', '-d', '-u', '-b', '-A', '-e', '-F', '-T',
+    '-o', '-w', '-D', '-c', '-m', '-y', '-Y', '-z', '-r', '-C', '-x', '-U', '-E', '-K', '-Q', '-P', '-t'
+];
+/** Data options that read the data from a file when it starts with @ */
+const FILE_DATA_OPTIONS = ['-d', '--data', '--data-ascii', '--data-binary', '--json'];
+
+/**
+ * Parses curl commands, e.g. copied from browser devtools, into the HttpFileRequest model
+ */
+export class CurlParser {
+
+    static isCurlCommand(text: string): boolean {
+        return /^\s*curl(\.exe)?\s/i.test(text);
+    }
+
+    static parse(command: string): HttpFileRequest {
+        const tokens = this.tokenize(command.trim());
+        if (!/^curl(\.exe)?$/i.test(tokens[0] ?? '')) {
+            throw new Error('The text is not a curl command');
+        }
+
+        let method: string | undefined;
+        let url: string | undefined;
+        let forceGet = false;
+        const headers: { name: string; value: string }[] = [];
+        const data: string[] = [];
+        const setHeader = (name: string, value: string) => {
+            const existing = headers.find(header => header.name.toLowerCase() === name.toLowerCase());
+            if (existing) {
+                existing.value = value;
+            } else {
+                headers.push({ name, value });
+            }
+        };
+        // curl sends every cookie given with -b or a Cookie header
+        const addCookies = (cookies: string) => {
+            const existing = headers.find(header => header.name.toLowerCase() === 'cookie');
+            setHeader('Cookie', existing?.value ? `${existing.value}; ${cookies}` : cookies);
+        };
+
+        for (let i = 1; i < tokens.length; i++) {
+            // Combined short flags such as -sSL, the last one may take a value, e.g. -sSLX DELETE or -sSLXDELETE
+            if (/^-[^-]{2,}/.test(tokens[i]) && !SHORT_VALUE_OPTIONS.includes(tokens[i].slice(0, 2))) {
+                tokens.splice(i, 1, ...this.splitShortFlags(tokens[i]));
+            }
+            let option = tokens[i];
+            let inlineValue: string | undefined;
+            if (option.startsWith('--') && option.includes('=')) {
+                inlineValue = option.slice(option.indexOf('=') + 1);
+                option = option.slice(0, option.indexOf('='));
+            } else if (SHORT_VALUE_OPTIONS.includes(option.slice(0, 2)) && option.length > 2 && !option.startsWith('--')) {
+                inlineValue = option.slice(2);
+                option = option.slice(0, 2);
+            }
+            const value = () => {
+                const next = inlineValue ?? tokens[++i];
+                if (next === undefined) {
+                    throw new Error(`${option} requires a value`);
+                }
+                return next;
+            };
+            const dataValue = () => {
+                const content = value();
+                if (FILE_DATA_OPTIONS.includes(option) && content.startsWith('@')) {
+                    throw new Error(`${option} ${content} reads the body from a file, which cannot be imported. Replace it with the content of the file.`);
+                }
+                return content;
+            };
+
+            switch (option) {
+                case '-X':
+                case '--request':
+                    method = value().toUpperCase();
+                    break;
+                case '-H':
+                case '--header': {
+                    const header = value();
+                    const separator = header.indexOf(':');
+                    // "Name;" sends an empty header, "Name:" removes a default header
+                    if (separator > 0 && header.slice(separator + 1).trim()) {
+                        const name = header.slice(0, separator).trim();
+                        if (name.toLowerCase() === 'cookie') {
+                            addCookies(header.slice(separator + 1).trim());
+                        } else {
+                            setHeader(name, header.slice(separator + 1).trim());
+                        }
+                    } else if (header.endsWith(';')) {
+                        setHeader(header.slice(0, -1).trim(), '');
+                    }
+                    break;
+                }
+                case '-d':
+                case '--data':
+                case '--data-ascii':
+                case '--data-binary':
+                case '--data-raw':
+                    data.push(dataValue());
+                    break;
+                case '--data-urlencode': {
+                    const content = value();
+                    const separator = content.indexOf('=');
+                    data.push(separator < 0
+                        ? encodeURIComponent(content)
+                        : `${content.slice(0, separator)}=${encodeURIComponent(content.slice(separator + 1))}`);
+                    break;
+                }
+                case '--json':
+                    data.push(dataValue());
+                    setHeader('Content-Type', 'application/json');
+                    setHeader('Accept', 'application/json');
+                    break;
+                case '-u':
+                case '--user':
+                    setHeader('Authorization', `Basic ${Buffer.from(value()).toString('base64')}`);
+                    break;
+                case '-b':
+                case '--cookie': {
+                    const cookies = value();
+                    // Without = the value is a file curl reads cookies from
+                    if (!cookies.includes('=')) {
+                        break;
+                    }
+                    addCookies(cookies);
+                    break;
+                }
+                case '-A':
+                case '--user-agent':
+                    setHeader('User-Agent', value());
+                    break;
+                case '-e':
+                case '--referer':
+                    setHeader('Referer', value());
+                    break;
+                case '--url':
+                    url = value();
+                    break;
+                case '-G':
+                case '--get':
+                    forceGet = true;
+                    break;
+                case '-I':
+                case '--head':
+                    method = 'HEAD';
+                    break;
+                case '--oauth2-bearer':
+                    setHeader('Authorization', `Bearer ${value()}`);
+                    break;
+                case '--compressed':
+                    // The response is decompressed by TeaPie, so there is nothing to add
+                    break;
+                default:
+                    if (UNSUPPORTED_BODY_OPTIONS.has(option)) {
+                        throw new Error(option === '-T' || option === '--upload-file'
+                            ? `${option} uploads a file, which cannot be imported. Replace it with -d and the content of the file.`
+                            : `${option} sends a multipart form, which cannot be imported. Write the multipart body in the request instead.`);
+                    }
+                    if (IGNORED_VALUE_OPTIONS.has(option)) {
+                        if (inlineValue === undefined) {
+                            i++;
+                        }
+                    } else if (!option.startsWith('-') && url === undefined) {
+                        url = option;
+                    }
+                    // Other flags such as -s, -k or -L do not affect the request
+                    break;
+            }
+        }
+
+        if (!url) {
+            throw new Error('The curl command has no URL');
+        }
+
+        let body = data.length ? data.join('&') : undefined;
+        if (forceGet && body) {
+            url += `${url.includes('?') ? '&' : '?'}${body}`;
+            body = undefined;
+        }
+        if (body && !headers.some(header => header.name.toLowerCase() === 'content-type')) {
+            // The content type curl sends with -d
+            headers.push({ name: 'Content-Type', value: 'application/x-www-form-urlencoded' });
+        }
+
+        const resolvedMethod = forceGet ? 'GET' : method ?? (body ? 'POST' : 'GET');
+        return {
+            method: resolvedMethod,
+            url,
+            templateUrl: url,
+            headers,
+            requestBody: body
+        };
+    }
+
+    /**
+     * Splits combined short flags into single ones, the rest of the token after a flag that takes a value is its value
+     */
+    private static splitShortFlags(token: string): string[] {
+        const flags: string[] = [];
+        for (let i = 1; i < token.length; i++) {
+            const flag = `-${token[i]}`;
+            if (SHORT_VALUE_OPTIONS.includes(flag)) {
+                flags.push(flag + token.slice(i + 1));
+                break;
+            }
+            flags.push(flag);
+        }
+        return flags;
+    }
+
+    /**
+     * Splits a command into arguments the way a POSIX shell does, including $'...' strings
+     * and line continuations of bash, cmd and PowerShell
+     */
+    private static tokenize(command: string): string[] {
+        const text = command.replace(/[\\^`]\r?\n/g, ' ');
+        const tokens: string[] = [];
+        let current = '';
+        let inToken = false;
+
+        for (let i = 0; i < text.length; i++) {
+            const char = text[i];
+            if (/\s/.test(char)) {
+                if (inToken) {
+                    tokens.push(current);
+                    current = '';
+                    inToken = false;
+                }
+                continue;
+            }
+            inToken = true;
+
+            if (char === '\'') {
+                const end = text.indexOf('\'', i + 1);
+                current += text.slice(i + 1, end < 0 ? text.length : end);
+                i = end < 0 ? text.length : end;
+            } else if (char === '$' && text[i + 1] === '\'') {
+                i += 2;
+                while (i < text.length && text[i] !== '\'') {
+                    if (text[i] === '\\' && i + 1 < text.length) {
+                        const { value, length } = this.readAnsiEscape(text, i + 1);
+                        current += value;
+                        i += length + 1;
+                    } else {
+                        current += text[i++];
+                    }
+                }
+            } else if (char === '"') {
+                i++;
+                while (i < text.length && text[i] !== '"') {
+                    // Inside double quotes a backslash only escapes these characters
+                    if (text[i] === '\\' && '"\\$`'.includes(text[i + 1])) {
+                        i++;
+                    }
+                    current += text[i++];
+                }
+            } else if (char === '\\' && i + 1 < text.length) {
+                current += text[++i];
+            } else {
+                current += char;
+            }
+        }
+        if (inToken) {
+            tokens.push(current);
+        }
+        return tokens;
+    }
+
+    /**
+     * Reads the escape sequence of a $'...' string that starts at the given index, after the backslash
+     */
+    private static readAnsiEscape(text: string, index: number): { value: string; length: number } {
+        const char = text[index];
+        const simple: { [key: string]: string } = { n: '\n', t: '\t', r: '\r', '\\': '\\', '\'': '\'', '"': '"', '0': '\0' };
+        if (char === 'x' || char === 'u') {
+            const digits = text.slice(index + 1, index + (char === 'x' ? 3 : 5)).match(/^[0-9a-fA-F]+/)?.[0];
+            if (digits) {
+                return { value: String.fromCharCode(parseInt(digits, 16)), length: digits.length + 1 };
+            }
+        }
+        return { value: simple[char] ?? `\\${char}`, length: 1 };
+    }
+}
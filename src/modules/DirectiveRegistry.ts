@@ -0,0 +1,191 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+import { parseStringPromise } from 'xml2js';
+
+import { BUILT_IN_DIRECTIVES, BUILT_IN_META_DIRECTIVES } from '../constants/directives';
+import { DirectiveConfigFile, DirectiveDefinition, DirectiveLoadResult, DirectiveParameterType, MetaDirectiveDefinition } from './DirectiveTypes';
+import { HttpDirectiveKind } from './HttpDocumentTypes';
+
+const NAME_PATTERN = /^[A-Z][A-Z0-9]*(?:-[A-Z0-9]+)+$/;
+const CATEGORIES: HttpDirectiveKind[] = ['test', 'retry', 'auth', 'other'];
+const PARAMETER_TYPES: DirectiveParameterType[] = [
+    'statusCodes', 'boolean', 'positiveInteger', 'delay', 'enum', 'retryStrategy', 'authProvider', 'stringList', 'string'
+];
+
+/** A <directive> element in the XML documentation of a member, as parsed by xml2js */
+interface XmlDirectiveElement {
+    _?: string;
+    $?: { name?: string; category?: string; parameter?: string; required?: string; values?: string };
+}
+
+/** A documented <member> element, elements without attributes are parsed as plain strings */
+interface XmlDocMemberElement {
+    summary?: (string | { _?: string })[];
+    directive?: (XmlDirectiveElement | string)[];
+}
+
+/** The XML documentation file as parsed by xml2js */
+interface XmlDocFile {
+    doc?: { members?: { member?: XmlDocMemberElement[] }[] };
+}
+
+/**
+ * Known ## directives: the built-in ones merged with custom directives from .teapie/directives.json
+ * and from <directive> elements in compiled XML documentation. Later sources override earlier ones.
+ */
+export class DirectiveRegistry {
+    private static outputChannel: vscode.OutputChannel;
+    private static definitions = new Map(BUILT_IN_DIRECTIVES.map(definition => [definition.name, definition]));
+
+    static setOutputChannel(channel: vscode.OutputChannel) {
+        this.outputChannel = channel;
+    }
+
+    static getConfigFilePath(workspacePath: string): string {
+        return path.join(workspacePath, '.teapie', 'directives.json');
+    }
+
+    static getAll(): DirectiveDefinition[] {
+        return [...this.definitions.values()];
+    }
+
+    static get(name: string): DirectiveDefinition | undefined {
+        return this.definitions.get(name);
+    }
+
+    static getMetaDirectives(): MetaDirectiveDefinition[] {
+        return BUILT_IN_META_DIRECTIVES;
+    }
+
+    /**
+     * Returns an @-directive by its name without the @
+     */
+    static getMetaDirective(name: string): MetaDirectiveDefinition | undefined {
+        return BUILT_IN_META_DIRECTIVES.find(definition => definition.name === name);
+    }
+
+    /**
+     * Returns the category of a directive, unknown directives are categorized by their prefix
+     */
+    static getCategory(name: string): HttpDirectiveKind {
+        const definition = this.definitions.get(name);
+        if (definition) {
+            return definition.category;
+        }
+        return this.getCategoryByPrefix(name);
+    }
+
+    /**
+     * Replaces the custom directives with those of the workspace, keeping the built-in ones
+     */
+    static async load(workspacePath: string): Promise<DirectiveLoadResult> {
+        const errors: string[] = [];
+        const custom: DirectiveDefinition[] = [];
+
+        let config: DirectiveConfigFile = {};
+        try {
+            config = JSON.parse(await fs.readFile(this.getConfigFilePath(workspacePath), 'utf8'));
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                errors.push(`Failed to read directives.json: ${error}`);
+            }
+        }
+
+        for (const xmlDoc of config.xmlDocs ?? []) {
+            const xmlPath = path.resolve(workspacePath, xmlDoc);
+            try {
+                custom.push(...this.fromXmlDocs(await parseStringPromise(await fs.readFile(xmlPath, 'utf8')), xmlDoc, errors));
+            } catch (error) {
+                errors.push(`Failed to read directives from ${xmlDoc}: ${error}`);
+            }
+        }
+
+        for (const entry of config.directives ?? []) {
+            const definition = this.toDefinition(entry, 'workspace');
+            if (typeof definition === 'string') {
+                errors.push(definition);
+            } else {
+                custom.push(definition);
+            }
+        }
+
+        this.definitions = new Map(BUILT_IN_DIRECTIVES.map(definition => [definition.name, definition]));
+        custom.forEach(definition => this.definitions.set(definition.name, definition));
+        errors.forEach(error => this.outputChannel?.appendLine(`[DirectiveRegistry] ${error}`));
+        this.outputChannel?.appendLine(`[DirectiveRegistry] Loaded ${custom.length} custom directive(s)`);
+        return { loaded: custom.length, errors };
+    }
+
+    /**
+     * Collects <directive> elements of documented members, e.g.
+     * <directive name="TEST-HAS-JSON-FIELD" category="test" parameter="string" required="true">Description</directive>.
+     * The member summary is used when the element has no text. Invalid elements are reported in errors with the file.
+     */
+    private static fromXmlDocs(xml: XmlDocFile, xmlDoc: string, errors: string[]): DirectiveDefinition[] {
+        const members = xml?.doc?.members?.[0]?.member ?? [];
+        const definitions: DirectiveDefinition[] = [];
+        for (const member of members) {
+            const firstSummary = member.summary?.[0];
+            const summary = typeof firstSummary === 'string' ? firstSummary.replace(/\s+/g, ' ').trim() : '';
+            for (const element of member.directive ?? []) {
+                const attributes = typeof element === 'string' ? {} : element.$ ?? {};
+                const text = (typeof element === 'string' ? element : element._ ?? '').trim();
+                const definition = this.toDefinition({
+                    name: attributes.name ?? '',
+                    category: attributes.category as HttpDirectiveKind | undefined,
+                    description: text || summary,
+                    parameter: attributes.parameter ? {
+                        type: attributes.parameter as DirectiveParameterType,
+                        required: attributes.required === 'true',
+                        values: attributes.values?.split(',').map(value => value.trim())
+                    } : undefined
+                }, 'xml-docs');
+                if (typeof definition === 'string') {
+                    errors.push(`Skipped a <directive> in ${xmlDoc}: ${definition}`);
+                } else {
+                    definitions.push(definition);
+                }
+            }
+        }
+        return definitions;
+    }
+
+    /** Validates a custom definition and fills in defaults, a missing parameter accepts any value, or returns an error message */
+    private static toDefinition(entry: Partial<DirectiveDefinition>, source: DirectiveDefinition['source']): DirectiveDefinition | string {
+        const name = entry.name?.trim() ?? '';
+        if (!NAME_PATTERN.test(name)) {
+            return `'${name}' is not a valid directive name, expected upper-case words joined by dashes such as TEST-HAS-JSON-FIELD`;
+        }
+        if (entry.category && !CATEGORIES.includes(entry.category)) {
+            return `${name} has an unknown category '${entry.category}', expected one of ${CATEGORIES.join(', ')}`;
+        }
+        if (entry.parameter && !PARAMETER_TYPES.includes(entry.parameter.type)) {
+            return `${name} has an unknown parameter type '${entry.parameter.type}', expected one of ${PARAMETER_TYPES.join(', ')}`;
+        }
+
+        const description = entry.description ?? '';
+        return {
+            name,
+            category: entry.category ?? this.getCategoryByPrefix(name),
+            description,
+            summary: entry.summary ?? description.split('\n')[0],
+            // null declares a directive without a value
+            parameter: entry.parameter === null ? undefined : entry.parameter
+                ? { type: entry.parameter.type, required: !!entry.parameter.required, values: entry.parameter.values }
+                : { type: 'string', required: false },
+            source
+        };
+    }
+
+    private static getCategoryByPrefix(name: string): HttpDirectiveKind {
+        if (name.startsWith('TEST-')) {
+            return 'test';
+        }
+        if (name.startsWith('RETRY-')) {
+            return 'retry';
+        }
+        return name.startsWith('AUTH-') ? 'auth' : 'other';
+    }
+}
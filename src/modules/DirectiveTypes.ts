@@ -0,0 +1,62 @@
+/**
+ * Type definitions for the registry of ## directives, built-in and custom
+ */
+
+import { HttpDirectiveKind } from './HttpDocumentTypes';
+
+/** Kind of value after the colon, used for validation and completion */
+export type DirectiveParameterType =
+    | 'statusCodes'
+    | 'boolean'
+    | 'positiveInteger'
+    | 'delay'
+    | 'enum'
+    | 'retryStrategy'
+    | 'authProvider'
+    | 'stringList'
+    | 'string';
+
+export interface DirectiveParameter {
+    type: DirectiveParameterType;
+    /** Whether the directive needs a value after the colon */
+    required: boolean;
+    /** Allowed values of enum parameters */
+    values?: string[];
+}
+
+export type DirectiveSource = 'built-in' | 'xml-docs' | 'workspace';
+
+export interface DirectiveDefinition {
+    name: string;
+    category: HttpDirectiveKind;
+    /** Markdown shown in hovers and completion */
+    description: string;
+    /** One sentence for tooltips */
+    summary: string;
+    /** Undefined when the directive takes no value */
+    parameter?: DirectiveParameter;
+    source: DirectiveSource;
+}
+
+/** An @-directive such as # @name, which configures a request instead of testing it */
+export interface MetaDirectiveDefinition {
+    /** Name without the @ */
+    name: string;
+    /** Markdown shown in hovers and completion */
+    description: string;
+}
+
+/**
+ * Content of .teapie/directives.json, the workspace file for custom directives
+ */
+export interface DirectiveConfigFile {
+    directives?: (Partial<DirectiveDefinition> & { name: string })[];
+    /** XML documentation files, relative to the workspace, whose members declare <directive> elements */
+    xmlDocs?: string[];
+}
+
+export interface DirectiveLoadResult {
+    /** Number of custom directives loaded */
+    loaded: number;
+    errors: string[];
+}
@@ -0,0 +1,74 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+export type EnvironmentValue = string | boolean | number;
+
+type EnvironmentFile = { [environment: string]: { [key: string]: EnvironmentValue } };
+
+/**
+ * Adds variables to environments of .teapie/env.json, the file the Environment Editor edits
+ */
+export class EnvironmentFileWriter {
+    private static outputChannel: vscode.OutputChannel;
+
+    static setOutputChannel(channel: vscode.OutputChannel) {
+        this.outputChannel = channel;
+    }
+
+    static getEnvironmentFilePath(workspacePath: string): string {
+        return path.join(workspacePath, '.teapie', 'env.json');
+    }
+
+    /**
+     * Returns the variables that already exist in an environment with a different value, i.e. those
+     * a merge with overwrite would replace
+     */
+    static async findConflicts(
+        envFilePath: string,
+        environmentName: string,
+        variables: { [key: string]: EnvironmentValue }
+    ): Promise<string[]> {
+        const environment = (await this.read(envFilePath))[environmentName] ?? {};
+        return Object.keys(variables).filter(key => key in environment && environment[key] !== variables[key]);
+    }
+
+    /**
+     * Merges variables into an environment, creating the file or environment when missing.
+     * Variables that are not merged are kept. Returns the number of variables written.
+     * @param overwrite - Whether existing values are replaced, otherwise only new variables are added
+     */
+    static async merge(
+        envFilePath: string,
+        environmentName: string,
+        variables: { [key: string]: EnvironmentValue },
+        overwrite: boolean
+    ): Promise<number> {
+        const environments = await this.read(envFilePath);
+        const environment = environments[environmentName] ?? {};
+        let written = 0;
+        for (const [key, value] of Object.entries(variables)) {
+            if (overwrite || !(key in environment)) {
+                environment[key] = value;
+                written++;
+            }
+        }
+        environments[environmentName] = environment;
+
+        await fs.mkdir(path.dirname(envFilePath), { recursive: true });
+        await fs.writeFile(envFilePath, JSON.stringify(environments, null, 4));
+        this.outputChannel?.appendLine(`[EnvironmentFileWriter] Wrote ${written} variable(s) to ${environmentName} in ${envFilePath}`);
+        return written;
+    }
+
+    private static async read(envFilePath: string): Promise<EnvironmentFile> {
+        try {
+            return JSON.parse(await fs.readFile(envFilePath, 'utf8'));
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                throw new Error(`Failed to read ${path.basename(envFilePath)}: ${error}`);
+            }
+            return { $shared: {}, local: {} };
+        }
+    }
+}
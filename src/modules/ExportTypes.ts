@@ -0,0 +1,26 @@
+/**
+ * Type definitions for exporting test cases to other tools
+ */
+
+export type ExportFormat = 'postman' | 'har' | 'curl';
+
+export interface ExportHeader {
+    name: string;
+    value: string;
+}
+
+export interface ExportRequest {
+    name: string;
+    method: string;
+    url: string;
+    headers: ExportHeader[];
+    body?: string;
+    /** Folders from the exported directory to the request, used to group requests */
+    folders: string[];
+}
+
+export interface ExportOptions {
+    format: ExportFormat;
+    /** Whether variables are replaced with their values in the current environment or kept as {{placeholders}} */
+    resolveVariables: boolean;
+}
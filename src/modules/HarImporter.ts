@@ -0,0 +1,94 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+import { HarEntry, HarImportResult, HarLog } from './HarTypes';
+import { HttpFileRequest } from './HttpRequestTypes';
+import { HttpFileWriter } from './HttpFileWriter';
+import { toRequestName, toSafeFileName } from '../utils/namingUtils';
+
+/** Browser resource types that are not API calls */
+const STATIC_RESOURCE_TYPES = new Set(['script', 'stylesheet', 'image', 'font', 'media', 'manifest', 'texttrack']);
+
+/** Headers the HTTP client computes itself; without Accept-Encoding the response is not compressed */
+const SKIPPED_HEADERS = new Set(['host', 'content-length', 'connection', 'accept-encoding']);
+
+/**
+ * Converts HAR captures, e.g. saved from browser devtools, into TeaPie test cases
+ */
+export class HarImporter {
+    private static outputChannel: vscode.OutputChannel;
+
+    static setOutputChannel(channel: vscode.OutputChannel) {
+        this.outputChannel = channel;
+    }
+
+    static isHar(content: unknown): content is HarLog {
+        return Array.isArray((content as HarLog)?.log?.entries);
+    }
+
+    /**
+     * Returns the folder a HAR file is imported into
+     */
+    static getOutputDirectory(harFilePath: string, targetDir: string): string {
+        return path.join(targetDir, toSafeFileName(path.basename(harFilePath, path.extname(harFilePath))) || 'HAR Import');
+    }
+
+    /**
+     * Writes one numbered test case per captured request, expecting the captured status code
+     */
+    static async importHar(har: HarLog, outputDir: string): Promise<HarImportResult> {
+        const result: HarImportResult = { files: [], requests: 0, skipped: 0 };
+        const entries = har.log.entries.filter(entry => !STATIC_RESOURCE_TYPES.has(entry._resourceType ?? ''));
+        result.skipped = har.log.entries.length - entries.length;
+
+        await fs.mkdir(outputDir, { recursive: true });
+        const width = String(entries.length).length;
+        for (const [index, entry] of entries.entries()) {
+            const request = this.toRequest(entry);
+            const number = String(index + 1).padStart(width, '0');
+            const directives = entry.response?.status > 0 ? [`TEST-EXPECT-STATUS: [${entry.response.status}]`] : [];
+
+            const requestFile = path.join(outputDir, `${number}. ${toSafeFileName(this.getDisplayName(entry)) || 'Request'}-req.http`);
+            await fs.writeFile(requestFile, HttpFileWriter.formatRequest(request, directives), 'utf8');
+            result.files.push(requestFile);
+            result.requests++;
+        }
+
+        this.outputChannel?.appendLine(`[HarImporter] Imported ${result.requests} request(s) to ${outputDir}, skipped ${result.skipped} static resource(s)`);
+        return result;
+    }
+
+    static toRequest(entry: HarEntry): HttpFileRequest {
+        const { request } = entry;
+        const headers = request.headers
+            .filter(header => !header.name.startsWith(':') && !SKIPPED_HEADERS.has(header.name.toLowerCase()))
+            .map(header => ({ name: header.name, value: header.value }));
+
+        let body = request.postData?.text;
+        if (body === undefined && request.postData?.params?.length) {
+            body = request.postData.params
+                .map(param => `${encodeURIComponent(param.name)}=${encodeURIComponent(param.value ?? '')}`)
+                .join('&');
+        }
+        if (body && request.postData?.mimeType && !headers.some(header => header.name.toLowerCase() === 'content-type')) {
+            headers.push({ name: 'Content-Type', value: request.postData.mimeType });
+        }
+
+        return {
+            name: toRequestName(this.getDisplayName(entry)),
+            method: request.method.toUpperCase(),
+            url: request.url,
+            templateUrl: request.url,
+            headers,
+            requestBody: body || undefined
+        };
+    }
+
+    /**
+     * Uses the name stored by the export, or the method and last path segment of the URL
+     */
+    private static getDisplayName(entry: HarEntry): string {
+        return entry._name || HttpFileWriter.getDefaultName(entry.request.method, entry.request.url);
+    }
+}
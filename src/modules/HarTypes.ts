@@ -0,0 +1,67 @@
+/**
+ * Type definitions for the parts of the HAR 1.2 format the extension reads and writes
+ */
+
+export interface HarNameValue {
+    name: string;
+    value: string;
+}
+
+export interface HarPostData {
+    mimeType: string;
+    text?: string;
+    params?: HarNameValue[];
+}
+
+export interface HarRequest {
+    method: string;
+    url: string;
+    httpVersion: string;
+    headers: HarNameValue[];
+    queryString: HarNameValue[];
+    cookies: HarNameValue[];
+    headersSize: number;
+    bodySize: number;
+    postData?: HarPostData;
+}
+
+export interface HarResponse {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    headers: HarNameValue[];
+    cookies: HarNameValue[];
+    content: { size: number; mimeType: string; text?: string };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+}
+
+export interface HarEntry {
+    /** Custom field holding the request name, HAR allows custom fields starting with an underscore */
+    _name?: string;
+    /** Custom field browsers use for the kind of resource, e.g. xhr, fetch or image */
+    _resourceType?: string;
+    startedDateTime: string;
+    time: number;
+    request: HarRequest;
+    response: HarResponse;
+    cache: object;
+    timings: { send: number; wait: number; receive: number };
+}
+
+export interface HarLog {
+    log: {
+        version: string;
+        creator: { name: string; version: string };
+        entries: HarEntry[];
+    };
+}
+
+export interface HarImportResult {
+    /** Written -req.http files */
+    files: string[];
+    requests: number;
+    /** Entries for static resources such as scripts, styles and images */
+    skipped: number;
+}
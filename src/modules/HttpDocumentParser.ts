@@ -0,0 +1,420 @@
+import * as fs from 'fs/promises';
+
+import { DirectiveRegistry } from './DirectiveRegistry';
+import {
+    HttpComment,
+    HttpDirective,
+    HttpDirectiveKind,
+    HttpDocument,
+    HttpMetaDirective,
+    HttpRequestNode,
+    HttpSourceRange,
+    HttpVariableDefinition,
+    HttpVariableReference
+} from './HttpDocumentTypes';
+
+const METHOD_PATTERN = /^(GET|POST|PUT|DELETE|PATCH|OPTIONS|HEAD|TRACE|CONNECT)\s+(.+?)(?:\s+(HTTP\/[\d.]+))?\s*$/i;
+const DIRECTIVE_PATTERN = /^##\s*([A-Z][A-Z0-9]*(?:-[A-Z0-9]+)+)\s*(?::(.*))?/;
+const META_DIRECTIVE_PATTERN = /^(?:(?:#|\/\/)\s*)?(@[\w-]+)(?:\s+(.*))?$/;
+const VARIABLE_DEFINITION_PATTERN = /^(@[\w.-]+)\s*=(.*)$/;
+const HEADER_PATTERN = /^([!#$%&'*+.^_`|~\w-]+)\s*:(.*)$/;
+const VARIABLE_PATTERN = /\{\{\s*([^{}\s][^{}]*?)\s*\}\}/g;
+
+/** The subset of vscode.TextDocument the parser needs */
+export interface ParsableDocument {
+    uri: { toString(): string };
+    version: number;
+    getText(): string;
+}
+
+/** Parse result of a block that starts at its ### separator, with lines relative to the block */
+interface ParsedBlock {
+    requests: Omit<HttpRequestNode, 'index'>[];
+    comments: HttpComment[];
+    variables: HttpVariableReference[];
+    variableDefinitions: HttpVariableDefinition[];
+    danglingDirectives: (HttpDirective | HttpMetaDirective)[];
+}
+
+interface CachedDocument {
+    version: number;
+    document: HttpDocument;
+    blocks: Map<string, ParsedBlock>;
+}
+
+type LineKind = 'blank' | 'separator' | 'directive' | 'variable' | 'meta' | 'comment' | 'method' | 'other';
+
+/**
+ * Parses .http files into a document model with source ranges, shared by all providers.
+ * Open documents are parsed incrementally: blocks between ### separators that did not change
+ * since the previous version are reused.
+ */
+export class HttpDocumentParser {
+    private static cache = new Map<string, CachedDocument>();
+
+    static async parseFile(filePath: string): Promise<HttpDocument> {
+        return this.parse(await fs.readFile(filePath, 'utf8'));
+    }
+
+    static parse(content: string): HttpDocument {
+        return this.assemble(content, new Map()).document;
+    }
+
+    /**
+     * Parses an open document, reusing the previous result for the same version.
+     * The returned model is shared and must not be modified.
+     */
+    static parseDocument(document: ParsableDocument): HttpDocument {
+        const key = document.uri.toString();
+        const cached = this.cache.get(key);
+        if (cached && cached.version === document.version) {
+            return cached.document;
+        }
+
+        const result = this.assemble(document.getText(), cached?.blocks ?? new Map());
+        this.cache.set(key, { version: document.version, ...result });
+        return result.document;
+    }
+
+    static forget(document: ParsableDocument): void {
+        this.cache.delete(document.uri.toString());
+    }
+
+    /**
+     * Returns the request whose range contains the line
+     */
+    static getRequestAt(document: HttpDocument, line: number): HttpRequestNode | undefined {
+        return document.requests.find(request => line >= request.range.startLine && line <= request.range.endLine);
+    }
+
+    static getRequestLabel(request: HttpRequestNode): string {
+        return request.name || request.title || `${request.requestLine.method} ${request.requestLine.url}`;
+    }
+
+    static getDirectiveKind(name: string): HttpDirectiveKind {
+        return DirectiveRegistry.getCategory(name);
+    }
+
+    /**
+     * Drops all parsed models, e.g. after custom directives changed the kinds of directives
+     */
+    static clear(): void {
+        this.cache.clear();
+    }
+
+    private static assemble(content: string, previousBlocks: Map<string, ParsedBlock>): { document: HttpDocument; blocks: Map<string, ParsedBlock> } {
+        const lines = content.split(/\r?\n/);
+        const blocks = new Map<string, ParsedBlock>();
+        const document: HttpDocument = { requests: [], comments: [], variables: [], variableDefinitions: [], danglingDirectives: [], lineCount: lines.length };
+
+        // Blocks start at ### separators, the first one at the top of the file
+        const starts = [0, ...lines.map((line, i) => i > 0 && line.trim().startsWith('###') ? i : -1).filter(i => i > 0)];
+        starts.forEach((start, blockIndex) => {
+            const blockLines = lines.slice(start, starts[blockIndex + 1] ?? lines.length);
+            const text = blockLines.join('\n');
+            const block = previousBlocks.get(text) ?? blocks.get(text) ?? this.parseBlock(blockLines);
+            blocks.set(text, block);
+
+            const shifted = start ? this.shift(block, start) : block;
+            shifted.requests.forEach(request => document.requests.push({ ...request, index: document.requests.length }));
+            document.comments.push(...shifted.comments);
+            document.variables.push(...shifted.variables);
+            document.variableDefinitions.push(...shifted.variableDefinitions);
+            document.danglingDirectives.push(...shifted.danglingDirectives);
+        });
+
+        // Each request ends where the next one starts
+        document.requests.forEach((request, i) => {
+            const next = document.requests[i + 1];
+            const endLine = Math.max(request.requestLine.range.endLine, (next?.range.startLine ?? lines.length) - 1);
+            request.range = { ...request.range, endLine, endCharacter: lines[endLine].length };
+        });
+        return { document, blocks };
+    }
+
+    private static parseBlock(lines: string[]): ParsedBlock {
+        const block: ParsedBlock = { requests: [], comments: [], variables: [], variableDefinitions: [], danglingDirectives: [] };
+        let current: Omit<HttpRequestNode, 'index'> | undefined;
+        let section: 'preamble' | 'headers' | 'body' = 'preamble';
+        let bodyLines: number[] = [];
+        // Comment and directive lines between body lines are not part of the body text
+        const skippedLines = new Set<number>();
+
+        // Lines before a request line, attached to the next request or, inside a body, to the current one
+        let pending: { start?: number; comments: HttpComment[]; meta: HttpMetaDirective[]; directives: HttpDirective[] } = { comments: [], meta: [], directives: [] };
+        let title: { text?: string; range: HttpSourceRange } | undefined;
+
+        const finishBody = () => {
+            if (current && bodyLines.length) {
+                const first = bodyLines[0];
+                const last = bodyLines[bodyLines.length - 1];
+                current.body = {
+                    text: lines.slice(first, last + 1).filter((_, k) => !skippedLines.has(first + k)).join('\n').trim(),
+                    range: this.range(first, this.indent(lines[first]), last, lines[last].trimEnd().length)
+                };
+            }
+            bodyLines = [];
+        };
+        const attachPending = () => {
+            if (current) {
+                current.comments.push(...pending.comments);
+                current.metaDirectives.push(...pending.meta);
+                current.directives.push(...pending.directives);
+            }
+            pending = { comments: [], meta: [], directives: [] };
+        };
+
+        for (let i = 0; i < lines.length; i++) {
+            const line = lines[i];
+            const kind = this.classify(line, section === 'body');
+            if (kind !== 'comment' && kind !== 'blank') {
+                block.variables.push(...this.findVariables(line, i));
+            }
+
+            switch (kind) {
+                case 'blank':
+                    if (section === 'headers') {
+                        section = 'body';
+                    }
+                    continue;
+                case 'separator': {
+                    const text = line.trim().slice(3).trim();
+                    title = { text: text || undefined, range: this.range(i, this.indent(line), i, line.trimEnd().length) };
+                    pending.start = i;
+                    continue;
+                }
+                case 'comment': {
+                    const comment = this.parseComment(line, i);
+                    skippedLines.add(i);
+                    block.comments.push(comment);
+                    if (section === 'headers') {
+                        current!.comments.push(comment);
+                    } else {
+                        pending.start ??= i;
+                        pending.comments.push(comment);
+                    }
+                    continue;
+                }
+                case 'variable':
+                    skippedLines.add(i);
+                    block.variableDefinitions.push(this.parseVariableDefinition(line, i));
+                    continue;
+                case 'directive':
+                case 'meta': {
+                    const node = kind === 'directive' ? this.parseDirective(line, i) : this.parseMetaDirective(line, i);
+                    skippedLines.add(i);
+                    if (section === 'headers') {
+                        this.addDirective(current!, node);
+                    } else {
+                        pending.start ??= i;
+                        if ('kind' in node) {
+                            pending.directives.push(node);
+                        } else {
+                            pending.meta.push(node);
+                        }
+                    }
+                    continue;
+                }
+                case 'method': {
+                    finishBody();
+                    const match = line.trim().match(METHOD_PATTERN)!;
+                    const indent = this.indent(line);
+                    const urlStart = line.indexOf(match[2], indent + match[1].length);
+                    current = {
+                        title: title?.text,
+                        titleRange: title?.text ? title.range : undefined,
+                        range: this.range(pending.start ?? i, 0, i, line.length),
+                        requestLine: {
+                            method: match[1].toUpperCase(),
+                            url: match[2],
+                            httpVersion: match[3],
+                            range: this.range(i, indent, i, line.trimEnd().length),
+                            methodRange: this.range(i, indent, i, indent + match[1].length),
+                            urlRange: this.range(i, urlStart, i, urlStart + match[2].length)
+                        },
+                        comments: pending.comments,
+                        metaDirectives: pending.meta,
+                        directives: pending.directives,
+                        headers: [],
+                        invalidLines: [],
+                        variables: []
+                    };
+                    current.name = current.metaDirectives.find(meta => meta.name === 'name')?.value || undefined;
+                    block.requests.push(current);
+                    pending = { comments: [], meta: [], directives: [] };
+                    title = undefined;
+                    section = 'headers';
+                    continue;
+                }
+                case 'other':
+                    if (section === 'headers') {
+                        const header = line.trim().match(HEADER_PATTERN);
+                        const indent = this.indent(line);
+                        if (header) {
+                            const valueStart = line.indexOf(':', indent) + 1 + (header[2].length - header[2].trimStart().length);
+                            current!.headers.push({
+                                name: header[1],
+                                value: header[2].trim(),
+                                range: this.range(i, indent, i, line.trimEnd().length),
+                                nameRange: this.range(i, indent, i, indent + header[1].length),
+                                valueRange: this.range(i, valueStart, i, Math.max(valueStart, line.trimEnd().length))
+                            });
+                        } else {
+                            current!.invalidLines.push({ text: line.trim(), range: this.range(i, indent, i, line.trimEnd().length) });
+                        }
+                    } else if (section === 'body') {
+                        // Comments between body lines are part of the body's request
+                        attachPending();
+                        bodyLines.push(i);
+                    }
+                    continue;
+            }
+        }
+
+        finishBody();
+        // Comments after the last request belong to it, directives without a request line are dangling
+        if (current) {
+            current.comments.push(...pending.comments);
+        }
+        block.danglingDirectives.push(...pending.directives, ...pending.meta);
+
+        // Variable references are also listed per request
+        block.requests.forEach((request, i) => {
+            const end = block.requests[i + 1]?.range.startLine ?? lines.length;
+            request.variables = block.variables.filter(variable => variable.range.startLine >= request.range.startLine && variable.range.startLine < end);
+        });
+        return block;
+    }
+
+    private static classify(line: string, inBody: boolean): LineKind {
+        const trimmed = line.trim();
+        if (!trimmed) {
+            return 'blank';
+        }
+        if (trimmed.startsWith('###')) {
+            return 'separator';
+        }
+        if (DIRECTIVE_PATTERN.test(trimmed)) {
+            return 'directive';
+        }
+        // Checked before @-directives, which @name = value lines would match as well
+        if (!inBody && VARIABLE_DEFINITION_PATTERN.test(trimmed)) {
+            return 'variable';
+        }
+        if (META_DIRECTIVE_PATTERN.test(trimmed) && (!inBody || !trimmed.startsWith('@'))) {
+            return 'meta';
+        }
+        if (trimmed.startsWith('#') || trimmed.startsWith('//')) {
+            return 'comment';
+        }
+        // Inside a body only upper-case methods start a request, so text such as "get ready" stays in the body
+        const method = trimmed.match(METHOD_PATTERN);
+        if (method && (!inBody || method[1] === method[1].toUpperCase())) {
+            return 'method';
+        }
+        return 'other';
+    }
+
+    private static parseComment(line: string, lineIndex: number): HttpComment {
+        const trimmed = line.trim();
+        const prefix = trimmed.startsWith('//') ? '//' : '#';
+        return {
+            prefix,
+            text: trimmed.replace(/^(#+|\/\/+)\s*/, ''),
+            range: this.range(lineIndex, this.indent(line), lineIndex, line.trimEnd().length)
+        };
+    }
+
+    private static parseDirective(line: string, lineIndex: number): HttpDirective {
+        const match = line.trim().match(DIRECTIVE_PATTERN)!;
+        const nameStart = line.indexOf(match[1]);
+        const directive: HttpDirective = {
+            name: match[1],
+            kind: this.getDirectiveKind(match[1]),
+            range: this.range(lineIndex, this.indent(line), lineIndex, line.trimEnd().length),
+            nameRange: this.range(lineIndex, nameStart, lineIndex, nameStart + match[1].length)
+        };
+        if (match[2] !== undefined) {
+            directive.value = match[2].trim();
+            const colon = line.indexOf(':', nameStart + match[1].length);
+            const valueStart = colon + 1 + (match[2].length - match[2].trimStart().length);
+            directive.valueRange = this.range(lineIndex, valueStart, lineIndex, Math.max(valueStart, line.trimEnd().length));
+        }
+        return directive;
+    }
+
+    private static parseMetaDirective(line: string, lineIndex: number): HttpMetaDirective {
+        const match = line.trim().match(META_DIRECTIVE_PATTERN)!;
+        const nameStart = line.indexOf(match[1]);
+        const value = match[2]?.trim() ?? '';
+        const valueStart = value ? line.indexOf(value, nameStart + match[1].length) : -1;
+        return {
+            name: match[1].slice(1),
+            value,
+            range: this.range(lineIndex, this.indent(line), lineIndex, line.trimEnd().length),
+            nameRange: this.range(lineIndex, nameStart, lineIndex, nameStart + match[1].length),
+            valueRange: value ? this.range(lineIndex, valueStart, lineIndex, valueStart + value.length) : undefined
+        };
+    }
+
+    private static parseVariableDefinition(line: string, lineIndex: number): HttpVariableDefinition {
+        const match = line.trim().match(VARIABLE_DEFINITION_PATTERN)!;
+        const nameStart = line.indexOf(match[1]);
+        const value = match[2].trim();
+        const valueStart = value ? line.indexOf(value, line.indexOf('=', nameStart) + 1) : -1;
+        return {
+            name: match[1].slice(1),
+            value,
+            range: this.range(lineIndex, this.indent(line), lineIndex, line.trimEnd().length),
+            nameRange: this.range(lineIndex, nameStart, lineIndex, nameStart + match[1].length),
+            valueRange: value ? this.range(lineIndex, valueStart, lineIndex, valueStart + value.length) : undefined
+        };
+    }
+
+    private static addDirective(request: Omit<HttpRequestNode, 'index'>, node: HttpDirective | HttpMetaDirective): void {
+        if ('kind' in node) {
+            request.directives.push(node);
+        } else {
+            request.metaDirectives.push(node);
+        }
+    }
+
+    private static findVariables(line: string, lineIndex: number): HttpVariableReference[] {
+        const variables: HttpVariableReference[] = [];
+        for (const match of line.matchAll(VARIABLE_PATTERN)) {
+            const start = match.index!;
+            const nameStart = line.indexOf(match[1], start + 2);
+            variables.push({
+                name: match[1],
+                range: this.range(lineIndex, start, lineIndex, start + match[0].length),
+                nameRange: this.range(lineIndex, nameStart, lineIndex, nameStart + match[1].length)
+            });
+        }
+        return variables;
+    }
+
+    /**
+     * Copies a block parsed at line 0 to the line it starts at
+     */
+    private static shift<T>(value: T, offset: number): T {
+        if (Array.isArray(value)) {
+            return value.map(item => this.shift(item, offset)) as T;
+        }
+        if (value === null || typeof value !== 'object') {
+            return value;
+        }
+        const copy: { [key: string]: unknown } = {};
+        for (const [key, item] of Object.entries(value)) {
+            copy[key] = (key === 'startLine' || key === 'endLine') && typeof item === 'number' ? item + offset : this.shift(item, offset);
+        }
+        return copy as T;
+    }
+
+    private static range(startLine: number, startCharacter: number, endLine: number, endCharacter: number): HttpSourceRange {
+        return { startLine, startCharacter, endLine, endCharacter };
+    }
+
+    private static indent(line: string): number {
+        return line.length - line.trimStart().length;
+    }
+}
@@ -0,0 +1,142 @@
+/**
+ * Type definitions for the document model of .http files
+ */
+
+/** Zero-based position span, the end character is exclusive */
+export interface HttpSourceRange {
+    startLine: number;
+    startCharacter: number;
+    endLine: number;
+    endCharacter: number;
+}
+
+/** A {{name}} reference, the range includes the braces */
+export interface HttpVariableReference {
+    name: string;
+    range: HttpSourceRange;
+    nameRange: HttpSourceRange;
+}
+
+/** A file variable such as @baseUrl = https://api.example.com, outside of requests */
+export interface HttpVariableDefinition {
+    /** Name without the @ */
+    name: string;
+    value: string;
+    range: HttpSourceRange;
+    /** Range of the name including the @ */
+    nameRange: HttpSourceRange;
+    valueRange?: HttpSourceRange;
+}
+
+/** A # or // line that is neither a directive nor an @-directive */
+export interface HttpComment {
+    prefix: '#' | '//';
+    text: string;
+    range: HttpSourceRange;
+}
+
+/** An @-directive such as # @name GetUser or @host https://api.example.com */
+export interface HttpMetaDirective {
+    /** Name without the @ */
+    name: string;
+    value: string;
+    range: HttpSourceRange;
+    /** Range of the name including the @ */
+    nameRange: HttpSourceRange;
+    valueRange?: HttpSourceRange;
+}
+
+export type HttpDirectiveKind = 'test' | 'retry' | 'auth' | 'other';
+
+/** A ## directive such as ## TEST-EXPECT-STATUS: [200] */
+export interface HttpDirective {
+    name: string;
+    kind: HttpDirectiveKind;
+    /** Text after the colon, undefined when the directive has no colon */
+    value?: string;
+    range: HttpSourceRange;
+    nameRange: HttpSourceRange;
+    valueRange?: HttpSourceRange;
+}
+
+export interface HttpRequestLine {
+    method: string;
+    url: string;
+    httpVersion?: string;
+    range: HttpSourceRange;
+    methodRange: HttpSourceRange;
+    urlRange: HttpSourceRange;
+}
+
+export interface HttpHeaderNode {
+    name: string;
+    value: string;
+    range: HttpSourceRange;
+    nameRange: HttpSourceRange;
+    valueRange: HttpSourceRange;
+}
+
+export interface HttpBody {
+    /** Body text without comment lines and surrounding blank lines */
+    text: string;
+    range: HttpSourceRange;
+}
+
+/** A line in the header section that is neither a header nor a comment */
+export interface HttpInvalidLine {
+    text: string;
+    range: HttpSourceRange;
+}
+
+export interface HttpRequestNode {
+    /** Position of the request in the file, as used by TeaPie and the single request runner */
+    index: number;
+    /** Text after the ### separator that starts the request */
+    title?: string;
+    titleRange?: HttpSourceRange;
+    /** Value of the @name directive */
+    name?: string;
+    /** From the separator or first comment or directive to the line before the next request */
+    range: HttpSourceRange;
+    requestLine: HttpRequestLine;
+    comments: HttpComment[];
+    metaDirectives: HttpMetaDirective[];
+    directives: HttpDirective[];
+    headers: HttpHeaderNode[];
+    invalidLines: HttpInvalidLine[];
+    body?: HttpBody;
+    variables: HttpVariableReference[];
+}
+
+export interface HttpDocument {
+    requests: HttpRequestNode[];
+    /** All comments of the file, including those outside requests */
+    comments: HttpComment[];
+    /** All variable references of the file, including those outside requests */
+    variables: HttpVariableReference[];
+    /** @name = value lines that define file variables */
+    variableDefinitions: HttpVariableDefinition[];
+    /** Directives and @-directives that are not followed by a request line */
+    danglingDirectives: (HttpDirective | HttpMetaDirective)[];
+    lineCount: number;
+}
+
+export type HttpProblemSeverity = 'error' | 'warning' | 'information';
+
+/** A text replacement offered as a quick fix */
+export interface HttpProblemFix {
+    title: string;
+    range: HttpSourceRange;
+    newText: string;
+}
+
+/** A problem found by validating a document, shown as a diagnostic */
+export interface HttpDocumentProblem {
+    code: string;
+    message: string;
+    severity: HttpProblemSeverity;
+    range: HttpSourceRange;
+    /** Another location involved in the problem, e.g. the first request with the same name */
+    related?: { message: string; range: HttpSourceRange };
+    fixes: HttpProblemFix[];
+}
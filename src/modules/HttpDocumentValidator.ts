@@ -0,0 +1,309 @@
+import { DiagnosticCodes } from '../constants/diagnostics';
+import { DirectiveRegistry } from './DirectiveRegistry';
+import { DirectiveParameter, DirectiveParameterType } from './DirectiveTypes';
+import { HttpFileWriter } from './HttpFileWriter';
+import {
+    HttpDirective,
+    HttpDocument,
+    HttpDocumentProblem,
+    HttpRequestNode,
+    HttpSourceRange
+} from './HttpDocumentTypes';
+import { RequestReference } from './RequestReferenceLocator';
+import { getClosestMatch } from '../utils/stringUtils';
+
+export interface ValidationContext {
+    /** Returns whether a variable has a value, or undefined when variables are not loaded */
+    isVariableDefined?: (name: string) => boolean;
+    /** Request names the -init.csx and -test.csx scripts of the test case look up */
+    scriptReferences?: { fileName: string; references: RequestReference[] }[];
+}
+
+/** Result of checking a directive value: an error message and, when the intent is obvious, the corrected value */
+interface ValueCheck {
+    message: string;
+    replacement?: string;
+}
+
+const METHODS_WITHOUT_BODY = ['GET', 'HEAD'];
+/** Request variables such as {{Login.response.body.$.token}} */
+const REQUEST_VARIABLE_PATTERN = /^([\w-]+)\.(request|response)\./i;
+
+/** Checks of values by parameter type, types without a check accept any value */
+const VALUE_CHECKS: { [type in DirectiveParameterType]?: (value: string, parameter: DirectiveParameter) => ValueCheck | undefined } = {
+    statusCodes: value => checkStatusCodes(value),
+    boolean: value => checkBoolean(value),
+    positiveInteger: value => /^[1-9]\d*$/.test(value) ? undefined : { message: `'${value}' is not a positive whole number` },
+    delay: value => /^\d+$/.test(value) || /^\d+:\d{2}:\d{2}(\.\d+)?$/.test(value)
+        ? undefined
+        : { message: `'${value}' is not a delay, expected milliseconds or hh:mm:ss` },
+    enum: (value, parameter) => {
+        const values = parameter.values ?? [];
+        if (!values.length || values.includes(value)) {
+            return undefined;
+        }
+        const replacement = values.find(item => item.toLowerCase() === value.toLowerCase()) ?? getClosestMatch(value, values);
+        return { message: `'${value}' is not allowed, expected ${values.join(' or ')}`, replacement };
+    }
+};
+
+function checkStatusCodes(value: string): ValueCheck | undefined {
+    const codes = value.replace(/^\[|\]$/g, '').split(',').map(code => code.trim());
+    const invalid = codes.find(code => !/^[1-5]\d{2}$/.test(code));
+    if (invalid === undefined) {
+        return undefined;
+    }
+    // Letters that look like digits, e.g. 20O
+    const corrected = value.replace(/[oO]/g, '0').replace(/[lI]/g, '1');
+    return {
+        message: invalid ? `'${invalid}' is not a valid status code` : 'Expected a status code or a list such as [200, 201]',
+        replacement: corrected !== value && !checkStatusCodes(corrected) ? corrected : undefined
+    };
+}
+
+function checkBoolean(value: string): ValueCheck | undefined {
+    if (value === 'true' || value === 'false') {
+        return undefined;
+    }
+    const lower = value.toLowerCase();
+    return { message: `'${value}' is not true or false`, replacement: lower === 'true' || lower === 'false' ? lower : undefined };
+}
+
+/**
+ * Checks parsed .http documents for mistakes that otherwise only show up when TeaPie runs them
+ */
+export class HttpDocumentValidator {
+
+    static validate(document: HttpDocument, context: ValidationContext = {}): HttpDocumentProblem[] {
+        const problems: HttpDocumentProblem[] = [];
+
+        for (const request of document.requests) {
+            request.directives.forEach(directive => this.validateDirective(directive, problems));
+            this.validateHeaders(request, problems);
+            this.validateBody(request, problems);
+        }
+
+        for (const directive of document.danglingDirectives) {
+            problems.push({
+                code: DiagnosticCodes.danglingDirective,
+                message: 'Directive is not followed by a request line, so it has no effect',
+                severity: 'warning',
+                range: directive.range,
+                fixes: []
+            });
+            if ('kind' in directive) {
+                this.validateDirective(directive, problems);
+            }
+        }
+
+        this.validateNames(document, problems);
+        this.validateScriptReferences(document, context, problems);
+        this.validateVariables(document, context, problems);
+        return problems;
+    }
+
+    private static validateDirective(directive: HttpDirective, problems: HttpDocumentProblem[]): void {
+        const definition = DirectiveRegistry.get(directive.name);
+        if (!definition) {
+            const suggestion = getClosestMatch(directive.name, DirectiveRegistry.getAll().map(item => item.name));
+            // Not an error, custom directives may be registered in scripts without being described in the workspace
+            problems.push({
+                code: DiagnosticCodes.unknownDirective,
+                message: `Unknown directive ${directive.name}${suggestion ? `, did you mean ${suggestion}?` : ''}`,
+                severity: 'warning',
+                range: directive.nameRange,
+                fixes: suggestion ? [{ title: `Change to ${suggestion}`, range: directive.nameRange, newText: suggestion }] : []
+            });
+            return;
+        }
+
+        const parameter = definition.parameter;
+        const value = directive.value?.trim();
+        if (!value) {
+            if (parameter?.required) {
+                problems.push({
+                    code: DiagnosticCodes.missingDirectiveValue,
+                    message: `${directive.name} requires a value after a colon`,
+                    severity: 'error',
+                    range: directive.range,
+                    fixes: []
+                });
+            }
+            return;
+        }
+        if (!parameter) {
+            problems.push({
+                code: DiagnosticCodes.invalidDirectiveValue,
+                message: `${directive.name} does not take a value`,
+                severity: 'warning',
+                range: directive.valueRange ?? directive.range,
+                fixes: []
+            });
+            return;
+        }
+
+        // Values with variables are only known when TeaPie runs
+        if (value.includes('{{')) {
+            return;
+        }
+        const result = VALUE_CHECKS[parameter.type]?.(value, parameter);
+        if (result) {
+            const range = directive.valueRange ?? directive.range;
+            problems.push({
+                code: DiagnosticCodes.invalidDirectiveValue,
+                message: result.message,
+                severity: 'error',
+                range,
+                fixes: result.replacement ? [{ title: `Change to ${result.replacement}`, range, newText: result.replacement }] : []
+            });
+        }
+    }
+
+    private static validateHeaders(request: HttpRequestNode, problems: HttpDocumentProblem[]): void {
+        for (const line of request.invalidLines) {
+            // A body that directly follows the headers is the usual cause, its remaining lines need no extra problems
+            if (/^[{[<]/.test(line.text)) {
+                problems.push({
+                    code: DiagnosticCodes.missingBodySeparator,
+                    message: 'The body must be separated from the headers by an empty line',
+                    severity: 'error',
+                    range: line.range,
+                    fixes: [{ title: 'Insert an empty line before the body', range: this.emptyRange(line.range), newText: '\n' }]
+                });
+                return;
+            }
+
+            const missingColon = line.text.match(/^([\w-]+)\s+(\S.*)$/);
+            problems.push({
+                code: DiagnosticCodes.malformedHeader,
+                message: `Malformed header '${line.text}', expected Name: value`,
+                severity: 'error',
+                range: line.range,
+                fixes: missingColon
+                    ? [{ title: `Change to ${missingColon[1]}: ${missingColon[2]}`, range: line.range, newText: `${missingColon[1]}: ${missingColon[2]}` }]
+                    : []
+            });
+        }
+    }
+
+    private static validateBody(request: HttpRequestNode, problems: HttpDocumentProblem[]): void {
+        const method = request.requestLine.method;
+        if (!request.body || !METHODS_WITHOUT_BODY.includes(method)) {
+            return;
+        }
+        problems.push({
+            code: DiagnosticCodes.bodyNotAllowed,
+            message: `${method} requests should not have a body, most servers ignore it`,
+            severity: 'warning',
+            range: request.body.range,
+            fixes: [{ title: 'Change the method to POST', range: request.requestLine.methodRange, newText: 'POST' }]
+        });
+    }
+
+    private static validateNames(document: HttpDocument, problems: HttpDocumentProblem[]): void {
+        const allNames = document.requests.map(request => request.name);
+        const firstByName = new Map<string, HttpRequestNode>();
+
+        for (const request of document.requests) {
+            const directive = request.metaDirectives.find(meta => meta.name === 'name');
+            if (!request.name || !directive) {
+                continue;
+            }
+            const first = firstByName.get(request.name.toLowerCase());
+            if (!first) {
+                firstByName.set(request.name.toLowerCase(), request);
+                continue;
+            }
+
+            const range = directive.valueRange ?? directive.range;
+            const unique = HttpFileWriter.getUniqueName(request.name, allNames);
+            allNames.push(unique);
+            problems.push({
+                code: DiagnosticCodes.duplicateName,
+                message: `Another request is already named ${request.name}, so its request variables are ambiguous`,
+                severity: 'error',
+                range,
+                related: { message: `First request named ${request.name}`, range: first.requestLine.range },
+                fixes: [{ title: `Rename to ${unique}`, range, newText: unique }]
+            });
+        }
+    }
+
+    /**
+     * Reports request names that are close to, but not the same as, a name the scripts look up,
+     * the counterpart of the unknown request reference reported in the script
+     */
+    private static validateScriptReferences(document: HttpDocument, context: ValidationContext, problems: HttpDocumentProblem[]): void {
+        const requestNames = document.requests.map(request => request.name).filter((name): name is string => !!name);
+        const reported = new Set<string>();
+
+        for (const { fileName, references } of context.scriptReferences ?? []) {
+            for (const reference of references) {
+                if (!reference.name || requestNames.includes(reference.name)) {
+                    continue;
+                }
+                const suggestion = getClosestMatch(reference.name, requestNames);
+                const directive = document.requests
+                    .find(request => request.name === suggestion)?.metaDirectives
+                    .find(meta => meta.name === 'name');
+                if (!directive || reported.has(`${suggestion}:${reference.name}`)) {
+                    continue;
+                }
+                reported.add(`${suggestion}:${reference.name}`);
+
+                const range = directive.valueRange ?? directive.range;
+                problems.push({
+                    code: DiagnosticCodes.misspelledRequestName,
+                    message: `${fileName} uses tp.${reference.collection}["${reference.name}"], did you mean to name this request ${reference.name}?`,
+                    severity: 'warning',
+                    range,
+                    fixes: [{ title: `Rename to ${reference.name}`, range, newText: reference.name }]
+                });
+            }
+        }
+    }
+
+    private static validateVariables(document: HttpDocument, context: ValidationContext, problems: HttpDocumentProblem[]): void {
+        const requestNames = document.requests.map(request => request.name).filter((name): name is string => !!name);
+        // Variables defined in the file with @name = value have a value whatever environment is selected
+        const fileVariables = new Set(document.variableDefinitions.map(definition => definition.name));
+
+        for (const variable of document.variables) {
+            // Functions such as {{$guid}} are provided by TeaPie
+            if (variable.name.startsWith('$')) {
+                continue;
+            }
+
+            const requestVariable = variable.name.match(REQUEST_VARIABLE_PATTERN);
+            if (requestVariable) {
+                const requestName = requestVariable[1];
+                if (!requestNames.some(name => name.toLowerCase() === requestName.toLowerCase())) {
+                    const suggestion = getClosestMatch(requestName, requestNames);
+                    const nameRange: HttpSourceRange = { ...variable.nameRange, endCharacter: variable.nameRange.startCharacter + requestName.length };
+                    problems.push({
+                        code: DiagnosticCodes.unknownRequestVariable,
+                        message: `No request in this file is named ${requestName}`,
+                        severity: 'error',
+                        range: nameRange,
+                        fixes: suggestion ? [{ title: `Change to ${suggestion}`, range: nameRange, newText: suggestion }] : []
+                    });
+                }
+                continue;
+            }
+
+            if (context.isVariableDefined && !fileVariables.has(variable.name) && !context.isVariableDefined(variable.name)) {
+                problems.push({
+                    code: DiagnosticCodes.undefinedVariable,
+                    message: `Variable ${variable.name} has no value in the selected environment or the last run`,
+                    severity: 'warning',
+                    range: variable.nameRange,
+                    fixes: []
+                });
+            }
+        }
+    }
+
+    private static emptyRange(range: HttpSourceRange): HttpSourceRange {
+        return { startLine: range.startLine, startCharacter: 0, endLine: range.startLine, endCharacter: 0 };
+    }
+}
@@ -1,114 +1,77 @@
 import * as fs from 'fs/promises';
+import { HttpDocumentParser } from './HttpDocumentParser';
+import { HttpRequestNode } from './HttpDocumentTypes';
 import { HttpFileRequest } from './HttpRequestTypes';
+import { SNAPSHOT_DIRECTIVE } from '../constants/directives';
 
 /**
- * Parses HTTP files to extract request metadata
+ * Parses HTTP files to extract request metadata, based on the HttpDocumentParser model
  */
 export class HttpFileParser {
     
     static async parseHttpFileForNames(filePath: string): Promise<HttpFileRequest[]> {
         const content = await fs.readFile(filePath, 'utf8');
-        const lines = content.split(/\r?\n/);
-        const result: HttpFileRequest[] = [];
-        let lastName: string | undefined = undefined;
-        let lastTitle: string | undefined = undefined;
-        let testDirectiveCount = 0;
-        
-        for (let i = 0; i < lines.length; i++) {
-            const line = lines[i].trim();
-            
-            // Check for test directives
-            if (line.match(/^##\s*TEST-/)) {
-                testDirectiveCount++;
-                continue;
-            }
-            
-            const nameMatch = line.match(/^#\s*@name\s+(.+)/);
-            if (nameMatch) {
-                lastName = nameMatch[1].trim();
-                continue;
-            }
-            
-            const titleMatch = line.match(/^###\s+(.+)/);
-            if (titleMatch) {
-                lastTitle = titleMatch[1].trim();
-                continue;
-            }
-            
-            const methodMatch = line.match(/^(GET|POST|PUT|DELETE|PATCH|OPTIONS|HEAD)\s+(.+)/i);
-            if (methodMatch) {
-                const templateUrl = methodMatch[2].trim();
-                
-                // Extract request body for POST/PUT/PATCH requests
-                let requestBody: string | undefined = undefined;
-                const method = methodMatch[1].toUpperCase();
-                
-                if (method === 'POST' || method === 'PUT' || method === 'PATCH') {
-                    requestBody = this.extractRequestBodyFromLines(lines, i);
-                }
-                
-                result.push({
-                    name: lastName,
-                    title: lastTitle,
-                    method: method,
-                    url: templateUrl,
-                    templateUrl: templateUrl,
-                    requestBody: requestBody,
-                    hasTestDirectives: testDirectiveCount > 0,
-                    testDirectiveCount: testDirectiveCount
-                });
-                lastName = undefined;
-                lastTitle = undefined;
-                testDirectiveCount = 0;
-            }
-        }
-        return result;
+        return this.parseHttpContentForNames(content);
     }
     
     /**
-     * Extracts the request body from lines starting after the HTTP method line
+     * Extracts request metadata, including the lines each request block spans, from HTTP file content
+     */
+    static parseHttpContentForNames(content: string): HttpFileRequest[] {
+        return HttpDocumentParser.parse(content).requests.map(request => this.toFileRequest(request));
+    }
+    
+    /**
+     * Returns the name results are reported under: the @name, the ### title or the request line
+     */
+    static getRequestLabel(request: HttpFileRequest): string {
+        return request.name || request.title || `${request.method} ${request.url}`;
+    }
+
+    /**
+     * Converts a request of the document model into the request metadata used by runners and importers
      */
-    private static extractRequestBodyFromLines(lines: string[], methodLineIndex: number): string | undefined {
-        let bodyLines: string[] = [];
-        let foundEmptyLine = false;
-        let inBody = false;
+    static toFileRequest(request: HttpRequestNode): HttpFileRequest {
+        // The snapshot directive is evaluated by the extension, so TeaPie reports no result for it
+        const snapshotDirective = request.directives.find(directive => directive.name === SNAPSHOT_DIRECTIVE);
+        const testDirectiveCount = request.directives.filter(directive => directive.kind === 'test' && directive !== snapshotDirective).length;
         
-        // Start looking after the method line
-        for (let i = methodLineIndex + 1; i < lines.length; i++) {
-            const line = lines[i];
-            
-            // Stop at next request (starts with ### or HTTP method)
-            if (line.trim().startsWith('###') || 
-                line.trim().match(/^(GET|POST|PUT|DELETE|PATCH|OPTIONS|HEAD)\s+/i)) {
-                break;
-            }
-            
-            // Headers section - look for empty line that signals start of body
-            if (!inBody) {
-                if (line.trim() === '') {
-                    foundEmptyLine = true;
-                    continue;
-                }
-                
-                // If we found empty line and now have content, this is the body
-                if (foundEmptyLine && line.trim() !== '') {
-                    inBody = true;
-                    bodyLines.push(line);
-                }
-                continue;
-            }
-            
-            // We're in the body section - collect lines until we hit a comment or new section
-            if (inBody) {
-                if (line.trim().startsWith('//') || line.trim().startsWith('#')) {
-                    // Skip comments but don't stop collecting body
-                    continue;
-                }
-                bodyLines.push(line);
+        return {
+            name: request.name,
+            title: request.title,
+            method: request.requestLine.method,
+            url: request.requestLine.url,
+            templateUrl: request.requestLine.url,
+            requestBody: request.body?.text || undefined,
+            headers: request.headers.map(header => ({ name: header.name, value: header.value })),
+            hasTestDirectives: testDirectiveCount > 0 || snapshotDirective !== undefined,
+            testDirectiveCount,
+            snapshot: snapshotDirective ? { ignorePaths: this.parseSnapshotIgnorePaths(snapshotDirective.value) } : undefined,
+            testDirectives: request.directives
+                .filter(directive => directive.kind === 'test')
+                .map(directive => ({ name: directive.name, value: directive.value, line: directive.range.startLine })),
+            startLine: request.range.startLine,
+            methodLine: request.requestLine.range.startLine,
+            endLine: request.range.endLine
+        };
+    }
+    
+    /**
+     * Reads the ignore paths of the snapshot directive, given as a JSON array or a comma-separated list
+     */
+    private static parseSnapshotIgnorePaths(value: string | undefined): string[] {
+        const trimmed = value?.trim();
+        if (!trimmed) {
+            return [];
+        }
+        try {
+            const parsed = JSON.parse(trimmed);
+            if (Array.isArray(parsed)) {
+                return parsed.map(String);
             }
+        } catch {
+            // Not JSON, fall back to a plain list
         }
-        
-        const body = bodyLines.join('\n').trim();
-        return body || undefined;
+        return trimmed.replace(/^\[|\]$/g, '').split(',').map(path => path.trim().replace(/^["']|["']$/g, '')).filter(Boolean);
     }
 }
@@ -0,0 +1,53 @@
+import { HttpFileRequest } from './HttpRequestTypes';
+import { JsonDiff } from './JsonDiff';
+
+/**
+ * Formats requests parsed or imported into the HttpFileRequest model as .http request blocks
+ */
+export class HttpFileWriter {
+
+    /**
+     * Formats a request block with its name, directives, request line, headers and body
+     * @param directives - Directives without the leading ##, e.g. TEST-EXPECT-STATUS: [200]
+     */
+    static formatRequest(request: HttpFileRequest, directives: string[] = []): string {
+        const lines: string[] = [];
+        if (request.name) {
+            lines.push(`# @name ${request.name}`);
+        }
+        lines.push(...directives.map(directive => `## ${directive}`));
+        lines.push(`${request.method.toUpperCase()} ${request.url}`);
+        lines.push(...(request.headers ?? []).map(header => `${header.name}: ${header.value}`));
+
+        if (request.requestBody) {
+            const json = JsonDiff.tryParse(request.requestBody);
+            lines.push('', json.parsed ? JSON.stringify(json.value, null, 2) : request.requestBody.trim());
+        }
+        return lines.join('\n') + '\n';
+    }
+
+    /**
+     * Builds a request name from the method and the last path segment of the URL, e.g. Get users
+     */
+    static getDefaultName(method: string, url: string): string {
+        let segment = '';
+        try {
+            segment = decodeURIComponent(new URL(url).pathname.split('/').filter(Boolean).pop() ?? '');
+        } catch {
+            // Not an absolute URL or not a valid escape sequence
+        }
+        return `${method.charAt(0).toUpperCase()}${method.slice(1).toLowerCase()} ${segment || 'Root'}`;
+    }
+
+    /**
+     * Returns the name, or the name with the lowest free number when it is already used
+     */
+    static getUniqueName(name: string, usedNames: Iterable<string | undefined>): string {
+        const used = new Set([...usedNames].filter((item): item is string => !!item).map(item => item.toLowerCase()));
+        let unique = name;
+        for (let suffix = 2; used.has(unique.toLowerCase()); suffix++) {
+            unique = `${name}${suffix}`;
+        }
+        return unique;
+    }
+}
@@ -0,0 +1,173 @@
+import { HttpDocumentParser } from './HttpDocumentParser';
+import { HttpRequestNode } from './HttpDocumentTypes';
+import { formatJson, formatXml } from '../utils/bodyFormatUtils';
+
+export interface HttpFormatOptions {
+    /** Indentation of pretty-printed bodies, e.g. four spaces or a tab */
+    indent: string;
+}
+
+/** Lines of a document that a range format replaces, with the end line inclusive */
+export interface HttpFormatResult {
+    startLine: number;
+    endLine: number;
+    text: string;
+}
+
+/** Headers whose usual casing is not simply capitalized words */
+const KNOWN_HEADERS = ['ETag', 'WWW-Authenticate', 'DNT', 'TE', 'X-XSS-Protection', 'X-API-Key', 'X-Request-ID', 'X-Correlation-ID', 'Content-MD5'];
+
+/**
+ * Formats .http files: ### separators, directive spacing, request lines, header casing,
+ * the blank line before bodies and JSON or XML bodies. Requests are found by the HttpDocumentParser.
+ */
+export class HttpFormatter {
+
+    static format(content: string, options: HttpFormatOptions): string {
+        const result = this.formatDocument(content, options);
+        // A body that got its blank line is only recognized, and pretty-printed, when parsed again
+        return this.hasUnseparatedBody(HttpDocumentParser.parse(content).requests) ? this.formatDocument(result, options) : result;
+    }
+
+    /**
+     * Formats the requests that intersect the lines, or returns undefined when the lines are outside all requests
+     */
+    static formatRange(content: string, startLine: number, endLine: number, options: HttpFormatOptions): HttpFormatResult | undefined {
+        const document = HttpDocumentParser.parse(content);
+        const requests = document.requests.filter(request => request.range.startLine <= endLine && request.range.endLine >= startLine);
+        if (!requests.length) {
+            return undefined;
+        }
+
+        const lines = content.split(/\r?\n/);
+        const last = requests[requests.length - 1];
+        let text = this.formatRequests(lines, requests, options).map(block => block.join('\n')).join('\n\n');
+        if (this.hasUnseparatedBody(requests)) {
+            text = this.formatDocument(text, options).trimEnd();
+        }
+        // Blank lines after the last request are left to the next request or the end of the file
+        let lastLine = Math.min(last.range.endLine, lines.length - 1);
+        while (lastLine > last.range.startLine && !lines[lastLine].trim()) {
+            lastLine--;
+        }
+        return { startLine: requests[0].range.startLine, endLine: lastLine, text };
+    }
+
+    private static formatDocument(content: string, options: HttpFormatOptions): string {
+        const document = HttpDocumentParser.parse(content);
+        const lines = content.split(/\r?\n/);
+        const preambleEnd = document.requests.length ? document.requests[0].range.startLine - 1 : lines.length - 1;
+        const preamble = this.collapseBlankLines(lines.slice(0, preambleEnd + 1).map(line => line.trimEnd()));
+
+        const blocks = [preamble, ...this.formatRequests(lines, document.requests, options)].filter(block => block.length);
+        return blocks.map(block => block.join('\n')).join('\n\n') + '\n';
+    }
+
+    private static formatRequests(lines: string[], requests: HttpRequestNode[], options: HttpFormatOptions): string[][] {
+        return requests.map(request => {
+            const block = this.formatRequest(lines, request, options);
+            // Every request but the first of the file needs a separator
+            if (request.index > 0 && !block[0]?.startsWith('###')) {
+                block.unshift('###');
+            }
+            return block;
+        });
+    }
+
+    private static formatRequest(lines: string[], request: HttpRequestNode, options: HttpFormatOptions): string[] {
+        const formatted = new Map<number, string>();
+        const first = lines[request.range.startLine] ?? '';
+        if (first.startsWith('###')) {
+            formatted.set(request.range.startLine, request.title ? `### ${request.title.trim()}` : '###');
+        }
+        for (const meta of request.metaDirectives) {
+            const prefix = (lines[meta.range.startLine] ?? '').trim().match(/^(#|\/\/)?/)![0];
+            formatted.set(meta.range.startLine, [prefix, `@${meta.name}`, meta.value.trim()].filter(part => part).join(' '));
+        }
+        for (const directive of request.directives) {
+            const value = directive.value?.trim();
+            formatted.set(directive.range.startLine, `## ${directive.name}${value ? `: ${value}` : ''}`);
+        }
+        const { method, url, httpVersion, range } = request.requestLine;
+        formatted.set(range.startLine, [method.toUpperCase(), url.trim(), httpVersion].filter(part => part).join(' '));
+        for (const header of request.headers) {
+            formatted.set(header.range.startLine, `${this.formatHeaderName(header.name)}: ${header.value.trim()}`);
+        }
+
+        const output: string[] = [];
+        const body = request.body;
+        const endLine = Math.min(request.range.endLine, lines.length - 1);
+        for (let line = request.range.startLine; line <= endLine; line++) {
+            if (body && line === body.range.startLine) {
+                if (output[output.length - 1] !== '') {
+                    output.push('');
+                }
+                output.push(...this.formatBody(lines, request, options));
+                line = body.range.endLine;
+                continue;
+            }
+
+            const text = formatted.get(line) ?? lines[line].trimEnd();
+            // A body written right below the headers needs a blank line to be sent
+            if (request.invalidLines[0]?.range.startLine === line && this.isBodyStart(request.invalidLines[0].text)) {
+                output.push('');
+            }
+            if (text !== '' || (output.length && output[output.length - 1] !== '')) {
+                output.push(text);
+            }
+        }
+        // Body lines are kept as they are, blank lines in multipart bodies matter
+        while (output[output.length - 1] === '') {
+            output.pop();
+        }
+        return output;
+    }
+
+    private static formatBody(lines: string[], request: HttpRequestNode, options: HttpFormatOptions): string[] {
+        const body = request.body!;
+        const raw = lines.slice(body.range.startLine, body.range.endLine + 1).map(line => line.trimEnd());
+        // Comments and directives between body lines would be lost by pretty-printing
+        if (raw.length !== body.text.split(/\r?\n/).length) {
+            return raw;
+        }
+
+        const text = body.text.trim();
+        const pretty = /^[{[]/.test(text) ? formatJson(text, options.indent)
+            : text.startsWith('<') ? formatXml(text, options.indent)
+            : undefined;
+        return pretty !== undefined ? pretty.split('\n') : raw;
+    }
+
+    /** Whether a body was written right below the headers, without the blank line */
+    private static hasUnseparatedBody(requests: HttpRequestNode[]): boolean {
+        return requests.some(request => request.invalidLines.length > 0 && this.isBodyStart(request.invalidLines[0].text));
+    }
+
+    private static isBodyStart(text: string): boolean {
+        return /^[{[<]/.test(text);
+    }
+
+    private static formatHeaderName(name: string): string {
+        const known = KNOWN_HEADERS.find(header => header.toLowerCase() === name.toLowerCase());
+        if (known) {
+            return known;
+        }
+        // Mixed casing such as X-Api-Version is kept as written
+        if (name !== name.toLowerCase() && name !== name.toUpperCase()) {
+            return name;
+        }
+        return name.toLowerCase().replace(/(^|-)([a-z])/g, (_, dash, letter) => dash + letter.toUpperCase());
+    }
+
+    /** Collapses runs of blank lines into one and removes blank lines at the start and end */
+    private static collapseBlankLines(lines: string[]): string[] {
+        const result = lines.filter((line, index) => line !== '' || (index > 0 && lines[index - 1] !== ''));
+        while (result[0] === '') {
+            result.shift();
+        }
+        while (result[result.length - 1] === '') {
+            result.pop();
+        }
+        return result;
+    }
+}
@@ -20,12 +20,15 @@ export interface HttpRequestGroup {
     Requests: HttpRequestResult[];
     Status: string;
     Duration: string;
+    Cancelled?: boolean;
 }
 
 export interface HttpTestResult {
     Name: string;
     Passed: boolean;
     Message?: string;
+    Skipped?: boolean;
+    Duration?: number;
 }
 
 export interface InternalRequest {
@@ -86,6 +89,32 @@ export interface HttpRequestResult {
     ErrorMessage?: string;
     Tests?: HttpTestResult[];
     RetryInfo?: RetryInfo;
+    Snapshot?: SnapshotResult;
+}
+
+export type ChangeKind = 'added' | 'removed' | 'changed';
+
+export interface JsonChange {
+    /** JSONPath-like location of the change, e.g. $.items[0].id */
+    path: string;
+    kind: ChangeKind;
+    before?: unknown;
+    after?: unknown;
+}
+
+export interface SnapshotResult {
+    /** Snapshot file next to the -req.http file */
+    file: string;
+    /** Key of the request in the snapshot file */
+    key: string;
+    status: 'matched' | 'mismatched' | 'created' | 'noResponse';
+    ignorePaths: string[];
+    /** Stored snapshot, formatted for display */
+    expected?: string;
+    /** Current response body, formatted for display */
+    actual?: string;
+    /** Structural differences, empty when the bodies are not JSON */
+    changes: JsonChange[];
 }
 
 export interface HttpFileRequest {
@@ -95,6 +124,45 @@ export interface HttpFileRequest {
     url: string;
     templateUrl?: string;
     requestBody?: string;
+    /** Headers between the request line and the body, in file order */
+    headers?: { name: string; value: string }[];
     hasTestDirectives?: boolean;
+    /** Number of TEST-* directives TeaPie reports results for, the snapshot directive is not included */
     testDirectiveCount?: number;
+    /** Set when the request has the TEST-MATCH-SNAPSHOT directive */
+    snapshot?: { ignorePaths: string[] };
+    /** TEST-* directives in file order, including the snapshot directive */
+    testDirectives?: { name: string; value?: string; line: number }[];
+    startLine?: number;
+    methodLine?: number;
+    endLine?: number;
+}
+
+/**
+ * A request of an HTTP file that is run on its own
+ */
+export interface SingleRequestSelection {
+    /** Zero-based index of the request in the file */
+    index: number;
+    /** Whether TEST-* directives and the -test.csx script are run as well */
+    includeTests: boolean;
+}
+
+export interface LogStreamEvent {
+    type: 'request' | 'response';
+    index: number;
+    total: number;
+    name: string;
+    method: string;
+    url: string;
+    statusCode?: number;
+    statusText?: string;
+    duration?: string;
+}
+
+export interface LogStreamState {
+    httpFileRequests: HttpFileRequest[];
+    requestCount: number;
+    current?: { method: string; url: string; responded: boolean };
+    retrying: boolean;
 }
@@ -0,0 +1,197 @@
+import * as fs from 'fs/promises';
+import * as xml2js from 'xml2js';
+import {
+    JUnitFailure,
+    JUnitProperty,
+    JUnitReport,
+    JUnitTestCase,
+    JUnitTestSuite
+} from './JUnitReportTypes';
+
+/**
+ * Element as produced by xml2js with explicitArray enabled: attributes under $, text (including CDATA) under _
+ */
+interface XmlElement {
+    $?: { [attribute: string]: string };
+    _?: string;
+    [child: string]: XmlElement[] | { [attribute: string]: string } | string | undefined;
+}
+
+type XmlNode = XmlElement | string;
+
+/**
+ * Parses JUnit XML reports into the typed report model shared by all result views
+ */
+export class JUnitReportParser {
+
+    static async parseFile(reportPath: string): Promise<JUnitReport> {
+        const xmlContent = await fs.readFile(reportPath, 'utf8');
+        return this.parse(xmlContent);
+    }
+
+    static async parse(xmlContent: string): Promise<JUnitReport> {
+        const parser = new xml2js.Parser({
+            explicitArray: true,
+            attrkey: '$',
+            charkey: '_'
+        });
+        const document = await parser.parseStringPromise(xmlContent);
+
+        // Reports may have a <testsuites> root or a single <testsuite> root
+        if (document?.testsuites !== undefined) {
+            const root = this.asElement(document.testsuites);
+            const suites = this.children(root, 'testsuite').map(suite => this.parseSuite(suite));
+            return {
+                name: root.$?.name,
+                ...this.getCounts(root, suites, []),
+                timestamp: root.$?.timestamp,
+                suites
+            };
+        }
+
+        if (document?.testsuite !== undefined) {
+            const suite = this.parseSuite(document.testsuite);
+            return {
+                name: suite.name,
+                tests: suite.tests,
+                failures: suite.failures,
+                errors: suite.errors,
+                skipped: suite.skipped,
+                time: suite.time,
+                timestamp: suite.timestamp,
+                suites: [suite]
+            };
+        }
+
+        throw new Error('Invalid test results format: missing <testsuites> or <testsuite> root element');
+    }
+
+    /**
+     * Returns the suite and all nested suites, depth first
+     */
+    static flattenSuites(suites: JUnitTestSuite[]): JUnitTestSuite[] {
+        return suites.flatMap(suite => [suite, ...this.flattenSuites(suite.suites)]);
+    }
+
+    /**
+     * Returns all test cases of the suite including those of nested suites
+     */
+    static getAllTestCases(suite: JUnitTestSuite): JUnitTestCase[] {
+        return [...suite.testCases, ...suite.suites.flatMap(nested => this.getAllTestCases(nested))];
+    }
+
+    private static parseSuite(node: XmlNode): JUnitTestSuite {
+        const element = this.asElement(node);
+        const testCases = this.children(element, 'testcase').map(testCase => this.parseTestCase(testCase));
+        const suites = this.children(element, 'testsuite').map(suite => this.parseSuite(suite));
+
+        return {
+            name: element.$?.name || '',
+            ...this.getCounts(element, suites, testCases),
+            timestamp: element.$?.timestamp,
+            properties: this.parseProperties(element),
+            testCases,
+            suites,
+            systemOut: this.childText(element, 'system-out'),
+            systemErr: this.childText(element, 'system-err')
+        };
+    }
+
+    private static parseTestCase(node: XmlNode): JUnitTestCase {
+        const element = this.asElement(node);
+        const failure = this.parseFailure(this.children(element, 'failure')[0]);
+        const error = this.parseFailure(this.children(element, 'error')[0]);
+        const skippedNode = this.children(element, 'skipped')[0];
+        const skipped = skippedNode !== undefined ? { message: this.asElement(skippedNode).$?.message } : undefined;
+
+        let status: JUnitTestCase['status'] = 'passed';
+        if (error) {
+            status = 'error';
+        } else if (failure) {
+            status = 'failed';
+        } else if (skipped) {
+            status = 'skipped';
+        }
+
+        return {
+            name: element.$?.name || '',
+            classname: element.$?.classname,
+            time: this.toNumber(element.$?.time),
+            status,
+            failure,
+            error,
+            skipped,
+            properties: this.parseProperties(element),
+            systemOut: this.childText(element, 'system-out'),
+            systemErr: this.childText(element, 'system-err')
+        };
+    }
+
+    private static parseFailure(node: XmlNode | undefined): JUnitFailure | undefined {
+        if (node === undefined) {
+            return undefined;
+        }
+        const element = this.asElement(node);
+        return {
+            message: element.$?.message,
+            type: element.$?.type,
+            details: element._?.trim() || undefined
+        };
+    }
+
+    private static parseProperties(element: XmlElement): JUnitProperty[] {
+        return this.children(element, 'properties')
+            .flatMap(properties => this.children(this.asElement(properties), 'property'))
+            .map(property => {
+                const propertyElement = this.asElement(property);
+                return {
+                    name: propertyElement.$?.name || '',
+                    value: propertyElement.$?.value ?? propertyElement._ ?? ''
+                };
+            });
+    }
+
+    /**
+     * Uses the count attributes when present, otherwise derives them from the parsed children
+     */
+    private static getCounts(element: XmlElement, suites: JUnitTestSuite[], testCases: JUnitTestCase[]) {
+        const attributes = element.$ || {};
+        const countCases = (status: JUnitTestCase['status']) =>
+            testCases.filter(testCase => testCase.status === status).length;
+        const sumSuites = (key: 'tests' | 'failures' | 'errors' | 'skipped' | 'time') =>
+            suites.reduce((sum, suite) => sum + suite[key], 0);
+
+        return {
+            tests: this.toNumber(attributes.tests, testCases.length + sumSuites('tests')),
+            failures: this.toNumber(attributes.failures, countCases('failed') + sumSuites('failures')),
+            errors: this.toNumber(attributes.errors, countCases('error') + sumSuites('errors')),
+            skipped: this.toNumber(attributes.skipped, countCases('skipped') + sumSuites('skipped')),
+            time: this.toNumber(attributes.time, testCases.reduce((sum, testCase) => sum + testCase.time, 0) + sumSuites('time'))
+        };
+    }
+
+    private static children(element: XmlElement, name: string): XmlNode[] {
+        const value = element[name];
+        return Array.isArray(value) ? value : [];
+    }
+
+    private static childText(element: XmlElement, name: string): string | undefined {
+        const texts = this.children(element, name)
+            .map(node => typeof node === 'string' ? node : node._ || '')
+            .filter(text => text.trim());
+        return texts.length ? texts.join('\n') : undefined;
+    }
+
+    private static asElement(node: XmlNode): XmlElement {
+        // Elements without attributes or children are parsed as plain strings
+        return typeof node === 'string' ? { _: node } : node;
+    }
+
+    private static toNumber(value: string | undefined, fallback = 0): number {
+        if (value === undefined || value.trim() === '') {
+            return fallback;
+        }
+        const parsed = Number(value.replace(',', '.'));
+        return isNaN(parsed) ? fallback : parsed;
+    }
+}
@@ -0,0 +1,55 @@
+/**
+ * Type definitions for JUnit XML reports produced by TeaPie
+ */
+
+export type JUnitTestStatus = 'passed' | 'failed' | 'error' | 'skipped';
+
+export interface JUnitProperty {
+    name: string;
+    value: string;
+}
+
+export interface JUnitFailure {
+    message?: string;
+    type?: string;
+    details?: string;
+}
+
+export interface JUnitTestCase {
+    name: string;
+    classname?: string;
+    time: number;
+    status: JUnitTestStatus;
+    failure?: JUnitFailure;
+    error?: JUnitFailure;
+    skipped?: { message?: string };
+    properties: JUnitProperty[];
+    systemOut?: string;
+    systemErr?: string;
+}
+
+export interface JUnitTestSuite {
+    name: string;
+    tests: number;
+    failures: number;
+    errors: number;
+    skipped: number;
+    time: number;
+    timestamp?: string;
+    properties: JUnitProperty[];
+    testCases: JUnitTestCase[];
+    suites: JUnitTestSuite[];
+    systemOut?: string;
+    systemErr?: string;
+}
+
+export interface JUnitReport {
+    name?: string;
+    tests: number;
+    failures: number;
+    errors: number;
+    skipped: number;
+    time: number;
+    timestamp?: string;
+    suites: JUnitTestSuite[];
+}
@@ -0,0 +1,146 @@
+import { JsonChange } from './HttpRequestTypes';
+
+export interface JsonDiffOptions {
+    /**
+     * Paths whose values are not compared, e.g. $.id, $.items[*].createdAt or $..timestamp.
+     * Ignoring a path also ignores everything below it.
+     */
+    ignorePaths?: string[];
+    /** Stops collecting after this many changes */
+    maxChanges?: number;
+}
+
+/**
+ * Structural diff of parsed JSON values with JSONPath-like change locations
+ */
+export class JsonDiff {
+
+    static diff(before: unknown, after: unknown, options: JsonDiffOptions = {}): { changes: JsonChange[]; truncated: boolean } {
+        const ignore = (options.ignorePaths ?? []).map(pattern => this.toPathRegex(pattern));
+        const maxChanges = options.maxChanges ?? Number.POSITIVE_INFINITY;
+        const changes: JsonChange[] = [];
+        this.collect('$', before, after, changes, ignore, maxChanges);
+        return {
+            changes: changes.slice(0, maxChanges),
+            truncated: changes.length > maxChanges
+        };
+    }
+
+    /**
+     * Parses a response body as JSON when it looks like an object or array
+     */
+    static tryParse(body: string | undefined): { parsed: boolean; value?: unknown } {
+        const trimmed = body?.trim();
+        if (!trimmed || !/^[[{]/.test(trimmed)) {
+            return { parsed: false };
+        }
+        try {
+            return { parsed: true, value: JSON.parse(trimmed) };
+        } catch {
+            return { parsed: false };
+        }
+    }
+
+    /**
+     * Lists the paths of a parsed JSON value, e.g. $.user.name, with the first item standing in for each array
+     */
+    static getPaths(value: unknown, maxDepth = 4, path = '$'): string[] {
+        if (maxDepth === 0) {
+            return [];
+        }
+        if (Array.isArray(value)) {
+            const itemPath = `${path}[0]`;
+            return value.length ? [itemPath, ...this.getPaths(value[0], maxDepth - 1, itemPath)] : [];
+        }
+        if (!this.isObject(value)) {
+            return [];
+        }
+        return Object.entries(value).flatMap(([key, child]) => {
+            const keyPath = this.toKeyPath(path, key);
+            return [keyPath, ...this.getPaths(child, maxDepth - 1, keyPath)];
+        });
+    }
+
+    private static collect(
+        path: string,
+        before: unknown,
+        after: unknown,
+        changes: JsonChange[],
+        ignore: RegExp[],
+        maxChanges: number
+    ): void {
+        // Collect one change past the limit so callers know the list was truncated
+        if (changes.length > maxChanges || ignore.some(pattern => pattern.test(path))) {
+            return;
+        }
+        const push = (change: JsonChange) => {
+            if (!ignore.some(pattern => pattern.test(change.path))) {
+                changes.push(change);
+            }
+        };
+
+        if (Array.isArray(before) && Array.isArray(after)) {
+            for (let i = 0; i < Math.max(before.length, after.length); i++) {
+                const itemPath = `${path}[${i}]`;
+                if (i >= before.length) {
+                    push({ path: itemPath, kind: 'added', after: after[i] });
+                } else if (i >= after.length) {
+                    push({ path: itemPath, kind: 'removed', before: before[i] });
+                } else {
+                    this.collect(itemPath, before[i], after[i], changes, ignore, maxChanges);
+                }
+            }
+            return;
+        }
+
+        if (this.isObject(before) && this.isObject(after)) {
+            const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+            for (const key of keys) {
+                const keyPath = this.toKeyPath(path, key);
+                if (!(key in before)) {
+                    push({ path: keyPath, kind: 'added', after: after[key] });
+                } else if (!(key in after)) {
+                    push({ path: keyPath, kind: 'removed', before: before[key] });
+                } else {
+                    this.collect(keyPath, before[key], after[key], changes, ignore, maxChanges);
+                }
+            }
+            return;
+        }
+
+        if (JSON.stringify(before) !== JSON.stringify(after)) {
+            push({ path, kind: 'changed', before, after });
+        }
+    }
+
+    /**
+     * Converts an ignore path with [*], .* and .. wildcards to a regex matching the path and its descendants
+     */
+    private static toPathRegex(pattern: string): RegExp {
+        const normalized = pattern.trim().startsWith('$') ? pattern.trim() : `$.${pattern.trim()}`;
+        const source = normalized
+            .split(/(\.\.|\[\*\]|\.\*)/)
+            .map(part => {
+                switch (part) {
+                    case '..':
+                        return '(?:\\.[^.[]+|\\[[^\\]]+\\])*\\.';
+                    case '[*]':
+                        return '\\[\\d+\\]';
+                    case '.*':
+                        return '\\.[^.[]+';
+                    default:
+                        return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+                }
+            })
+            .join('');
+        return new RegExp(`^${source}(?:$|[.[])`);
+    }
+
+    private static toKeyPath(path: string, key: string): string {
+        return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+    }
+
+    private static isObject(value: unknown): value is { [key: string]: unknown } {
+        return typeof value === 'object' && value !== null && !Array.isArray(value);
+    }
+}
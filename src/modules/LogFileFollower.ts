@@ -0,0 +1,74 @@
+import * as fs from 'fs/promises';
+import { StringDecoder } from 'string_decoder';
+
+/**
+ * Follows a TeaPie log file while it is being written and reports complete new lines
+ */
+export class LogFileFollower {
+    private offset = 0;
+    private remainder = '';
+    private timer: NodeJS.Timeout | undefined;
+    private reading: Promise<void> | undefined;
+    private readonly decoder = new StringDecoder('utf8');
+
+    constructor(
+        private readonly logFilePath: string,
+        private readonly onLines: (lines: string[]) => void,
+        private readonly pollInterval = 200
+    ) { }
+
+    start(): void {
+        if (this.timer) return;
+        this.timer = setInterval(() => this.poll(), this.pollInterval);
+    }
+
+    /**
+     * Stops polling and flushes whatever is left in the file, including an unterminated last line
+     */
+    async stop(): Promise<void> {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+        await this.reading;
+        await this.readNewContent();
+
+        const rest = this.remainder + this.decoder.end();
+        this.remainder = '';
+        if (rest.trim()) {
+            this.onLines([rest]);
+        }
+    }
+
+    private poll(): void {
+        // Skip this tick if the previous read is still in progress
+        if (this.reading) return;
+        this.reading = this.readNewContent().finally(() => {
+            this.reading = undefined;
+        });
+    }
+
+    private async readNewContent(): Promise<void> {
+        let handle: fs.FileHandle | undefined;
+        try {
+            handle = await fs.open(this.logFilePath, 'r');
+            const { size } = await handle.stat();
+            if (size <= this.offset) return;
+
+            const buffer = Buffer.alloc(size - this.offset);
+            const { bytesRead } = await handle.read(buffer, 0, buffer.length, this.offset);
+            this.offset += bytesRead;
+
+            const text = this.remainder + this.decoder.write(buffer.subarray(0, bytesRead));
+            const lines = text.split(/\r?\n/);
+            this.remainder = lines.pop() || '';
+            if (lines.length) {
+                this.onLines(lines);
+            }
+        } catch {
+            // Log file is not created yet - try again on the next tick
+        } finally {
+            await handle?.close();
+        }
+    }
+}
@@ -8,8 +8,11 @@ import {
     HttpRequestResults,
     HttpRequestResult,
     HttpTestResult,
+    LogStreamEvent,
+    LogStreamState,
     RetryInfo
 } from './HttpRequestTypes';
+import { HttpDocumentParser } from './HttpDocumentParser';
 import { HttpFileParser } from './HttpFileParser';
 import { STATUS_PASSED, STATUS_FAILED, ERROR_HTTP_FAILED } from '../constants/httpResults';
 
@@ -24,9 +27,10 @@ export class LogFileParser {
     }
 
     /**
-     * Parses TeaPie log file to extract HTTP request/response data
+     * Parses TeaPie log file to extract HTTP request/response data.
+     * Pending requests without a logged status are assumed successful unless the run was interrupted.
      */
-    static async parseLogFile(logFilePath: string, httpFilePath: string): Promise<CliParseResult> {
+    static async parseLogFile(logFilePath: string, httpFilePath: string, assumePendingCompleted = true): Promise<CliParseResult> {
         try {
             const logContent = await fs.readFile(logFilePath, 'utf8');
             const lines = logContent.split('\n');
@@ -175,7 +179,7 @@ export class LogFileParser {
             // Handle any remaining pending requests
             for (const [key, request] of pendingRequests) {
                 // Only set default status if no response status was captured
-                if (request.responseStatus === undefined) {
+                if (request.responseStatus === undefined && assumePendingCompleted) {
                     LogFileParser.outputChannel?.appendLine(`[LogFileParser] Pending request without status, assuming 200 OK`);
                     request.responseStatus = 200;
                     request.responseStatusText = 'OK';
@@ -210,6 +214,94 @@ export class LogFileParser {
         }
     }
 
+    /**
+     * Creates the state needed to follow a log file that is still being written
+     */
+    static createLogStreamState(httpFileRequests: HttpFileRequest[]): LogStreamState {
+        return {
+            httpFileRequests,
+            requestCount: 0,
+            retrying: false
+        };
+    }
+
+    /**
+     * Processes newly appended log lines and emits request/response events as they happen
+     */
+    static processLogLines(lines: string[], state: LogStreamState, onEvent: (event: LogStreamEvent) => void): void {
+        for (const rawLine of lines) {
+            const line = rawLine.trim();
+            if (!line) continue;
+
+            if (this.isRetryAttemptLine(line)) {
+                state.retrying = true;
+                continue;
+            }
+
+            if (this.isLogRequestStartLine(line)) {
+                const methodMatch = line.match(/(GET|POST|PUT|DELETE|PATCH|HEAD|OPTIONS)\s+(https?:\/\/[^\s]+)/);
+                if (!methodMatch) continue;
+
+                const [, method, url] = methodMatch;
+                const current = state.current;
+                const isSameRequest = current && current.method === method && current.url === url;
+
+                // TeaPie logs several start lines per request, and retries repeat the same request
+                if (isSameRequest && (!current.responded || state.retrying)) {
+                    state.retrying = false;
+                    continue;
+                }
+
+                const maxRequests = state.httpFileRequests.length;
+                if (maxRequests > 0 && state.requestCount >= maxRequests) continue;
+
+                state.current = { method, url, responded: false };
+                state.retrying = false;
+                state.requestCount++;
+                onEvent({
+                    type: 'request',
+                    ...this.getStreamRequestInfo(state, method, url)
+                });
+                continue;
+            }
+
+            if (!state.current) continue;
+
+            // Same response patterns as processLogResponse, limited to the ones carrying a status code
+            const responseMatch = line.match(/HTTP Response (\d{3}) \(([^)]+)\)/) ||
+                line.match(/Received HTTP response headers after ([\d.]+)ms\s*-\s*(\d{3})/) ||
+                line.match(/End processing HTTP request after ([\d.]+)ms\s*-\s*(\d{3})/);
+            if (!responseMatch) continue;
+
+            const isTeaPieResponse = responseMatch[0].startsWith('HTTP Response');
+            const statusCode = parseInt(isTeaPieResponse ? responseMatch[1] : responseMatch[2], 10);
+            const statusText = isTeaPieResponse ? responseMatch[2].trim() : this.getDefaultStatusText(statusCode);
+            const durationMatch = isTeaPieResponse ? line.match(/([\d.]+)ms/) : responseMatch;
+            const duration = durationMatch ? `${Math.round(parseFloat(durationMatch[1]))}ms` : undefined;
+
+            state.current.responded = true;
+            onEvent({
+                type: 'response',
+                ...this.getStreamRequestInfo(state, state.current.method, state.current.url),
+                statusCode,
+                statusText,
+                duration
+            });
+        }
+    }
+
+    private static getStreamRequestInfo(state: LogStreamState, method: string, url: string) {
+        const index = state.requestCount - 1;
+        const httpFileRequest = this.findMatchingHttpFileRequest(method, url, state.httpFileRequests) || state.httpFileRequests[index];
+        return {
+            index,
+            total: Math.max(state.httpFileRequests.length, state.requestCount),
+            name: httpFileRequest?.name || httpFileRequest?.title || `${method} ${url}`,
+            method,
+            url
+        };
+    }
+
     private static isLogRequestStartLine(line: string): boolean {
         // Look for log patterns that indicate HTTP request start
         // These patterns should match what TeaPie logs at Trace level when starting an HTTP request
@@ -1105,47 +1197,28 @@ export class LogFileParser {
      */
     private static parseHttpFileRetryDirectives(httpFileContent: string): { [requestName: string]: Partial<RetryInfo> } {
         const directives: { [requestName: string]: Partial<RetryInfo> } = {};
-        const lines = httpFileContent.split('\n');
-        let currentRequestName = '';
         
-        for (let i = 0; i < lines.length; i++) {
-            const line = lines[i].trim();
-            
-            // Look for request names
-            const nameMatch = line.match(/^#\s*@name\s+(.+)$/);
-            if (nameMatch) {
-                currentRequestName = nameMatch[1].trim();
+        for (const request of HttpDocumentParser.parse(httpFileContent).requests) {
+            const retryDirectives = request.directives.filter(directive => directive.kind === 'retry');
+            if (!request.name || !retryDirectives.length) {
                 continue;
             }
             
-            // Look for retry directives
-            if (currentRequestName && line.startsWith('## RETRY-')) {
-                if (!directives[currentRequestName]) {
-                    directives[currentRequestName] = {};
+            const retryInfo: Partial<RetryInfo> = {};
+            for (const directive of retryDirectives) {
+                const value = directive.value?.trim();
+                if (!value) {
+                    continue;
                 }
-                
-                if (line.startsWith('## RETRY-STRATEGY:')) {
-                    const strategyMatch = line.match(/## RETRY-STRATEGY:\s*(.+)$/);
-                    if (strategyMatch) {
-                        directives[currentRequestName].strategyName = strategyMatch[1].trim();
-                    }
-                } else if (line.startsWith('## RETRY-MAX-ATTEMPTS:')) {
-                    const attemptsMatch = line.match(/## RETRY-MAX-ATTEMPTS:\s*(\d+)/);
-                    if (attemptsMatch) {
-                        directives[currentRequestName].maxAttempts = parseInt(attemptsMatch[1], 10);
-                    }
-                } else if (line.startsWith('## RETRY-BACKOFF-TYPE:')) {
-                    const backoffMatch = line.match(/## RETRY-BACKOFF-TYPE:\s*(.+)$/);
-                    if (backoffMatch) {
-                        directives[currentRequestName].backoffType = backoffMatch[1].trim();
-                    }
+                if (directive.name === 'RETRY-STRATEGY') {
+                    retryInfo.strategyName = value;
+                } else if (directive.name === 'RETRY-MAX-ATTEMPTS' && /^\d+/.test(value)) {
+                    retryInfo.maxAttempts = parseInt(value, 10);
+                } else if (directive.name === 'RETRY-BACKOFF-TYPE') {
+                    retryInfo.backoffType = value;
                 }
             }
-            
-            // Reset on new request section
-            if (line.startsWith('###')) {
-                currentRequestName = '';
-            }
+            directives[request.name] = retryInfo;
         }
         
         return directives;
@@ -0,0 +1,411 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import * as yaml from 'js-yaml';
+
+import {
+    OpenApiDocument,
+    OpenApiGenerationResult,
+    OpenApiOperation,
+    OpenApiParameter,
+    OpenApiPathItem,
+    OpenApiSchema
+} from './OpenApiTypes';
+import { toRequestName, toSafeFileName } from '../utils/namingUtils';
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch'];
+const DEFAULT_TAG = 'Default';
+/** Nesting depth after which example values are no longer expanded */
+const MAX_EXAMPLE_DEPTH = 8;
+
+interface AuthPlacement {
+    header?: string;
+    query?: string;
+    /** Text before the variable, e.g. Bearer */
+    prefix?: string;
+    variable: string;
+}
+
+interface OperationEntry {
+    path: string;
+    method: string;
+    operation: OpenApiOperation;
+    parameters: OpenApiParameter[];
+}
+
+/**
+ * Generates TeaPie test cases from OpenAPI 3 and Swagger 2 documents
+ */
+export class OpenApiGenerator {
+    private static outputChannel: vscode.OutputChannel;
+
+    static setOutputChannel(channel: vscode.OutputChannel) {
+        this.outputChannel = channel;
+    }
+
+    /**
+     * Reads an OpenAPI 3 or Swagger 2 document from a JSON or YAML file
+     */
+    static async loadDocument(filePath: string): Promise<OpenApiDocument> {
+        const content = await fs.readFile(filePath, 'utf8');
+        const document = /\.ya?ml$/i.test(filePath) ? yaml.load(content) : this.parseJsonOrYaml(content);
+
+        const candidate = document as OpenApiDocument | undefined;
+        const version = candidate?.openapi ?? candidate?.swagger;
+        if (!version || !candidate?.paths) {
+            throw new Error(`${path.basename(filePath)} is not an OpenAPI or Swagger document`);
+        }
+        if (!/^(3\.|2\.0)/.test(String(version))) {
+            throw new Error(`OpenAPI version ${version} is not supported`);
+        }
+        return candidate;
+    }
+
+    /**
+     * Returns the folder the test cases of a document are generated into
+     */
+    static getOutputDirectory(document: OpenApiDocument, targetDir: string): string {
+        return path.join(targetDir, toSafeFileName(document.info?.title ?? '') || 'OpenAPI');
+    }
+
+    /**
+     * Writes a directory per tag with a numbered test case per operation
+     */
+    static async generate(document: OpenApiDocument, targetDir: string): Promise<OpenApiGenerationResult> {
+        const result: OpenApiGenerationResult = { files: [], operations: 0, variables: { baseUrl: this.getBaseUrl(document) } };
+        const outputDir = this.getOutputDirectory(document, targetDir);
+
+        const operationsByTag = new Map<string, OperationEntry[]>();
+        for (const entry of this.getOperations(document)) {
+            const tag = entry.operation.tags?.[0] ?? DEFAULT_TAG;
+            operationsByTag.set(tag, [...(operationsByTag.get(tag) ?? []), entry]);
+        }
+
+        for (const [tag, operations] of operationsByTag) {
+            const tagDir = path.join(outputDir, toSafeFileName(tag) || DEFAULT_TAG);
+            await fs.mkdir(tagDir, { recursive: true });
+            const width = String(operations.length).length;
+
+            for (const [index, entry] of operations.entries()) {
+                const title = entry.operation.summary ?? entry.operation.operationId ?? `${entry.method.toUpperCase()} ${entry.path}`;
+                const number = String(index + 1).padStart(width, '0');
+                const requestFile = path.join(tagDir, `${number}. ${toSafeFileName(title) || entry.method.toUpperCase()}-req.http`);
+
+                await fs.writeFile(requestFile, this.buildRequest(document, entry, result.variables), 'utf8');
+                result.files.push(requestFile);
+                result.operations++;
+            }
+        }
+
+        this.outputChannel?.appendLine(`[OpenApiGenerator] Generated ${result.operations} test case(s) in ${outputDir}`);
+        return result;
+    }
+
+    private static parseJsonOrYaml(content: string): unknown {
+        try {
+            return JSON.parse(content);
+        } catch {
+            // JSON is a subset of YAML, so YAML also reports errors of malformed JSON
+            return yaml.load(content);
+        }
+    }
+
+    private static getOperations(document: OpenApiDocument): OperationEntry[] {
+        const operations: OperationEntry[] = [];
+        for (const [operationPath, pathItem] of Object.entries(document.paths ?? {})) {
+            for (const method of HTTP_METHODS) {
+                const operation = pathItem[method] as OpenApiOperation | undefined;
+                if (!operation || Array.isArray(operation)) {
+                    continue;
+                }
+                operations.push({ path: operationPath, method, operation, parameters: this.getParameters(document, pathItem, operation) });
+            }
+        }
+        return operations;
+    }
+
+    /**
+     * Combines path-level and operation-level parameters, the operation overriding parameters of the same name
+     */
+    private static getParameters(document: OpenApiDocument, pathItem: OpenApiPathItem, operation: OpenApiOperation): OpenApiParameter[] {
+        const parameters = new Map<string, OpenApiParameter>();
+        for (const parameter of [...(pathItem.parameters ?? []), ...(operation.parameters ?? [])]) {
+            const resolved = this.resolve<OpenApiParameter>(document, parameter);
+            if (resolved?.name) {
+                parameters.set(`${resolved.in}:${resolved.name}`, resolved);
+            }
+        }
+        return [...parameters.values()];
+    }
+
+    private static buildRequest(document: OpenApiDocument, entry: OperationEntry, variables: OpenApiGenerationResult['variables']): string {
+        const { operation, parameters } = entry;
+        const addVariable = (name: string, value: unknown) => {
+            const variable = name.replace(/[^\w.-]/g, '_');
+            if (!(variable in variables)) {
+                variables[variable] = typeof value === 'number' || typeof value === 'boolean'
+                    ? value
+                    : value === undefined || value === null ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+            }
+            return `{{${variable}}}`;
+        };
+
+        const url = `{{baseUrl}}${entry.path.replace(/\{([^}]+)\}/g, (_, name: string) => {
+            const parameter = parameters.find(item => item.in === 'path' && item.name === name);
+            return addVariable(name, parameter ? this.getParameterExample(document, parameter) : undefined);
+        })}`;
+
+        const query: string[] = [];
+        const headers: string[] = [];
+        for (const parameter of parameters.filter(item => item.required)) {
+            if (parameter.in === 'query') {
+                query.push(`${parameter.name}=${addVariable(parameter.name, this.getParameterExample(document, parameter))}`);
+            } else if (parameter.in === 'header') {
+                headers.push(`${parameter.name}: ${addVariable(parameter.name, this.getParameterExample(document, parameter))}`);
+            }
+        }
+
+        for (const auth of this.getAuth(document, operation)) {
+            if (auth.query) {
+                query.push(`${auth.query}=${addVariable(auth.variable, '')}`);
+            } else if (auth.header) {
+                headers.push(`${auth.header}: ${auth.prefix ?? ''}${addVariable(auth.variable, '')}`);
+            }
+        }
+
+        const body = this.getBody(document, operation, parameters);
+        if (body) {
+            headers.push(`Content-Type: ${body.contentType}`);
+        }
+
+        const lines = [`# @name ${toRequestName(operation.operationId ?? operation.summary ?? `${entry.method} ${entry.path}`)}`];
+        const statuses = this.getExpectedStatuses(operation);
+        if (statuses.length) {
+            lines.push(`## TEST-EXPECT-STATUS: [${statuses.join(', ')}]`);
+        }
+        lines.push(`${entry.method.toUpperCase()} ${url}${query.length ? `?${query.join('&')}` : ''}`, ...headers);
+        if (body) {
+            lines.push('', body.text);
+        }
+        return lines.join('\n') + '\n';
+    }
+
+    /**
+     * Documented success codes, or all documented non-error codes when no 2xx code is documented
+     */
+    private static getExpectedStatuses(operation: OpenApiOperation): number[] {
+        const codes = Object.keys(operation.responses ?? {})
+            .filter(code => /^\d{3}$/.test(code))
+            .map(Number);
+        const success = codes.filter(code => code >= 200 && code < 300);
+        return success.length ? success : codes.filter(code => code < 400);
+    }
+
+    private static getBaseUrl(document: OpenApiDocument): string {
+        if (document.swagger) {
+            const scheme = document.schemes?.[0] ?? 'https';
+            return document.host ? `${scheme}://${document.host}${document.basePath ?? ''}` : document.basePath ?? '';
+        }
+        const server = document.servers?.[0];
+        if (!server) {
+            return '';
+        }
+        return server.url
+            .replace(/\{([^}]+)\}/g, (match, name: string) => server.variables?.[name]?.default ?? match)
+            .replace(/\/$/, '');
+    }
+
+    private static getAuth(document: OpenApiDocument, operation: OpenApiOperation): AuthPlacement[] {
+        const requirement = (operation.security ?? document.security)?.[0];
+        const schemes = document.components?.securitySchemes ?? document.securityDefinitions ?? {};
+        return Object.keys(requirement ?? {}).flatMap((name): AuthPlacement[] => {
+            const scheme = schemes[name];
+            switch (scheme?.type) {
+                case 'http':
+                    return scheme.scheme?.toLowerCase() === 'basic'
+                        ? [{ header: 'Authorization', prefix: 'Basic ', variable: 'basicAuth' }]
+                        : [{ header: 'Authorization', prefix: 'Bearer ', variable: 'accessToken' }];
+                case 'basic':
+                    return [{ header: 'Authorization', prefix: 'Basic ', variable: 'basicAuth' }];
+                case 'oauth2':
+                case 'openIdConnect':
+                    return [{ header: 'Authorization', prefix: 'Bearer ', variable: 'accessToken' }];
+                case 'apiKey':
+                    if (!scheme.name) {
+                        return [];
+                    }
+                    return scheme.in === 'query'
+                        ? [{ query: scheme.name, variable: 'apiKey' }]
+                        : scheme.in === 'header' ? [{ header: scheme.name, variable: 'apiKey' }] : [];
+                default:
+                    return [];
+            }
+        });
+    }
+
+    private static getBody(document: OpenApiDocument, operation: OpenApiOperation, parameters: OpenApiParameter[]): { contentType: string; text: string } | undefined {
+        // Swagger 2 describes bodies as parameters
+        const bodyParameter = parameters.find(parameter => parameter.in === 'body');
+        if (bodyParameter?.schema) {
+            const contentType = (operation.consumes ?? document.consumes)?.find(type => type.includes('json')) ?? 'application/json';
+            return { contentType, text: JSON.stringify(this.getSchemaExample(document, bodyParameter.schema), null, 2) };
+        }
+        const formParameters = parameters.filter(parameter => parameter.in === 'formData');
+        if (formParameters.length) {
+            return {
+                contentType: 'application/x-www-form-urlencoded',
+                text: formParameters.map(parameter => `${parameter.name}=${this.getParameterExample(document, parameter) ?? ''}`).join('&')
+            };
+        }
+
+        const requestBody = this.resolve(document, operation.requestBody);
+        const content = requestBody?.content;
+        if (!content) {
+            return undefined;
+        }
+        const contentType = Object.keys(content).find(type => /json/i.test(type)) ?? Object.keys(content)[0];
+        if (!contentType) {
+            return undefined;
+        }
+
+        const mediaType = content[contentType];
+        let example: unknown = mediaType.example;
+        if (example === undefined && mediaType.examples) {
+            const first = Object.values(mediaType.examples)[0];
+            example = this.resolve(document, first)?.value;
+        }
+        if (example === undefined && mediaType.schema) {
+            example = this.getSchemaExample(document, mediaType.schema);
+        }
+        if (example === undefined) {
+            return undefined;
+        }
+
+        if (/x-www-form-urlencoded/i.test(contentType) && typeof example === 'object' && example !== null) {
+            return {
+                contentType,
+                text: Object.entries(example).map(([key, value]) => `${key}=${typeof value === 'object' ? JSON.stringify(value) : value}`).join('&')
+            };
+        }
+        return { contentType, text: typeof example === 'string' && !/json/i.test(contentType) ? example : JSON.stringify(example, null, 2) };
+    }
+
+    private static getParameterExample(document: OpenApiDocument, parameter: OpenApiParameter): unknown {
+        if (parameter.example !== undefined) {
+            return parameter.example;
+        }
+        if (parameter.schema) {
+            return this.getSchemaExample(document, parameter.schema);
+        }
+        return this.getSchemaExample(document, { type: parameter.type, format: parameter.format, enum: parameter.enum, default: parameter.default });
+    }
+
+    /**
+     * Builds an example value from a schema, preferring documented examples, defaults and enum values
+     */
+    private static getSchemaExample(document: OpenApiDocument, schema: OpenApiSchema | undefined, depth = 0, refs: string[] = []): unknown {
+        if (!schema) {
+            return undefined;
+        }
+        if (schema.$ref) {
+            // Recursive schemas end with an empty value
+            if (refs.includes(schema.$ref)) {
+                return undefined;
+            }
+            return this.getSchemaExample(document, this.resolve(document, schema), depth, [...refs, schema.$ref]);
+        }
+        if (schema.example !== undefined) {
+            return schema.example;
+        }
+        if (schema.examples?.length) {
+            return schema.examples[0];
+        }
+        if (schema.default !== undefined) {
+            return schema.default;
+        }
+        if (schema.enum?.length) {
+            return schema.enum[0];
+        }
+        if (depth > MAX_EXAMPLE_DEPTH) {
+            return undefined;
+        }
+
+        if (schema.allOf?.length) {
+            const parts = schema.allOf.map(part => this.getSchemaExample(document, part, depth + 1, refs));
+            return parts.every(part => typeof part === 'object' && part !== null && !Array.isArray(part))
+                ? Object.assign({}, ...parts)
+                : parts.find(part => part !== undefined);
+        }
+        const alternative = schema.oneOf?.[0] ?? schema.anyOf?.[0];
+        if (alternative) {
+            return this.getSchemaExample(document, alternative, depth + 1, refs);
+        }
+
+        const type = Array.isArray(schema.type) ? schema.type.find(item => item !== 'null') : schema.type;
+        switch (type ?? (schema.properties ? 'object' : schema.items ? 'array' : undefined)) {
+            case 'object': {
+                const example: { [name: string]: unknown } = {};
+                for (const [name, property] of Object.entries(schema.properties ?? {})) {
+                    if (this.resolve(document, property)?.readOnly) {
+                        continue;
+                    }
+                    const value = this.getSchemaExample(document, property, depth + 1, refs);
+                    if (value !== undefined) {
+                        example[name] = value;
+                    }
+                }
+                return example;
+            }
+            case 'array': {
+                const item = this.getSchemaExample(document, schema.items, depth + 1, refs);
+                return item === undefined ? [] : [item];
+            }
+            case 'integer':
+            case 'number':
+                return schema.minimum ?? 0;
+            case 'boolean':
+                return true;
+            case 'string':
+                return this.getStringExample(schema.format);
+            default:
+                return undefined;
+        }
+    }
+
+    private static getStringExample(format: string | undefined): string {
+        switch (format) {
+            case 'date-time':
+                return '2024-01-01T00:00:00Z';
+            case 'date':
+                return '2024-01-01';
+            case 'uuid':
+                return '00000000-0000-0000-0000-000000000000';
+            case 'email':
+                return 'user@example.com';
+            case 'uri':
+            case 'url':
+                return 'https://example.com';
+            default:
+                return 'string';
+        }
+    }
+
+    /**
+     * Follows a local $ref such as #/components/schemas/Pet, external references are not supported
+     */
+    private static resolve<T extends { $ref?: string }>(document: OpenApiDocument, value: T | undefined): T | undefined {
+        let current = value;
+        const visited = new Set<string>();
+        while (current?.$ref) {
+            const ref = current.$ref;
+            if (!ref.startsWith('#/') || visited.has(ref)) {
+                return undefined;
+            }
+            visited.add(ref);
+            current = ref.slice(2).split('/')
+                .map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+                .reduce<unknown>((node, segment) => (node as { [key: string]: unknown } | undefined)?.[segment], document) as T | undefined;
+        }
+        return current;
+    }
+}
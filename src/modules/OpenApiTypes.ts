@@ -0,0 +1,110 @@
+/**
+ * Type definitions for the parts of OpenAPI 3 and Swagger 2 documents used to generate test cases
+ */
+
+export interface OpenApiSchema {
+    $ref?: string;
+    type?: string | string[];
+    format?: string;
+    properties?: { [name: string]: OpenApiSchema };
+    required?: string[];
+    items?: OpenApiSchema;
+    additionalProperties?: boolean | OpenApiSchema;
+    allOf?: OpenApiSchema[];
+    oneOf?: OpenApiSchema[];
+    anyOf?: OpenApiSchema[];
+    enum?: unknown[];
+    example?: unknown;
+    examples?: unknown[];
+    default?: unknown;
+    minimum?: number;
+    nullable?: boolean;
+    readOnly?: boolean;
+}
+
+export interface OpenApiExample {
+    $ref?: string;
+    value?: unknown;
+}
+
+export interface OpenApiMediaType {
+    schema?: OpenApiSchema;
+    example?: unknown;
+    examples?: { [name: string]: OpenApiExample };
+}
+
+export interface OpenApiParameter {
+    $ref?: string;
+    name: string;
+    in: 'path' | 'query' | 'header' | 'cookie' | 'body' | 'formData';
+    required?: boolean;
+    /** OpenAPI 3 and Swagger 2 body parameters */
+    schema?: OpenApiSchema;
+    /** Swagger 2 non-body parameters */
+    type?: string;
+    format?: string;
+    example?: unknown;
+    default?: unknown;
+    enum?: unknown[];
+}
+
+export interface OpenApiRequestBody {
+    $ref?: string;
+    required?: boolean;
+    content?: { [mediaType: string]: OpenApiMediaType };
+}
+
+export interface OpenApiOperation {
+    operationId?: string;
+    summary?: string;
+    tags?: string[];
+    parameters?: OpenApiParameter[];
+    requestBody?: OpenApiRequestBody;
+    responses?: { [status: string]: unknown };
+    security?: { [scheme: string]: string[] }[];
+    /** Swagger 2 */
+    consumes?: string[];
+}
+
+export interface OpenApiSecurityScheme {
+    type: string;
+    scheme?: string;
+    name?: string;
+    in?: string;
+}
+
+export type OpenApiPathItem = { parameters?: OpenApiParameter[] } & { [method: string]: OpenApiOperation | OpenApiParameter[] | undefined };
+
+export interface OpenApiDocument {
+    /** Set by OpenAPI 3 documents */
+    openapi?: string;
+    /** Set by Swagger 2 documents */
+    swagger?: string;
+    info: { title: string; version?: string };
+    servers?: { url: string; variables?: { [name: string]: { default: string } } }[];
+    host?: string;
+    basePath?: string;
+    schemes?: string[];
+    consumes?: string[];
+    paths: { [path: string]: OpenApiPathItem };
+    security?: { [scheme: string]: string[] }[];
+    components?: {
+        schemas?: { [name: string]: OpenApiSchema };
+        parameters?: { [name: string]: OpenApiParameter };
+        requestBodies?: { [name: string]: OpenApiRequestBody };
+        examples?: { [name: string]: OpenApiExample };
+        securitySchemes?: { [name: string]: OpenApiSecurityScheme };
+    };
+    /** Swagger 2 */
+    definitions?: { [name: string]: OpenApiSchema };
+    parameters?: { [name: string]: OpenApiParameter };
+    securityDefinitions?: { [name: string]: OpenApiSecurityScheme };
+}
+
+export interface OpenApiGenerationResult {
+    /** Written -req.http files */
+    files: string[];
+    operations: number;
+    /** Variables used by the generated requests with their example values */
+    variables: { [name: string]: string | number | boolean };
+}
@@ -0,0 +1,411 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+import {
+    PostmanAuth,
+    PostmanBody,
+    PostmanCollection,
+    PostmanEnvironment,
+    PostmanHeader,
+    PostmanImportResult,
+    PostmanItem,
+    PostmanRequest,
+    PostmanUrl,
+    PostmanVariable
+} from './PostmanTypes';
+import { EnvironmentValue } from './EnvironmentFileWriter';
+import { toRequestName, toSafeFileName } from '../utils/namingUtils';
+
+const MULTIPART_BOUNDARY = 'TeaPieFormBoundary';
+
+/** Status code assertions that have a direct tp.Test translation */
+const STATUS_CHECKS: { pattern: RegExp; translate: (match: RegExpMatchArray) => string }[] = [
+    {
+        pattern: /pm\.response\.to\.have\.status\(\s*(\d{3})\s*\)\s*;?/g,
+        translate: match => `Equal(${match[1]}, tp.Response.StatusCode());`
+    },
+    {
+        pattern: /pm\.expect\(\s*pm\.response\.(?:code|status)\s*\)\.to\.(?:be\.)?(?:eql|equal|eq|equals)\(\s*(\d{3})\s*\)\s*;?/g,
+        translate: match => `Equal(${match[1]}, tp.Response.StatusCode());`
+    },
+    {
+        pattern: /pm\.expect\(\s*pm\.response\.code\s*\)\.to\.be\.oneOf\(\s*\[([\d\s,]+)\]\s*\)\s*;?/g,
+        translate: match => `Contains(tp.Response.StatusCode(), new[] { ${match[1].split(',').map(code => code.trim()).filter(Boolean).join(', ')} });`
+    },
+    {
+        pattern: /pm\.expect\(\s*pm\.response\.code\s*\)\.to\.be\.(below|above)\(\s*(\d{3})\s*\)\s*;?/g,
+        translate: match => `True(tp.Response.StatusCode() ${match[1] === 'below' ? '<' : '>'} ${match[2]});`
+    },
+    {
+        pattern: /pm\.response\.to\.be\.ok\s*;?/g,
+        translate: () => 'Equal(200, tp.Response.StatusCode());'
+    },
+    {
+        pattern: /pm\.response\.to\.be\.success\s*;?/g,
+        translate: () => 'True(tp.Response.StatusCode() >= 200 && tp.Response.StatusCode() < 300);'
+    }
+];
+
+interface TranslatedTests {
+    tests: { name: string; assertions: string[] }[];
+    /** Script fragments without a translation, kept as comments */
+    untranslated: string[];
+}
+
+/**
+ * Converts Postman Collection v2.1 exports and environments into TeaPie test cases and env.json entries
+ */
+export class PostmanImporter {
+    private static outputChannel: vscode.OutputChannel;
+
+    static setOutputChannel(channel: vscode.OutputChannel) {
+        this.outputChannel = channel;
+    }
+
+    static isCollection(content: unknown): content is PostmanCollection {
+        const collection = content as PostmanCollection;
+        return typeof collection?.info?.schema === 'string'
+            && collection.info.schema.includes('/collection/')
+            && Array.isArray(collection.item);
+    }
+
+    static isEnvironment(content: unknown): content is PostmanEnvironment {
+        const environment = content as PostmanEnvironment;
+        return typeof environment?.name === 'string' && Array.isArray(environment.values);
+    }
+
+    /**
+     * Returns the folder a collection is imported into
+     */
+    static getCollectionDirectory(collection: PostmanCollection, targetDir: string): string {
+        return path.join(targetDir, toSafeFileName(collection.info.name) || 'Postman Collection');
+    }
+
+    /**
+     * Writes one test case per request, mirroring the collection's folder hierarchy.
+     * Files are numbered so TeaPie runs them in the collection's order.
+     */
+    static async importCollection(collection: PostmanCollection, targetDir: string): Promise<PostmanImportResult> {
+        if (!collection.info.schema.includes('v2.1')) {
+            throw new Error(`Only Postman Collection v2.1 is supported, ${collection.info.name} uses ${collection.info.schema}`);
+        }
+
+        const result: PostmanImportResult = { files: [], requests: 0, translatedTests: 0, untranslatedTests: 0, warnings: [] };
+        await this.importItems(collection.item, this.getCollectionDirectory(collection, targetDir), collection.auth, result);
+
+        if (collection.event?.some(event => this.getScript(event.script?.exec).trim())) {
+            result.warnings.push('Collection-level scripts were not imported');
+        }
+        this.outputChannel?.appendLine(`[PostmanImporter] Imported ${result.requests} request(s) from ${collection.info.name}`);
+        return result;
+    }
+
+    /**
+     * Converts Postman variables to env.json values, leaving out disabled ones
+     */
+    static toEnvironmentVariables(variables: PostmanVariable[]): { [key: string]: EnvironmentValue } {
+        const result: { [key: string]: EnvironmentValue } = {};
+        for (const variable of variables) {
+            if (variable.disabled || !variable.key) {
+                continue;
+            }
+            const value = variable.value;
+            result[variable.key] = typeof value === 'boolean' || typeof value === 'number'
+                ? value
+                : value === undefined || value === null ? '' : String(value);
+        }
+        return result;
+    }
+
+    private static async importItems(items: PostmanItem[], directory: string, inheritedAuth: PostmanAuth | undefined, result: PostmanImportResult): Promise<void> {
+        await fs.mkdir(directory, { recursive: true });
+        const width = String(items.length).length;
+
+        for (const [index, item] of items.entries()) {
+            // The number also keeps items with the same name apart
+            const number = String(index + 1).padStart(width, '0');
+            const fileName = `${number}. ${toSafeFileName(item.name ?? '') || (item.item ? 'Folder' : 'Request')}`;
+
+            // An empty folder has an empty item list, a request has a request
+            if (item.item || !item.request) {
+                await this.importItems(item.item ?? [], path.join(directory, fileName), item.auth ?? inheritedAuth, result);
+                if (item.event?.some(event => this.getScript(event.script?.exec).trim())) {
+                    result.warnings.push(`Scripts of folder "${item.name}" were not imported`);
+                }
+                continue;
+            }
+
+            await this.importRequest(item, path.join(directory, fileName), inheritedAuth, result);
+        }
+    }
+
+    private static async importRequest(item: PostmanItem, basePath: string, inheritedAuth: PostmanAuth | undefined, result: PostmanImportResult): Promise<void> {
+        const request: PostmanRequest = typeof item.request === 'string' ? { method: 'GET', url: item.request } : item.request ?? {};
+        const displayName = item.name ?? path.basename(basePath);
+
+        const requestFile = `${basePath}-req.http`;
+        await fs.writeFile(requestFile, this.buildHttpRequest(displayName, request, request.auth ?? inheritedAuth, result), 'utf8');
+        result.files.push(requestFile);
+        result.requests++;
+
+        const testScript = item.event
+            ?.filter(event => event.listen === 'test')
+            .map(event => this.getScript(event.script?.exec))
+            .join('\n') ?? '';
+        if (testScript.trim()) {
+            const testFile = `${basePath}-test.csx`;
+            await fs.writeFile(testFile, this.buildTestScript(displayName, testScript, result), 'utf8');
+            result.files.push(testFile);
+        }
+
+        if (item.event?.some(event => event.listen === 'prerequest' && this.getScript(event.script?.exec).trim())) {
+            result.warnings.push(`Pre-request script of "${displayName}" was not imported`);
+        }
+    }
+
+    private static buildHttpRequest(name: string, request: PostmanRequest, auth: PostmanAuth | undefined, result: PostmanImportResult): string {
+        const headers: PostmanHeader[] = (request.header ?? []).filter(header => !header.disabled);
+        let url = this.buildUrl(request.url);
+        const hasHeader = (key: string) => headers.some(header => header.key.toLowerCase() === key.toLowerCase());
+
+        const authHeader = this.buildAuth(name, auth, result);
+        if (authHeader?.header && !hasHeader(authHeader.header.key)) {
+            headers.push(authHeader.header);
+        }
+        if (authHeader?.query) {
+            url += `${url.includes('?') ? '&' : '?'}${authHeader.query}`;
+        }
+
+        const body = this.buildBody(name, request.body, result);
+        if (body?.contentType && !hasHeader('Content-Type')) {
+            headers.push({ key: 'Content-Type', value: body.contentType });
+        }
+
+        if (/\{\{\$/.test(url + JSON.stringify(headers) + (body?.text ?? ''))) {
+            result.warnings.push(`"${name}" uses Postman dynamic variables such as {{$guid}}, which may need to be replaced`);
+        }
+
+        const lines = [
+            `# @name ${toRequestName(name)}`,
+            `${(request.method ?? 'GET').toUpperCase()} ${url}`,
+            ...headers.map(header => `${header.key}: ${header.value}`)
+        ];
+        if (body?.text) {
+            lines.push('', body.text);
+        }
+        return lines.join('\n') + '\n';
+    }
+
+    private static buildUrl(url: string | PostmanUrl | undefined): string {
+        if (!url) {
+            return '';
+        }
+        if (typeof url === 'string') {
+            return url;
+        }
+        if (url.raw) {
+            return url.raw;
+        }
+
+        const host = Array.isArray(url.host) ? url.host.join('.') : url.host ?? '';
+        const urlPath = Array.isArray(url.path) ? url.path.join('/') : url.path ?? '';
+        const query = (url.query ?? [])
+            .filter(param => !param.disabled && param.key)
+            .map(param => param.value === undefined || param.value === null ? param.key : `${param.key}=${param.value}`)
+            .join('&');
+        return `${url.protocol ? `${url.protocol}://` : ''}${host}${url.port ? `:${url.port}` : ''}${urlPath ? `/${urlPath}` : ''}${query ? `?${query}` : ''}`;
+    }
+
+    private static buildAuth(name: string, auth: PostmanAuth | undefined, result: PostmanImportResult): { header?: PostmanHeader; query?: string } | undefined {
+        if (!auth || auth.type === 'noauth') {
+            return undefined;
+        }
+        const attribute = (key: string) => {
+            const attributes = auth[auth.type];
+            const value = Array.isArray(attributes) ? attributes.find(item => item.key === key)?.value : undefined;
+            return value === undefined || value === null ? '' : String(value);
+        };
+
+        switch (auth.type) {
+            case 'bearer':
+                return { header: { key: 'Authorization', value: `Bearer ${attribute('token')}` } };
+            case 'basic': {
+                const credentials = `${attribute('username')}:${attribute('password')}`;
+                if (credentials.includes('{{')) {
+                    result.warnings.push(`Basic auth of "${name}" uses variables and has to be encoded manually`);
+                    return { header: { key: 'Authorization', value: `Basic ${credentials}` } };
+                }
+                return { header: { key: 'Authorization', value: `Basic ${Buffer.from(credentials).toString('base64')}` } };
+            }
+            case 'apikey':
+                return attribute('in') === 'query'
+                    ? { query: `${attribute('key')}=${attribute('value')}` }
+                    : { header: { key: attribute('key'), value: attribute('value') } };
+            default:
+                result.warnings.push(`${auth.type} auth of "${name}" was not imported, consider an AUTH-PROVIDER directive`);
+                return undefined;
+        }
+    }
+
+    private static buildBody(name: string, body: PostmanBody | undefined, result: PostmanImportResult): { text: string; contentType?: string } | undefined {
+        if (!body || body.disabled) {
+            return undefined;
+        }
+
+        switch (body.mode) {
+            case 'raw': {
+                const language = body.options?.raw?.language;
+                const contentType = language === 'json' ? 'application/json'
+                    : language === 'xml' ? 'application/xml'
+                    : undefined;
+                return body.raw ? { text: body.raw, contentType } : undefined;
+            }
+            case 'urlencoded': {
+                const params = (body.urlencoded ?? []).filter(param => !param.disabled);
+                return params.length
+                    ? { text: params.map(param => `${param.key}=${param.value ?? ''}`).join('&'), contentType: 'application/x-www-form-urlencoded' }
+                    : undefined;
+            }
+            case 'formdata': {
+                const params = (body.formdata ?? []).filter(param => !param.disabled);
+                if (params.some(param => param.type === 'file')) {
+                    result.warnings.push(`File fields of "${name}" were not imported`);
+                }
+                const parts = params
+                    .filter(param => param.type !== 'file')
+                    .map(param => `--${MULTIPART_BOUNDARY}\nContent-Disposition: form-data; name="${param.key}"\n\n${param.value ?? ''}`);
+                return parts.length
+                    ? { text: [...parts, `--${MULTIPART_BOUNDARY}--`].join('\n'), contentType: `multipart/form-data; boundary=${MULTIPART_BOUNDARY}` }
+                    : undefined;
+            }
+            case 'graphql': {
+                let variables: unknown = undefined;
+                try {
+                    variables = body.graphql?.variables ? JSON.parse(body.graphql.variables) : undefined;
+                } catch {
+                    result.warnings.push(`GraphQL variables of "${name}" are not valid JSON and were not imported`);
+                }
+                return {
+                    text: JSON.stringify({ query: body.graphql?.query ?? '', variables }, null, 2),
+                    contentType: 'application/json'
+                };
+            }
+            case 'file':
+                result.warnings.push(`File body of "${name}" was not imported`);
+                return undefined;
+            default:
+                return undefined;
+        }
+    }
+
+    private static buildTestScript(name: string, script: string, result: PostmanImportResult): string {
+        const { tests, untranslated } = this.translateTests(script);
+        result.translatedTests += tests.length;
+        result.untranslatedTests += untranslated.filter(fragment => /pm\.test\s*\(/.test(fragment)).length;
+
+        const lines = [`// Imported from Postman request "${name}"`];
+        for (const test of tests) {
+            lines.push(
+                '',
+                `tp.Test(${JSON.stringify(test.name)}, () =>`,
+                '{',
+                ...test.assertions.map(assertion => `    ${assertion}`),
+                '});'
+            );
+        }
+        if (untranslated.length) {
+            lines.push('', '// TODO: The following Postman script has no TeaPie translation yet');
+            untranslated.forEach(fragment => lines.push(...fragment.split(/\r?\n/).map(line => `// ${line}`)));
+        }
+        return lines.join('\n') + '\n';
+    }
+
+    /**
+     * Translates pm.test blocks that only check the status code, everything else is returned as is
+     */
+    private static translateTests(script: string): TranslatedTests {
+        const translated: TranslatedTests = { tests: [], untranslated: [] };
+        const testStart = /pm\.test\s*\(\s*(["'`])((?:\\.|(?!\1).)*)\1\s*,/g;
+        let position = 0;
+        let match: RegExpExecArray | null;
+
+        while ((match = testStart.exec(script)) !== null) {
+            const end = this.findClosingParenthesis(script, match.index + match[0].indexOf('('));
+            if (end < 0) {
+                break;
+            }
+            const leading = script.slice(position, match.index).trim();
+            if (leading) {
+                translated.untranslated.push(leading);
+            }
+
+            const statementEnd = script[end + 1] === ';' ? end + 2 : end + 1;
+            const assertions = this.translateAssertions(script.slice(match.index + match[0].length, end));
+            if (assertions) {
+                translated.tests.push({ name: match[2].replace(/\\(["'`])/g, '$1'), assertions });
+            } else {
+                translated.untranslated.push(script.slice(match.index, statementEnd));
+            }
+            position = statementEnd;
+            testStart.lastIndex = position;
+        }
+
+        const trailing = script.slice(position).trim();
+        if (trailing) {
+            translated.untranslated.push(trailing);
+        }
+        return translated;
+    }
+
+    /**
+     * Translates the body of a pm.test callback, or returns undefined when it does more than check the status
+     */
+    private static translateAssertions(callback: string): string[] | undefined {
+        const body = callback
+            .replace(/^\s*(?:function\s*\([^)]*\)|\([^)]*\)\s*=>)\s*\{/, '')
+            .replace(/\}\s*$/, '');
+
+        const found: { index: number; assertion: string }[] = [];
+        let remaining = body;
+        for (const check of STATUS_CHECKS) {
+            for (const match of body.matchAll(check.pattern)) {
+                found.push({ index: match.index ?? 0, assertion: check.translate(match) });
+            }
+            remaining = remaining.replace(check.pattern, '');
+        }
+
+        // Anything left besides comments means the test checks more than the status code
+        const leftover = remaining.replace(/\/\/.*$/gm, '').replace(/\/\*[\s\S]*?\*\//g, '').trim();
+        if (!found.length || leftover) {
+            return undefined;
+        }
+        return found.sort((a, b) => a.index - b.index).map(item => item.assertion);
+    }
+
+    private static findClosingParenthesis(script: string, openIndex: number): number {
+        let depth = 0;
+        let quote: string | undefined;
+        for (let i = openIndex; i < script.length; i++) {
+            const char = script[i];
+            if (quote) {
+                if (char === '\\') {
+                    i++;
+                } else if (char === quote) {
+                    quote = undefined;
+                }
+            } else if (char === '"' || char === '\'' || char === '`') {
+                quote = char;
+            } else if (char === '(') {
+                depth++;
+            } else if (char === ')' && --depth === 0) {
+                return i;
+            }
+        }
+        return -1;
+    }
+
+    private static getScript(exec: string | string[] | undefined): string {
+        return Array.isArray(exec) ? exec.join('\n') : exec ?? '';
+    }
+}
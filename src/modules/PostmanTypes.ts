@@ -0,0 +1,109 @@
+/**
+ * Type definitions for the parts of the Postman Collection v2.1 and environment formats the extension reads and writes
+ */
+
+export const POSTMAN_COLLECTION_SCHEMA = 'https://schema.getpostman.com/json/collection/v2.1.0/collection.json';
+
+export interface PostmanVariable {
+    key: string;
+    value?: unknown;
+    type?: string;
+    disabled?: boolean;
+}
+
+export interface PostmanHeader {
+    key: string;
+    value: string;
+    disabled?: boolean;
+}
+
+export interface PostmanQueryParam {
+    key: string | null;
+    value?: string | null;
+    disabled?: boolean;
+}
+
+export interface PostmanUrl {
+    raw?: string;
+    protocol?: string;
+    host?: string | string[];
+    port?: string;
+    path?: string | string[];
+    query?: PostmanQueryParam[];
+}
+
+export interface PostmanFormParam {
+    key: string;
+    value?: string;
+    type?: 'text' | 'file';
+    src?: string | string[];
+    disabled?: boolean;
+}
+
+export interface PostmanBody {
+    mode?: 'raw' | 'urlencoded' | 'formdata' | 'file' | 'graphql';
+    raw?: string;
+    urlencoded?: PostmanFormParam[];
+    formdata?: PostmanFormParam[];
+    graphql?: { query?: string; variables?: string };
+    options?: { raw?: { language?: string } };
+    disabled?: boolean;
+}
+
+export interface PostmanAuthAttribute {
+    key: string;
+    value?: unknown;
+}
+
+export interface PostmanAuth {
+    type: string;
+    [type: string]: PostmanAuthAttribute[] | string | undefined;
+}
+
+export interface PostmanEvent {
+    listen: 'test' | 'prerequest';
+    script?: { exec?: string | string[]; type?: string };
+}
+
+export interface PostmanRequest {
+    method?: string;
+    url?: string | PostmanUrl;
+    header?: PostmanHeader[];
+    body?: PostmanBody;
+    auth?: PostmanAuth;
+    description?: string;
+}
+
+export interface PostmanItem {
+    name?: string;
+    /** Folders have items, requests have a request */
+    item?: PostmanItem[];
+    request?: PostmanRequest | string;
+    event?: PostmanEvent[];
+    auth?: PostmanAuth;
+}
+
+export interface PostmanCollection {
+    info: { name: string; schema: string; _postman_id?: string; description?: string };
+    item: PostmanItem[];
+    variable?: PostmanVariable[];
+    auth?: PostmanAuth;
+    event?: PostmanEvent[];
+}
+
+export interface PostmanEnvironment {
+    name: string;
+    values: PostmanVariable[];
+    _postman_variable_scope?: string;
+}
+
+export interface PostmanImportResult {
+    /** Written -req.http and -test.csx files */
+    files: string[];
+    requests: number;
+    /** pm.test blocks translated to tp.Test */
+    translatedTests: number;
+    /** pm.test blocks left as comments in the -test.csx stubs */
+    untranslatedTests: number;
+    warnings: string[];
+}
@@ -0,0 +1,43 @@
+import { HttpSourceRange } from './HttpDocumentTypes';
+
+export type RegistrationKind = 'retry-strategy' | 'auth-provider';
+
+/** A retry strategy or auth provider registered in a script, referenced by RETRY-STRATEGY and AUTH-PROVIDER */
+export interface ScriptRegistration {
+    kind: RegistrationKind;
+    name: string;
+    range: HttpSourceRange;
+}
+
+/** e.g. tp.RegisterRetryStrategy("CustomRetry", ...) or tp.RegisterAuthProvider("MyAuth", ...) */
+const REGISTRATION_PATTERN = /\b(RegisterRetryStrategy|RegisterAuthProvider)\s*\(\s*"([^"\\]+)"/g;
+/** The OAuth2 provider is registered without a name and referenced as OAuth2 */
+const OAUTH2_PATTERN = /\bRegisterOAuth2Provider\s*\(/g;
+
+/**
+ * Finds the names under which scripts register retry strategies and auth providers
+ */
+export class RegistrationLocator {
+
+    static findInScript(content: string): ScriptRegistration[] {
+        const registrations: ScriptRegistration[] = [];
+        content.split(/\r?\n/).forEach((line, lineIndex) => {
+            for (const match of line.matchAll(REGISTRATION_PATTERN)) {
+                const nameStart = match.index! + match[0].length - match[2].length;
+                registrations.push({
+                    kind: match[1] === 'RegisterRetryStrategy' ? 'retry-strategy' : 'auth-provider',
+                    name: match[2],
+                    range: { startLine: lineIndex, startCharacter: nameStart, endLine: lineIndex, endCharacter: nameStart + match[2].length }
+                });
+            }
+            for (const match of line.matchAll(OAUTH2_PATTERN)) {
+                registrations.push({
+                    kind: 'auth-provider',
+                    name: 'OAuth2',
+                    range: { startLine: lineIndex, startCharacter: match.index!, endLine: lineIndex, endCharacter: match.index! + match[0].length - 1 }
+                });
+            }
+        });
+        return registrations;
+    }
+}
@@ -0,0 +1,249 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+import { VariablesProvider } from '../VariablesProvider';
+import { ExportFormat, ExportOptions, ExportRequest } from './ExportTypes';
+import { HarEntry, HarLog } from './HarTypes';
+import { HttpFileParser } from './HttpFileParser';
+import { POSTMAN_COLLECTION_SCHEMA, PostmanCollection, PostmanItem } from './PostmanTypes';
+
+const REQUEST_FILE_SUFFIX = '-req.http';
+const EXPORT_FILE_EXTENSIONS: { [format in ExportFormat]: string } = {
+    postman: '.postman_collection.json',
+    har: '.har',
+    curl: '.sh'
+};
+
+/**
+ * Converts test cases into Postman collections, HAR files and curl scripts
+ */
+export class RequestExporter {
+    private static outputChannel: vscode.OutputChannel;
+
+    static setOutputChannel(channel: vscode.OutputChannel) {
+        this.outputChannel = channel;
+    }
+
+    static getDefaultFileName(target: string, format: ExportFormat): string {
+        const name = path.basename(target).replace(/(-req)?\.http$/, '');
+        return `${name}${EXPORT_FILE_EXTENSIONS[format]}`;
+    }
+
+    /**
+     * Exports an .http file or all test cases of a directory and returns the number of exported requests
+     */
+    static async export(target: string, outputPath: string, options: ExportOptions): Promise<number> {
+        const requests = await this.collectRequests(target, options.resolveVariables);
+        const name = path.basename(target).replace(/(-req)?\.http$/, '');
+
+        let content: string;
+        switch (options.format) {
+            case 'postman':
+                content = JSON.stringify(this.toPostmanCollection(name, requests), null, 2);
+                break;
+            case 'har':
+                content = JSON.stringify(this.toHar(requests), null, 2);
+                break;
+            case 'curl':
+                content = this.toCurlScript(requests);
+                break;
+        }
+
+        await fs.writeFile(outputPath, content, 'utf8');
+        if (options.format === 'curl') {
+            await fs.chmod(outputPath, 0o755).catch(() => undefined);
+        }
+        this.outputChannel?.appendLine(`[RequestExporter] Exported ${requests.length} request(s) from ${target} to ${outputPath}`);
+        return requests.length;
+    }
+
+    /**
+     * Reads the requests of an .http file, or of all -req.http files below a directory
+     */
+    static async collectRequests(target: string, resolveVariables: boolean): Promise<ExportRequest[]> {
+        const stat = await fs.stat(target);
+        const rootDir = stat.isDirectory() ? target : path.dirname(target);
+        const files = stat.isDirectory() ? await this.findRequestFiles(target) : [target];
+
+        const variablesProvider = VariablesProvider.getInstance();
+        if (resolveVariables) {
+            await variablesProvider.loadVariables(rootDir);
+        }
+        const resolve = (text: string) => resolveVariables ? variablesProvider.replaceVariables(text, true) : text;
+
+        const requests: ExportRequest[] = [];
+        for (const file of files) {
+            const fileRequests = await HttpFileParser.parseHttpFileForNames(file);
+            const testCaseName = path.basename(file).replace(/(-req)?\.http$/, '');
+            const folders = path.relative(rootDir, path.dirname(file)).split(path.sep).filter(Boolean);
+            // Test cases with several requests get a folder of their own
+            if (fileRequests.length > 1) {
+                folders.push(testCaseName);
+            }
+
+            for (const request of fileRequests) {
+                requests.push(this.withDefaultContentType({
+                    name: request.name || request.title || (fileRequests.length === 1 ? testCaseName : `${request.method} ${request.url}`),
+                    method: request.method,
+                    url: resolve(request.url),
+                    headers: (request.headers ?? []).map(header => ({ name: header.name, value: resolve(header.value) })),
+                    body: request.requestBody !== undefined ? resolve(request.requestBody) : undefined,
+                    folders
+                }));
+            }
+        }
+        return requests;
+    }
+
+    /**
+     * Builds a single curl command, on one line unless a line separator is given
+     */
+    static toCurl(request: Pick<ExportRequest, 'method' | 'url' | 'headers' | 'body'>, separator = ' '): string {
+        const { headers, body } = this.withDefaultContentType({ ...request, name: '', folders: [] });
+        const parts = ['curl'];
+        if (request.method !== 'GET' || body) {
+            parts.push(`-X ${request.method}`);
+        }
+        parts.push(this.quote(request.url));
+        headers.forEach(header => parts.push(`-H ${this.quote(`${header.name}: ${header.value}`)}`));
+        if (body) {
+            parts.push(`--data-raw ${this.quote(body)}`);
+        }
+        return parts.join(separator);
+    }
+
+    static toCurlScript(requests: ExportRequest[]): string {
+        const lines = ['#!/usr/bin/env bash', '# Exported from TeaPie test cases', 'set -e'];
+        for (const request of requests) {
+            lines.push(
+                '',
+                `# ${[...request.folders, request.name].join(' / ')}`,
+                this.toCurl(request, ' \\\n    '),
+                'echo'
+            );
+        }
+        return lines.join('\n') + '\n';
+    }
+
+    static toPostmanCollection(name: string, requests: ExportRequest[]): PostmanCollection {
+        const collection: PostmanCollection = { info: { name, schema: POSTMAN_COLLECTION_SCHEMA }, item: [] };
+
+        for (const request of requests) {
+            let items = collection.item;
+            for (const folder of request.folders) {
+                let folderItem = items.find(item => item.item && item.name === folder);
+                if (!folderItem) {
+                    folderItem = { name: folder, item: [] };
+                    items.push(folderItem);
+                }
+                items = folderItem.item!;
+            }
+
+            const contentType = this.getContentType(request);
+            const item: PostmanItem = {
+                name: request.name,
+                request: {
+                    method: request.method,
+                    url: request.url,
+                    header: request.headers.map(header => ({ key: header.name, value: header.value })),
+                    body: request.body !== undefined ? {
+                        mode: 'raw',
+                        raw: request.body,
+                        options: contentType?.includes('json') ? { raw: { language: 'json' } } : undefined
+                    } : undefined
+                }
+            };
+            items.push(item);
+        }
+        return collection;
+    }
+
+    static toHar(requests: ExportRequest[]): HarLog {
+        const startedDateTime = new Date().toISOString();
+        const entries = requests.map((request): HarEntry => {
+            const queryIndex = request.url.indexOf('?');
+            const queryString = queryIndex < 0 ? [] : request.url.slice(queryIndex + 1).split('&').filter(Boolean).map(pair => {
+                const [name, ...value] = pair.split('=');
+                return { name, value: value.join('=') };
+            });
+
+            return {
+                _name: request.name,
+                startedDateTime,
+                time: 0,
+                request: {
+                    method: request.method,
+                    url: request.url,
+                    httpVersion: 'HTTP/1.1',
+                    headers: request.headers,
+                    queryString,
+                    cookies: [],
+                    headersSize: -1,
+                    bodySize: request.body !== undefined ? Buffer.byteLength(request.body) : 0,
+                    postData: request.body !== undefined
+                        ? { mimeType: this.getContentType(request) ?? 'text/plain', text: request.body }
+                        : undefined
+                },
+                // Requests are exported without being sent, so there is no response
+                response: {
+                    status: 0,
+                    statusText: '',
+                    httpVersion: 'HTTP/1.1',
+                    headers: [],
+                    cookies: [],
+                    content: { size: 0, mimeType: 'x-unknown' },
+                    redirectURL: '',
+                    headersSize: -1,
+                    bodySize: -1
+                },
+                cache: {},
+                timings: { send: 0, wait: 0, receive: 0 }
+            };
+        });
+
+        return { log: { version: '1.2', creator: { name: 'TeaPie Extensions', version: '1.0' }, entries } };
+    }
+
+    private static async findRequestFiles(directory: string): Promise<string[]> {
+        const files: string[] = [];
+        const entries = await fs.readdir(directory, { withFileTypes: true });
+        // Files come before subdirectories, both in alphabetical order
+        entries.sort((a, b) => a.name.localeCompare(b.name));
+        for (const entry of entries.filter(item => item.isFile() && item.name.endsWith(REQUEST_FILE_SUFFIX))) {
+            files.push(path.join(directory, entry.name));
+        }
+        for (const entry of entries.filter(item => item.isDirectory() && !item.name.startsWith('.') && item.name !== 'node_modules')) {
+            files.push(...await this.findRequestFiles(path.join(directory, entry.name)));
+        }
+        return files;
+    }
+
+    /**
+     * Adds the Content-Type header tools expect for bodies sent without one
+     */
+    private static withDefaultContentType(request: ExportRequest): ExportRequest {
+        if (!request.body || this.getContentType(request)) {
+            return request;
+        }
+        let contentType = 'text/plain';
+        try {
+            JSON.parse(request.body);
+            contentType = 'application/json';
+        } catch {
+            // Not JSON
+        }
+        return { ...request, headers: [...request.headers, { name: 'Content-Type', value: contentType }] };
+    }
+
+    private static getContentType(request: ExportRequest): string | undefined {
+        return request.headers.find(header => header.name.toLowerCase() === 'content-type')?.value;
+    }
+
+    /**
+     * Quotes a value for POSIX shells
+     */
+    private static quote(value: string): string {
+        return `'${value.replace(/'/g, `'\\''`)}'`;
+    }
+}
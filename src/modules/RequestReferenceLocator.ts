@@ -0,0 +1,35 @@
+import { HttpSourceRange } from './HttpDocumentTypes';
+
+export type RequestCollection = 'Requests' | 'Responses';
+
+/** A named request used by a script, e.g. tp.Responses["Login"] */
+export interface RequestReference {
+    collection: RequestCollection;
+    name: string;
+    /** Range of the name inside the quotes */
+    range: HttpSourceRange;
+}
+
+/** e.g. tp.Responses["Login"], tp.Requests.ContainsKey("Login") or tp.Responses.TryGetValue("Login", out var response) */
+const REFERENCE_PATTERN = /\btp\s*\.\s*(Requests|Responses)\s*(?:\[|\.\s*(?:ContainsKey|TryGetValue)\s*\()\s*"([^"\\]*)"/g;
+
+/**
+ * Finds the request names that scripts look up in tp.Requests and tp.Responses
+ */
+export class RequestReferenceLocator {
+
+    static findInScript(content: string): RequestReference[] {
+        const references: RequestReference[] = [];
+        content.split(/\r?\n/).forEach((line, lineIndex) => {
+            for (const match of line.matchAll(REFERENCE_PATTERN)) {
+                const nameStart = match.index! + match[0].length - match[2].length - 1;
+                references.push({
+                    collection: match[1] as RequestCollection,
+                    name: match[2],
+                    range: { startLine: lineIndex, startCharacter: nameStart, endLine: lineIndex, endCharacter: nameStart + match[2].length }
+                });
+            }
+        });
+        return references;
+    }
+}
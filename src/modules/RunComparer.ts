@@ -0,0 +1,157 @@
+import { HttpRequestResult, HttpRequestResults, HttpTestResult } from './HttpRequestTypes';
+import { JsonDiff } from './JsonDiff';
+import {
+    BodyComparison,
+    HeaderChange,
+    RequestComparison,
+    RunComparison,
+    TestChange,
+    TestOutcome
+} from './RunComparisonTypes';
+
+const MAX_BODY_CHANGES = 200;
+
+/**
+ * Compares the request results of two runs of the same collection
+ */
+export class RunComparer {
+
+    static compare(previous: HttpRequestResults, current: HttpRequestResults): RunComparison {
+        const previousRequests = this.getRequests(previous);
+        const currentRequests = this.getRequests(current);
+
+        // Requests are matched by name, requests with duplicate names in the order they appear
+        const requests: RequestComparison[] = [];
+        const matched = new Set<HttpRequestResult>();
+        currentRequests.forEach(currentRequest => {
+            const previousRequest = previousRequests.find(request => request.Name === currentRequest.Name && !matched.has(request));
+            if (previousRequest) {
+                matched.add(previousRequest);
+            }
+            requests.push(this.compareRequest(previousRequest, currentRequest));
+        });
+        previousRequests
+            .filter(request => !matched.has(request))
+            .forEach(request => requests.push(this.compareRequest(request, undefined)));
+
+        return {
+            requests,
+            changedRequests: requests.filter(request => this.hasChanges(request)).length,
+            flippedTests: requests.reduce((sum, request) => sum + request.flippedTests.length, 0)
+        };
+    }
+
+    static hasChanges(comparison: RequestComparison): boolean {
+        return !comparison.previous
+            || !comparison.current
+            || comparison.statusChanged
+            || comparison.headerChanges.length > 0
+            || comparison.body.changed
+            || comparison.flippedTests.length > 0;
+    }
+
+    private static getRequests(results: HttpRequestResults): HttpRequestResult[] {
+        return results.RequestGroups?.RequestGroup?.flatMap(group => group.Requests) ?? [];
+    }
+
+    private static compareRequest(previous: HttpRequestResult | undefined, current: HttpRequestResult | undefined): RequestComparison {
+        const name = current?.Name ?? previous?.Name ?? '';
+        if (!previous || !current) {
+            return {
+                name,
+                previous,
+                current,
+                statusChanged: true,
+                headerChanges: [],
+                body: { structural: false, changed: false, changes: [] },
+                flippedTests: []
+            };
+        }
+
+        return {
+            name,
+            previous,
+            current,
+            statusChanged: previous.Response?.StatusCode !== current.Response?.StatusCode || previous.Status !== current.Status,
+            headerChanges: this.compareHeaders(previous.Response?.Headers ?? {}, current.Response?.Headers ?? {}),
+            body: this.compareBodies(previous.Response?.Body, current.Response?.Body),
+            durationDelta: this.parseDuration(current.Duration) - this.parseDuration(previous.Duration),
+            flippedTests: this.compareTests(previous.Tests ?? [], current.Tests ?? [])
+        };
+    }
+
+    private static compareHeaders(previous: { [key: string]: string }, current: { [key: string]: string }): HeaderChange[] {
+        // Header names are case-insensitive
+        const normalize = (headers: { [key: string]: string }) =>
+            new Map(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), { name, value }]));
+        const before = normalize(previous);
+        const after = normalize(current);
+
+        const changes: HeaderChange[] = [];
+        for (const [key, { name, value }] of after) {
+            const old = before.get(key);
+            if (!old) {
+                changes.push({ name, kind: 'added', after: value });
+            } else if (old.value !== value) {
+                changes.push({ name, kind: 'changed', before: old.value, after: value });
+            }
+        }
+        for (const [key, { name, value }] of before) {
+            if (!after.has(key)) {
+                changes.push({ name, kind: 'removed', before: value });
+            }
+        }
+        return changes.sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    private static compareBodies(previous: string | undefined, current: string | undefined): BodyComparison {
+        const before = JsonDiff.tryParse(previous);
+        const after = JsonDiff.tryParse(current);
+
+        if (before.parsed && after.parsed) {
+            const { changes, truncated } = JsonDiff.diff(before.value, after.value, { maxChanges: MAX_BODY_CHANGES });
+            return {
+                structural: true,
+                changed: changes.length > 0,
+                changes,
+                truncated: truncated || undefined
+            };
+        }
+
+        return {
+            structural: false,
+            changed: (previous ?? '').trim() !== (current ?? '').trim(),
+            changes: []
+        };
+    }
+
+    private static compareTests(previous: HttpTestResult[], current: HttpTestResult[]): TestChange[] {
+        const before = new Map(previous.map(test => [test.Name, this.getOutcome(test)]));
+        return current
+            .filter(test => before.has(test.Name) && before.get(test.Name) !== this.getOutcome(test))
+            .map(test => ({
+                name: test.Name,
+                before: before.get(test.Name) as TestOutcome,
+                after: this.getOutcome(test)
+            }));
+    }
+
+    private static getOutcome(test: HttpTestResult): TestOutcome {
+        if (test.Skipped) {
+            return 'skipped';
+        }
+        return test.Passed ? 'passed' : 'failed';
+    }
+
+    /**
+     * Converts durations like "120ms" or "1.5s" to milliseconds
+     */
+    private static parseDuration(value: string | undefined): number {
+        const match = value?.match(/^([\d.]+)\s*(ms|s)?$/);
+        if (!match) {
+            return 0;
+        }
+        const amount = parseFloat(match[1]);
+        return match[2] === 's' ? Math.round(amount * 1000) : Math.round(amount);
+    }
+}
@@ -0,0 +1,48 @@
+/**
+ * Type definitions for comparing the results of two runs
+ */
+
+import { ChangeKind, HttpRequestResult, JsonChange } from './HttpRequestTypes';
+
+export type TestOutcome = 'passed' | 'failed' | 'skipped';
+
+export interface HeaderChange {
+    name: string;
+    kind: ChangeKind;
+    before?: string;
+    after?: string;
+}
+
+export interface BodyComparison {
+    /** Whether both bodies were parsed as JSON and compared structurally */
+    structural: boolean;
+    changed: boolean;
+    changes: JsonChange[];
+    /** Set when there were more structural changes than are listed */
+    truncated?: boolean;
+}
+
+export interface TestChange {
+    name: string;
+    before: TestOutcome;
+    after: TestOutcome;
+}
+
+export interface RequestComparison {
+    name: string;
+    previous?: HttpRequestResult;
+    current?: HttpRequestResult;
+    statusChanged: boolean;
+    headerChanges: HeaderChange[];
+    body: BodyComparison;
+    /** Current minus previous duration in milliseconds */
+    durationDelta?: number;
+    flippedTests: TestChange[];
+}
+
+export interface RunComparison {
+    requests: RequestComparison[];
+    /** Number of requests with any difference */
+    changedRequests: number;
+    flippedTests: number;
+}
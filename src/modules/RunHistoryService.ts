@@ -0,0 +1,205 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+import { JUnitReportParser } from './JUnitReportParser';
+import { JUnitReport } from './JUnitReportTypes';
+import { RunHistoryEntry, RunMetadata, RunRetentionPolicy } from './RunHistoryTypes';
+
+const REPORT_FILE_PATTERN = /^run-(\d+)-report\.xml$/;
+const LOG_FILE_PATTERN = /^run-(\d+)\.log$/;
+const METADATA_FILE_PATTERN = /^run-(\d+)-meta\.json$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface ReportSummary {
+    mtime: number;
+    report?: JUnitReport;
+}
+
+/**
+ * Indexes run-<timestamp> reports and logs under .teapie and applies the retention policy to them
+ */
+export class RunHistoryService {
+    private static outputChannel: vscode.OutputChannel;
+    // Parsed reports keyed by path, so refreshing the history does not re-parse unchanged files
+    private static readonly reportCache = new Map<string, ReportSummary>();
+
+    static setOutputChannel(channel: vscode.OutputChannel) {
+        this.outputChannel = channel;
+    }
+
+    static getReportsDirectory(workspacePath: string): string {
+        return path.join(workspacePath, '.teapie', 'reports');
+    }
+
+    static getLogsDirectory(workspacePath: string): string {
+        return path.join(workspacePath, '.teapie', 'logs');
+    }
+
+    /**
+     * Stores the target and environment of a run, which neither the report nor the log record
+     */
+    static async recordRun(workspacePath: string, timestamp: number, metadata: RunMetadata): Promise<void> {
+        const metadataPath = path.join(this.getReportsDirectory(workspacePath), `run-${timestamp}-meta.json`);
+        try {
+            await fs.mkdir(path.dirname(metadataPath), { recursive: true });
+            await fs.writeFile(metadataPath, JSON.stringify(metadata, null, 2), 'utf8');
+        } catch (error) {
+            this.outputChannel?.appendLine(`[RunHistoryService] Failed to record run metadata: ${error}`);
+        }
+    }
+
+    /**
+     * Returns all runs found in the reports and logs directories, newest first
+     */
+    static async getRuns(workspacePath: string): Promise<RunHistoryEntry[]> {
+        const entries = new Map<number, RunHistoryEntry>();
+        const getEntry = (timestamp: number) => {
+            let entry = entries.get(timestamp);
+            if (!entry) {
+                entry = { timestamp, tests: 0, passed: 0, failed: 0, skipped: 0 };
+                entries.set(timestamp, entry);
+            }
+            return entry;
+        };
+
+        const reportsDir = this.getReportsDirectory(workspacePath);
+        for (const file of await this.readDirectory(reportsDir)) {
+            const reportMatch = file.match(REPORT_FILE_PATTERN);
+            if (reportMatch) {
+                getEntry(Number(reportMatch[1])).reportPath = path.join(reportsDir, file);
+                continue;
+            }
+            const metadataMatch = file.match(METADATA_FILE_PATTERN);
+            if (metadataMatch) {
+                getEntry(Number(metadataMatch[1])).metadataPath = path.join(reportsDir, file);
+            }
+        }
+
+        const logsDir = this.getLogsDirectory(workspacePath);
+        for (const file of await this.readDirectory(logsDir)) {
+            const logMatch = file.match(LOG_FILE_PATTERN);
+            if (logMatch) {
+                getEntry(Number(logMatch[1])).logPath = path.join(logsDir, file);
+            }
+        }
+
+        const runs = [...entries.values()];
+        await Promise.all(runs.map(entry => this.fillEntry(entry)));
+        return runs.sort((a, b) => b.timestamp - a.timestamp);
+    }
+
+    /**
+     * Finds the run to compare the given run with. A failing run is compared with the last green run
+     * of the same target, any other run with the run of the same target right before it.
+     */
+    static findPreviousRun(runs: RunHistoryEntry[], entry: RunHistoryEntry): RunHistoryEntry | undefined {
+        const earlier = runs
+            .filter(run => run.target === entry.target && run.timestamp < entry.timestamp && run.logPath)
+            .sort((a, b) => b.timestamp - a.timestamp);
+
+        if (entry.failed > 0) {
+            const lastGreen = earlier.find(run => run.reportPath && run.failed === 0 && !run.cancelled);
+            if (lastGreen) {
+                return lastGreen;
+            }
+        }
+        return earlier[0];
+    }
+
+    static async loadReport(entry: RunHistoryEntry): Promise<JUnitReport | undefined> {
+        if (!entry.reportPath) {
+            return undefined;
+        }
+        try {
+            const { mtimeMs } = await fs.stat(entry.reportPath);
+            const cached = this.reportCache.get(entry.reportPath);
+            if (cached && cached.mtime === mtimeMs) {
+                return cached.report;
+            }
+            const report = await JUnitReportParser.parseFile(entry.reportPath);
+            this.reportCache.set(entry.reportPath, { mtime: mtimeMs, report });
+            return report;
+        } catch (error) {
+            this.outputChannel?.appendLine(`[RunHistoryService] Failed to read report ${entry.reportPath}: ${error}`);
+            return undefined;
+        }
+    }
+
+    /**
+     * Deletes the report, log and metadata of a run
+     */
+    static async deleteRun(entry: RunHistoryEntry): Promise<void> {
+        const files = [entry.reportPath, entry.logPath, entry.metadataPath].filter((file): file is string => !!file);
+        await Promise.all(files.map(async file => {
+            await fs.rm(file, { force: true });
+            this.reportCache.delete(file);
+        }));
+    }
+
+    /**
+     * Removes runs that exceed the retention policy and returns how many were removed
+     */
+    static async pruneRuns(workspacePath: string, policy: RunRetentionPolicy = this.getRetentionPolicy()): Promise<number> {
+        const runs = await this.getRuns(workspacePath);
+        const oldestKept = policy.maxAgeDays > 0 ? Date.now() - policy.maxAgeDays * DAY_MS : 0;
+
+        const expired = runs.filter((run, index) =>
+            (policy.maxRuns > 0 && index >= policy.maxRuns) || run.timestamp < oldestKept);
+
+        for (const run of expired) {
+            try {
+                await this.deleteRun(run);
+            } catch (error) {
+                this.outputChannel?.appendLine(`[RunHistoryService] Failed to delete run ${run.timestamp}: ${error}`);
+            }
+        }
+
+        if (expired.length) {
+            this.outputChannel?.appendLine(`[RunHistoryService] Pruned ${expired.length} old run(s)`);
+        }
+        return expired.length;
+    }
+
+    static getRetentionPolicy(): RunRetentionPolicy {
+        const config = vscode.workspace.getConfiguration('teapie.runHistory');
+        return {
+            maxRuns: config.get<number>('maxRuns', 50),
+            maxAgeDays: config.get<number>('maxAgeDays', 30)
+        };
+    }
+
+    private static async fillEntry(entry: RunHistoryEntry): Promise<void> {
+        if (entry.metadataPath) {
+            try {
+                const metadata: RunMetadata = JSON.parse(await fs.readFile(entry.metadataPath, 'utf8'));
+                entry.target = metadata.target;
+                entry.request = metadata.request;
+                entry.environment = metadata.environment;
+                entry.duration = metadata.duration;
+                entry.cancelled = metadata.cancelled;
+            } catch (error) {
+                this.outputChannel?.appendLine(`[RunHistoryService] Failed to read run metadata ${entry.metadataPath}: ${error}`);
+            }
+        }
+
+        const report = await this.loadReport(entry);
+        if (report) {
+            entry.tests = report.tests;
+            entry.failed = report.failures + report.errors;
+            entry.skipped = report.skipped;
+            entry.passed = Math.max(0, report.tests - entry.failed - entry.skipped);
+            // JUnit reports time in seconds
+            entry.duration ??= Math.round(report.time * 1000);
+        }
+    }
+
+    private static async readDirectory(directory: string): Promise<string[]> {
+        try {
+            return await fs.readdir(directory);
+        } catch {
+            // Directory is created by the first run
+            return [];
+        }
+    }
+}
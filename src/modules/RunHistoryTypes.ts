@@ -0,0 +1,44 @@
+/**
+ * Type definitions for the run history built from TeaPie report and log artifacts
+ */
+
+import { SingleRequestSelection } from './HttpRequestTypes';
+
+/**
+ * Metadata the extension stores next to the report of each run it starts
+ */
+export interface RunMetadata {
+    /** File or directory TeaPie was run on */
+    target: string;
+    /** Set when only one request of the target file was run */
+    request?: SingleRequestSelection;
+    environment?: string;
+    /** Wall-clock duration of the run in milliseconds */
+    duration?: number;
+    cancelled?: boolean;
+}
+
+export interface RunHistoryEntry {
+    /** Timestamp from the artifact file names, also used as the run id */
+    timestamp: number;
+    reportPath?: string;
+    logPath?: string;
+    metadataPath?: string;
+    target?: string;
+    request?: SingleRequestSelection;
+    environment?: string;
+    cancelled?: boolean;
+    tests: number;
+    passed: number;
+    failed: number;
+    skipped: number;
+    /** Duration in milliseconds, from the metadata or the report */
+    duration?: number;
+}
+
+export interface RunRetentionPolicy {
+    /** Maximum number of runs to keep, 0 keeps all */
+    maxRuns: number;
+    /** Maximum age of kept runs in days, 0 keeps all */
+    maxAgeDays: number;
+}
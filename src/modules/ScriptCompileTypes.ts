@@ -0,0 +1,32 @@
+/**
+ * Type definitions for compiling .csx scripts with teapie compile
+ */
+
+export type CompilerMessageSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * One message of the C# compiler, e.g. script-test.csx(3,5): error CS0103: The name 'x' does not exist in the current context
+ */
+export interface CompilerMessage {
+    /** Absolute path of the script, the compiled one when the compiler did not name one */
+    filePath: string;
+    /** Zero-based like VS Code positions, the compiler reports them one-based */
+    line: number;
+    character: number;
+    severity: CompilerMessageSeverity;
+    /** Compiler code such as CS0103 */
+    code?: string;
+    message: string;
+}
+
+export interface ScriptCompileResult {
+    scriptPath: string;
+    /** Messages of the compiled script and of the scripts it loads with #load */
+    messages: CompilerMessage[];
+    /** Whether teapie compile exited successfully */
+    succeeded: boolean;
+    /** Set when TeaPie failed without naming a location, e.g. because the CLI is not installed */
+    error?: string;
+    /** Whether the TeaPie CLI could not be started at all */
+    cliNotFound?: boolean;
+}
@@ -0,0 +1,125 @@
+import { spawn } from 'child_process';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+import { CompilerMessage, CompilerMessageSeverity, ScriptCompileResult } from './ScriptCompileTypes';
+import { TeaPieLocator } from './TeaPieLocator';
+import { killProcessTree } from '../utils/processUtils';
+
+/**
+ * Roslyn diagnostic format, log prefixes before the path are skipped and the path is missing for code without a file:
+ * path(line,col): error CS0103: message or path(line,col,endLine,endCol): warning CS0168: message
+ */
+const MESSAGE_PATTERN = /(?:^|[\s\]:'"])((?:[A-Za-z]:)?[^\s:*?"<>|()[\]][^:*?"<>|()[\]]*?\.csx?)?\((\d+),(\d+)(?:,\d+,\d+)?\):\s*(error|warning|info)\s+([A-Z]+\d+)\s*:\s*(.+)$/;
+/** ANSI colors of the TeaPie console output */
+const ANSI_PATTERN = /\u001b\[[0-9;]*m/g;
+const COMPILE_TIMEOUT_MS = 120000;
+
+/**
+ * Compiles -init.csx and -test.csx scripts with teapie compile and parses the compiler messages from its output
+ */
+export class ScriptCompiler {
+    private static outputChannel: vscode.OutputChannel;
+
+    static setOutputChannel(channel: vscode.OutputChannel) {
+        this.outputChannel = channel;
+    }
+
+    static async compile(scriptPath: string, workspacePath?: string, token?: vscode.CancellationToken): Promise<ScriptCompileResult> {
+        const installation = await TeaPieLocator.locate(workspacePath);
+        const args = ['compile', scriptPath];
+        this.outputChannel?.appendLine(`[ScriptCompiler] Running ${TeaPieLocator.getCommandLine(installation, args)}`);
+
+        return new Promise(resolve => {
+            const child = spawn(installation.command, [...installation.commandArgs, ...args], {
+                cwd: workspacePath ?? path.dirname(scriptPath),
+                detached: process.platform !== 'win32'
+            });
+            const kill = () => killProcessTree(child, message => this.outputChannel?.appendLine(`[ScriptCompiler] ${message}`));
+            let output = '';
+            const timer = setTimeout(kill, COMPILE_TIMEOUT_MS);
+            const cancellation = token?.onCancellationRequested(kill);
+
+            child.stdout.on('data', (data: Buffer) => output += data.toString());
+            child.stderr.on('data', (data: Buffer) => output += data.toString());
+
+            child.on('error', error => {
+                clearTimeout(timer);
+                cancellation?.dispose();
+                const notFound = (error as NodeJS.ErrnoException).code === 'ENOENT';
+                resolve({
+                    scriptPath,
+                    messages: [],
+                    succeeded: false,
+                    error: notFound ? `TeaPie CLI was not found (${installation.command})` : `Failed to run TeaPie: ${error.message}`,
+                    cliNotFound: notFound
+                });
+            });
+
+            child.on('close', code => {
+                clearTimeout(timer);
+                cancellation?.dispose();
+                const messages = this.parseOutput(output, scriptPath);
+                const succeeded = code === 0;
+                this.outputChannel?.appendLine(
+                    `[ScriptCompiler] ${path.basename(scriptPath)} compiled with exit code ${code} and ${messages.length} message(s)`
+                );
+                resolve({
+                    scriptPath,
+                    messages,
+                    succeeded,
+                    // Compilation failures always come with messages, anything else is reported as a whole
+                    error: succeeded || messages.some(message => message.severity === 'error')
+                        ? undefined
+                        : this.getFailureReason(output, code, token?.isCancellationRequested)
+                });
+            });
+        });
+    }
+
+    /**
+     * Returns the compiler messages in TeaPie output. Messages without a path or with a relative one
+     * belong to the compiled script or are resolved next to it, duplicates from repeated log lines are dropped.
+     */
+    static parseOutput(output: string, scriptPath: string): CompilerMessage[] {
+        const messages: CompilerMessage[] = [];
+        const seen = new Set<string>();
+
+        for (const line of output.replace(ANSI_PATTERN, '').split(/\r?\n/)) {
+            const match = line.trim().match(MESSAGE_PATTERN);
+            if (!match) {
+                continue;
+            }
+            const [, filePath, lineNumber, column, severity, code, message] = match;
+            const resolvedPath = filePath?.trim()
+                ? path.resolve(path.dirname(scriptPath), filePath.trim())
+                : scriptPath;
+            const key = `${resolvedPath}:${lineNumber}:${column}:${code}:${message}`;
+            if (seen.has(key)) {
+                continue;
+            }
+            seen.add(key);
+            messages.push({
+                filePath: resolvedPath,
+                line: Math.max(Number(lineNumber) - 1, 0),
+                character: Math.max(Number(column) - 1, 0),
+                severity: severity as CompilerMessageSeverity,
+                code,
+                message: message.trim()
+            });
+        }
+        return messages;
+    }
+
+    private static getFailureReason(output: string, code: number | null, cancelled?: boolean): string {
+        if (cancelled) {
+            return 'Compilation was cancelled';
+        }
+        if (code === null) {
+            return `Compilation did not finish within ${COMPILE_TIMEOUT_MS / 1000} seconds`;
+        }
+        const lines = output.replace(ANSI_PATTERN, '').split(/\r?\n/).map(line => line.trim()).filter(line => line);
+        const errorLine = [...lines].reverse().find(line => /error|exception|fail/i.test(line));
+        return errorLine ?? `teapie compile exited with code ${code}`;
+    }
+}
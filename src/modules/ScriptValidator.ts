@@ -0,0 +1,37 @@
+import { DiagnosticCodes } from '../constants/diagnostics';
+import { HttpDocumentProblem } from './HttpDocumentTypes';
+import { RequestReferenceLocator } from './RequestReferenceLocator';
+import { getClosestMatch } from '../utils/stringUtils';
+
+export interface ScriptValidationContext {
+    /** File name of the sibling -req.http file */
+    requestFileName: string;
+    /** Names of the requests in the sibling -req.http file */
+    requestNames: string[];
+}
+
+/**
+ * Checks -init.csx and -test.csx scripts against the requests of their test case
+ */
+export class ScriptValidator {
+
+    static validate(content: string, context: ScriptValidationContext): HttpDocumentProblem[] {
+        const problems: HttpDocumentProblem[] = [];
+
+        // tp.Requests and tp.Responses are dictionaries, a lookup with a different name fails when TeaPie runs the script
+        for (const reference of RequestReferenceLocator.findInScript(content)) {
+            if (!reference.name || context.requestNames.includes(reference.name)) {
+                continue;
+            }
+            const suggestion = getClosestMatch(reference.name, context.requestNames);
+            problems.push({
+                code: DiagnosticCodes.unknownRequestReference,
+                message: `No request in ${context.requestFileName} is named ${reference.name}${suggestion ? `, did you mean ${suggestion}?` : ''}`,
+                severity: 'warning',
+                range: reference.range,
+                fixes: suggestion ? [{ title: `Change to ${suggestion}`, range: reference.range, newText: suggestion }] : []
+            });
+        }
+        return problems;
+    }
+}
@@ -0,0 +1,134 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { HttpFileRequest } from './HttpRequestTypes';
+import { HttpDocumentParser } from './HttpDocumentParser';
+import { HttpFileParser } from './HttpFileParser';
+
+export interface SingleRequestCollection {
+    /** The generated -req.http file containing only the selected request */
+    requestFile: string;
+    /** The selected request as parsed from the original file */
+    request: HttpFileRequest;
+    /** Display name of the request, matching the names used in run results */
+    requestName: string;
+}
+
+/**
+ * Writes temporary collections that TeaPie runs instead of an HTTP file, e.g. with a single request of it
+ */
+export class SingleRequestCollectionBuilder {
+    private static outputChannel: vscode.OutputChannel;
+
+    static setOutputChannel(channel: vscode.OutputChannel) {
+        this.outputChannel = channel;
+    }
+
+    /**
+     * Copies the selected request together with the file's -init.csx/-test.csx siblings into .teapie/temp.
+     * When includeTests is false, TEST-* directives and the -test.csx script are left out.
+     * Each collection gets its own folder, which the caller removes once it is no longer needed.
+     */
+    static async create(httpFilePath: string, requestIndex: number, includeTests: boolean): Promise<SingleRequestCollection> {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        if (!workspaceFolder) {
+            throw new Error('No workspace folder is open');
+        }
+
+        const content = await fs.readFile(httpFilePath, 'utf8');
+        const lines = content.split(/\r?\n/);
+        const requests = HttpDocumentParser.parse(content).requests;
+        const request = requests[requestIndex];
+        if (!request) {
+            throw new Error(`Request ${requestIndex + 1} was not found in ${path.basename(httpFilePath)}`);
+        }
+
+        // Keep file-level content (variables, comments) that precedes the first request
+        const preamble = lines.slice(0, requests[0].range.startLine);
+        const testDirectiveLines = new Set(request.directives.filter(directive => directive.kind === 'test').map(directive => directive.range.startLine));
+        const requestLines = lines
+            .slice(request.range.startLine, request.range.endLine + 1)
+            .filter((_, offset) => includeTests || !testDirectiveLines.has(request.range.startLine + offset));
+
+        const tempDir = await this.createTempDir(workspaceFolder.uri.fsPath, 'single-request-');
+
+        const requestFile = path.join(tempDir, path.basename(httpFilePath));
+        await fs.writeFile(requestFile, [...preamble, ...requestLines].join('\n'), 'utf8');
+        await this.copyScripts(httpFilePath, tempDir, includeTests);
+
+        this.outputChannel?.appendLine(`[SingleRequestCollection] Created ${requestFile} for request ${requestIndex + 1} (tests: ${includeTests})`);
+
+        return {
+            requestFile,
+            request: HttpFileParser.toFileRequest(request),
+            requestName: HttpDocumentParser.getRequestLabel(request)
+        };
+    }
+
+    /**
+     * Copies an HTTP file with its -init.csx/-test.csx siblings into .teapie/temp without the lines of the given directives,
+     * which TeaPie does not know and the extension evaluates after the run. Returns undefined when the file has none of them.
+     * Each run gets its own folder, which the caller removes once the run is over.
+     */
+    static async createRunCopy(httpFilePath: string, workspacePath: string, directiveNames: string[]): Promise<string | undefined> {
+        const content = await fs.readFile(httpFilePath, 'utf8');
+        const directiveLines = new Set(HttpDocumentParser.parse(content).requests
+            .flatMap(request => request.directives)
+            .filter(directive => directiveNames.includes(directive.name))
+            .map(directive => directive.range.startLine));
+        if (!directiveLines.size) {
+            return undefined;
+        }
+
+        const tempDir = await this.createTempDir(workspacePath, 'run-');
+
+        const runFile = path.join(tempDir, path.basename(httpFilePath));
+        const lines = content.split(/\r?\n/).filter((_, line) => !directiveLines.has(line));
+        await fs.writeFile(runFile, lines.join('\n'), 'utf8');
+        await this.copyScripts(httpFilePath, tempDir, true);
+
+        this.outputChannel?.appendLine(`[SingleRequestCollection] Created ${runFile} without ${directiveLines.size} directive(s) TeaPie does not know`);
+        return runFile;
+    }
+
+    /**
+     * Creates a uniquely named folder under .teapie/temp so that concurrent runs do not remove each other's files
+     */
+    private static async createTempDir(workspacePath: string, prefix: string): Promise<string> {
+        const tempRoot = path.join(workspacePath, '.teapie', 'temp');
+        await fs.mkdir(tempRoot, { recursive: true });
+        return fs.mkdtemp(path.join(tempRoot, prefix));
+    }
+
+    private static async copyScripts(httpFilePath: string, tempDir: string, includeTests: boolean): Promise<void> {
+        const sourceDir = path.dirname(httpFilePath);
+        const baseName = path.basename(httpFilePath).replace(/-req\.http$/, '');
+        await this.copyScript(path.join(sourceDir, `${baseName}-init.csx`), path.join(tempDir, `${baseName}-init.csx`));
+        if (includeTests) {
+            await this.copyScript(path.join(sourceDir, `${baseName}-test.csx`), path.join(tempDir, `${baseName}-test.csx`));
+        }
+    }
+
+    /**
+     * Copies a script sibling, rewriting relative #load/#r paths so they still resolve from the temp folder
+     */
+    private static async copyScript(source: string, target: string): Promise<void> {
+        let content: string;
+        try {
+            content = await fs.readFile(source, 'utf8');
+        } catch {
+            // The sibling script is optional
+            return;
+        }
+
+        const sourceDir = path.dirname(source);
+        const rewritten = content.replace(/^(\s*#(?:load|r)\s+")([^"]+)(")/gm, (match, prefix: string, reference: string, suffix: string) => {
+            if (path.isAbsolute(reference) || reference.includes(':')) {
+                return match;
+            }
+            return `${prefix}${path.resolve(sourceDir, reference).replace(/\\/g, '/')}${suffix}`;
+        });
+
+        await fs.writeFile(target, rewritten, 'utf8');
+    }
+}
@@ -0,0 +1,189 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+import { STATUS_FAILED } from '../constants/httpResults';
+import { SNAPSHOT_DIRECTIVE } from '../constants/directives';
+import { HttpFileRequest, HttpRequestResults, SnapshotResult } from './HttpRequestTypes';
+import { HttpFileParser } from './HttpFileParser';
+import { JsonDiff } from './JsonDiff';
+
+const MAX_SNAPSHOT_CHANGES = 200;
+
+/** Snapshot file content: stored response bodies keyed by request */
+type SnapshotFile = { [key: string]: unknown };
+
+/**
+ * Evaluates TEST-MATCH-SNAPSHOT directives by comparing response bodies with stored snapshots
+ */
+export class SnapshotTester {
+    private static outputChannel: vscode.OutputChannel;
+
+    static setOutputChannel(channel: vscode.OutputChannel) {
+        this.outputChannel = channel;
+    }
+
+    /**
+     * Returns the snapshot file stored next to a -req.http file, e.g. users-snapshot.json for users-req.http
+     */
+    static getSnapshotFilePath(httpFilePath: string): string {
+        const baseName = path.basename(httpFilePath).replace(/(-req)?\.http$/, '');
+        return path.join(path.dirname(httpFilePath), `${baseName}-snapshot.json`);
+    }
+
+    /**
+     * Adds a snapshot test result to every request of the executed file that has the directive.
+     * Missing snapshots are created from the current response.
+     * @param results - Results of the run, updated in place
+     * @param httpFilePath - The executed .http file
+     * @param snapshotFilePath - Snapshot file to compare with, which differs from the executed file's for single-request runs
+     */
+    static async apply(results: HttpRequestResults, httpFilePath: string, snapshotFilePath: string): Promise<void> {
+        try {
+            const fileRequests = await HttpFileParser.parseHttpFileForNames(httpFilePath);
+            if (!fileRequests.some(request => request.snapshot)) {
+                return;
+            }
+
+            const snapshots = await this.readSnapshotFile(snapshotFilePath);
+            let created = false;
+
+            for (const group of results.RequestGroups?.RequestGroup ?? []) {
+                // Results are matched by the request name, their position in file order only decides for names no request has
+                const used = new Set<HttpFileRequest>();
+                const take = (request: HttpFileRequest | undefined) => {
+                    if (request) {
+                        used.add(request);
+                    }
+                    return request;
+                };
+                const matched = group.Requests.map(result => take(fileRequests.find(request => !used.has(request) && this.getRequestKey(request) === result.Name)));
+                group.Requests.forEach((result, index) => {
+                    const fileRequest = matched[index] ?? take(used.has(fileRequests[index]) ? undefined : fileRequests[index]);
+                    // Requests that were not sent have no Request
+                    if (!result.Request || !fileRequest?.snapshot) {
+                        return;
+                    }
+
+                    const key = this.getRequestKey(fileRequest);
+                    const snapshot = this.evaluate(snapshotFilePath, key, fileRequest.snapshot.ignorePaths, snapshots, result.Response?.Body);
+                    if (snapshot.status === 'created') {
+                        snapshots[key] = this.toStoredValue(result.Response?.Body ?? '');
+                        created = true;
+                    }
+
+                    const passed = snapshot.status === 'matched' || snapshot.status === 'created';
+                    result.Snapshot = snapshot;
+                    result.Tests = [...(result.Tests ?? []), {
+                        Name: SNAPSHOT_DIRECTIVE,
+                        Passed: passed,
+                        Message: this.getMessage(snapshot)
+                    }];
+                    if (!passed) {
+                        result.Status = STATUS_FAILED;
+                        group.Status = STATUS_FAILED;
+                    }
+                });
+            }
+
+            if (created) {
+                await this.writeSnapshotFile(snapshotFilePath, snapshots);
+                this.outputChannel?.appendLine(`[SnapshotTester] Created snapshots in ${snapshotFilePath}`);
+            }
+        } catch (error) {
+            this.outputChannel?.appendLine(`[SnapshotTester] Failed to evaluate snapshots: ${error}`);
+        }
+    }
+
+    /**
+     * Replaces the stored snapshot with the response body of a mismatched run
+     */
+    static async accept(snapshot: SnapshotResult): Promise<void> {
+        const snapshots = await this.readSnapshotFile(snapshot.file);
+        snapshots[snapshot.key] = this.toStoredValue(snapshot.actual ?? '');
+        await this.writeSnapshotFile(snapshot.file, snapshots);
+        this.outputChannel?.appendLine(`[SnapshotTester] Accepted new snapshot for ${snapshot.key} in ${snapshot.file}`);
+    }
+
+    private static evaluate(
+        file: string,
+        key: string,
+        ignorePaths: string[],
+        snapshots: SnapshotFile,
+        body: string | undefined
+    ): SnapshotResult {
+        const snapshot: SnapshotResult = { file, key, status: 'matched', ignorePaths, changes: [] };
+        if (body === undefined) {
+            snapshot.status = 'noResponse';
+            return snapshot;
+        }
+
+        const actual = JsonDiff.tryParse(body);
+        snapshot.actual = actual.parsed ? JSON.stringify(actual.value, null, 2) : body;
+        if (!(key in snapshots)) {
+            snapshot.status = 'created';
+            return snapshot;
+        }
+
+        const stored = snapshots[key];
+        snapshot.expected = typeof stored === 'string' ? stored : JSON.stringify(stored, null, 2);
+
+        if (actual.parsed && typeof stored !== 'string') {
+            const { changes } = JsonDiff.diff(stored, actual.value, { ignorePaths, maxChanges: MAX_SNAPSHOT_CHANGES });
+            snapshot.changes = changes;
+            snapshot.status = changes.length ? 'mismatched' : 'matched';
+        } else if (snapshot.expected.trim() !== body.trim()) {
+            snapshot.status = 'mismatched';
+        }
+        return snapshot;
+    }
+
+    private static getMessage(snapshot: SnapshotResult): string {
+        switch (snapshot.status) {
+            case 'created':
+                return `Snapshot created in ${path.basename(snapshot.file)}`;
+            case 'noResponse':
+                return 'No response body to compare with the snapshot';
+            case 'mismatched':
+                return snapshot.changes.length
+                    ? `Response differs from the snapshot in ${snapshot.changes.length} place(s)`
+                    : 'Response differs from the snapshot';
+            default:
+                return '';
+        }
+    }
+
+    /**
+     * Identifies a request in the snapshot file the same way run results name it
+     */
+    private static getRequestKey(request: HttpFileRequest): string {
+        return request.name || request.title || `${request.method} ${request.url}`;
+    }
+
+    /**
+     * JSON bodies are stored as JSON so the snapshot file stays readable, anything else as a string
+     */
+    private static toStoredValue(body: string): unknown {
+        const parsed = JsonDiff.tryParse(body);
+        return parsed.parsed ? parsed.value : body;
+    }
+
+    private static async readSnapshotFile(filePath: string): Promise<SnapshotFile> {
+        let content: string;
+        try {
+            content = await fs.readFile(filePath, 'utf8');
+        } catch {
+            // Created by the first run
+            return {};
+        }
+        const parsed = JSON.parse(content);
+        if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+            throw new Error(`${path.basename(filePath)} must contain a JSON object`);
+        }
+        return parsed;
+    }
+
+    private static async writeSnapshotFile(filePath: string, snapshots: SnapshotFile): Promise<void> {
+        await fs.writeFile(filePath, JSON.stringify(snapshots, null, 2) + '\n', 'utf8');
+    }
+}
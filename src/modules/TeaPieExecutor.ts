@@ -1,21 +1,56 @@
 import * as path from 'path';
 import * as vscode from 'vscode';
-import { exec } from 'child_process';
-import { promisify } from 'util';
+import { ChildProcess, spawn } from 'child_process';
 import * as fs from 'fs/promises';
 import { 
     STATUS_FAILED,
+    STATUS_CANCELLED,
+    ERROR_CANCELLED,
     ERROR_CONNECTION_REFUSED,
     ERROR_HOST_NOT_FOUND,
     ERROR_TIMEOUT,
     ERROR_EXECUTION_FAILED,
     ERROR_NO_HTTP_FOUND
 } from '../constants/httpResults';
-import { HttpRequestResults, CliParseResult, HttpTestResult } from './HttpRequestTypes';
+import { SNAPSHOT_DIRECTIVE } from '../constants/directives';
+import { HttpRequestResults, CliParseResult, HttpTestResult, LogStreamEvent, SingleRequestSelection } from './HttpRequestTypes';
+import { HttpFileParser } from './HttpFileParser';
+import { LogFileFollower } from './LogFileFollower';
 import { LogFileParser } from './LogFileParser';
+import { RunHistoryService } from './RunHistoryService';
+import { SingleRequestCollectionBuilder } from './SingleRequestCollectionBuilder';
+import { SnapshotTester } from './SnapshotTester';
+import { RunMetadata } from './RunHistoryTypes';
+import { TeaPieInstallation } from './TeaPieInstallationTypes';
+import { TeaPieLocator } from './TeaPieLocator';
 import { XmlTestParser } from './XmlTestParser';
+import { killProcessTree } from '../utils/processUtils';
 
-const execAsync = promisify(exec);
+interface ProcessOutput {
+    stdout: string;
+    stderr: string;
+}
+
+export interface TeaPieExecutionOptions {
+    /** Receives request/response events while the log file is followed */
+    onProgress?: (event: LogStreamEvent) => void;
+    /** Cancelling kills the TeaPie process tree and returns the partial results */
+    token?: vscode.CancellationToken;
+    /** Overrides the environment from the teapie.currentEnvironment setting */
+    environment?: string;
+    /** Passed to TeaPie as --env-file */
+    environmentFile?: string;
+    /** Runs only this request of the file, through a temporary collection */
+    request?: SingleRequestSelection;
+}
+
+interface ProcessError {
+    stdout?: string;
+    stderr?: string;
+    message?: string;
+    code?: number;
+    cancelled?: boolean;
+}
 
 /**
  * Handles TeaPie CLI execution and result processing
@@ -27,28 +62,80 @@ export class TeaPieExecutor {
         this.outputChannel = channel;
         XmlTestParser.setOutputChannel(channel);
         LogFileParser.setOutputChannel(channel);
+        RunHistoryService.setOutputChannel(channel);
+        TeaPieLocator.setOutputChannel(channel);
+        SnapshotTester.setOutputChannel(channel);
+        SingleRequestCollectionBuilder.setOutputChannel(channel);
     }
 
-    static async executeTeaPie(filePath: string): Promise<HttpRequestResults> {
+    /**
+     * Runs TeaPie for the given file and returns structured HTTP request results
+     */
+    static async executeTeaPie(filePath: string, options: TeaPieExecutionOptions = {}): Promise<HttpRequestResults> {
         const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
         if (!workspaceFolder) {
             throw new Error('No workspace folder is open');
         }
+
+        const collection = options.request
+            ? await SingleRequestCollectionBuilder.create(filePath, options.request.index, options.request.includeTests)
+            : undefined;
+        const requestFile = collection?.requestFile ?? filePath;
+        let runFile: string | undefined;
+        try {
+            // TeaPie does not know the snapshot directive, it runs a copy without it and the extension evaluates it afterwards
+            runFile = path.extname(requestFile) === '.http'
+                ? await SingleRequestCollectionBuilder.createRunCopy(requestFile, workspaceFolder.uri.fsPath, [SNAPSHOT_DIRECTIVE])
+                : undefined;
+            const results = await this.runTeaPie(requestFile, runFile, filePath, workspaceFolder, options);
+            if (runFile) {
+                await SnapshotTester.apply(results, requestFile, SnapshotTester.getSnapshotFilePath(filePath));
+            }
+            return results;
+        } finally {
+            for (const tempFile of [runFile, collection?.requestFile]) {
+                if (tempFile) {
+                    await fs.rm(path.dirname(tempFile), { recursive: true, force: true });
+                }
+            }
+        }
+    }
+
+    /**
+     * Runs TeaPie for filePath, or for runFile when set, and records the run for target in the run history
+     */
+    private static async runTeaPie(
+        filePath: string,
+        runFile: string | undefined,
+        target: string,
+        workspaceFolder: vscode.WorkspaceFolder,
+        options: TeaPieExecutionOptions
+    ): Promise<HttpRequestResults> {
+        const { onProgress, token } = options;
         
         const config = vscode.workspace.getConfiguration('teapie');
-        const currentEnv = config.get<string>('currentEnvironment');
+        const currentEnv = options.environment || config.get<string>('currentEnvironment');
         const timeout = config.get<number>('requestTimeout', 60000);
         
         // Use unique file names with timestamp to prevent cache issues
         const timestamp = Date.now();
-        const envParam = currentEnv ? ` -e "${currentEnv}"` : '';
         const reportPath = path.join(workspaceFolder.uri.fsPath, '.teapie', 'reports', `run-${timestamp}-report.xml`);
         const logPath = path.join(workspaceFolder.uri.fsPath, '.teapie', 'logs', `run-${timestamp}.log`);
         
         // Updated command to include log file parameters with unique names
-        const command = `teapie test "${filePath}" --no-logo --verbose -r "${reportPath}" --log-file "${logPath}" --log-file-log-level Trace${envParam}`;
+        const args = ['test', runFile ?? filePath, '--no-logo', '--verbose', '-r', reportPath, '--log-file', logPath, '--log-file-log-level', 'Trace'];
+        if (currentEnv) {
+            args.push('-e', currentEnv);
+        }
+        if (options.environmentFile) {
+            args.push('--env-file', options.environmentFile);
+        }
+        // The same installation the .csx documentation is loaded from
+        const installation = await TeaPieLocator.locate(workspaceFolder.uri.fsPath);
+        const command = TeaPieLocator.getCommandLine(installation, args);
         
         this.outputChannel?.appendLine(`Executing TeaPie command: ${command}`);
+        this.outputChannel?.appendLine(`TeaPie installation: ${TeaPieLocator.describe(installation)}`);
         this.outputChannel?.appendLine(`Report file: ${reportPath}`);
         this.outputChannel?.appendLine(`Log file: ${logPath}`);
         
@@ -63,21 +150,29 @@ export class TeaPieExecutor {
             .then(stats => stats.mtime.getTime())
             .catch(() => 0);
         
+        const follower = onProgress ? await this.createLogFollower(logPath, filePath, onProgress) : undefined;
+        follower?.start();
+        
+        let cancelled = false;
         try {
-            const { stdout } = await execAsync(command, {
-                cwd: workspaceFolder.uri.fsPath,
-                timeout: timeout
-            });
+            const { stdout } = await this.runTeaPieProcess(installation, args, workspaceFolder.uri.fsPath, timeout, token)
+                .finally(() => follower?.stop());
             
             await XmlTestParser.waitForXmlReportUpdate(reportPath, beforeTimestamp);
             
-            const result = await this.parseOutput(stdout, filePath, workspaceFolder.uri.fsPath, logPath);
+            const result = await this.parseOutput(stdout, filePath, workspaceFolder.uri.fsPath, logPath, false, reportPath);
             if (!result.RequestGroups?.RequestGroup?.[0]?.Requests?.length) {
                 return this.createFailedResult(filePath, ERROR_NO_HTTP_FOUND);
             }
             return result;
         } catch (error: unknown) {
-            const execError = error as { stdout?: string; stderr?: string; message?: string; code?: number };
+            const execError = error as ProcessError;
+            
+            if (execError.cancelled) {
+                cancelled = true;
+                this.outputChannel?.appendLine(`[TeaPieExecutor] TeaPie execution was cancelled`);
+                return this.getCancelledResult(execError.stdout || '', filePath, workspaceFolder.uri.fsPath, logPath);
+            }
             
             this.outputChannel?.appendLine(`[TeaPieExecutor] TeaPie execution failed: ${execError.message}`);
             this.outputChannel?.appendLine(`[TeaPieExecutor] Exit code: ${execError.code}`);
@@ -109,7 +204,7 @@ export class TeaPieExecutor {
                         // Continue anyway - file might already exist
                     });
                     
-                    const result = await this.parseOutput(execError.stdout, filePath, workspaceFolder.uri.fsPath, logPath);
+                    const result = await this.parseOutput(execError.stdout, filePath, workspaceFolder.uri.fsPath, logPath, false, reportPath);
                     if (result.RequestGroups?.RequestGroup?.[0]?.Requests?.length) {
                         this.outputChannel?.appendLine(`[TeaPieExecutor] Successfully parsed results despite TeaPie exit code ${execError.code}`);
                         return result;
@@ -124,22 +219,189 @@ export class TeaPieExecutor {
             // If we can't parse useful results, then treat it as a true execution failure
             this.outputChannel?.appendLine(`[TeaPieExecutor] No valid results found, treating as execution failure`);
             throw new Error(this.mapConnectionError(meaningfulError));
+        } finally {
+            await this.recordRun(workspaceFolder.uri.fsPath, timestamp, {
+                target,
+                request: options.request,
+                environment: currentEnv,
+                duration: Date.now() - timestamp,
+                cancelled: cancelled || undefined
+            });
+        }
+    }
+
+    /**
+     * Rebuilds the results of an earlier run from its log and report files
+     * @param request - Set when only one request of the file was run, whose collection is built again to read the log
+     */
+    static async loadRunResults(filePath: string, logPath: string, reportPath?: string, request?: SingleRequestSelection): Promise<HttpRequestResults> {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        if (!workspaceFolder) {
+            throw new Error('No workspace folder is open');
+        }
+        const collection = request
+            ? await SingleRequestCollectionBuilder.create(filePath, request.index, request.includeTests)
+            : undefined;
+        try {
+            // Without a report the run did not finish, so pending requests must not be shown as completed
+            return await this.parseOutput('', collection?.requestFile ?? filePath, workspaceFolder.uri.fsPath, logPath, !reportPath, reportPath);
+        } finally {
+            if (collection) {
+                await fs.rm(path.dirname(collection.requestFile), { recursive: true, force: true });
+            }
+        }
+    }
+
+    private static async recordRun(workspacePath: string, timestamp: number, metadata: RunMetadata): Promise<void> {
+        await RunHistoryService.recordRun(workspacePath, timestamp, metadata);
+        await RunHistoryService.pruneRuns(workspacePath).catch(error => {
+            this.outputChannel?.appendLine(`[TeaPieExecutor] Failed to prune run history: ${error}`);
+        });
+    }
+
+    /**
+     * Spawns the TeaPie CLI and streams its output to the output channel as it arrives.
+     * Rejects with stdout, stderr and exit code attached when TeaPie fails or times out.
+     */
+    private static runTeaPieProcess(
+        installation: TeaPieInstallation,
+        args: string[],
+        cwd: string,
+        timeout: number,
+        token?: vscode.CancellationToken
+    ): Promise<ProcessOutput> {
+        return new Promise((resolve, reject) => {
+            // A separate process group on POSIX lets us kill TeaPie together with the dotnet processes it starts
+            const child = spawn(installation.command, [...installation.commandArgs, ...args], { cwd, detached: process.platform !== 'win32' });
+            let stdout = '';
+            let stderr = '';
+            let timedOut = false;
+            let cancelled = false;
+
+            const timer = setTimeout(() => {
+                timedOut = true;
+                this.stop(child);
+            }, timeout);
+
+            const cancellation = token?.onCancellationRequested(() => {
+                cancelled = true;
+                this.stop(child);
+            });
+
+            child.stdout.on('data', (data: Buffer) => {
+                const text = data.toString();
+                stdout += text;
+                this.outputChannel?.append(text);
+            });
+            child.stderr.on('data', (data: Buffer) => {
+                const text = data.toString();
+                stderr += text;
+                this.outputChannel?.append(text);
+            });
+
+            child.on('error', error => {
+                clearTimeout(timer);
+                cancellation?.dispose();
+                reject(Object.assign(error, { stdout, stderr }));
+            });
+
+            child.on('close', code => {
+                clearTimeout(timer);
+                cancellation?.dispose();
+                if (code === 0 && !timedOut && !cancelled) {
+                    resolve({ stdout, stderr });
+                    return;
+                }
+                let message = `Command failed: ${TeaPieLocator.getCommandLine(installation, args)}`;
+                if (cancelled) {
+                    message = 'TeaPie execution was cancelled';
+                } else if (timedOut) {
+                    message = `TeaPie execution timeout after ${timeout}ms`;
+                }
+                reject(Object.assign(new Error(message), { stdout, stderr, code, cancelled }));
+            });
+
+            if (token?.isCancellationRequested) {
+                cancelled = true;
+                this.stop(child);
+            }
+        });
+    }
+
+    private static stop(child: ChildProcess): void {
+        killProcessTree(child, message => this.outputChannel?.appendLine(`[TeaPieExecutor] ${message}`));
+    }
+
+    /**
+     * Builds results from whatever TeaPie wrote before it was cancelled and marks them as cancelled
+     */
+    private static async getCancelledResult(
+        stdout: string,
+        filePath: string,
+        workspacePath: string,
+        logPath: string
+    ): Promise<HttpRequestResults> {
+        let result: HttpRequestResults;
+        try {
+            result = await this.parseOutput(stdout, filePath, workspacePath, logPath, true);
+        } catch (parseError) {
+            this.outputChannel?.appendLine(`[TeaPieExecutor] Failed to parse partial results: ${parseError}`);
+            result = this.createFailedResult(filePath, ERROR_CANCELLED);
         }
+        
+        const group = result.RequestGroups.RequestGroup[0];
+        if (!group.Requests.some(r => r.Request)) {
+            group.Requests = [];
+        }
+        
+        // Requests that were still in flight when TeaPie was killed
+        group.Requests.filter(r => r.Request && !r.Response).forEach(r => {
+            r.Status = STATUS_CANCELLED;
+        });
+        
+        // Add the requests TeaPie did not get to
+        const httpFileRequests = await HttpFileParser.parseHttpFileForNames(filePath).catch(() => []);
+        httpFileRequests.slice(group.Requests.filter(r => r.Request).length).forEach(req => {
+            group.Requests.push({
+                Name: req.name || req.title || `${req.method} ${req.url}`,
+                Status: STATUS_CANCELLED,
+                Duration: '0ms'
+            });
+        });
+        
+        group.Status = STATUS_CANCELLED;
+        group.Cancelled = true;
+        return result;
+    }
+
+    private static async createLogFollower(logPath: string, filePath: string, onProgress: (event: LogStreamEvent) => void): Promise<LogFileFollower> {
+        const httpFileRequests = await HttpFileParser.parseHttpFileForNames(filePath).catch(() => []);
+        const streamState = LogFileParser.createLogStreamState(httpFileRequests);
+        return new LogFileFollower(logPath, lines => LogFileParser.processLogLines(lines, streamState, onProgress));
     }
 
     /**
      * Parses TeaPie log file and returns structured HTTP request results
      */
-    private static async parseOutput(stdout: string, filePath: string, workspacePath: string, logPath: string): Promise<HttpRequestResults> {
+    private static async parseOutput(
+        stdout: string,
+        filePath: string,
+        workspacePath: string,
+        logPath: string,
+        partial = false,
+        reportPath?: string
+    ): Promise<HttpRequestResults> {
         const fileName = path.basename(filePath, path.extname(filePath));
         
-        // Parse test results from XML file
-        const testResultsFromXml = await XmlTestParser.parseTestResultsFromXml(workspacePath, filePath);
+        // Parse test results from XML file - an interrupted run writes no report, so an older one must not be used
+        const testResultsFromXml = partial
+            ? new Map<string, HttpTestResult[]>()
+            : await XmlTestParser.parseTestResultsFromXml(workspacePath, filePath, reportPath);
         
         // Parse the log file to extract request/response data
         let logParseResult: CliParseResult;
         try {
-            logParseResult = await LogFileParser.parseLogFile(logPath, filePath);
+            logParseResult = await LogFileParser.parseLogFile(logPath, filePath, !partial);
             this.outputChannel?.appendLine(`[TeaPieExecutor] Successfully parsed log file: ${logPath}`);
         } catch (logError) {
             this.outputChannel?.appendLine(`[TeaPieExecutor] Failed to parse log file: ${logError}`);
@@ -0,0 +1,26 @@
+/**
+ * Type definitions for the TeaPie installations found on this machine and in the workspace
+ */
+
+/**
+ * Where an installation was found, in the order they are preferred:
+ * - local-tool: a tool manifest (.config/dotnet-tools.json) of the workspace, run with dotnet tool run
+ * - global-tool: a tools directory from DOTNET_TOOLS or ~/.dotnet/tools
+ * - path: a teapie executable on the PATH, or nothing found and teapie is expected there
+ * - nuget-cache: only the package in the NuGet cache, its entry point assembly is run with dotnet
+ */
+export type TeaPieInstallationSource = 'local-tool' | 'global-tool' | 'path' | 'nuget-cache';
+
+export interface TeaPieInstallation {
+    source: TeaPieInstallationSource;
+    /** Package version, undefined when only the PATH is left */
+    version?: string;
+    /** Executable to spawn */
+    command: string;
+    /** Arguments that go before the TeaPie arguments, e.g. tool run teapie or the entry point assembly */
+    commandArgs: string[];
+    /** Tool manifest or directory the installation was found in */
+    location?: string;
+    /** XML documentation files shipped with this version */
+    xmlDocPaths: string[];
+}
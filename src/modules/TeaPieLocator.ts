@@ -0,0 +1,341 @@
+import { Dirent } from 'fs';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+import { TeaPieInstallation, TeaPieInstallationSource } from './TeaPieInstallationTypes';
+import { compareVersions, getLatestVersion } from '../utils/versionUtils';
+
+const PACKAGE_ID = 'teapie.tool';
+const COMMAND_NAME = 'teapie';
+const MANIFEST_PATHS = [path.join('.config', 'dotnet-tools.json'), 'dotnet-tools.json'];
+/** Package folders of the NuGet cache, older TeaPie versions were published as teapie */
+const NUGET_PACKAGE_IDS = [PACKAGE_ID, 'teapie'];
+/** Enough for tools/<framework>/any/TeaPie.xml and the nested package folder of the tool store */
+const MAX_XML_SEARCH_DEPTH = 6;
+/** Describes the entry point of each command of a tool package in tools/<framework>/any */
+const TOOL_SETTINGS_FILE = 'DotnetToolSettings.xml';
+
+const SOURCE_DESCRIPTIONS: { [source in TeaPieInstallationSource]: string } = {
+    'local-tool': 'local tool',
+    'global-tool': 'global tool',
+    'path': 'PATH',
+    'nuget-cache': 'NuGet cache'
+};
+
+interface ToolManifest {
+    tools?: { [packageId: string]: { version?: string; commands?: string[] } };
+}
+
+/**
+ * Finds the TeaPie installation used for a workspace, so the CLI and the XML documentation come from the same version.
+ * Results are cached per workspace until the cache is cleared.
+ */
+export class TeaPieLocator {
+    private static outputChannel: vscode.OutputChannel;
+    private static readonly cache = new Map<string, Promise<TeaPieInstallation>>();
+
+    static setOutputChannel(channel: vscode.OutputChannel) {
+        this.outputChannel = channel;
+    }
+
+    /**
+     * Returns the installation for the workspace, preferring a local tool manifest over global tools, the PATH and the NuGet cache
+     */
+    static locate(workspacePath?: string): Promise<TeaPieInstallation> {
+        const key = workspacePath ?? '';
+        let installation = this.cache.get(key);
+        if (!installation) {
+            installation = this.discover(workspacePath).then(result => {
+                this.outputChannel?.appendLine(`[TeaPieLocator] Using ${this.describe(result)}`);
+                if (result.version && !result.xmlDocPaths.length) {
+                    this.outputChannel?.appendLine(`[TeaPieLocator] No XML documentation found for TeaPie ${result.version}`);
+                }
+                return result;
+            });
+            this.cache.set(key, installation);
+        }
+        return installation;
+    }
+
+    static clearCache(): void {
+        this.cache.clear();
+    }
+
+    /**
+     * Returns a short description such as TeaPie 1.2.0 (global tool at /home/user/.dotnet/tools)
+     */
+    static describe(installation: TeaPieInstallation): string {
+        const version = installation.version ? `TeaPie ${installation.version}` : 'TeaPie';
+        const location = installation.location ? ` at ${installation.location}` : '';
+        return `${version} (${SOURCE_DESCRIPTIONS[installation.source]}${location})`;
+    }
+
+    /**
+     * Returns the command line for logs and terminals, quoting everything except options
+     */
+    static getCommandLine(installation: TeaPieInstallation, args: string[]): string {
+        const quote = (arg: string) => arg.startsWith('-') || !/[\s"]/.test(arg) ? arg : `"${arg}"`;
+        return [installation.command, ...installation.commandArgs, ...args].map(quote).join(' ');
+    }
+
+    private static async discover(workspacePath?: string): Promise<TeaPieInstallation> {
+        if (workspacePath) {
+            const localTool = await this.findLocalTool(workspacePath);
+            if (localTool) {
+                return localTool;
+            }
+        }
+
+        const globalTool = await this.findGlobalTool();
+        if (globalTool) {
+            return globalTool;
+        }
+
+        // An installation the user put on the PATH is what a terminal runs, so it wins over a package that is only cached
+        const pathTool = await this.findOnPath();
+        if (pathTool) {
+            return pathTool;
+        }
+
+        for (const packagesPath of this.getNuGetPackagesPaths()) {
+            for (const packageId of NUGET_PACKAGE_IDS) {
+                const packagePath = path.join(packagesPath, packageId);
+                const version = getLatestVersion(await this.readDirectoryNames(packagePath));
+                if (!version) {
+                    continue;
+                }
+                // The package is run with dotnet, so the CLI is the version whose documentation is loaded
+                const entryPoint = await this.findToolEntryPoint(path.join(packagePath, version));
+                if (!entryPoint) {
+                    this.outputChannel?.appendLine(`[TeaPieLocator] ${path.join(packagePath, version)} has no ${TOOL_SETTINGS_FILE}, it cannot be run`);
+                    continue;
+                }
+                this.outputChannel?.appendLine(`[TeaPieLocator] ${COMMAND_NAME} is not installed as a tool or on the PATH, running the package from the NuGet cache`);
+                return {
+                    source: 'nuget-cache',
+                    version,
+                    command: 'dotnet',
+                    commandArgs: [entryPoint],
+                    location: packagePath,
+                    xmlDocPaths: await this.findXmlDocs(path.join(packagePath, version))
+                };
+            }
+        }
+
+        this.outputChannel?.appendLine(`[TeaPieLocator] No TeaPie installation found, ${COMMAND_NAME} is expected on the PATH`);
+        return { source: 'path', command: COMMAND_NAME, commandArgs: [], xmlDocPaths: [] };
+    }
+
+    /**
+     * Looks for a tool manifest from the workspace up to the file system root, the same way dotnet tool run does
+     */
+    private static async findLocalTool(workspacePath: string): Promise<TeaPieInstallation | undefined> {
+        let directory = path.resolve(workspacePath);
+        while (true) {
+            for (const manifestPath of MANIFEST_PATHS.map(item => path.join(directory, item))) {
+                const manifest = await this.readManifest(manifestPath);
+                if (!manifest) {
+                    continue;
+                }
+                const tool = manifest.tools?.[PACKAGE_ID];
+                if (!tool?.version) {
+                    continue;
+                }
+                const xmlDocPaths = await this.findNuGetXmlDocs(tool.version);
+                if (!xmlDocPaths.length) {
+                    this.outputChannel?.appendLine(`[TeaPieLocator] ${manifestPath} lists TeaPie ${tool.version}, run dotnet tool restore if it is not installed yet`);
+                }
+                return {
+                    source: 'local-tool',
+                    version: tool.version,
+                    command: 'dotnet',
+                    commandArgs: ['tool', 'run', tool.commands?.[0] ?? COMMAND_NAME],
+                    location: manifestPath,
+                    xmlDocPaths
+                };
+            }
+
+            const parent = path.dirname(directory);
+            if (parent === directory) {
+                return undefined;
+            }
+            directory = parent;
+        }
+    }
+
+    /**
+     * Looks for the teapie executable in the tools directories
+     */
+    private static async findGlobalTool(): Promise<TeaPieInstallation | undefined> {
+        for (const toolsPath of this.getToolsPaths()) {
+            const tool = await this.findExecutable(toolsPath, 'global-tool');
+            if (tool) {
+                return tool;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Looks for the teapie executable in the directories of the PATH, e.g. a tool installed with --tool-path
+     */
+    private static async findOnPath(): Promise<TeaPieInstallation | undefined> {
+        const directories = (process.env.PATH ?? '').split(path.delimiter).filter(item => item.trim());
+        for (const directory of this.unique(directories)) {
+            const tool = await this.findExecutable(directory, 'path');
+            if (tool) {
+                return tool;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Returns the teapie executable of a directory, the package of a dotnet tool is kept in the .store folder next to it
+     */
+    private static async findExecutable(directory: string, source: TeaPieInstallationSource): Promise<TeaPieInstallation | undefined> {
+        const executableNames = process.platform === 'win32' ? [`${COMMAND_NAME}.exe`, COMMAND_NAME] : [COMMAND_NAME];
+        let executable: string | undefined;
+        for (const name of executableNames) {
+            if (await this.isFile(path.join(directory, name))) {
+                executable = path.join(directory, name);
+                break;
+            }
+        }
+        if (!executable) {
+            return undefined;
+        }
+
+        const storePath = path.join(directory, '.store', PACKAGE_ID);
+        const version = getLatestVersion(await this.readDirectoryNames(storePath));
+        let xmlDocPaths = version ? await this.findXmlDocs(path.join(storePath, version)) : [];
+        if (version && !xmlDocPaths.length) {
+            xmlDocPaths = await this.findNuGetXmlDocs(version);
+        }
+        return {
+            source,
+            version,
+            command: executable,
+            commandArgs: [],
+            location: directory,
+            xmlDocPaths
+        };
+    }
+
+    /**
+     * Returns the assembly that dotnet runs for the command of a tool package, from the newest target framework
+     */
+    private static async findToolEntryPoint(packageVersionPath: string): Promise<string | undefined> {
+        const toolsPath = path.join(packageVersionPath, 'tools');
+        const frameworkVersion = (framework: string) => framework.replace(/^net(coreapp)?/i, '');
+        const frameworks = (await this.readDirectoryNames(toolsPath))
+            .sort((a, b) => compareVersions(frameworkVersion(b), frameworkVersion(a)));
+
+        for (const framework of frameworks) {
+            const directory = path.join(toolsPath, framework, 'any');
+            let settings: string;
+            try {
+                settings = await fs.readFile(path.join(directory, TOOL_SETTINGS_FILE), 'utf8');
+            } catch {
+                continue;
+            }
+            // e.g. <Command Name="teapie" EntryPoint="TeaPie.Tool.dll" Runner="dotnet" />
+            const command = settings.match(/<Command\b[^>]*>/)?.[0] ?? '';
+            const entryPoint = command.match(/\bEntryPoint="([^"]+)"/)?.[1];
+            if (entryPoint && /\bRunner="dotnet"/.test(command)) {
+                return path.join(directory, entryPoint);
+            }
+        }
+        return undefined;
+    }
+
+    private static async findNuGetXmlDocs(version: string): Promise<string[]> {
+        for (const packagesPath of this.getNuGetPackagesPaths()) {
+            for (const packageId of NUGET_PACKAGE_IDS) {
+                // NuGet stores package folders in lower case
+                const xmlDocPaths = await this.findXmlDocs(path.join(packagesPath, packageId, version.toLowerCase()));
+                if (xmlDocPaths.length) {
+                    return xmlDocPaths;
+                }
+            }
+        }
+        return [];
+    }
+
+    /**
+     * Returns TeaPie*.xml files below the directory, the paths are sorted so the result does not depend on the file system
+     */
+    private static async findXmlDocs(directory: string, depth: number = 0): Promise<string[]> {
+        let entries: Dirent[];
+        try {
+            entries = await fs.readdir(directory, { withFileTypes: true });
+        } catch {
+            return [];
+        }
+
+        const files: string[] = [];
+        for (const entry of entries) {
+            const entryPath = path.join(directory, entry.name);
+            if (entry.isDirectory() && depth < MAX_XML_SEARCH_DEPTH) {
+                files.push(...await this.findXmlDocs(entryPath, depth + 1));
+            } else if (entry.isFile() && /^teapie.*\.xml$/i.test(entry.name)) {
+                files.push(entryPath);
+            }
+        }
+        return files.sort();
+    }
+
+    /**
+     * Tools directories from DOTNET_TOOLS followed by the default ~/.dotnet/tools of each home directory
+     */
+    private static getToolsPaths(): string[] {
+        const configured = (process.env.DOTNET_TOOLS ?? '').split(path.delimiter).filter(item => item.trim());
+        const defaults = this.getHomePaths().map(home => path.join(home, '.dotnet', 'tools'));
+        return this.unique([...configured, ...defaults]);
+    }
+
+    private static getNuGetPackagesPaths(): string[] {
+        const configured = process.env.NUGET_PACKAGES ? [process.env.NUGET_PACKAGES] : [];
+        return this.unique([...configured, ...this.getHomePaths().map(home => path.join(home, '.nuget', 'packages'))]);
+    }
+
+    private static getHomePaths(): string[] {
+        return this.unique([process.env.HOME, process.env.USERPROFILE, os.homedir()]);
+    }
+
+    private static unique(paths: (string | undefined)[]): string[] {
+        const result: string[] = [];
+        for (const item of paths) {
+            if (item && !result.some(existing => path.resolve(existing) === path.resolve(item))) {
+                result.push(item);
+            }
+        }
+        return result;
+    }
+
+    private static async readManifest(manifestPath: string): Promise<ToolManifest | undefined> {
+        try {
+            return JSON.parse(await fs.readFile(manifestPath, 'utf8')) as ToolManifest;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                this.outputChannel?.appendLine(`[TeaPieLocator] Failed to read tool manifest ${manifestPath}: ${error}`);
+            }
+            return undefined;
+        }
+    }
+
+    private static async readDirectoryNames(directory: string): Promise<string[]> {
+        try {
+            const entries = await fs.readdir(directory, { withFileTypes: true });
+            return entries.filter(entry => entry.isDirectory()).map(entry => entry.name);
+        } catch {
+            return [];
+        }
+    }
+
+    private static async isFile(filePath: string): Promise<boolean> {
+        return fs.stat(filePath).then(stats => stats.isFile()).catch(() => false);
+    }
+}
@@ -0,0 +1,99 @@
+import { HttpDocumentParser } from './HttpDocumentParser';
+import { HttpSourceRange } from './HttpDocumentTypes';
+import { VariableOccurrence } from './VariableTypes';
+
+/**
+ * Calls of the TeaPie variable API with a literal name, e.g. tp.SetVariable("token", ...),
+ * tp.GetVariable<string>("token") or tp.CollectionVariables.Set("token", ...)
+ */
+const SCRIPT_VARIABLE_PATTERN = /\b(SetVariable|GetVariable|ContainsVariable|RemoveVariable|(?:Global|Environment|Collection|TestCase)Variables\.(?:Set|Get|Contains|Remove))\s*(?:<[^()"]*>)?\s*\(\s*"([^"\\]+)"/g;
+/** Request variables such as {{Login.response.body.$.token}} belong to requests, not to the variable store */
+const REQUEST_VARIABLE_PATTERN = /^[\w-]+\.(request|response)\./i;
+/** Names TeaPie accepts for variables */
+const VARIABLE_NAME_PATTERN = /^[A-Za-z_][\w.-]*$/;
+
+/**
+ * Finds where variables are defined and used, the basis of go-to-definition, references and rename
+ */
+export class VariableLocator {
+
+    static isValidName(name: string): boolean {
+        return VARIABLE_NAME_PATTERN.test(name) && !REQUEST_VARIABLE_PATTERN.test(name);
+    }
+
+    /**
+     * Finds the {{variable}} references of an .http file, skipping functions such as {{$guid}} and request variables
+     */
+    static findInHttpFile(content: string): VariableOccurrence[] {
+        return HttpDocumentParser.parse(content).variables
+            .filter(variable => !variable.name.startsWith('$') && !REQUEST_VARIABLE_PATTERN.test(variable.name))
+            .map(variable => ({ name: variable.name, kind: 'http', range: variable.nameRange, isDefinition: false }));
+    }
+
+    /**
+     * Finds the variable API calls of a .csx script, Set calls are definitions
+     */
+    static findInScript(content: string): VariableOccurrence[] {
+        const occurrences: VariableOccurrence[] = [];
+        content.split(/\r?\n/).forEach((line, lineIndex) => {
+            for (const match of line.matchAll(SCRIPT_VARIABLE_PATTERN)) {
+                const nameStart = match.index! + match[0].length - match[2].length;
+                occurrences.push({
+                    name: match[2],
+                    kind: 'script',
+                    range: this.range(lineIndex, nameStart, nameStart + match[2].length),
+                    isDefinition: /Set(Variable)?$/.test(match[1])
+                });
+            }
+        });
+        return occurrences;
+    }
+
+    /**
+     * Finds the variable keys of every environment in an env.json file
+     */
+    static findInEnvironmentFile(content: string): VariableOccurrence[] {
+        const occurrences: VariableOccurrence[] = [];
+        let depth = 0;
+        let line = 0;
+        let lineStart = 0;
+        let environment: string | undefined;
+
+        for (let i = 0; i < content.length; i++) {
+            const char = content[i];
+            if (char === '\n') {
+                line++;
+                lineStart = i + 1;
+            } else if (char === '{' || char === '[') {
+                depth++;
+            } else if (char === '}' || char === ']') {
+                depth--;
+            } else if (char === '"') {
+                // JSON strings cannot span lines, so the line stays the same
+                let end = i + 1;
+                while (end < content.length && content[end] !== '"') {
+                    end += content[end] === '\\' ? 2 : 1;
+                }
+                const text = content.slice(i + 1, end);
+                const isKey = /^\s*:/.test(content.slice(end + 1, end + 64));
+                if (isKey && depth === 1) {
+                    environment = text;
+                } else if (isKey && depth === 2 && environment !== undefined) {
+                    occurrences.push({
+                        name: text,
+                        kind: 'environment',
+                        range: this.range(line, i + 1 - lineStart, end - lineStart),
+                        isDefinition: true,
+                        environment
+                    });
+                }
+                i = end;
+            }
+        }
+        return occurrences;
+    }
+
+    private static range(line: number, startCharacter: number, endCharacter: number): HttpSourceRange {
+        return { startLine: line, startCharacter, endLine: line, endCharacter };
+    }
+}
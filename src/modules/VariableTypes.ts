@@ -0,0 +1,19 @@
+/**
+ * Type definitions for locating TeaPie variables in environments, scripts and .http files
+ */
+
+import { HttpSourceRange } from './HttpDocumentTypes';
+
+/** Where a variable occurs: a key in .teapie/env.json, a tp.*Variable call in a script or a {{reference}} */
+export type VariableOccurrenceKind = 'environment' | 'script' | 'http';
+
+export interface VariableOccurrence {
+    name: string;
+    kind: VariableOccurrenceKind;
+    /** Range of the name only, without quotes or braces */
+    range: HttpSourceRange;
+    /** Whether the occurrence sets the variable, i.e. an env.json key or a Set call */
+    isDefinition: boolean;
+    /** Environment of an env.json key, e.g. $shared or local */
+    environment?: string;
+}
@@ -0,0 +1,59 @@
+import * as vscode from 'vscode';
+
+import { readWorkspaceFile } from '../utils/workspaceUtils';
+
+/**
+ * Keeps what is read from each workspace file matching a glob, e.g. the variables a script sets, so that completions
+ * do not read every file on each request. An entry is read again once its file changes on disk or in an editor.
+ */
+export class WorkspaceFileCache<T> implements vscode.Disposable {
+    private readonly disposables: vscode.Disposable[] = [];
+    private readonly values = new Map<string, Promise<T>>();
+    private uris: Thenable<vscode.Uri[]> | undefined;
+
+    constructor(
+        private readonly include: string,
+        private readonly exclude: string | undefined,
+        private readonly read: (content: string) => T
+    ) {
+        const watcher = vscode.workspace.createFileSystemWatcher(include);
+        watcher.onDidCreate(() => this.uris = undefined);
+        watcher.onDidDelete(uri => {
+            this.uris = undefined;
+            this.values.delete(uri.toString());
+        });
+        watcher.onDidChange(uri => this.values.delete(uri.toString()));
+        this.disposables.push(
+            watcher,
+            vscode.workspace.onDidChangeTextDocument(event => this.values.delete(event.document.uri.toString())),
+            // The saved content counts again once unsaved edits are discarded
+            vscode.workspace.onDidCloseTextDocument(document => this.values.delete(document.uri.toString()))
+        );
+    }
+
+    /**
+     * Returns the value of each matching file, in the order of vscode.workspace.findFiles
+     */
+    async getAll(): Promise<{ uri: vscode.Uri; value: T }[]> {
+        if (!this.uris) {
+            this.uris = vscode.workspace.findFiles(this.include, this.exclude);
+        }
+        const uris = await this.uris;
+        return Promise.all(uris.map(async uri => ({ uri, value: await this.get(uri) })));
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.values.clear();
+    }
+
+    private get(uri: vscode.Uri): Promise<T> {
+        const key = uri.toString();
+        let value = this.values.get(key);
+        if (!value) {
+            value = readWorkspaceFile(uri).then(content => this.read(content ?? ''));
+            this.values.set(key, value);
+        }
+        return value;
+    }
+}
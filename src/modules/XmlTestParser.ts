@@ -1,6 +1,7 @@
 import * as fs from 'fs/promises';
 import * as vscode from 'vscode';
 import { HttpTestResult } from './HttpRequestTypes';
+import { JUnitReportParser } from './JUnitReportParser';
 
 /**
  * Parses XML test reports from TeaPie execution
@@ -12,84 +13,37 @@ export class XmlTestParser {
         this.outputChannel = channel;
     }
 
-    static async parseTestResultsFromXml(workspacePath: string, filePath: string): Promise<Map<string, HttpTestResult[]>> {
+    /**
+     * Parses test results for the given HTTP file, from the given report or the most recent one
+     */
+    static async parseTestResultsFromXml(workspacePath: string, filePath: string, explicitReportPath?: string): Promise<Map<string, HttpTestResult[]>> {
         const testResults = new Map<string, HttpTestResult[]>();
         
         try {
-            // Look for the most recent test report file
-            const reportsDir = `${workspacePath}/.teapie/reports`;
-            
-            let reportPath: string;
-            try {
-                // First try the expected last-run-report.xml
-                reportPath = `${reportsDir}/last-run-report.xml`;
-                await fs.access(reportPath);
-                this.outputChannel?.appendLine(`[XmlTestParser] Found last-run-report.xml`);
-            } catch {
-                // If not found, look for the most recent timestamped report
-                try {
-                    const files = await fs.readdir(reportsDir);
-                    const reportFiles = files.filter((f: string) => f.startsWith('run-') && f.endsWith('-report.xml'));
-                    
-                    if (reportFiles.length === 0) {
-                        this.outputChannel?.appendLine(`[XmlTestParser] No test report files found in ${reportsDir}`);
-                        return testResults;
-                    }
-                    
-                    // Sort by timestamp (newest first) and take the most recent
-                    reportFiles.sort((a: string, b: string) => {
-                        const timestampA = parseInt(a.match(/run-(\d+)-report\.xml/)?.[1] || '0');
-                        const timestampB = parseInt(b.match(/run-(\d+)-report\.xml/)?.[1] || '0');
-                        return timestampB - timestampA;
-                    });
-                    
-                    reportPath = `${reportsDir}/${reportFiles[0]}`;
-                    this.outputChannel?.appendLine(`[XmlTestParser] Using most recent report: ${reportFiles[0]}`);
-                } catch (dirError) {
-                    this.outputChannel?.appendLine(`[XmlTestParser] Failed to read reports directory: ${dirError}`);
-                    return testResults;
-                }
+            const reportPath = explicitReportPath ?? await this.findLatestReport(`${workspacePath}/.teapie/reports`);
+            if (!reportPath) {
+                return testResults;
             }
             
-            const xmlContent = await fs.readFile(reportPath, 'utf8');
+            const report = await JUnitReportParser.parseFile(reportPath);
             this.outputChannel?.appendLine(`[XmlTestParser] Successfully read XML report file: ${reportPath}`);
             
-            const testSuiteRegex = /<testsuite[^>]*name="([^"]*)"[^>]*>([\s\S]*?)<\/testsuite>/gs;
-            const testCaseRegex = /<testcase[^>]*?name="([^"]*?)"[^>]*?(?:\s*\/\s*>|>([\s\S]*?)<\/testcase>)/g;
-            const failureRegex = /<failure[^>]*message="([^"]*)"[^>]*(?:type="([^"]*)")?[^>]*>([\s\S]*?)<\/failure>/s;
-            
             // Get all HTTP requests from the file
             const allTestsByRequest = new Map<string, HttpTestResult[]>();
             
-            let testSuiteMatch;
-            while ((testSuiteMatch = testSuiteRegex.exec(xmlContent)) !== null) {
-                const suiteName = this.decodeXmlEntities(testSuiteMatch[1]);
-                const suiteContent = testSuiteMatch[2];
-                const allTests: HttpTestResult[] = [];
-                
-                let testCaseMatch;
-                testCaseRegex.lastIndex = 0;
-                while ((testCaseMatch = testCaseRegex.exec(suiteContent)) !== null) {
-                    const testName = this.decodeXmlEntities(testCaseMatch[1]);
-                    const testContent = testCaseMatch[2] || '';
-                    
-                    let passed = true;
-                    let message: string | undefined = undefined;
-                    
-                    const failureMatch = failureRegex.exec(testContent);
-                    if (failureMatch) {
-                        passed = false;
-                        message = this.decodeXmlEntities(failureMatch[1]);
-                    }
-                    
-                    const testResult: HttpTestResult = {
-                        Name: testName,
-                        Passed: passed,
-                        Message: message
+            for (const suite of JUnitReportParser.flattenSuites(report.suites)) {
+                const suiteName = suite.name;
+                const allTests: HttpTestResult[] = suite.testCases.map(testCase => {
+                    const problem = testCase.error || testCase.failure;
+                    return {
+                        Name: testCase.name,
+                        Passed: !problem,
+                        Message: problem ? problem.message || problem.details : undefined,
+                        Skipped: testCase.status === 'skipped' || undefined,
+                        // JUnit reports time in seconds
+                        Duration: Math.round(testCase.time * 1000)
                     };
-                    
-                    allTests.push(testResult);
-                }
+                });
                 
                 if (allTests.length) {
                     if (suiteName.includes('Custom CSX Tests')) {
@@ -151,16 +105,40 @@ export class XmlTestParser {
     }
 
     /**
-     * Decodes XML entities in strings
+     * Finds last-run-report.xml or, if missing, the newest timestamped report
      */
-    private static decodeXmlEntities(str: string): string {
-        return str
-            .replace(/&amp;/g, '&')
-            .replace(/&lt;/g, '<')
-            .replace(/&gt;/g, '>')
-            .replace(/&quot;/g, '"')
-            .replace(/&#x([0-9A-Fa-f]+);/g, (match, hex) => String.fromCharCode(parseInt(hex, 16)))
-            .replace(/&#(\d+);/g, (match, dec) => String.fromCharCode(parseInt(dec, 10)));
+    private static async findLatestReport(reportsDir: string): Promise<string | undefined> {
+        try {
+            // First try the expected last-run-report.xml
+            const reportPath = `${reportsDir}/last-run-report.xml`;
+            await fs.access(reportPath);
+            this.outputChannel?.appendLine(`[XmlTestParser] Found last-run-report.xml`);
+            return reportPath;
+        } catch {
+            // If not found, look for the most recent timestamped report
+            try {
+                const files = await fs.readdir(reportsDir);
+                const reportFiles = files.filter((f: string) => f.startsWith('run-') && f.endsWith('-report.xml'));
+                
+                if (reportFiles.length === 0) {
+                    this.outputChannel?.appendLine(`[XmlTestParser] No test report files found in ${reportsDir}`);
+                    return undefined;
+                }
+                
+                // Sort by timestamp (newest first) and take the most recent
+                reportFiles.sort((a: string, b: string) => {
+                    const timestampA = parseInt(a.match(/run-(\d+)-report\.xml/)?.[1] || '0');
+                    const timestampB = parseInt(b.match(/run-(\d+)-report\.xml/)?.[1] || '0');
+                    return timestampB - timestampA;
+                });
+                
+                this.outputChannel?.appendLine(`[XmlTestParser] Using most recent report: ${reportFiles[0]}`);
+                return `${reportsDir}/${reportFiles[0]}`;
+            } catch (dirError) {
+                this.outputChannel?.appendLine(`[XmlTestParser] Failed to read reports directory: ${dirError}`);
+                return undefined;
+            }
+        }
     }
 
     /**
@@ -0,0 +1,94 @@
+import * as assert from 'assert';
+
+import { CurlParser } from '../../modules/CurlParser';
+
+suite('CurlParser', () => {
+    test('recognizes curl commands', () => {
+        assert.ok(CurlParser.isCurlCommand('curl https://example.com'));
+        assert.ok(CurlParser.isCurlCommand('  curl.exe https://example.com'));
+        assert.ok(!CurlParser.isCurlCommand('GET https://example.com'));
+        assert.ok(!CurlParser.isCurlCommand('curly https://example.com'));
+    });
+
+    test('parses a GET request without options', () => {
+        const request = CurlParser.parse('curl https://example.com/users');
+
+        assert.strictEqual(request.method, 'GET');
+        assert.strictEqual(request.url, 'https://example.com/users');
+        assert.deepStrictEqual(request.headers, []);
+        assert.strictEqual(request.requestBody, undefined);
+    });
+
+    test('parses method, headers and body as copied from browser devtools', () => {
+        const request = CurlParser.parse(
+            `curl 'https://example.com/users' \\\n  -X 'PUT' \\\n  -H 'Content-Type: application/json' \\\n  --data-raw '{"name":"Tea"}' \\\n  --compressed`
+        );
+
+        assert.strictEqual(request.method, 'PUT');
+        assert.deepStrictEqual(request.headers, [{ name: 'Content-Type', value: 'application/json' }]);
+        assert.strictEqual(request.requestBody, '{"name":"Tea"}');
+    });
+
+    test('defaults to POST with a form content type when data is sent', () => {
+        const request = CurlParser.parse('curl -d a=1 -d b=2 https://example.com');
+
+        assert.strictEqual(request.method, 'POST');
+        assert.strictEqual(request.requestBody, 'a=1&b=2');
+        assert.deepStrictEqual(request.headers, [{ name: 'Content-Type', value: 'application/x-www-form-urlencoded' }]);
+    });
+
+    test('appends data to the URL with -G', () => {
+        const request = CurlParser.parse('curl -G https://example.com/search?q=1 --data-urlencode "name=tea pie"');
+
+        assert.strictEqual(request.method, 'GET');
+        assert.strictEqual(request.url, 'https://example.com/search?q=1&name=tea%20pie');
+        assert.strictEqual(request.requestBody, undefined);
+    });
+
+    test('splits combined short flags and attached values', () => {
+        const request = CurlParser.parse('curl -sSLXDELETE -HAccept:text/plain https://example.com/1');
+
+        assert.strictEqual(request.method, 'DELETE');
+        assert.deepStrictEqual(request.headers, [{ name: 'Accept', value: 'text/plain' }]);
+    });
+
+    test('skips the value of ignored options so it is not taken for the URL', () => {
+        const request = CurlParser.parse('curl --max-redirs 5 -o out.json --retry=3 https://example.com');
+
+        assert.strictEqual(request.url, 'https://example.com');
+    });
+
+    test('translates authentication and cookie options to headers', () => {
+        const request = CurlParser.parse(
+            'curl -u user:secret --oauth2-bearer token -H "Cookie: a=1" -b "b=2" -A TeaPie https://example.com'
+        );
+
+        assert.deepStrictEqual(request.headers, [
+            { name: 'Authorization', value: 'Bearer token' },
+            { name: 'Cookie', value: 'a=1; b=2' },
+            { name: 'User-Agent', value: 'TeaPie' }
+        ]);
+    });
+
+    test('sets JSON headers for --json', () => {
+        const request = CurlParser.parse(`curl --json '{"a":1}' https://example.com`);
+
+        assert.strictEqual(request.method, 'POST');
+        assert.deepStrictEqual(request.headers, [
+            { name: 'Content-Type', value: 'application/json' },
+            { name: 'Accept', value: 'application/json' }
+        ]);
+    });
+
+    test('rejects bodies that cannot be written as a request block', () => {
+        assert.throws(() => CurlParser.parse('curl -F file=@a.png https://example.com'), /multipart form/);
+        assert.throws(() => CurlParser.parse('curl -T a.txt https://example.com'), /uploads a file/);
+        assert.throws(() => CurlParser.parse('curl -d @body.json https://example.com'), /reads the body from a file/);
+    });
+
+    test('rejects commands without a URL or that are not curl', () => {
+        assert.throws(() => CurlParser.parse('curl -X POST'), /has no URL/);
+        assert.throws(() => CurlParser.parse('wget https://example.com'), /not a curl command/);
+        assert.throws(() => CurlParser.parse('curl https://example.com -H'), /-H requires a value/);
+    });
+});
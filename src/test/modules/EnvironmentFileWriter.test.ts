@@ -0,0 +1,59 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+import { EnvironmentFileWriter } from '../../modules/EnvironmentFileWriter';
+
+suite('EnvironmentFileWriter', () => {
+    let workspacePath: string;
+    let envFilePath: string;
+
+    setup(async () => {
+        workspacePath = await fs.mkdtemp(path.join(os.tmpdir(), 'teapie-env-'));
+        envFilePath = EnvironmentFileWriter.getEnvironmentFilePath(workspacePath);
+    });
+
+    teardown(async () => {
+        await fs.rm(workspacePath, { recursive: true, force: true });
+    });
+
+    const readEnvironments = async () => JSON.parse(await fs.readFile(envFilePath, 'utf8'));
+
+    test('creates the file with the merged environment', async () => {
+        const written = await EnvironmentFileWriter.merge(envFilePath, 'dev', { baseUrl: 'https://dev.example.com' }, false);
+
+        assert.strictEqual(written, 1);
+        assert.deepStrictEqual(await readEnvironments(), { $shared: {}, local: {}, dev: { baseUrl: 'https://dev.example.com' } });
+    });
+
+    test('keeps existing values unless overwrite is set', async () => {
+        await EnvironmentFileWriter.merge(envFilePath, '$shared', { baseUrl: 'https://example.com', retries: 3 }, false);
+
+        assert.strictEqual(await EnvironmentFileWriter.merge(envFilePath, '$shared', { baseUrl: 'https://new.example.com', token: 'a' }, false), 1);
+        assert.deepStrictEqual((await readEnvironments()).$shared, { baseUrl: 'https://example.com', retries: 3, token: 'a' });
+
+        assert.strictEqual(await EnvironmentFileWriter.merge(envFilePath, '$shared', { baseUrl: 'https://new.example.com' }, true), 1);
+        assert.deepStrictEqual((await readEnvironments()).$shared, { baseUrl: 'https://new.example.com', retries: 3, token: 'a' });
+    });
+
+    test('finds variables that a merge would replace with a different value', async () => {
+        await EnvironmentFileWriter.merge(envFilePath, '$shared', { baseUrl: 'https://example.com', retries: 3 }, false);
+
+        const conflicts = await EnvironmentFileWriter.findConflicts(envFilePath, '$shared', {
+            baseUrl: 'https://new.example.com',
+            retries: 3,
+            token: 'a'
+        });
+
+        assert.deepStrictEqual(conflicts, ['baseUrl']);
+        assert.deepStrictEqual(await EnvironmentFileWriter.findConflicts(envFilePath, 'dev', { baseUrl: 'x' }), []);
+    });
+
+    test('reports an env.json that is not valid JSON', async () => {
+        await fs.mkdir(path.dirname(envFilePath), { recursive: true });
+        await fs.writeFile(envFilePath, '{ not json');
+
+        await assert.rejects(EnvironmentFileWriter.merge(envFilePath, 'dev', { a: 1 }, false), /Failed to read env\.json/);
+    });
+});
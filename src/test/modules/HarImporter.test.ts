@@ -0,0 +1,121 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+import { HarImporter } from '../../modules/HarImporter';
+import { HarEntry, HarLog } from '../../modules/HarTypes';
+
+function createEntry(method: string, url: string, overrides: Partial<HarEntry> = {}): HarEntry {
+    return {
+        startedDateTime: '2024-01-01T00:00:00.000Z',
+        time: 10,
+        request: {
+            method,
+            url,
+            httpVersion: 'HTTP/1.1',
+            headers: [],
+            queryString: [],
+            cookies: [],
+            headersSize: -1,
+            bodySize: -1
+        },
+        response: {
+            status: 200,
+            statusText: 'OK',
+            httpVersion: 'HTTP/1.1',
+            headers: [],
+            cookies: [],
+            content: { size: 0, mimeType: 'application/json' },
+            redirectURL: '',
+            headersSize: -1,
+            bodySize: -1
+        },
+        cache: {},
+        timings: { send: 0, wait: 10, receive: 0 },
+        ...overrides
+    };
+}
+
+function createHar(entries: HarEntry[]): HarLog {
+    return { log: { version: '1.2', creator: { name: 'test', version: '1.0' }, entries } };
+}
+
+suite('HarImporter', () => {
+    test('recognizes HAR content', () => {
+        assert.ok(HarImporter.isHar(createHar([])));
+        assert.ok(!HarImporter.isHar({ info: {}, item: [] }));
+        assert.ok(!HarImporter.isHar(undefined));
+    });
+
+    test('names the output folder after the HAR file', () => {
+        assert.strictEqual(
+            HarImporter.getOutputDirectory(path.join('captures', 'login flow.har'), 'Tests'),
+            path.join('Tests', 'login flow')
+        );
+    });
+
+    test('converts a captured request, skipping headers the client computes', () => {
+        const entry = createEntry('post', 'https://example.com/api/users');
+        entry.request.headers = [
+            { name: ':authority', value: 'example.com' },
+            { name: 'Host', value: 'example.com' },
+            { name: 'Accept-Encoding', value: 'gzip' },
+            { name: 'Authorization', value: 'Bearer token' }
+        ];
+        entry.request.postData = { mimeType: 'application/json', text: '{"name":"Tea"}' };
+
+        const request = HarImporter.toRequest(entry);
+
+        assert.strictEqual(request.name, 'PostUsers');
+        assert.strictEqual(request.method, 'POST');
+        assert.strictEqual(request.url, 'https://example.com/api/users');
+        assert.deepStrictEqual(request.headers, [
+            { name: 'Authorization', value: 'Bearer token' },
+            { name: 'Content-Type', value: 'application/json' }
+        ]);
+        assert.strictEqual(request.requestBody, '{"name":"Tea"}');
+    });
+
+    test('encodes form parameters when the body has no text', () => {
+        const entry = createEntry('POST', 'https://example.com/login', { _name: 'Log in' });
+        entry.request.postData = {
+            mimeType: 'application/x-www-form-urlencoded',
+            params: [{ name: 'user', value: 'tea pie' }, { name: 'remember', value: 'on' }]
+        };
+
+        const request = HarImporter.toRequest(entry);
+
+        assert.strictEqual(request.name, 'LogIn');
+        assert.strictEqual(request.requestBody, 'user=tea%20pie&remember=on');
+    });
+
+    suite('importHar', () => {
+        let outputDir: string;
+
+        setup(async () => {
+            outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'teapie-har-'));
+        });
+
+        teardown(async () => {
+            await fs.rm(outputDir, { recursive: true, force: true });
+        });
+
+        test('writes a numbered test case per API call and skips static resources', async () => {
+            const har = createHar([
+                createEntry('GET', 'https://example.com/api/users', { _resourceType: 'fetch' }),
+                createEntry('GET', 'https://example.com/logo.png', { _resourceType: 'image' }),
+                createEntry('DELETE', 'https://example.com/api/users/1', { _resourceType: 'xhr' })
+            ]);
+
+            const result = await HarImporter.importHar(har, outputDir);
+
+            assert.strictEqual(result.requests, 2);
+            assert.strictEqual(result.skipped, 1);
+            assert.deepStrictEqual(result.files.map(file => path.basename(file)), ['1. Get users-req.http', '2. Delete 1-req.http']);
+            const content = await fs.readFile(result.files[0], 'utf8');
+            assert.ok(content.includes('## TEST-EXPECT-STATUS: [200]'));
+            assert.ok(content.includes('GET https://example.com/api/users'));
+        });
+    });
+});
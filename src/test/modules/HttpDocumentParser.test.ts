@@ -0,0 +1,119 @@
+import * as assert from 'assert';
+
+import { HttpDocumentParser } from '../../modules/HttpDocumentParser';
+
+const CONTENT = [
+    '@baseUrl = https://example.com',
+    '',
+    '### Create user',
+    '# @name CreateUser',
+    '## TEST-EXPECT-STATUS: [201]',
+    'POST {{baseUrl}}/users HTTP/1.1',
+    'Content-Type: application/json',
+    'not a header',
+    '',
+    '{',
+    '    "name": "{{name}}"',
+    '}',
+    '',
+    '###',
+    '// Lists users',
+    'GET {{baseUrl}}/users',
+    '',
+    '## TEST-HAS-BODY'
+].join('\n');
+
+suite('HttpDocumentParser', () => {
+    teardown(() => {
+        HttpDocumentParser.clear();
+    });
+
+    test('parses requests with their title, name, directives, headers and body', () => {
+        const document = HttpDocumentParser.parse(CONTENT);
+
+        assert.strictEqual(document.requests.length, 2);
+        const [create, list] = document.requests;
+        assert.strictEqual(create.index, 0);
+        assert.strictEqual(create.title, 'Create user');
+        assert.strictEqual(create.name, 'CreateUser');
+        assert.deepStrictEqual(
+            { method: create.requestLine.method, url: create.requestLine.url, httpVersion: create.requestLine.httpVersion },
+            { method: 'POST', url: '{{baseUrl}}/users', httpVersion: 'HTTP/1.1' }
+        );
+        assert.deepStrictEqual(create.directives.map(directive => [directive.name, directive.kind, directive.value]), [
+            ['TEST-EXPECT-STATUS', 'test', '[201]']
+        ]);
+        assert.deepStrictEqual(create.headers.map(header => [header.name, header.value]), [['Content-Type', 'application/json']]);
+        assert.deepStrictEqual(create.invalidLines.map(line => line.text), ['not a header']);
+        assert.strictEqual(create.body?.text, '{\n    "name": "{{name}}"\n}');
+        assert.deepStrictEqual(create.range, { startLine: 2, startCharacter: 0, endLine: 12, endCharacter: 0 });
+
+        assert.strictEqual(list.index, 1);
+        assert.strictEqual(list.title, undefined);
+        assert.deepStrictEqual(list.comments.map(comment => [comment.prefix, comment.text]), [['//', 'Lists users']]);
+    });
+
+    test('reports source ranges of names and values', () => {
+        const create = HttpDocumentParser.parse(CONTENT).requests[0];
+
+        assert.deepStrictEqual(create.requestLine.urlRange, { startLine: 5, startCharacter: 5, endLine: 5, endCharacter: 22 });
+        assert.deepStrictEqual(create.headers[0].valueRange, { startLine: 6, startCharacter: 14, endLine: 6, endCharacter: 30 });
+        assert.deepStrictEqual(create.metaDirectives[0].nameRange, { startLine: 3, startCharacter: 2, endLine: 3, endCharacter: 7 });
+    });
+
+    test('finds variable references and file variable definitions', () => {
+        const document = HttpDocumentParser.parse(CONTENT);
+
+        assert.deepStrictEqual(document.variableDefinitions.map(definition => [definition.name, definition.value]), [
+            ['baseUrl', 'https://example.com']
+        ]);
+        assert.deepStrictEqual(document.requests[0].variables.map(variable => variable.name), ['baseUrl', 'name']);
+        assert.deepStrictEqual(document.requests[0].variables[0].nameRange, { startLine: 5, startCharacter: 7, endLine: 5, endCharacter: 14 });
+        assert.deepStrictEqual(document.variables.map(variable => variable.name), ['baseUrl', 'name', 'baseUrl']);
+    });
+
+    test('keeps directives without a following request line as dangling', () => {
+        const document = HttpDocumentParser.parse(CONTENT);
+
+        assert.deepStrictEqual(document.danglingDirectives.map(directive => directive.name), ['TEST-HAS-BODY']);
+        assert.strictEqual(document.requests[1].directives.length, 0);
+    });
+
+    test('keeps lower-case text and @-lines inside a body', () => {
+        const document = HttpDocumentParser.parse('POST https://example.com\n\nget ready\n@user = tea\n');
+
+        assert.strictEqual(document.requests.length, 1);
+        assert.strictEqual(document.requests[0].body?.text, 'get ready\n@user = tea');
+        assert.deepStrictEqual(document.variableDefinitions, []);
+    });
+
+    test('finds the request at a line and labels it', () => {
+        const document = HttpDocumentParser.parse(CONTENT);
+
+        assert.strictEqual(HttpDocumentParser.getRequestAt(document, 0), undefined);
+        assert.strictEqual(HttpDocumentParser.getRequestAt(document, 8)?.index, 0);
+        assert.strictEqual(HttpDocumentParser.getRequestAt(document, 16)?.index, 1);
+        assert.strictEqual(HttpDocumentParser.getRequestLabel(document.requests[0]), 'CreateUser');
+        assert.strictEqual(HttpDocumentParser.getRequestLabel(document.requests[1]), 'GET {{baseUrl}}/users');
+    });
+
+    test('reuses the model of an unchanged document version', () => {
+        const document = { uri: { toString: () => 'file:///users.http' }, version: 1, getText: () => CONTENT };
+
+        const first = HttpDocumentParser.parseDocument(document);
+
+        assert.strictEqual(HttpDocumentParser.parseDocument(document), first);
+        HttpDocumentParser.forget(document);
+        assert.notStrictEqual(HttpDocumentParser.parseDocument(document), first);
+    });
+
+    test('parses an edited document like a fresh one when unchanged blocks are reused', () => {
+        const document = { uri: { toString: () => 'file:///users.http' }, version: 1, getText: () => CONTENT };
+        HttpDocumentParser.parseDocument(document);
+
+        const edited = `# Users\n${CONTENT}`;
+        const incremental = HttpDocumentParser.parseDocument({ ...document, version: 2, getText: () => edited });
+
+        assert.deepStrictEqual(incremental, HttpDocumentParser.parse(edited));
+    });
+});
@@ -0,0 +1,79 @@
+import * as assert from 'assert';
+
+import { HttpFormatter } from '../../modules/HttpFormatter';
+
+const OPTIONS = { indent: '    ' };
+
+suite('HttpFormatter', () => {
+    test('formats directives, request lines, headers and a JSON body written below the headers', () => {
+        const content = [
+            '@host = x',
+            '',
+            '',
+            '#  @name  GetUser',
+            '##TEST-EXPECT-STATUS:[200]',
+            'get  https://example.com/users  ',
+            'content-type: application/json',
+            'x-api-key:abc',
+            '{"a":1,"b":[1,2]}'
+        ].join('\n');
+
+        assert.strictEqual(HttpFormatter.format(content, OPTIONS), [
+            '@host = x',
+            '',
+            '# @name GetUser',
+            '## TEST-EXPECT-STATUS: [200]',
+            'GET https://example.com/users',
+            'Content-Type: application/json',
+            'X-API-Key: abc',
+            '',
+            '{',
+            '    "a": 1,',
+            '    "b": [',
+            '        1,',
+            '        2',
+            '    ]',
+            '}',
+            ''
+        ].join('\n'));
+    });
+
+    test('separates requests and pretty-prints XML bodies', () => {
+        const content = 'GET https://a\n\n\n\nPOST https://b\n\n<a><b>1</b></a>\n';
+
+        assert.strictEqual(
+            HttpFormatter.format(content, { indent: '\t' }),
+            'GET https://a\n\n###\nPOST https://b\n\n<a>\n\t<b>1</b>\n</a>\n'
+        );
+    });
+
+    test('normalizes separator titles and keeps mixed-case header names', () => {
+        const content = '###  First  \nGET https://a\nX-Api-Version: 2\n\n\n\n###\nGET https://b\netag: x\n';
+
+        assert.strictEqual(HttpFormatter.format(content, OPTIONS), '### First\nGET https://a\nX-Api-Version: 2\n\n###\nGET https://b\nETag: x\n');
+    });
+
+    test('keeps bodies with comments between their lines as written', () => {
+        const content = 'POST https://a\n\n{\n# comment\n"a":1}\n';
+
+        assert.strictEqual(HttpFormatter.format(content, OPTIONS), content);
+    });
+
+    test('does not change a formatted document', () => {
+        const content = 'POST https://a\ncontent-type: application/json\n{"a":{"b":1}}\n###\nget https://b\n';
+        const formatted = HttpFormatter.format(content, OPTIONS);
+
+        assert.strictEqual(HttpFormatter.format(formatted, OPTIONS), formatted);
+    });
+
+    test('formats only the requests in a range', () => {
+        const content = 'GET https://a\n\n###\nget https://b\naccept:  x\n\n\n### c\nGET https://c\n';
+
+        assert.deepStrictEqual(HttpFormatter.formatRange(content, 3, 3, OPTIONS), {
+            startLine: 2,
+            endLine: 4,
+            text: '###\nGET https://b\nAccept: x'
+        });
+        assert.strictEqual(HttpFormatter.formatRange('@host = x\n\nGET https://a\n', 0, 0, OPTIONS), undefined);
+    });
+});
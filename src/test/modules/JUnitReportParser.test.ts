@@ -0,0 +1,77 @@
+import * as assert from 'assert';
+
+import { JUnitReportParser } from '../../modules/JUnitReportParser';
+
+const REPORT = `<?xml version="1.0" encoding="utf-8"?>
+<testsuites name="Users" tests="4" failures="1" errors="0" skipped="1" time="1.5" timestamp="2024-01-01T10:00:00">
+    <testsuite name="Create user" timestamp="2024-01-01T10:00:00">
+        <properties>
+            <property name="environment" value="local" />
+        </properties>
+        <testcase name="Status code should match" classname="Create user" time="0.25" />
+        <testcase name="Body should match" classname="Create user" time="0,5">
+            <failure message="Expected 'Tea'" type="AssertionException"><![CDATA[  at Test.cs:12  ]]></failure>
+            <system-out>Response body: {}</system-out>
+        </testcase>
+        <testsuite name="Nested">
+            <testcase name="Skipped test" time="0"><skipped message="Not ready" /></testcase>
+            <testcase name="Broken test" time="0.1"><error message="Timeout" /></testcase>
+        </testsuite>
+    </testsuite>
+</testsuites>`;
+
+suite('JUnitReportParser', () => {
+    test('parses a report with a <testsuites> root', async () => {
+        const report = await JUnitReportParser.parse(REPORT);
+
+        assert.deepStrictEqual(
+            { name: report.name, tests: report.tests, failures: report.failures, skipped: report.skipped, time: report.time },
+            { name: 'Users', tests: 4, failures: 1, skipped: 1, time: 1.5 }
+        );
+        assert.strictEqual(report.suites.length, 1);
+        assert.deepStrictEqual(report.suites[0].properties, [{ name: 'environment', value: 'local' }]);
+    });
+
+    test('parses the status, failure and output of test cases', async () => {
+        const [passed, failed] = (await JUnitReportParser.parse(REPORT)).suites[0].testCases;
+
+        assert.strictEqual(passed.status, 'passed');
+        assert.strictEqual(passed.time, 0.25);
+        assert.strictEqual(failed.status, 'failed');
+        assert.strictEqual(failed.time, 0.5);
+        assert.deepStrictEqual(failed.failure, { message: 'Expected \'Tea\'', type: 'AssertionException', details: 'at Test.cs:12' });
+        assert.strictEqual(failed.systemOut, 'Response body: {}');
+    });
+
+    test('derives missing counts from nested suites and test cases', async () => {
+        const suite = (await JUnitReportParser.parse(REPORT)).suites[0];
+
+        assert.deepStrictEqual(
+            { tests: suite.tests, failures: suite.failures, errors: suite.errors, skipped: suite.skipped },
+            { tests: 4, failures: 1, errors: 1, skipped: 1 }
+        );
+        assert.deepStrictEqual(suite.suites[0].testCases.map(testCase => [testCase.status, testCase.skipped, testCase.error?.message]), [
+            ['skipped', { message: 'Not ready' }, undefined],
+            ['error', undefined, 'Timeout']
+        ]);
+    });
+
+    test('flattens nested suites and collects their test cases', async () => {
+        const report = await JUnitReportParser.parse(REPORT);
+
+        assert.deepStrictEqual(JUnitReportParser.flattenSuites(report.suites).map(suite => suite.name), ['Create user', 'Nested']);
+        assert.strictEqual(JUnitReportParser.getAllTestCases(report.suites[0]).length, 4);
+    });
+
+    test('parses a report with a single <testsuite> root', async () => {
+        const report = await JUnitReportParser.parse('<testsuite name="Health"><testcase name="Up" time="0.1" /></testsuite>');
+
+        assert.strictEqual(report.name, 'Health');
+        assert.strictEqual(report.tests, 1);
+        assert.strictEqual(report.suites[0].testCases[0].name, 'Up');
+    });
+
+    test('rejects documents without a test suite root', async () => {
+        await assert.rejects(JUnitReportParser.parse('<results />'), /missing <testsuites> or <testsuite> root element/);
+    });
+});
@@ -0,0 +1,154 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+import { PostmanImporter } from '../../modules/PostmanImporter';
+import { PostmanCollection, PostmanItem } from '../../modules/PostmanTypes';
+
+const SCHEMA = 'https://schema.getpostman.com/json/collection/v2.1.0/collection.json';
+
+function createCollection(item: PostmanItem[], overrides: Partial<PostmanCollection> = {}): PostmanCollection {
+    return { info: { name: 'Users API', schema: SCHEMA }, item, ...overrides };
+}
+
+suite('PostmanImporter', () => {
+    let targetDir: string;
+
+    setup(async () => {
+        targetDir = await fs.mkdtemp(path.join(os.tmpdir(), 'teapie-postman-'));
+    });
+
+    teardown(async () => {
+        await fs.rm(targetDir, { recursive: true, force: true });
+    });
+
+    const readFile = (...segments: string[]) => fs.readFile(path.join(targetDir, 'Users API', ...segments), 'utf8');
+
+    test('tells collections and environments apart', () => {
+        assert.ok(PostmanImporter.isCollection(createCollection([])));
+        assert.ok(!PostmanImporter.isCollection({ name: 'Dev', values: [] }));
+        assert.ok(PostmanImporter.isEnvironment({ name: 'Dev', values: [] }));
+        assert.ok(!PostmanImporter.isEnvironment(createCollection([])));
+    });
+
+    test('converts variables, leaving out disabled ones', () => {
+        const variables = PostmanImporter.toEnvironmentVariables([
+            { key: 'baseUrl', value: 'https://example.com' },
+            { key: 'retries', value: 3 },
+            { key: 'verbose', value: true },
+            { key: 'empty' },
+            { key: 'old', value: 'x', disabled: true }
+        ]);
+
+        assert.deepStrictEqual(variables, { baseUrl: 'https://example.com', retries: 3, verbose: true, empty: '' });
+    });
+
+    test('rejects collections that are not v2.1', async () => {
+        const collection = createCollection([], {
+            info: { name: 'Old', schema: 'https://schema.getpostman.com/json/collection/v2.0.0/collection.json' }
+        });
+
+        await assert.rejects(PostmanImporter.importCollection(collection, targetDir), /Only Postman Collection v2\.1/);
+    });
+
+    test('writes numbered test cases mirroring the folder hierarchy', async () => {
+        const collection = createCollection([
+            {
+                name: 'Users',
+                item: [
+                    { name: 'List users', request: { method: 'get', url: { raw: '{{baseUrl}}/users' } } },
+                    { name: 'Get user', request: '{{baseUrl}}/users/1' }
+                ]
+            },
+            { name: 'Health', request: { method: 'GET', url: 'https://example.com/health' } }
+        ]);
+
+        const result = await PostmanImporter.importCollection(collection, targetDir);
+
+        assert.strictEqual(result.requests, 3);
+        assert.deepStrictEqual(
+            result.files.map(file => path.relative(path.join(targetDir, 'Users API'), file)),
+            [
+                path.join('1. Users', '1. List users-req.http'),
+                path.join('1. Users', '2. Get user-req.http'),
+                '2. Health-req.http'
+            ]
+        );
+        assert.strictEqual(await readFile('1. Users', '1. List users-req.http'), '# @name ListUsers\nGET {{baseUrl}}/users\n');
+    });
+
+    test('adds inherited auth and the content type of the body', async () => {
+        const collection = createCollection([
+            {
+                name: 'Create user',
+                request: {
+                    method: 'POST',
+                    url: 'https://example.com/users',
+                    header: [{ key: 'X-Debug', value: '1', disabled: true }],
+                    body: { mode: 'raw', raw: '{"name":"Tea"}', options: { raw: { language: 'json' } } }
+                }
+            }
+        ], { auth: { type: 'bearer', bearer: [{ key: 'token', value: '{{token}}' }] } });
+
+        await PostmanImporter.importCollection(collection, targetDir);
+
+        assert.strictEqual(
+            await readFile('1. Create user-req.http'),
+            '# @name CreateUser\nPOST https://example.com/users\nAuthorization: Bearer {{token}}\nContent-Type: application/json\n\n{"name":"Tea"}\n'
+        );
+    });
+
+    test('translates status checks and keeps other test code as comments', async () => {
+        const collection = createCollection([
+            {
+                name: 'Get user',
+                request: { method: 'GET', url: 'https://example.com/users/1' },
+                event: [{
+                    listen: 'test',
+                    script: {
+                        exec: [
+                            'pm.test("Status is 200", function () {',
+                            '    pm.response.to.have.status(200);',
+                            '});',
+                            'pm.test("Has name", () => {',
+                            '    pm.expect(pm.response.json().name).to.eql("Tea");',
+                            '});'
+                        ]
+                    }
+                }]
+            }
+        ]);
+
+        const result = await PostmanImporter.importCollection(collection, targetDir);
+
+        assert.strictEqual(result.translatedTests, 1);
+        assert.strictEqual(result.untranslatedTests, 1);
+        const script = await readFile('1. Get user-test.csx');
+        assert.ok(script.includes('tp.Test("Status is 200", () =>\n{\n    Equal(200, tp.Response.StatusCode());\n});'));
+        assert.ok(script.includes('// pm.test("Has name", () => {'));
+    });
+
+    test('warns about what was not imported', async () => {
+        const collection = createCollection([
+            {
+                name: 'Upload',
+                request: {
+                    method: 'POST',
+                    url: 'https://example.com/files',
+                    body: { mode: 'formdata', formdata: [{ key: 'file', type: 'file', src: 'a.png' }] },
+                    auth: { type: 'oauth2' }
+                },
+                event: [{ listen: 'prerequest', script: { exec: ['pm.variables.set("a", 1);'] } }]
+            }
+        ]);
+
+        const result = await PostmanImporter.importCollection(collection, targetDir);
+
+        assert.deepStrictEqual(result.warnings, [
+            'oauth2 auth of "Upload" was not imported, consider an AUTH-PROVIDER directive',
+            'File fields of "Upload" were not imported',
+            'Pre-request script of "Upload" was not imported'
+        ]);
+    });
+});
@@ -0,0 +1,93 @@
+import * as assert from 'assert';
+
+import { HttpRequestResult, HttpRequestResults } from '../../modules/HttpRequestTypes';
+import { RunComparer } from '../../modules/RunComparer';
+
+function createResult(name: string, overrides: Partial<HttpRequestResult> = {}, response: Partial<NonNullable<HttpRequestResult['Response']>> = {}): HttpRequestResult {
+    return {
+        Name: name,
+        Status: 'Passed',
+        Duration: '100ms',
+        Response: { StatusCode: 200, StatusText: 'OK', Headers: {}, Body: '', Duration: '100ms', ...response },
+        ...overrides
+    };
+}
+
+function createResults(...requests: HttpRequestResult[]): HttpRequestResults {
+    return { RequestGroups: { RequestGroup: [{ Name: 'users', FilePath: 'users-req.http', Requests: requests, Status: 'Passed', Duration: '1s' }] } };
+}
+
+suite('RunComparer', () => {
+    test('reports no changes for identical runs', () => {
+        const run = createResults(createResult('GetUser', {}, { Body: '{"id":1}', Headers: { 'Content-Type': 'application/json' } }));
+
+        const comparison = RunComparer.compare(run, run);
+
+        assert.strictEqual(comparison.changedRequests, 0);
+        assert.strictEqual(comparison.flippedTests, 0);
+        assert.strictEqual(comparison.requests[0].durationDelta, 0);
+    });
+
+    test('compares status, headers case-insensitively and JSON bodies structurally', () => {
+        const previous = createResults(createResult('GetUser', {}, {
+            Headers: { 'Content-Type': 'application/json', ETag: '"a"', 'X-Old': '1' },
+            Body: '{"id":1,"name":"Tea"}'
+        }));
+        const current = createResults(createResult('GetUser', { Status: 'Failed', Duration: '1.5s' }, {
+            StatusCode: 404,
+            Headers: { 'content-type': 'application/json', ETag: '"b"', 'X-New': '2' },
+            Body: '{"id":1,"name":"Pie"}'
+        }));
+
+        const [request] = RunComparer.compare(previous, current).requests;
+
+        assert.ok(request.statusChanged);
+        assert.deepStrictEqual(request.headerChanges, [
+            { name: 'ETag', kind: 'changed', before: '"a"', after: '"b"' },
+            { name: 'X-New', kind: 'added', after: '2' },
+            { name: 'X-Old', kind: 'removed', before: '1' }
+        ]);
+        assert.ok(request.body.structural);
+        assert.deepStrictEqual(request.body.changes.map(change => [change.path, change.kind]), [['$.name', 'changed']]);
+        assert.strictEqual(request.durationDelta, 1400);
+    });
+
+    test('compares bodies that are not JSON as text', () => {
+        const previous = createResults(createResult('Health', {}, { Body: 'OK\n' }));
+        const current = createResults(createResult('Health', {}, { Body: 'Degraded' }));
+
+        const [request] = RunComparer.compare(previous, current).requests;
+
+        assert.deepStrictEqual(request.body, { structural: false, changed: true, changes: [] });
+    });
+
+    test('lists tests whose outcome flipped', () => {
+        const previous = createResults(createResult('GetUser', {
+            Tests: [{ Name: 'Status', Passed: true }, { Name: 'Body', Passed: false }, { Name: 'Removed', Passed: true }]
+        }));
+        const current = createResults(createResult('GetUser', {
+            Tests: [{ Name: 'Status', Passed: false }, { Name: 'Body', Passed: false, Skipped: true }, { Name: 'Added', Passed: true }]
+        }));
+
+        const comparison = RunComparer.compare(previous, current);
+
+        assert.deepStrictEqual(comparison.requests[0].flippedTests, [
+            { name: 'Status', before: 'passed', after: 'failed' },
+            { name: 'Body', before: 'failed', after: 'skipped' }
+        ]);
+        assert.strictEqual(comparison.flippedTests, 2);
+    });
+
+    test('matches requests by name and reports added and removed ones', () => {
+        const previous = createResults(createResult('Login'), createResult('GetUser'), createResult('Logout'));
+        const current = createResults(createResult('GetUser'), createResult('Login'), createResult('DeleteUser'));
+
+        const comparison = RunComparer.compare(previous, current);
+
+        assert.deepStrictEqual(
+            comparison.requests.map(request => [request.name, !!request.previous, !!request.current]),
+            [['GetUser', true, true], ['Login', true, true], ['DeleteUser', false, true], ['Logout', true, false]]
+        );
+        assert.strictEqual(comparison.changedRequests, 2);
+    });
+});
@@ -0,0 +1,50 @@
+import * as assert from 'assert';
+import * as path from 'path';
+
+import { ScriptCompiler } from '../../modules/ScriptCompiler';
+
+suite('ScriptCompiler', () => {
+    const scriptPath = path.resolve('Tests', 'users-test.csx');
+
+    test('parses compiler messages into zero-based positions', () => {
+        const output = `${scriptPath}(3,5): error CS0103: The name 'x' does not exist in the current context`;
+
+        assert.deepStrictEqual(ScriptCompiler.parseOutput(output, scriptPath), [{
+            filePath: scriptPath,
+            line: 2,
+            character: 4,
+            severity: 'error',
+            code: 'CS0103',
+            message: 'The name \'x\' does not exist in the current context'
+        }]);
+    });
+
+    test('resolves relative paths next to the script and assigns messages without a path to it', () => {
+        const output = [
+            'helpers.csx(10,1,10,8): warning CS0168: The variable \'e\' is declared but never used',
+            '(1,1): error CS1002: ; expected'
+        ].join('\n');
+
+        const messages = ScriptCompiler.parseOutput(output, scriptPath);
+
+        assert.deepStrictEqual(messages.map(message => [message.filePath, message.line, message.severity]), [
+            [path.resolve('Tests', 'helpers.csx'), 9, 'warning'],
+            [scriptPath, 0, 'error']
+        ]);
+    });
+
+    test('skips log prefixes, colors and duplicate messages', () => {
+        const line = `[12:00:00 ERR] \u001b[31m${scriptPath}(3,5): error CS0103: The name 'x' does not exist\u001b[0m`;
+        const output = ['Compiling users-test.csx', line, line, 'Build failed'].join('\r\n');
+
+        const messages = ScriptCompiler.parseOutput(output, scriptPath);
+
+        assert.strictEqual(messages.length, 1);
+        assert.strictEqual(messages[0].filePath, scriptPath);
+        assert.strictEqual(messages[0].message, 'The name \'x\' does not exist');
+    });
+
+    test('returns no messages for output without diagnostics', () => {
+        assert.deepStrictEqual(ScriptCompiler.parseOutput('Script compiled successfully.\n', scriptPath), []);
+    });
+});
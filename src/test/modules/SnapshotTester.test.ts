@@ -0,0 +1,113 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+import { HttpRequestResult, HttpRequestResults } from '../../modules/HttpRequestTypes';
+import { SnapshotTester } from '../../modules/SnapshotTester';
+
+const HTTP_FILE = [
+    '# @name GetUser',
+    '## TEST-MATCH-SNAPSHOT: ["$.updatedAt"]',
+    'GET https://example.com/users/1',
+    '',
+    '###',
+    '# @name Health',
+    'GET https://example.com/health'
+].join('\n');
+
+function createResult(name: string, body: string | undefined): HttpRequestResult {
+    return {
+        Name: name,
+        Status: 'Passed',
+        Duration: '10ms',
+        Request: { Method: 'GET', Url: 'https://example.com', Headers: {} },
+        Response: body === undefined ? undefined : { StatusCode: 200, StatusText: 'OK', Headers: {}, Body: body, Duration: '10ms' }
+    };
+}
+
+function createResults(...requests: HttpRequestResult[]): HttpRequestResults {
+    return { RequestGroups: { RequestGroup: [{ Name: 'users', FilePath: 'users-req.http', Requests: requests, Status: 'Passed', Duration: '20ms' }] } };
+}
+
+suite('SnapshotTester', () => {
+    let directory: string;
+    let httpFilePath: string;
+    let snapshotFilePath: string;
+
+    setup(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), 'teapie-snapshot-'));
+        httpFilePath = path.join(directory, 'users-req.http');
+        snapshotFilePath = SnapshotTester.getSnapshotFilePath(httpFilePath);
+        await fs.writeFile(httpFilePath, HTTP_FILE);
+    });
+
+    teardown(async () => {
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    const readSnapshots = async () => JSON.parse(await fs.readFile(snapshotFilePath, 'utf8'));
+
+    test('stores the snapshot next to the request file', () => {
+        assert.strictEqual(snapshotFilePath, path.join(directory, 'users-snapshot.json'));
+        assert.strictEqual(SnapshotTester.getSnapshotFilePath(path.join('a', 'health.http')), path.join('a', 'health-snapshot.json'));
+    });
+
+    test('creates a missing snapshot from the response', async () => {
+        const results = createResults(createResult('GetUser', '{"id":1,"updatedAt":"today"}'), createResult('Health', 'OK'));
+
+        await SnapshotTester.apply(results, httpFilePath, snapshotFilePath);
+
+        const [user, health] = results.RequestGroups.RequestGroup[0].Requests;
+        assert.strictEqual(user.Snapshot?.status, 'created');
+        assert.deepStrictEqual(user.Tests, [{ Name: 'TEST-MATCH-SNAPSHOT', Passed: true, Message: 'Snapshot created in users-snapshot.json' }]);
+        assert.strictEqual(health.Snapshot, undefined);
+        assert.deepStrictEqual(await readSnapshots(), { GetUser: { id: 1, updatedAt: 'today' } });
+    });
+
+    test('ignores changes at the ignore paths and fails on others', async () => {
+        await fs.writeFile(snapshotFilePath, JSON.stringify({ GetUser: { id: 1, updatedAt: 'yesterday' } }));
+
+        const matching = createResults(createResult('GetUser', '{"id":1,"updatedAt":"today"}'));
+        await SnapshotTester.apply(matching, httpFilePath, snapshotFilePath);
+        assert.strictEqual(matching.RequestGroups.RequestGroup[0].Requests[0].Snapshot?.status, 'matched');
+
+        const changed = createResults(createResult('GetUser', '{"id":2,"updatedAt":"today"}'));
+        await SnapshotTester.apply(changed, httpFilePath, snapshotFilePath);
+        const group = changed.RequestGroups.RequestGroup[0];
+        assert.strictEqual(group.Requests[0].Snapshot?.status, 'mismatched');
+        assert.deepStrictEqual(group.Requests[0].Snapshot?.changes.map(change => change.path), ['$.id']);
+        assert.strictEqual(group.Requests[0].Status, 'Failed');
+        assert.strictEqual(group.Status, 'Failed');
+    });
+
+    test('matches results by request name before their position', async () => {
+        const results = createResults(createResult('Health', 'OK'), createResult('GetUser', '{"id":1}'));
+
+        await SnapshotTester.apply(results, httpFilePath, snapshotFilePath);
+
+        const [health, user] = results.RequestGroups.RequestGroup[0].Requests;
+        assert.strictEqual(health.Snapshot, undefined);
+        assert.strictEqual(user.Snapshot?.key, 'GetUser');
+    });
+
+    test('reports a request without a response body', async () => {
+        const results = createResults(createResult('GetUser', undefined));
+
+        await SnapshotTester.apply(results, httpFilePath, snapshotFilePath);
+
+        const user = results.RequestGroups.RequestGroup[0].Requests[0];
+        assert.strictEqual(user.Snapshot?.status, 'noResponse');
+        assert.strictEqual(user.Tests?.[0].Passed, false);
+    });
+
+    test('accepts the response of a mismatched run as the new snapshot', async () => {
+        await fs.writeFile(snapshotFilePath, JSON.stringify({ GetUser: { id: 1 }, Other: 'kept' }));
+        const results = createResults(createResult('GetUser', '{"id":2}'));
+        await SnapshotTester.apply(results, httpFilePath, snapshotFilePath);
+
+        await SnapshotTester.accept(results.RequestGroups.RequestGroup[0].Requests[0].Snapshot!);
+
+        assert.deepStrictEqual(await readSnapshots(), { GetUser: { id: 2 }, Other: 'kept' });
+    });
+});
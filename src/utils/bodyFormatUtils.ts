@@ -0,0 +1,83 @@
+/**
+ * Pretty-printers for request bodies that keep {{variable}} placeholders and the original literals
+ */
+
+const XML_TOKEN_PATTERN = /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<[!?][^>]*>|<\/?[^\s<>"'\/]+(?:[^<>"']|"[^"]*"|'[^']*')*\/?>|[^<]+/g;
+
+/**
+ * Re-indents a JSON body token by token, so numbers, escapes and unquoted placeholders such as
+ * "id": {{id}} are kept as written. Returns undefined when the brackets do not balance.
+ */
+export function formatJson(text: string, indent: string): string | undefined {
+    const tokens = text.match(/"(?:[^"\\]|\\.)*"|\{\{[^{}]*\}\}|[{}[\],:]|[^\s{}[\],:"]+/g);
+    if (!tokens || !/^[{[]$/.test(tokens[0])) {
+        return undefined;
+    }
+
+    const stack: string[] = [];
+    let output = '';
+    const newLine = () => `\n${indent.repeat(stack.length)}`;
+    for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i];
+        if (stack.length === 0 && i > 0) {
+            // Text after the closing bracket is not JSON
+            return undefined;
+        }
+        if (token === '{' || token === '[') {
+            const close = token === '{' ? '}' : ']';
+            if (tokens[i + 1] === close) {
+                output += token + close;
+                i++;
+                continue;
+            }
+            stack.push(close);
+            output += token + newLine();
+        } else if (token === '}' || token === ']') {
+            if (stack.pop() !== token) {
+                return undefined;
+            }
+            output += newLine() + token;
+        } else if (token === ',') {
+            output += token + newLine();
+        } else if (token === ':') {
+            output += ': ';
+        } else {
+            output += token;
+        }
+    }
+    return stack.length === 0 ? output : undefined;
+}
+
+/**
+ * Indents nested XML elements, keeping elements with only text on one line.
+ * Returns undefined when the tags do not balance.
+ */
+export function formatXml(text: string, indent: string): string | undefined {
+    const tokens = (text.match(XML_TOKEN_PATTERN) ?? []).map(token => token.trim()).filter(token => token);
+    if (!tokens.length || !tokens[0].startsWith('<')) {
+        return undefined;
+    }
+
+    const lines: string[] = [];
+    let level = 0;
+    const isOpening = (token: string) => /^<[^!?\/]/.test(token) && !token.endsWith('/>');
+    for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i];
+        if (token.startsWith('</')) {
+            level--;
+            if (level < 0) {
+                return undefined;
+            }
+            lines.push(indent.repeat(level) + token);
+        } else if (isOpening(token) && !tokens[i + 1]?.startsWith('<') && tokens[i + 2]?.startsWith('</')) {
+            lines.push(indent.repeat(level) + token + tokens[i + 1] + tokens[i + 2]);
+            i += 2;
+        } else {
+            lines.push(indent.repeat(level) + token);
+            if (isOpening(token)) {
+                level++;
+            }
+        }
+    }
+    return level === 0 ? lines.join('\n') : undefined;
+}
@@ -0,0 +1,166 @@
+/**
+ * Helpers for reading C# member access chains and calls in the text before the cursor of .csx scripts
+ */
+
+import { CsxChainSegment, CsxOpenCall } from '../modules/CsxTypes';
+
+const BRACKETS: { [close: string]: string } = { ')': '(', ']': '[', '>': '<', '}': '{' };
+
+/**
+ * Parses the member access chain that ends at the end of the text, such as tp.Responses["Login"].Headers
+ * or tp.GetVariable<string>("id"). Returns undefined when the text does not end with an identifier, call or index.
+ */
+export function parseMemberChain(text: string): CsxChainSegment[] | undefined {
+    const segments: CsxChainSegment[] = [];
+    let position = skipWhitespaceBackward(text, text.length);
+
+    while (true) {
+        let indexCount = 0;
+        let isCall = false;
+        let typeArguments: string[] = [];
+
+        while (text[position - 1] === ']') {
+            const open = findOpeningBracket(text, position - 1);
+            if (open < 0) {
+                return undefined;
+            }
+            indexCount++;
+            position = skipWhitespaceBackward(text, open);
+        }
+        if (text[position - 1] === ')') {
+            const open = findOpeningBracket(text, position - 1);
+            if (open < 0) {
+                return undefined;
+            }
+            isCall = true;
+            position = skipWhitespaceBackward(text, open);
+        }
+        if (text[position - 1] === '>') {
+            const open = findOpeningBracket(text, position - 1);
+            if (open < 0) {
+                return undefined;
+            }
+            typeArguments = splitTopLevel(text.slice(open + 1, position - 1));
+            position = open;
+        }
+
+        const identifier = text.slice(0, position).match(/[A-Za-z_]\w*$/);
+        if (!identifier) {
+            return undefined;
+        }
+        segments.unshift({ name: identifier[0], typeArguments, isCall, indexCount });
+        position = skipWhitespaceBackward(text, position - identifier[0].length);
+
+        if (text[position - 1] !== '.') {
+            return segments;
+        }
+        position--;
+        // The null-conditional and null-forgiving operators do not change which members are available
+        if (text[position - 1] === '?' || text[position - 1] === '!') {
+            position--;
+        }
+        position = skipWhitespaceBackward(text, position);
+    }
+}
+
+/**
+ * Returns the innermost call whose argument list is still open at the end of the text.
+ * Strings, characters and comments are skipped, an open lambda body or initializer ends the search.
+ */
+export function findOpenCall(text: string): CsxOpenCall | undefined {
+    const stack: { bracket: string; offset: number; commas: number }[] = [];
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (char === '/' && text[i + 1] === '/') {
+            const end = text.indexOf('\n', i);
+            i = end < 0 ? text.length : end;
+        } else if (char === '/' && text[i + 1] === '*') {
+            const end = text.indexOf('*/', i + 2);
+            i = end < 0 ? text.length : end + 1;
+        } else if (char === '"' || char === '\'') {
+            i = skipLiteral(text, i, char === '"' && text[i - 1] === '@');
+        } else if (char === '(' || char === '[' || char === '{') {
+            stack.push({ bracket: char, offset: i, commas: 0 });
+        } else if (char === ')' || char === ']' || char === '}') {
+            stack.pop();
+        } else if (char === ',' && stack.length) {
+            stack[stack.length - 1].commas++;
+        }
+    }
+
+    const innermost = stack[stack.length - 1];
+    return innermost?.bracket === '(' ? { offset: innermost.offset, argumentIndex: innermost.commas } : undefined;
+}
+
+/**
+ * Splits a comma separated list such as type arguments, ignoring commas inside nested brackets
+ */
+export function splitTopLevel(text: string): string[] {
+    const items: string[] = [];
+    let depth = 0;
+    let start = 0;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if ('<({['.includes(char)) {
+            depth++;
+        } else if ('>)}]'.includes(char)) {
+            depth--;
+        } else if (char === ',' && depth === 0) {
+            items.push(text.slice(start, i).trim());
+            start = i + 1;
+        }
+    }
+    const last = text.slice(start).trim();
+    return last || items.length ? [...items, last] : items;
+}
+
+function skipWhitespaceBackward(text: string, position: number): number {
+    while (position > 0 && /\s/.test(text[position - 1])) {
+        position--;
+    }
+    return position;
+}
+
+/**
+ * Returns the offset of the bracket that opens the one at the given offset, skipping string literals
+ */
+function findOpeningBracket(text: string, closeOffset: number): number {
+    const close = text[closeOffset];
+    const open = BRACKETS[close];
+    let depth = 0;
+    for (let i = closeOffset; i >= 0; i--) {
+        const char = text[i];
+        if (char === '"') {
+            i = text.lastIndexOf('"', i - 1);
+            while (i > 0 && text[i - 1] === '\\') {
+                i = text.lastIndexOf('"', i - 2);
+            }
+            if (i < 0) {
+                return -1;
+            }
+        } else if (char === close) {
+            depth++;
+        } else if (char === open && --depth === 0) {
+            return i;
+        }
+    }
+    return -1;
+}
+
+/**
+ * Returns the offset of the quote that ends the literal starting at the given offset, or the end of the text
+ */
+function skipLiteral(text: string, start: number, verbatim: boolean): number {
+    const quote = text[start];
+    for (let i = start + 1; i < text.length; i++) {
+        if (verbatim && text[i] === '"' && text[i + 1] === '"') {
+            i++;
+        } else if (!verbatim && text[i] === '\\') {
+            i++;
+        } else if (text[i] === quote) {
+            return i;
+        }
+    }
+    return text.length;
+}
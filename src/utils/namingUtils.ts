@@ -0,0 +1,19 @@
+/**
+ * Naming helpers for generating test case files from imported requests
+ */
+
+/**
+ * Removes characters that are not allowed in file names
+ */
+export function toSafeFileName(name: string): string {
+    return name.replace(/[<>:"/\\|?*\u0000-\u001f]/g, '').replace(/\s+/g, ' ').trim().replace(/^\.+|\.+$/g, '');
+}
+
+/**
+ * Converts a display name to a PascalCase request name that can be referenced from variables
+ */
+export function toRequestName(name: string): string {
+    const words = name.split(/[^A-Za-z0-9]+/).filter(Boolean);
+    const requestName = words.map(word => word.charAt(0).toUpperCase() + word.slice(1)).join('');
+    return /^\d/.test(requestName) ? `Request${requestName}` : requestName || 'Request';
+}
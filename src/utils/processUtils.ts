@@ -0,0 +1,29 @@
+/**
+ * Helpers for stopping the processes the TeaPie CLI starts
+ */
+
+import { ChildProcess, spawn } from 'child_process';
+
+/**
+ * Stops a process with all processes it started, e.g. the TeaPie tool that dotnet tool run starts.
+ * Outside Windows the process must be spawned detached so that it leads its own process group.
+ */
+export function killProcessTree(child: ChildProcess, log?: (message: string) => void): void {
+    if (!child.pid || child.exitCode !== null) {
+        return;
+    }
+    try {
+        if (process.platform === 'win32') {
+            // spawn reports a missing taskkill asynchronously, without the handler it would be an uncaught error
+            spawn('taskkill', ['/pid', String(child.pid), '/T', '/F']).on('error', error => {
+                log?.(`Failed to kill process tree: ${error}`);
+                child.kill();
+            });
+        } else {
+            process.kill(-child.pid, 'SIGTERM');
+        }
+    } catch (error) {
+        log?.(`Failed to kill process tree: ${error}`);
+        child.kill();
+    }
+}
@@ -0,0 +1,15 @@
+/**
+ * Conversions between source ranges of the .http document model and VS Code ranges
+ */
+
+import * as vscode from 'vscode';
+
+import { HttpSourceRange } from '../modules/HttpDocumentTypes';
+
+export function toRange(range: HttpSourceRange): vscode.Range {
+    return new vscode.Range(range.startLine, range.startCharacter, range.endLine, range.endCharacter);
+}
+
+export function containsPosition(range: HttpSourceRange, position: vscode.Position): boolean {
+    return toRange(range).contains(position);
+}
@@ -0,0 +1,22 @@
+/**
+ * Helpers for hiding secret values, e.g. tokens and passwords, in the editor
+ */
+
+const SECRET_NAME_PATTERN = /(pass(word|wd)?|secret|token|api[-_]?key|credential|private[-_]?key|auth)/i;
+/** JSON Web Tokens and Bearer or Basic credentials */
+const SECRET_VALUE_PATTERN = /^(eyJ[\w-]+\.[\w-]+\.[\w-]*|(Bearer|Basic)\s+\S+)$/;
+
+/**
+ * Returns whether a variable looks like it holds a secret, judging by its name or value
+ */
+export function isSecret(name: string, value: string): boolean {
+    return SECRET_NAME_PATTERN.test(name) || SECRET_VALUE_PATTERN.test(value.trim());
+}
+
+/**
+ * Replaces all but the first characters of a value, so it can still be told apart from other values
+ */
+export function maskSecret(value: string): string {
+    const visible = value.length > 12 ? 3 : 0;
+    return `${value.slice(0, visible)}${'•'.repeat(8)}`;
+}
@@ -0,0 +1,35 @@
+/**
+ * String helpers for suggestions of misspelled names
+ */
+
+/**
+ * Returns the number of single-character edits that turn one string into the other
+ */
+export function getEditDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+            current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+/**
+ * Returns the candidate closest to the value, ignoring case, or undefined when none is close enough
+ */
+export function getClosestMatch(value: string, candidates: readonly string[], maxDistance = 3): string | undefined {
+    let closest: string | undefined;
+    let closestDistance = maxDistance + 1;
+    for (const candidate of candidates) {
+        const distance = getEditDistance(value.toLowerCase(), candidate.toLowerCase());
+        if (distance < closestDistance) {
+            closest = candidate;
+            closestDistance = distance;
+        }
+    }
+    return closest;
+}
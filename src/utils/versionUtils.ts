@@ -0,0 +1,38 @@
+/**
+ * Helpers for comparing package and SDK versions such as 1.2.0 or 9.0.100-preview.1
+ */
+
+const VERSION_PATTERN = /^\d+(\.\d+)*(-[\w.-]+)?$/;
+
+/**
+ * Returns the highest version, releases rank above pre-releases of the same version. Names that are not versions are ignored.
+ */
+export function getLatestVersion(names: string[]): string | undefined {
+    const versions = names.filter(name => VERSION_PATTERN.test(name));
+    return versions.sort((a, b) => compareVersions(b, a))[0];
+}
+
+export function compareVersions(a: string, b: string): number {
+    const [aRelease, aPre] = splitPreRelease(a);
+    const [bRelease, bPre] = splitPreRelease(b);
+    const aParts = aRelease.split('.').map(Number);
+    const bParts = bRelease.split('.').map(Number);
+    for (let i = 0; i < Math.max(aParts.length, bParts.length); i++) {
+        const difference = (aParts[i] ?? 0) - (bParts[i] ?? 0);
+        if (difference) {
+            return difference;
+        }
+    }
+    if (aPre === bPre) {
+        return 0;
+    }
+    if (!aPre || !bPre) {
+        return aPre ? -1 : 1;
+    }
+    return aPre.localeCompare(bPre, undefined, { numeric: true });
+}
+
+function splitPreRelease(version: string): [string, string | undefined] {
+    const index = version.indexOf('-');
+    return index < 0 ? [version, undefined] : [version.slice(0, index), version.slice(index + 1)];
+}
@@ -0,0 +1,53 @@
+/**
+ * Helpers for finding and reading TeaPie files across the workspace
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+/** Request files and scripts */
+export const SOURCE_GLOB = '**/*.{http,csx}';
+export const SCRIPT_GLOB = '**/*.csx';
+/** Scripts that TeaPie runs, other .csx files are only used through the #load of one of them */
+export const TEST_CASE_SCRIPT_GLOB = '**/*-{init,test}.csx';
+export const ENVIRONMENT_GLOB = '**/.teapie/env.json';
+/**
+ * Files under .teapie are left out, e.g. cached variables and the request copies of single request runs in .teapie/temp.
+ * Lookups of env.json do not pass it.
+ */
+export const EXCLUDE_GLOB = '**/{node_modules,.teapie}/**';
+
+/**
+ * Reads a file, preferring its open document so unsaved edits are included
+ */
+export async function readWorkspaceFile(uri: vscode.Uri): Promise<string | undefined> {
+    const openDocument = vscode.workspace.textDocuments.find(document => document.uri.toString() === uri.toString());
+    if (openDocument) {
+        return openDocument.getText();
+    }
+    try {
+        return await fs.readFile(uri.fsPath, 'utf8');
+    } catch {
+        return undefined;
+    }
+}
+
+/** The files of a test case, which share the name before their suffix */
+export interface TestCaseFiles {
+    requestFile: string;
+    initScript: string;
+    testScript: string;
+}
+
+/**
+ * Returns the sibling files of a -req.http, -init.csx or -test.csx file, or undefined for other files
+ */
+export function getTestCaseFiles(filePath: string): TestCaseFiles | undefined {
+    const match = path.basename(filePath).match(/^(.+)-(req\.http|init\.csx|test\.csx)$/);
+    if (!match) {
+        return undefined;
+    }
+    const base = path.join(path.dirname(filePath), match[1]);
+    return { requestFile: `${base}-req.http`, initScript: `${base}-init.csx`, testScript: `${base}-test.csx` };
+}